@@ -0,0 +1,22 @@
+// ============================================================
+//  EcoFin — Configuração do ESLint (flat config)
+//  Arquivo: eslint.config.js
+// ============================================================
+import js from '@eslint/js';
+import globals from 'globals';
+
+export default [
+  js.configs.recommended,
+  {
+    languageOptions: {
+      ecmaVersion: 2023,
+      sourceType:  'module',
+      globals:     globals.node,
+    },
+    rules: {
+      // `next` fica na assinatura dos handlers de erro do Express, e o
+      // rest de um destructuring serve para descartar campos
+      'no-unused-vars': ['error', { args: 'none', caughtErrors: 'none', ignoreRestSiblings: true }],
+    },
+  },
+];
@@ -0,0 +1,708 @@
+// ============================================================
+//  EcoFin — Migração 001: schema inicial
+//  Arquivo: migrations/001-initial-schema.js
+// ============================================================
+// O schema como o initDB() deixava antes das migrações numeradas,
+// incluindo as atualizações de bancos mais antigos (ensureColumn,
+// categorias ENUM). Tudo é idempotente: num banco criado pelo
+// initDB() a migração só é registrada, sem mudar nada.
+//
+// Migrações não importam constantes do server.js: os valores
+// ficam congelados como eram quando a migração foi escrita.
+
+import { hasColumn, ensureColumn } from './index.js';
+
+// As oito categorias do antigo ENUM, com as cores e ícones que
+// ganharam ao virar linhas da tabela categories.
+const ENUM_CATEGORIES = [
+  { name: 'Alimentação',  color: '#10b981', icon: 'shopping-cart' },
+  { name: 'Transporte',   color: '#3b82f6', icon: 'truck' },
+  { name: 'Moradia',      color: '#f59e0b', icon: 'home' },
+  { name: 'Contas Fixas', color: '#ef4444', icon: 'bolt' },
+  { name: 'Lazer',        color: '#8b5cf6', icon: 'film' },
+  { name: 'Saúde',        color: '#ec4899', icon: 'heart' },
+  { name: 'Educação',     color: '#06b6d4', icon: 'academic-cap' },
+  { name: 'Outros',       color: '#64748b', icon: 'tag' },
+];
+
+// ─── Migração: ENUM category → category_id ──────────────────
+// Para cada tabela que ainda tem a coluna ENUM, garante as
+// categorias padrão de cada família, preenche category_id pelo
+// nome e remove a coluna antiga.
+async function migrateEnumCategories(conn) {
+  for (const table of ['recurring_rules', 'expenses', 'budgets']) {
+    if (!(await hasColumn(conn, table, 'category'))) continue;
+
+    const [households] = await conn.execute(`SELECT DISTINCT household_id FROM ${table}`);
+    for (const { household_id } of households) {
+      for (const c of ENUM_CATEGORIES) {
+        await conn.execute(
+          `INSERT INTO categories (household_id, name, color, icon)
+           SELECT ?, ?, ?, ? FROM DUAL
+           WHERE NOT EXISTS (
+             SELECT 1 FROM categories WHERE household_id <=> ? AND name = ?
+           )`,
+          [household_id, c.name, c.color, c.icon, household_id, c.name]
+        );
+      }
+    }
+
+    await conn.execute(`
+      UPDATE ${table} t
+      JOIN categories c
+        ON c.name = t.category AND c.household_id <=> t.household_id AND c.parent_id IS NULL
+      SET t.category_id = c.id
+      WHERE t.category_id IS NULL
+    `);
+
+    if (table === 'budgets') {
+      await conn.execute(`
+        ALTER TABLE budgets
+          DROP INDEX uq_budget_household_category,
+          ADD UNIQUE KEY uq_budget_household_category (household_id, category_id)
+      `);
+    }
+    await conn.execute(`
+      ALTER TABLE ${table}
+        DROP COLUMN category,
+        MODIFY category_id INT UNSIGNED NOT NULL
+    `);
+    console.log(`🔄  ${table}: categorias migradas para category_id.`);
+  }
+}
+
+export async function up(conn) {
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS households (
+      id          VARCHAR(36)    NOT NULL PRIMARY KEY,
+      name        VARCHAR(120)   NOT NULL,
+      invite_code VARCHAR(12)    NOT NULL UNIQUE,
+      created_at  TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at  TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS users (
+      id            VARCHAR(36)  NOT NULL PRIMARY KEY,
+      household_id  VARCHAR(36)  NOT NULL,
+      name          VARCHAR(120) NOT NULL,
+      email         VARCHAR(255) NOT NULL UNIQUE,
+      password_hash VARCHAR(255) NOT NULL,
+      created_at    TIMESTAMP    NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at    TIMESTAMP    NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      CONSTRAINT fk_user_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS categories (
+      id           INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id VARCHAR(36)  NULL,
+      parent_id    INT UNSIGNED NULL,
+      name         VARCHAR(60)  NOT NULL,
+      color        CHAR(7)      NOT NULL DEFAULT '#64748b',
+      icon         VARCHAR(40)  NOT NULL DEFAULT 'tag',
+      archived     TINYINT(1)   NOT NULL DEFAULT 0,
+      version      INT UNSIGNED NOT NULL DEFAULT 1,
+      created_at   TIMESTAMP    NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at   TIMESTAMP    NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_category_household_name (household_id, name),
+      INDEX idx_categories_household_updated (household_id, updated_at),
+      CONSTRAINT fk_category_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_category_parent FOREIGN KEY (parent_id)
+        REFERENCES categories (id) ON DELETE RESTRICT
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // Contas (corrente, dinheiro) e cartões de crédito; cartões
+  // têm dia de fechamento e de vencimento da fatura.
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS accounts (
+      id              INT UNSIGNED     NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id    VARCHAR(36)      NOT NULL,
+      name            VARCHAR(60)      NOT NULL,
+      type            ENUM('checking','cash','credit_card') NOT NULL,
+      opening_balance DECIMAL(12,2)    NOT NULL DEFAULT 0,
+      credit_limit    DECIMAL(12,2)    NULL,
+      closing_day     TINYINT UNSIGNED NULL CHECK (closing_day BETWEEN 1 AND 31),
+      due_day         TINYINT UNSIGNED NULL CHECK (due_day BETWEEN 1 AND 31),
+      archived        TINYINT(1)       NOT NULL DEFAULT 0,
+      version         INT UNSIGNED     NOT NULL DEFAULT 1,
+      created_at      TIMESTAMP        NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at      TIMESTAMP        NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_account_household_name (household_id, name),
+      CONSTRAINT fk_account_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // Compras parceladas: cada parcela é uma despesa ligada ao
+  // plano por installment_plan_id / installment_number.
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS installment_plans (
+      id             VARCHAR(36)    NOT NULL PRIMARY KEY,
+      household_id   VARCHAR(36)    NOT NULL,
+      created_by     VARCHAR(36)    NULL,
+      description    VARCHAR(240)   NOT NULL,
+      total_amount   DECIMAL(12,2)  NOT NULL CHECK (total_amount > 0),
+      installments   SMALLINT UNSIGNED NOT NULL CHECK (installments BETWEEN 2 AND 72),
+      category_id    INT UNSIGNED   NOT NULL,
+      account_id     INT UNSIGNED   NULL,
+      payment_method ENUM('pix','debit','credit','cash','transfer','boleto') NULL,
+      first_date     DATE           NOT NULL,
+      cancelled_at   TIMESTAMP      NULL DEFAULT NULL,
+      version        INT UNSIGNED   NOT NULL DEFAULT 1,
+      created_at     TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at     TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_installment_plans_household_updated (household_id, updated_at),
+      CONSTRAINT fk_plan_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_plan_user FOREIGN KEY (created_by)
+        REFERENCES users (id) ON DELETE SET NULL,
+      CONSTRAINT fk_plan_category FOREIGN KEY (category_id)
+        REFERENCES categories (id),
+      CONSTRAINT fk_plan_account FOREIGN KEY (account_id)
+        REFERENCES accounts (id) ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS recurring_rules (
+      id             VARCHAR(36)    NOT NULL PRIMARY KEY,
+      household_id   VARCHAR(36)    NULL,
+      created_by     VARCHAR(36)    NULL,
+      description    VARCHAR(255)   NOT NULL,
+      amount         DECIMAL(10,2)  NOT NULL CHECK (amount > 0),
+      category_id    INT UNSIGNED   NOT NULL,
+      frequency      ENUM('weekly','monthly','yearly') NOT NULL DEFAULT 'monthly',
+      day_of_month   TINYINT UNSIGNED NULL CHECK (day_of_month BETWEEN 1 AND 31),
+      start_date     DATE           NOT NULL,
+      end_date       DATE           NULL,
+      last_generated DATE           NULL,
+      version        INT UNSIGNED   NOT NULL DEFAULT 1,
+      created_at     TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at     TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_recurring_household (household_id),
+      INDEX idx_recurring_rules_household_updated (household_id, updated_at),
+      CONSTRAINT fk_recurring_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_recurring_user FOREIGN KEY (created_by)
+        REFERENCES users (id) ON DELETE SET NULL,
+      CONSTRAINT fk_recurring_category FOREIGN KEY (category_id)
+        REFERENCES categories (id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  await ensureColumn(conn, 'recurring_rules', 'household_id', `
+    ALTER TABLE recurring_rules
+      ADD COLUMN household_id VARCHAR(36) NULL AFTER id,
+      ADD COLUMN created_by   VARCHAR(36) NULL AFTER household_id,
+      ADD INDEX idx_recurring_household (household_id),
+      ADD CONSTRAINT fk_recurring_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      ADD CONSTRAINT fk_recurring_user FOREIGN KEY (created_by)
+        REFERENCES users (id) ON DELETE SET NULL
+  `);
+
+  await ensureColumn(conn, 'recurring_rules', 'category_id', `
+    ALTER TABLE recurring_rules
+      ADD COLUMN category_id INT UNSIGNED NULL AFTER amount,
+      ADD CONSTRAINT fk_recurring_category FOREIGN KEY (category_id)
+        REFERENCES categories (id)
+  `);
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS expenses (
+      id          VARCHAR(36)    NOT NULL PRIMARY KEY,
+      household_id VARCHAR(36)   NULL,
+      created_by  VARCHAR(36)    NULL,
+      description VARCHAR(255)   NOT NULL,
+      amount      DECIMAL(10,2)  NOT NULL CHECK (amount > 0),
+      category_id INT UNSIGNED   NOT NULL,
+      account_id  INT UNSIGNED   NULL,
+      payment_method ENUM('pix','debit','credit','cash','transfer','boleto') NULL,
+      statement_month CHAR(7)    NULL,
+      date        DATE           NOT NULL,
+      isRecurring TINYINT(1)     NOT NULL DEFAULT 0,
+      recurring_rule_id VARCHAR(36) NULL,
+      installment_plan_id VARCHAR(36) NULL,
+      installment_number  SMALLINT UNSIGNED NULL,
+      version     INT UNSIGNED   NOT NULL DEFAULT 1,
+      created_at  TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at  TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_category_id (category_id),
+      INDEX idx_expenses_household_updated (household_id, updated_at),
+      INDEX idx_date     (date),
+      INDEX idx_household_date (household_id, date),
+      INDEX idx_expense_account_statement (account_id, statement_month),
+      UNIQUE KEY uq_recurring_occurrence (recurring_rule_id, date),
+      UNIQUE KEY uq_installment_number (installment_plan_id, installment_number),
+      CONSTRAINT fk_expense_recurring FOREIGN KEY (recurring_rule_id)
+        REFERENCES recurring_rules (id) ON DELETE SET NULL,
+      CONSTRAINT fk_expense_installment FOREIGN KEY (installment_plan_id)
+        REFERENCES installment_plans (id) ON DELETE SET NULL,
+      CONSTRAINT fk_expense_account FOREIGN KEY (account_id)
+        REFERENCES accounts (id) ON DELETE SET NULL,
+      CONSTRAINT fk_expense_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_expense_user FOREIGN KEY (created_by)
+        REFERENCES users (id) ON DELETE SET NULL,
+      CONSTRAINT fk_expense_category FOREIGN KEY (category_id)
+        REFERENCES categories (id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  await ensureColumn(conn, 'expenses', 'recurring_rule_id', `
+    ALTER TABLE expenses
+      ADD COLUMN recurring_rule_id VARCHAR(36) NULL AFTER isRecurring,
+      ADD UNIQUE KEY uq_recurring_occurrence (recurring_rule_id, date),
+      ADD CONSTRAINT fk_expense_recurring FOREIGN KEY (recurring_rule_id)
+        REFERENCES recurring_rules (id) ON DELETE SET NULL
+  `);
+
+  await ensureColumn(conn, 'expenses', 'household_id', `
+    ALTER TABLE expenses
+      ADD COLUMN household_id VARCHAR(36) NULL AFTER id,
+      ADD COLUMN created_by   VARCHAR(36) NULL AFTER household_id,
+      ADD INDEX idx_household_date (household_id, date),
+      ADD CONSTRAINT fk_expense_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      ADD CONSTRAINT fk_expense_user FOREIGN KEY (created_by)
+        REFERENCES users (id) ON DELETE SET NULL
+  `);
+
+  await ensureColumn(conn, 'expenses', 'category_id', `
+    ALTER TABLE expenses
+      ADD COLUMN category_id INT UNSIGNED NULL AFTER amount,
+      ADD INDEX idx_category_id (category_id),
+      ADD CONSTRAINT fk_expense_category FOREIGN KEY (category_id)
+        REFERENCES categories (id)
+  `);
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS budgets (
+      id            INT UNSIGNED   NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id  VARCHAR(36)    NULL,
+      category_id   INT UNSIGNED   NOT NULL,
+      effective_month CHAR(7)      NOT NULL DEFAULT '2000-01',
+      monthly_limit DECIMAL(10,2)  NOT NULL CHECK (monthly_limit >= 0),
+      rollover      BOOLEAN        NOT NULL DEFAULT FALSE,
+      alert_thresholds VARCHAR(60) NOT NULL DEFAULT '80,100',
+      version       INT UNSIGNED   NOT NULL DEFAULT 1,
+      created_at    TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at    TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_budget_household_category_month (household_id, category_id, effective_month),
+      INDEX idx_budgets_household_updated (household_id, updated_at),
+      CONSTRAINT fk_budget_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_budget_category FOREIGN KEY (category_id)
+        REFERENCES categories (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // O UNIQUE global em category (índice "category") dá lugar a
+  // um UNIQUE por household.
+  await ensureColumn(conn, 'budgets', 'household_id', `
+    ALTER TABLE budgets
+      ADD COLUMN household_id VARCHAR(36) NULL AFTER id,
+      DROP INDEX category,
+      ADD UNIQUE KEY uq_budget_household_category (household_id, category),
+      ADD CONSTRAINT fk_budget_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE
+  `);
+
+  await ensureColumn(conn, 'budgets', 'category_id', `
+    ALTER TABLE budgets
+      ADD COLUMN category_id INT UNSIGNED NULL AFTER household_id,
+      ADD CONSTRAINT fk_budget_category FOREIGN KEY (category_id)
+        REFERENCES categories (id) ON DELETE CASCADE
+  `);
+
+  await migrateEnumCategories(conn);
+
+  // Orçamentos passam a valer a partir de um mês. Os limites já
+  // gravados valem desde 2000-01 (BUDGET_EPOCH), como se sempre
+  // tivessem existido.
+  await ensureColumn(conn, 'budgets', 'effective_month', `
+    ALTER TABLE budgets
+      ADD COLUMN effective_month CHAR(7) NOT NULL DEFAULT '2000-01' AFTER category_id,
+      ADD COLUMN rollover BOOLEAN NOT NULL DEFAULT FALSE AFTER monthly_limit,
+      DROP INDEX uq_budget_household_category,
+      ADD UNIQUE KEY uq_budget_household_category_month (household_id, category_id, effective_month)
+  `);
+
+  // Orçamento geral da família (todas as categorias somadas)
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS household_budgets (
+      household_id    VARCHAR(36)   NOT NULL,
+      effective_month CHAR(7)       NOT NULL,
+      monthly_limit   DECIMAL(10,2) NOT NULL CHECK (monthly_limit >= 0),
+      rollover        BOOLEAN       NOT NULL DEFAULT FALSE,
+      alert_thresholds VARCHAR(60)  NOT NULL DEFAULT '80,100',
+      version         INT UNSIGNED  NOT NULL DEFAULT 1,
+      created_at      TIMESTAMP     NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at      TIMESTAMP     NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      PRIMARY KEY (household_id, effective_month),
+      INDEX idx_household_budgets_updated (household_id, updated_at),
+      CONSTRAINT fk_household_budget_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // Limiares de alerta (% do disponível), por período de orçamento
+  for (const table of ['budgets', 'household_budgets']) {
+    await ensureColumn(conn, table, 'alert_thresholds', `
+      ALTER TABLE ${table}
+        ADD COLUMN alert_thresholds VARCHAR(60) NOT NULL DEFAULT '80,100' AFTER rollover
+    `);
+  }
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS incomes (
+      id          VARCHAR(36)    NOT NULL PRIMARY KEY,
+      household_id VARCHAR(36)   NULL,
+      created_by  VARCHAR(36)    NULL,
+      description VARCHAR(255)   NOT NULL,
+      amount      DECIMAL(10,2)  NOT NULL CHECK (amount > 0),
+      source      ENUM(
+        'Salário','Freelance','Reembolso','Investimentos','Outros'
+      ) NOT NULL,
+      account_id  INT UNSIGNED   NULL,
+      date        DATE           NOT NULL,
+      version     INT UNSIGNED   NOT NULL DEFAULT 1,
+      created_at  TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at  TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_income_source (source),
+      INDEX idx_incomes_household_updated (household_id, updated_at),
+      INDEX idx_income_date   (date),
+      INDEX idx_income_household_date (household_id, date),
+      CONSTRAINT fk_income_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_income_user FOREIGN KEY (created_by)
+        REFERENCES users (id) ON DELETE SET NULL,
+      CONSTRAINT fk_income_account FOREIGN KEY (account_id)
+        REFERENCES accounts (id) ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  await ensureColumn(conn, 'incomes', 'household_id', `
+    ALTER TABLE incomes
+      ADD COLUMN household_id VARCHAR(36) NULL AFTER id,
+      ADD COLUMN created_by   VARCHAR(36) NULL AFTER household_id,
+      ADD INDEX idx_income_household_date (household_id, date),
+      ADD CONSTRAINT fk_income_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      ADD CONSTRAINT fk_income_user FOREIGN KEY (created_by)
+        REFERENCES users (id) ON DELETE SET NULL
+  `);
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS category_rules (
+      id           INT UNSIGNED      NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id VARCHAR(36)       NOT NULL,
+      pattern      VARCHAR(100)      NOT NULL,
+      category_id  INT UNSIGNED      NOT NULL,
+      priority     SMALLINT          NOT NULL DEFAULT 0,
+      created_at   TIMESTAMP         NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at   TIMESTAMP         NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_rule_household_pattern (household_id, pattern),
+      CONSTRAINT fk_rule_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_rule_category FOREIGN KEY (category_id)
+        REFERENCES categories (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS insight_cache (
+      household_id VARCHAR(36)  NOT NULL,
+      month        CHAR(7)      NOT NULL,
+      context_hash CHAR(64)     NOT NULL,
+      provider     VARCHAR(20)  NOT NULL,
+      insights     JSON         NOT NULL,
+      created_at   TIMESTAMP    NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at   TIMESTAMP    NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      PRIMARY KEY (household_id, month),
+      CONSTRAINT fk_insight_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // Sincronização offline: bancos anteriores ganham a coluna
+  // version e o índice usado pelo feed de /api/changes.
+  for (const table of ['categories', 'recurring_rules', 'expenses', 'budgets', 'incomes']) {
+    await ensureColumn(conn, table, 'version', `
+      ALTER TABLE ${table}
+        ADD COLUMN version INT UNSIGNED NOT NULL DEFAULT 1,
+        ADD INDEX idx_${table}_household_updated (household_id, updated_at)
+    `);
+  }
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS deleted_records (
+      id           BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id VARCHAR(36)     NOT NULL,
+      entity       VARCHAR(20)     NOT NULL,
+      entity_id    VARCHAR(36)     NOT NULL,
+      deleted_at   TIMESTAMP       NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_deleted_household_at (household_id, deleted_at),
+      CONSTRAINT fk_deleted_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS notifications (
+      id           BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id VARCHAR(36)     NOT NULL,
+      type         VARCHAR(30)     NOT NULL,
+      title        VARCHAR(255)    NOT NULL,
+      body         TEXT            NOT NULL,
+      data         JSON            NULL,
+      dedupe_key   VARCHAR(100)    NULL,
+      read_at      TIMESTAMP       NULL DEFAULT NULL,
+      created_at   TIMESTAMP       NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_notification_dedupe (household_id, dedupe_key),
+      INDEX idx_notifications_household_created (household_id, created_at),
+      CONSTRAINT fk_notification_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // De onde saiu o dinheiro: conta, forma de pagamento e, nas
+  // compras no cartão, a fatura (mês de fechamento) da compra.
+  await ensureColumn(conn, 'expenses', 'account_id', `
+    ALTER TABLE expenses
+      ADD COLUMN account_id INT UNSIGNED NULL AFTER category_id,
+      ADD COLUMN payment_method ENUM('pix','debit','credit','cash','transfer','boleto') NULL AFTER account_id,
+      ADD COLUMN statement_month CHAR(7) NULL AFTER payment_method,
+      ADD INDEX idx_expense_account_statement (account_id, statement_month),
+      ADD CONSTRAINT fk_expense_account FOREIGN KEY (account_id)
+        REFERENCES accounts (id) ON DELETE SET NULL
+  `);
+
+  await ensureColumn(conn, 'incomes', 'account_id', `
+    ALTER TABLE incomes
+      ADD COLUMN account_id INT UNSIGNED NULL AFTER source,
+      ADD CONSTRAINT fk_income_account FOREIGN KEY (account_id)
+        REFERENCES accounts (id) ON DELETE SET NULL
+  `);
+
+  await ensureColumn(conn, 'expenses', 'installment_plan_id', `
+    ALTER TABLE expenses
+      ADD COLUMN installment_plan_id VARCHAR(36) NULL AFTER recurring_rule_id,
+      ADD COLUMN installment_number  SMALLINT UNSIGNED NULL AFTER installment_plan_id,
+      ADD UNIQUE KEY uq_installment_number (installment_plan_id, installment_number),
+      ADD CONSTRAINT fk_expense_installment FOREIGN KEY (installment_plan_id)
+        REFERENCES installment_plans (id) ON DELETE SET NULL
+  `);
+
+  // Favorecido (quem recebeu) e observações livres da despesa
+  await ensureColumn(conn, 'expenses', 'payee', `
+    ALTER TABLE expenses
+      ADD COLUMN payee VARCHAR(120) NULL AFTER description,
+      ADD COLUMN notes TEXT NULL AFTER payee,
+      ADD INDEX idx_expense_payee (household_id, payee)
+  `);
+
+  // Despesas divididas entre os membros: quem pagou (paid_by,
+  // padrão created_by) e o tipo de divisão; as cotas ficam em
+  // expense_splits.
+  await ensureColumn(conn, 'expenses', 'paid_by', `
+    ALTER TABLE expenses
+      ADD COLUMN paid_by VARCHAR(36) NULL AFTER created_by,
+      ADD COLUMN split_type ENUM('equal','percent','exact') NULL AFTER paid_by,
+      ADD CONSTRAINT fk_expense_paid_by FOREIGN KEY (paid_by)
+        REFERENCES users (id) ON DELETE SET NULL
+  `);
+
+  // Pagamentos de fatura: saem de uma conta (opcional) e abatem
+  // a fatura do cartão.
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS statement_payments (
+      id              BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id    VARCHAR(36)     NOT NULL,
+      account_id      INT UNSIGNED    NOT NULL,
+      statement_month CHAR(7)         NOT NULL,
+      from_account_id INT UNSIGNED    NULL,
+      amount          DECIMAL(12,2)   NOT NULL CHECK (amount > 0),
+      paid_at         DATE            NOT NULL,
+      created_by      VARCHAR(36)     NULL,
+      created_at      TIMESTAMP       NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_payment_statement (account_id, statement_month),
+      CONSTRAINT fk_payment_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_payment_account FOREIGN KEY (account_id)
+        REFERENCES accounts (id) ON DELETE CASCADE,
+      CONSTRAINT fk_payment_from_account FOREIGN KEY (from_account_id)
+        REFERENCES accounts (id) ON DELETE SET NULL,
+      CONSTRAINT fk_payment_user FOREIGN KEY (created_by)
+        REFERENCES users (id) ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // Metas de economia (reserva de emergência, viagem...) e os
+  // aportes (ou resgates, com valor negativo) de cada uma.
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS savings_goals (
+      id            INT UNSIGNED  NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id  VARCHAR(36)   NOT NULL,
+      name          VARCHAR(80)   NOT NULL,
+      target_amount DECIMAL(12,2) NOT NULL CHECK (target_amount > 0),
+      deadline      DATE          NULL,
+      color         CHAR(7)       NOT NULL DEFAULT '#10b981',
+      archived      TINYINT(1)    NOT NULL DEFAULT 0,
+      version       INT UNSIGNED  NOT NULL DEFAULT 1,
+      created_at    TIMESTAMP     NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at    TIMESTAMP     NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_goal_household_name (household_id, name),
+      CONSTRAINT fk_goal_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS goal_contributions (
+      id           BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id VARCHAR(36)     NOT NULL,
+      goal_id      INT UNSIGNED    NOT NULL,
+      amount       DECIMAL(12,2)   NOT NULL CHECK (amount <> 0),
+      date         DATE            NOT NULL,
+      note         VARCHAR(255)    NULL,
+      created_by   VARCHAR(36)     NULL,
+      created_at   TIMESTAMP       NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_contribution_goal_date (goal_id, date),
+      CONSTRAINT fk_contribution_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_contribution_goal FOREIGN KEY (goal_id)
+        REFERENCES savings_goals (id) ON DELETE CASCADE,
+      CONSTRAINT fk_contribution_user FOREIGN KEY (created_by)
+        REFERENCES users (id) ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // Cota de cada membro numa despesa dividida. percent guarda a
+  // proporção para recalcular as cotas se o valor mudar.
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS expense_splits (
+      expense_id VARCHAR(36)   NOT NULL,
+      user_id    VARCHAR(36)   NOT NULL,
+      amount     DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+      percent    DECIMAL(6,3)  NULL,
+      PRIMARY KEY (expense_id, user_id),
+      INDEX idx_split_user (user_id),
+      CONSTRAINT fk_split_expense FOREIGN KEY (expense_id)
+        REFERENCES expenses (id) ON DELETE CASCADE,
+      CONSTRAINT fk_split_user FOREIGN KEY (user_id)
+        REFERENCES users (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // Acertos: um membro paga a outro para zerar o saldo
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS settlements (
+      id           BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id VARCHAR(36)     NOT NULL,
+      from_user_id VARCHAR(36)     NOT NULL,
+      to_user_id   VARCHAR(36)     NOT NULL,
+      amount       DECIMAL(12,2)   NOT NULL CHECK (amount > 0),
+      date         DATE            NOT NULL,
+      note         VARCHAR(255)    NULL,
+      created_by   VARCHAR(36)     NULL,
+      created_at   TIMESTAMP       NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_settlement_household_date (household_id, date),
+      CONSTRAINT fk_settlement_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_settlement_from FOREIGN KEY (from_user_id)
+        REFERENCES users (id) ON DELETE CASCADE,
+      CONSTRAINT fk_settlement_to FOREIGN KEY (to_user_id)
+        REFERENCES users (id) ON DELETE CASCADE,
+      CONSTRAINT fk_settlement_creator FOREIGN KEY (created_by)
+        REFERENCES users (id) ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // Tags livres (ex: "viagem-2026"), que cruzam categorias
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS tags (
+      id           INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id VARCHAR(36)  NOT NULL,
+      name         VARCHAR(50)  NOT NULL,
+      created_at   TIMESTAMP    NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_tag_name (household_id, name),
+      CONSTRAINT fk_tag_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS expense_tags (
+      expense_id VARCHAR(36)  NOT NULL,
+      tag_id     INT UNSIGNED NOT NULL,
+      PRIMARY KEY (expense_id, tag_id),
+      INDEX idx_expense_tag_tag (tag_id),
+      CONSTRAINT fk_expense_tag_expense FOREIGN KEY (expense_id)
+        REFERENCES expenses (id) ON DELETE CASCADE,
+      CONSTRAINT fk_expense_tag_tag FOREIGN KEY (tag_id)
+        REFERENCES tags (id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // Comprovantes: o arquivo fica no adaptador de armazenamento
+  // (storage_key); aqui só os metadados.
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS expense_receipts (
+      id           BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id VARCHAR(36)     NOT NULL,
+      expense_id   VARCHAR(36)     NOT NULL,
+      storage_key  VARCHAR(255)    NOT NULL,
+      filename     VARCHAR(255)    NOT NULL,
+      content_type VARCHAR(100)    NOT NULL,
+      size         INT UNSIGNED    NOT NULL,
+      uploaded_by  VARCHAR(36)     NULL,
+      created_at   TIMESTAMP       NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_receipt_expense (expense_id),
+      CONSTRAINT fk_receipt_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_receipt_expense FOREIGN KEY (expense_id)
+        REFERENCES expenses (id) ON DELETE CASCADE,
+      CONSTRAINT fk_receipt_user FOREIGN KEY (uploaded_by)
+        REFERENCES users (id) ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+
+  // Sinalizações de despesas suspeitas: valor fora do padrão da
+  // categoria/descrição ou provável lançamento em dobro.
+  // flag_key identifica o achado (o par, no caso de duplicata)
+  // para que uma sinalização descartada não volte na próxima
+  // varredura.
+  await conn.execute(`
+    CREATE TABLE IF NOT EXISTS expense_flags (
+      id                 BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      household_id       VARCHAR(36)     NOT NULL,
+      expense_id         VARCHAR(36)     NOT NULL,
+      related_expense_id VARCHAR(36)     NULL,
+      kind               ENUM('outlier','duplicate') NOT NULL,
+      flag_key           VARCHAR(100)    NOT NULL,
+      score              DECIMAL(10,2)   NOT NULL DEFAULT 0,
+      reason             VARCHAR(255)    NOT NULL,
+      status             ENUM('open','dismissed') NOT NULL DEFAULT 'open',
+      created_at         TIMESTAMP       NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      resolved_at        TIMESTAMP       NULL DEFAULT NULL,
+      resolved_by        VARCHAR(36)     NULL,
+      UNIQUE KEY uq_flag_key (household_id, flag_key),
+      INDEX idx_flag_status (household_id, status),
+      CONSTRAINT fk_flag_household FOREIGN KEY (household_id)
+        REFERENCES households (id) ON DELETE CASCADE,
+      CONSTRAINT fk_flag_expense FOREIGN KEY (expense_id)
+        REFERENCES expenses (id) ON DELETE CASCADE,
+      CONSTRAINT fk_flag_related FOREIGN KEY (related_expense_id)
+        REFERENCES expenses (id) ON DELETE CASCADE,
+      CONSTRAINT fk_flag_user FOREIGN KEY (resolved_by)
+        REFERENCES users (id) ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+  `);
+}
@@ -0,0 +1,105 @@
+// ============================================================
+//  EcoFin — Migrações do schema
+//  Arquivo: migrations/index.js
+// ============================================================
+// Cada arquivo NNN-descricao.js desta pasta exporta up(conn) e é
+// aplicado uma única vez, em ordem numérica, quando o servidor
+// sobe. As versões aplicadas ficam em schema_migrations.
+//
+// Para mudar o schema, crie o próximo número em vez de editar uma
+// migração já publicada: bancos que já a aplicaram não a rodam de
+// novo.
+//
+// O MySQL não desfaz DDL num ROLLBACK, então uma migração que
+// falha no meio pode deixar parte das mudanças aplicada. Por isso
+// elas são escritas para poder rodar de novo (IF NOT EXISTS,
+// ensureColumn) e só são registradas depois de terminar.
+
+import { readdir } from 'fs/promises';
+import { fileURLToPath, pathToFileURL } from 'url';
+import path from 'path';
+
+const MIGRATIONS_DIR = path.dirname(fileURLToPath(import.meta.url));
+const MIGRATION_FILE = /^(\d{3})-[a-z0-9-]+\.js$/;
+const LOCK_NAME = 'ecofin_migrations';
+const LOCK_TIMEOUT_S = 60;
+
+// ─── Helper: adiciona coluna em tabelas já existentes ───────
+// CREATE TABLE IF NOT EXISTS não altera bancos criados antes da
+// coluna existir; consulta o information_schema e só então
+// executa o ALTER TABLE informado.
+export async function hasColumn(conn, table, column) {
+  const [[{ n }]] = await conn.execute(
+    `SELECT COUNT(*) AS n FROM information_schema.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+    [table, column]
+  );
+  return n > 0;
+}
+
+export async function ensureColumn(conn, table, column, alterSql) {
+  if (!(await hasColumn(conn, table, column))) await conn.execute(alterSql);
+}
+
+// Migrações da pasta, em ordem de versão
+export async function loadMigrations() {
+  const files = (await readdir(MIGRATIONS_DIR)).filter(f => MIGRATION_FILE.test(f)).sort();
+  const migrations = [];
+  for (const file of files) {
+    const version = parseInt(file.match(MIGRATION_FILE)[1], 10);
+    if (migrations.some(m => m.version === version))
+      throw new Error(`Migração ${version} duplicada (${file}).`);
+    const { up } = await import(pathToFileURL(path.join(MIGRATIONS_DIR, file)).href);
+    if (typeof up !== 'function') throw new Error(`${file} não exporta up(conn).`);
+    migrations.push({ version, name: file.replace(/\.js$/, ''), up });
+  }
+  return migrations;
+}
+
+// Aplica as migrações pendentes e devolve quantas rodaram. Um
+// lock nomeado impede que duas instâncias subindo juntas migrem
+// ao mesmo tempo.
+export async function runMigrations(pool) {
+  const conn = await pool.getConnection();
+  try {
+    const [[{ locked }]] = await conn.query('SELECT GET_LOCK(?, ?) AS locked', [LOCK_NAME, LOCK_TIMEOUT_S]);
+    if (locked !== 1) throw new Error('Outra instância está migrando o banco; tente novamente.');
+
+    try {
+      await conn.execute(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version    INT UNSIGNED NOT NULL PRIMARY KEY,
+          name       VARCHAR(100) NOT NULL,
+          applied_at TIMESTAMP    NOT NULL DEFAULT CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `);
+
+      const migrations = await loadMigrations();
+      const [rows] = await conn.execute('SELECT version FROM schema_migrations');
+      const applied = new Set(rows.map(r => r.version));
+
+      // Banco migrado por uma versão mais nova do servidor: subir
+      // com o código antigo arriscaria gravar no formato errado.
+      const unknown = [...applied].filter(v => !migrations.some(m => m.version === v));
+      if (unknown.length)
+        throw new Error(`O banco tem migrações que este servidor não conhece (${unknown.join(', ')}). Atualize o código.`);
+
+      let count = 0;
+      for (const migration of migrations) {
+        if (applied.has(migration.version)) continue;
+        await migration.up(conn);
+        await conn.execute(
+          'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+          [migration.version, migration.name]
+        );
+        console.log(`🗂️  Migração ${migration.name} aplicada.`);
+        count += 1;
+      }
+      return count;
+    } finally {
+      await conn.query('SELECT RELEASE_LOCK(?)', [LOCK_NAME]);
+    }
+  } finally {
+    conn.release();
+  }
+}
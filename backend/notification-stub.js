@@ -0,0 +1,83 @@
+// ============================================================
+//  EcoFin — Stub local dos canais de notificação
+//  Arquivo: notification-stub.js
+//
+//  Recebe webhooks (HTTP) e e-mails (SMTP) e apenas os imprime,
+//  para testar as notificações sem serviços externos:
+//    NOTIFY_WEBHOOK_URL=http://localhost:4001/webhook
+//    SMTP_HOST=localhost  SMTP_PORT=2525
+// ============================================================
+
+import http from 'http';
+import net from 'net';
+
+const HTTP_PORT = parseInt(process.env.STUB_HTTP_PORT || '4001', 10);
+const SMTP_PORT = parseInt(process.env.STUB_SMTP_PORT || '2525', 10);
+
+// ─── Webhook ────────────────────────────────────────────────
+http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    console.log(`\n📨  Webhook ${req.method} ${req.url}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(raw), null, 2));
+    } catch {
+      console.log(raw);
+    }
+    res.writeHead(204).end();
+  });
+}).listen(HTTP_PORT, () => console.log(`🪝  Webhook stub em http://localhost:${HTTP_PORT}`));
+
+// ─── SMTP ───────────────────────────────────────────────────
+// Aceita qualquer remetente/destinatário e decodifica o corpo
+// (base64, como o EcoFin envia) ao imprimir a mensagem.
+function printMessage(envelope, data) {
+  const [head, ...rest] = data.split('\r\n\r\n');
+  const subject = (head.match(/^Subject: (.*)$/m) || [])[1] || '';
+  const decoded = subject.replace(/=\?UTF-8\?B\?([^?]*)\?=/gi, (_, b64) => Buffer.from(b64, 'base64').toString('utf8'));
+  const text    = /base64/i.test(head)
+    ? Buffer.from(rest.join('').replace(/\s+/g, ''), 'base64').toString('utf8')
+    : rest.join('\r\n\r\n');
+
+  console.log(`\n✉️   E-mail de ${envelope.from} para ${envelope.to.join(', ')}`);
+  console.log(`    Assunto: ${decoded}`);
+  console.log(text.split('\n').map(l => `    ${l}`).join('\n'));
+}
+
+net.createServer(socket => {
+  const envelope = { from: '', to: [] };
+  let buffer  = '';
+  let data    = null;
+
+  socket.setEncoding('utf8');
+  socket.write('220 ecofin-stub ESMTP\r\n');
+
+  socket.on('data', chunk => {
+    buffer += chunk;
+    let i;
+    while ((i = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, i);
+      buffer = buffer.slice(i + 2);
+
+      if (data !== null) {
+        if (line === '.') {
+          printMessage(envelope, data.join('\r\n'));
+          data = null;
+          socket.write('250 OK\r\n');
+        } else {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const cmd = line.slice(0, 4).toUpperCase();
+      if (cmd === 'EHLO' || cmd === 'HELO') socket.write('250-ecofin-stub\r\n250 OK\r\n');
+      else if (cmd === 'MAIL') { envelope.from = line.slice(10).replace(/[<>]/g, ''); envelope.to = []; socket.write('250 OK\r\n'); }
+      else if (cmd === 'RCPT') { envelope.to.push(line.slice(8).replace(/[<>]/g, '')); socket.write('250 OK\r\n'); }
+      else if (cmd === 'DATA') { data = []; socket.write('354 Fim com <CRLF>.<CRLF>\r\n'); }
+      else if (cmd === 'QUIT') { socket.end('221 Até logo\r\n'); }
+      else socket.write('250 OK\r\n');
+    }
+  });
+}).listen(SMTP_PORT, () => console.log(`📮  SMTP stub em localhost:${SMTP_PORT}`));
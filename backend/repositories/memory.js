@@ -0,0 +1,1255 @@
+// ============================================================
+//  EcoFin — Repositório em memória
+//  Arquivo: repositories/memory.js
+// ============================================================
+// Mesma interface de repositories/mysql.js, guardada em arrays.
+// Usado pelos testes (DB_DRIVER=memory) para subir a API sem um
+// servidor MySQL. As linhas saem no formato do mysql2 — DATE como
+// Date à meia-noite local, DECIMAL e SUM como string — para que o
+// mapeamento das rotas (formatDate, parseFloat) seja exercitado.
+//
+// Comparações de texto imitam a collation utf8mb4_unicode_ci: sem
+// diferença entre maiúsculas e acentos. Chaves únicas, ON DELETE
+// CASCADE / SET NULL e updated_at (ON UPDATE) seguem o schema das
+// migrações.
+
+const collator = new Intl.Collator('pt-BR', { sensitivity: 'base' });
+
+const HOUSEHOLD_TABLES = ['categories', 'expenses', 'budgets', 'incomes', 'recurring_rules'];
+
+// Colunas DECIMAL de cada tabela (voltam como string)
+const DECIMAL_COLUMNS = {
+  expenses:           ['amount'],
+  incomes:            ['amount'],
+  accounts:           ['opening_balance', 'credit_limit'],
+  statement_payments: ['amount'],
+  budgets:            ['monthly_limit'],
+  household_budgets:  ['monthly_limit'],
+  expense_splits:     ['amount', 'percent'],
+  settlements:        ['amount'],
+  savings_goals:      ['target_amount'],
+  goal_contributions: ['amount'],
+  recurring_rules:    ['amount'],
+  installment_plans:  ['total_amount'],
+  expense_flags:      ['score'],
+};
+
+// Casas decimais fora do padrão (2)
+const DECIMAL_SCALE = { percent: 3 };
+
+const DATE_COLUMNS = ['date', 'start_date', 'end_date', 'last_generated', 'first_date', 'deadline', 'paid_at'];
+
+// Tabelas com updated_at (ON UPDATE CURRENT_TIMESTAMP)
+const UPDATED_AT_TABLES = new Set([
+  'categories', 'accounts', 'expenses', 'incomes', 'recurring_rules', 'installment_plans', 'budgets',
+  'household_budgets', 'savings_goals', 'category_rules', 'insight_cache',
+]);
+
+const EPOCH = Date.UTC(2000, 0, 1);
+
+function duplicateEntry(message) {
+  return Object.assign(new Error(message), { code: 'ER_DUP_ENTRY' });
+}
+
+function sameText(a, b) {
+  return collator.compare(String(a ?? ''), String(b ?? '')) === 0;
+}
+
+const fold = s => String(s ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// LIKE '%needle%'
+function contains(haystack, needle) {
+  return fold(haystack).includes(fold(needle));
+}
+
+// LIKE 'prefix%'
+function startsWith(text, prefix) {
+  return fold(text).startsWith(fold(prefix));
+}
+
+// "YYYY-MM-DD" → Date à meia-noite local, como o mysql2 entrega DATE
+function driverDate(iso) {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+// Mesma regra de STATEMENT_MONTH_SQL: depois do fechamento (limitado
+// ao último dia do mês), a compra cai na fatura do mês seguinte.
+function statementMonth(date, closingDay) {
+  const [y, m, d] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  if (d <= Math.min(closingDay, lastDay)) return date.slice(0, 7);
+  return new Date(Date.UTC(y, m, 1)).toISOString().slice(0, 7);
+}
+
+// Soma em centavos; SUM de nenhuma linha é NULL
+function sum(values) {
+  if (!values.length) return null;
+  return (values.reduce((acc, v) => acc + Math.round(Number(v) * 100), 0) / 100).toFixed(2);
+}
+
+function groupBy(rows, keyOf) {
+  const groups = new Map();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(row);
+  }
+  return groups;
+}
+
+// Comparação crescente de datas/ids; nulos primeiro, como no MySQL
+function ascending(a, b) {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function emptyState() {
+  return {
+    households: [], users: [], categories: [], accounts: [], statement_payments: [], expenses: [],
+    expense_splits: [], tags: [], expense_tags: [], expense_receipts: [], incomes: [], recurring_rules: [],
+    installment_plans: [], budgets: [], household_budgets: [], notifications: [], savings_goals: [],
+    goal_contributions: [], settlements: [], category_rules: [], expense_flags: [], insight_cache: [],
+    deleted_records: [], sequences: {}, clock: 0,
+  };
+}
+
+export function createMemoryRepository() {
+  let state = emptyState();
+
+  const nextId = table => (state.sequences[table] = (state.sequences[table] || 0) + 1);
+  // Relógio falso estritamente crescente: desempata "ORDER BY
+  // created_at" e separa as gravações no feed de /api/changes.
+  const clockTime = () => new Date(EPOCH + state.clock * 1000);
+  const now = () => {
+    state.clock++;
+    return clockTime();
+  };
+
+  // DECIMAL entra como número (arredondado à escala da coluna)
+  const numeric = (table, values) => {
+    const out = { ...values };
+    for (const col of DECIMAL_COLUMNS[table] || []) {
+      if (out[col] !== null && out[col] !== undefined) out[col] = Number(Number(out[col]).toFixed(DECIMAL_SCALE[col] ?? 2));
+    }
+    return out;
+  };
+
+  // Grava a linha com os carimbos de tempo do schema
+  const insert = (table, row) => {
+    const at = now();
+    const full = { ...numeric(table, row), created_at: at };
+    if (UPDATED_AT_TABLES.has(table)) full.updated_at = at;
+    state[table].push(full);
+    return full;
+  };
+
+  // Cópia da linha no formato do driver
+  const toDriver = (table, row) => {
+    const out = { ...row };
+    for (const col of DATE_COLUMNS) {
+      if (typeof out[col] === 'string') out[col] = driverDate(out[col]);
+    }
+    for (const col of DECIMAL_COLUMNS[table] || []) {
+      if (out[col] !== null && out[col] !== undefined) out[col] = Number(out[col]).toFixed(DECIMAL_SCALE[col] ?? 2);
+    }
+    return out;
+  };
+
+  const categoryOf = id => state.categories.find(c => c.id === id);
+  const userName   = id => state.users.find(u => u.id === id)?.name ?? null;
+  const inMonth    = (row, month) => !month || row.date.slice(0, 7) === month;
+  const inRange    = (row, from, to) => row.date >= from && row.date <= to;
+  const ownedBy    = (table, householdId, id) => state[table].find(r => r.id === id && r.household_id === householdId);
+
+  const tagNames = expenseId => state.expense_tags
+    .filter(et => et.expense_id === expenseId)
+    .map(et => state.tags.find(t => t.id === et.tag_id).name)
+    .sort(collator.compare);
+
+  // Linha de despesa com as colunas de EXPENSE_SELECT
+  const expenseRow = e => {
+    const category = categoryOf(e.category_id);
+    const plan     = state.installment_plans.find(p => p.id === e.installment_plan_id);
+    const splits   = state.expense_splits.filter(s => s.expense_id === e.id)
+      .sort((a, b) => ascending(a.user_id, b.user_id));
+    const tags     = tagNames(e.id);
+    return {
+      ...toDriver('expenses', e),
+      category:           category.name,
+      category_color:     category.color,
+      category_parent_id: category.parent_id,
+      created_by_name:    userName(e.created_by),
+      paid_by_name:       userName(e.paid_by),
+      installment_count:  plan ? plan.installments : null,
+      splits:             splits.length ? splits.map(s => `${s.user_id}:${s.amount.toFixed(2)}`).join(',') : null,
+      tags:               tags.length ? tags.join(',') : null,
+      receipt_count:      state.expense_receipts.filter(r => r.expense_id === e.id).length,
+    };
+  };
+
+  const ruleRow = r => ({ ...toDriver('recurring_rules', r), category: categoryOf(r.category_id).name });
+  const planRow = p => ({ ...toDriver('installment_plans', p), category: categoryOf(p.category_id).name });
+
+  const matchesExpense = (e, householdId, filters) => {
+    const {
+      category = [], account, tag, payee, startDate, endDate, search,
+      minAmount, maxAmount, recurring,
+    } = filters;
+    const cat = categoryOf(e.category_id);
+    if (e.household_id !== householdId) return false;
+    if (category.length && !category.includes(e.category_id) && !category.includes(cat.parent_id)) return false;
+    if (account && e.account_id !== account) return false;
+    if (tag && !tagNames(e.id).some(name => sameText(name, tag))) return false;
+    if (payee && !contains(e.payee, payee)) return false;
+    if (startDate && e.date < startDate) return false;
+    if (endDate && e.date > endDate) return false;
+    if (minAmount !== undefined && e.amount < minAmount) return false;
+    if (maxAmount !== undefined && e.amount > maxAmount) return false;
+    if (recurring !== undefined && !!e.isRecurring !== recurring) return false;
+    if (search && !contains(e.description, search) && !contains(e.payee, search) && !contains(cat.name, search))
+      return false;
+    return true;
+  };
+
+  const compareSort = (sort, a, b) => {
+    if (sort === 'amount') return Number(a) - Number(b);
+    if (sort === 'description') return collator.compare(a, b);
+    return a < b ? -1 : a > b ? 1 : 0;
+  };
+
+  const versionedUpdate = (table, householdId, id, changes, version, check = () => {}) => {
+    const row = ownedBy(table, householdId, id);
+    if (!row || (version !== undefined && row.version !== version)) return 0;
+    check(row, changes);
+    Object.assign(row, numeric(table, changes), { version: row.version + 1, updated_at: now() });
+    return 1;
+  };
+
+  // UNIQUE (household_id, column), com a comparação da collation
+  const taken = (table, householdId, column, value, exceptId = null) =>
+    state[table].some(r => r.household_id === householdId && r.id !== exceptId && sameText(r[column], value));
+
+  const uniqueUpdate = (table, householdId, column) => (row, next) => {
+    if (next[column] !== undefined && taken(table, householdId, column, next[column], row.id))
+      throw duplicateEntry(next[column]);
+  };
+
+  // Despesa nova com os padrões do schema. As chaves únicas
+  // (id, recorrência + data, plano + número) barram duplicatas:
+  // com ignore a linha é descartada (false), sem ele é erro.
+  const insertExpense = (values, { ignore = false } = {}) => {
+    const row = {
+      created_by: null, paid_by: null, split_type: null, payee: null, notes: null, account_id: null,
+      payment_method: null, statement_month: null, isRecurring: 0, recurring_rule_id: null,
+      installment_plan_id: null, installment_number: null, version: 1,
+      ...values,
+    };
+    row.isRecurring = row.isRecurring ? 1 : 0;
+    const duplicate = state.expenses.some(e => e.id === row.id
+      || (row.recurring_rule_id !== null && e.recurring_rule_id === row.recurring_rule_id && e.date === row.date)
+      || (row.installment_plan_id !== null && e.installment_plan_id === row.installment_plan_id
+        && e.installment_number === row.installment_number));
+    if (duplicate) {
+      if (ignore) return false;
+      throw duplicateEntry(row.id);
+    }
+    insert('expenses', row);
+    return true;
+  };
+
+  // DELETE de despesas; tags, cotas, comprovantes e sinalizações
+  // caem junto (ON DELETE CASCADE).
+  const removeExpenses = match => {
+    const ids = new Set(state.expenses.filter(match).map(e => e.id));
+    if (!ids.size) return 0;
+    state.expenses         = state.expenses.filter(e => !ids.has(e.id));
+    state.expense_tags     = state.expense_tags.filter(et => !ids.has(et.expense_id));
+    state.expense_splits   = state.expense_splits.filter(s => !ids.has(s.expense_id));
+    state.expense_receipts = state.expense_receipts.filter(r => !ids.has(r.expense_id));
+    state.expense_flags    = state.expense_flags
+      .filter(f => !ids.has(f.expense_id) && !ids.has(f.related_expense_id));
+    return ids.size;
+  };
+
+  // Remove as linhas da família com o id; devolve quantas saíram
+  const removeOwned = (table, householdId, id) => {
+    const before = state[table].length;
+    state[table] = state[table].filter(r => !(r.id === id && r.household_id === householdId));
+    return before - state[table].length;
+  };
+
+  const bump = row => Object.assign(row, { version: row.version + 1, updated_at: now() });
+
+  const periodValues = values => ({
+    monthly_limit: Number(values.limit), rollover: values.rollover ? 1 : 0, alert_thresholds: values.thresholds,
+  });
+
+  const periodUpsert = (table, match, values, extra) => {
+    const row = state[table].find(match);
+    if (row) {
+      const same = Number(row.monthly_limit) === Number(values.limit) && !!row.rollover === !!values.rollover
+        && row.alert_thresholds === values.thresholds;
+      Object.assign(row, periodValues(values));
+      if (!same) bump(row);
+      return;
+    }
+    insert(table, { ...extra, ...periodValues(values), version: 1 });
+  };
+
+  const periodUpdate = (row, values, version) => {
+    if (!row || row.version !== version) return 0;
+    bump(Object.assign(row, periodValues(values)));
+    return 1;
+  };
+
+  const byMonthDesc = (a, b) => (a.effective_month < b.effective_month ? 1 : -1);
+  const byMonthAsc  = (a, b) => (a.effective_month < b.effective_month ? -1 : 1);
+
+  const categoryOrder = (a, b) =>
+    (a.parent_id ?? a.id) - (b.parent_id ?? b.id) ||
+    (a.parent_id !== null) - (b.parent_id !== null) ||
+    collator.compare(a.name, b.name);
+
+  const budgetRow = b => ({ ...toDriver('budgets', b), category: categoryOf(b.category_id).name });
+
+  const byDateDesc = (a, b) => ascending(b.date, a.date) || b.created_at - a.created_at;
+
+  const repo = {
+    async ping() {},
+
+    // Sem isolamento entre transações: basta desfazer em caso de erro.
+    async transaction(fn) {
+      const snapshot = structuredClone(state);
+      try {
+        return await fn(repo);
+      } catch (err) {
+        state = snapshot;
+        throw err;
+      }
+    },
+
+    households: {
+      async count() {
+        return state.households.length;
+      },
+      async find(id) {
+        return state.households.find(h => h.id === id) || null;
+      },
+      async findByInviteCode(code) {
+        return state.households.find(h => h.invite_code === code) || null;
+      },
+      async create({ id, name, invite_code }) {
+        if (state.households.some(h => h.invite_code === invite_code)) throw duplicateEntry('invite_code');
+        insert('households', { id, name, invite_code });
+      },
+      async adoptLegacyData(householdId) {
+        for (const table of HOUSEHOLD_TABLES) {
+          for (const row of state[table]) if (row.household_id === null) row.household_id = householdId;
+        }
+      },
+    },
+
+    users: {
+      async findByEmail(email) {
+        return state.users.find(u => sameText(u.email, email)) || null;
+      },
+      async listByHousehold(householdId) {
+        return state.users
+          .filter(u => u.household_id === householdId)
+          .sort((a, b) => collator.compare(a.name, b.name))
+          .map(({ id, name, email }) => ({ id, name, email }));
+      },
+      async create({ id, household_id, name, email, password_hash }) {
+        if (state.users.some(u => sameText(u.email, email))) throw duplicateEntry('email');
+        insert('users', { id, household_id, name, email, password_hash });
+      },
+    },
+
+    categories: {
+      async list(householdId, { includeArchived = false } = {}) {
+        return state.categories
+          .filter(c => c.household_id === householdId && (includeArchived || !c.archived))
+          .sort(categoryOrder)
+          .map(c => ({ ...c }));
+      },
+      async find(householdId, id) {
+        const row = ownedBy('categories', householdId, id);
+        return row ? { ...row } : null;
+      },
+      async create(householdId, { parent_id, name, color, icon }) {
+        if (taken('categories', householdId, 'name', name)) throw duplicateEntry(name);
+        const id = nextId('categories');
+        insert('categories', { id, household_id: householdId, parent_id, name, color, icon, archived: 0, version: 1 });
+        return id;
+      },
+      async update(householdId, id, changes, version) {
+        return versionedUpdate('categories', householdId, id, changes, version,
+          uniqueUpdate('categories', householdId, 'name'));
+      },
+      async countChildren(id) {
+        return state.categories.filter(c => c.parent_id === id).length;
+      },
+      async countUsage(id) {
+        return state.expenses.filter(e => e.category_id === id).length
+          + state.recurring_rules.filter(r => r.category_id === id).length
+          + state.categories.filter(c => c.parent_id === id).length;
+      },
+      // Orçamentos e regras de importação da categoria caem junto
+      // (ON DELETE CASCADE)
+      async remove(householdId, id) {
+        if (!removeOwned('categories', householdId, id)) return;
+        state.budgets        = state.budgets.filter(b => b.category_id !== id);
+        state.category_rules = state.category_rules.filter(r => r.category_id !== id);
+      },
+      async seedDefaults(householdId, list) {
+        for (const c of list) {
+          if (taken('categories', householdId, 'name', c.name)) continue;
+          insert('categories', {
+            id: nextId('categories'), household_id: householdId, parent_id: null,
+            name: c.name, color: c.color, icon: c.icon, archived: 0, version: 1,
+          });
+        }
+      },
+    },
+
+    accounts: {
+      async find(householdId, id) {
+        const row = ownedBy('accounts', householdId, id);
+        return row ? toDriver('accounts', row) : null;
+      },
+      async listWithTotals(householdId, { includeArchived = false } = {}) {
+        const typeOrder = ['checking', 'cash', 'credit_card'];
+        const total = rows => sum(rows.map(r => r.amount)) ?? '0.00';
+        return state.accounts
+          .filter(a => a.household_id === householdId && (includeArchived || !a.archived))
+          .sort((a, b) => a.archived - b.archived
+            || typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type)
+            || collator.compare(a.name, b.name))
+          .map(a => ({
+            ...toDriver('accounts', a),
+            incomes_total:  total(state.incomes.filter(i => i.account_id === a.id)),
+            expenses_total: total(state.expenses.filter(e => e.account_id === a.id)),
+            paid_out:       total(state.statement_payments.filter(p => p.from_account_id === a.id)),
+            paid_in:        total(state.statement_payments.filter(p => p.account_id === a.id)),
+          }));
+      },
+      async create(householdId, { name, type, opening_balance, credit_limit, closing_day, due_day }) {
+        if (taken('accounts', householdId, 'name', name)) throw duplicateEntry(name);
+        const id = nextId('accounts');
+        insert('accounts', {
+          id, household_id: householdId, name, type, opening_balance: opening_balance ?? 0,
+          credit_limit, closing_day, due_day, archived: 0, version: 1,
+        });
+        return id;
+      },
+      async update(householdId, id, changes, version) {
+        return versionedUpdate('accounts', householdId, id, changes, version,
+          uniqueUpdate('accounts', householdId, 'name'));
+      },
+      async countUsage(id) {
+        return state.expenses.filter(e => e.account_id === id).length
+          + state.incomes.filter(i => i.account_id === id).length
+          + state.statement_payments.filter(p => p.account_id === id).length
+          + state.statement_payments.filter(p => p.from_account_id === id).length;
+      },
+      // Pagamentos da fatura caem junto; nas demais tabelas a
+      // conta só é desvinculada (ON DELETE SET NULL).
+      async remove(householdId, id) {
+        if (!removeOwned('accounts', householdId, id)) return;
+        state.statement_payments = state.statement_payments.filter(p => p.account_id !== id);
+        for (const p of state.statement_payments) if (p.from_account_id === id) p.from_account_id = null;
+        for (const table of ['expenses', 'incomes', 'installment_plans']) {
+          for (const row of state[table]) if (row.account_id === id) row.account_id = null;
+        }
+      },
+    },
+
+    statements: {
+      async charges(householdId, accountId) {
+        const rows = state.expenses.filter(e =>
+          e.household_id === householdId && e.account_id === accountId && e.statement_month !== null);
+        return [...groupBy(rows, e => e.statement_month)]
+          .map(([month, list]) => ({ month, total: sum(list.map(e => e.amount)), n: list.length }));
+      },
+      async paymentTotals(householdId, accountId) {
+        const rows = state.statement_payments.filter(p => p.household_id === householdId && p.account_id === accountId);
+        return [...groupBy(rows, p => p.statement_month)]
+          .map(([month, list]) => ({ month, paid: sum(list.map(p => p.amount)) }));
+      },
+      async payments(householdId, accountId, month) {
+        return state.statement_payments
+          .filter(p => p.household_id === householdId && p.account_id === accountId && p.statement_month === month)
+          .sort((a, b) => ascending(a.paid_at, b.paid_at) || a.id - b.id)
+          .map(p => {
+            const { id, from_account_id, amount, paid_at, created_by, created_at } = toDriver('statement_payments', p);
+            return { id, from_account_id, amount, paid_at, created_by, created_at };
+          });
+      },
+      async addPayment({ household_id, account_id, statement_month, from_account_id, amount, paid_at, created_by }) {
+        insert('statement_payments', {
+          id: nextId('statement_payments'), household_id, account_id, statement_month, from_account_id,
+          amount, paid_at, created_by,
+        });
+      },
+    },
+
+    expenses: {
+      async find(householdId, id) {
+        const row = ownedBy('expenses', householdId, id);
+        return row ? expenseRow(row) : null;
+      },
+      async list(householdId, filters, { sort = 'date', dir = 'desc', after = null, limit = null } = {}) {
+        const sign = dir === 'asc' ? 1 : -1;
+        const key  = sort in { date: 1, amount: 1, description: 1 } ? sort : 'date';
+        const cmp  = (value, id, other) =>
+          sign * (compareSort(key, value, other[key]) || (id < other.id ? -1 : id > other.id ? 1 : 0));
+
+        let rows = state.expenses
+          .filter(e => matchesExpense(e, householdId, filters))
+          .sort((a, b) => cmp(a[key], a.id, b));
+        if (after) rows = rows.filter(e => cmp(after.value, after.id, e) < 0);
+        if (limit) rows = rows.slice(0, limit);
+        return rows.map(expenseRow);
+      },
+      async count(householdId, filters) {
+        return state.expenses.filter(e => matchesExpense(e, householdId, filters)).length;
+      },
+      async upsert(expense, { keepLinks = false } = {}) {
+        const values = numeric('expenses', {
+          paid_by: null, payee: null, notes: null, account_id: null, payment_method: null, isRecurring: false,
+          ...expense,
+        });
+        values.isRecurring = values.isRecurring ? 1 : 0;
+        const row = state.expenses.find(e => e.id === expense.id);
+        if (!row) return insertExpense(values);
+        if (row.household_id !== expense.household_id) return false;
+        const { id, household_id, created_by, ...changes } = values;
+        if (keepLinks) { delete changes.account_id; delete changes.paid_by; }
+        bump(Object.assign(row, changes));
+        return true;
+      },
+      async setTags(householdId, expenseId, names) {
+        state.expense_tags = state.expense_tags.filter(et => et.expense_id !== expenseId);
+        for (const name of names) {
+          let tag = state.tags.find(t => t.household_id === householdId && sameText(t.name, name));
+          if (!tag) tag = insert('tags', { id: nextId('tags'), household_id: householdId, name });
+          if (!state.expense_tags.some(et => et.expense_id === expenseId && et.tag_id === tag.id))
+            state.expense_tags.push({ expense_id: expenseId, tag_id: tag.id });
+        }
+      },
+      async create(expense, { ignore = false } = {}) {
+        return insertExpense(expense, { ignore });
+      },
+      async update(householdId, id, changes, version) {
+        return versionedUpdate('expenses', householdId, id, changes, version);
+      },
+      async touch(householdId, id) {
+        const row = ownedBy('expenses', householdId, id);
+        if (row) bump(row);
+      },
+      async remove(householdId, id) {
+        return removeExpenses(e => e.id === id && e.household_id === householdId);
+      },
+      async refreshStatementMonths(householdId, { expenseId = null, accountId = null, planId = null } = {}) {
+        for (const e of state.expenses) {
+          if (e.household_id !== householdId) continue;
+          if ((expenseId && e.id !== expenseId) || (accountId && e.account_id !== accountId)
+            || (planId && e.installment_plan_id !== planId)) continue;
+          const card  = state.accounts.find(a => a.id === e.account_id && a.type === 'credit_card');
+          const month = card ? statementMonth(e.date, card.closing_day) : null;
+          if (e.statement_month !== month) Object.assign(e, { statement_month: month, updated_at: now() });
+        }
+      },
+      async listByStatement(householdId, accountId, month) {
+        return state.expenses
+          .filter(e => e.household_id === householdId && e.account_id === accountId && e.statement_month === month)
+          .sort((a, b) => ascending(a.date, b.date) || a.created_at - b.created_at)
+          .map(expenseRow);
+      },
+      async listByPlan(householdId, planId) {
+        return state.expenses
+          .filter(e => e.household_id === householdId && e.installment_plan_id === planId)
+          .sort((a, b) => a.installment_number - b.installment_number)
+          .map(expenseRow);
+      },
+      async listByIds(householdId, ids) {
+        return state.expenses.filter(e => e.household_id === householdId && ids.includes(e.id)).map(expenseRow);
+      },
+      async listInstallments(householdId, from, to) {
+        return state.expenses
+          .filter(e => e.household_id === householdId && e.installment_plan_id !== null && inRange(e, from, to))
+          .sort((a, b) => ascending(a.date, b.date) || collator.compare(a.description, b.description))
+          .map(expenseRow);
+      },
+      async inDateRange(householdId, from, to) {
+        return state.expenses
+          .filter(e => e.household_id === householdId && inRange(e, from, to))
+          .map(e => {
+            const { id, description, amount, date } = toDriver('expenses', e);
+            return { id, description, amount, date };
+          });
+      },
+      async descriptionHistory(householdId, limit) {
+        return state.expenses
+          .filter(e => e.household_id === householdId && !categoryOf(e.category_id).archived)
+          .sort((a, b) => ascending(b.date, a.date))
+          .slice(0, limit)
+          .map(({ description, category_id }) => ({ description, category_id }));
+      },
+      async anomalyBase(householdId, from) {
+        return state.expenses
+          .filter(e => e.household_id === householdId && e.date >= from)
+          .map(e => {
+            const { id, description, amount, category_id, date, recurring_rule_id, installment_plan_id, created_at } =
+              toDriver('expenses', e);
+            return {
+              id, description, amount, category_id, category: categoryOf(category_id).name, date,
+              recurring_rule_id, installment_plan_id, created_at,
+            };
+          });
+      },
+      async splits(expenseId) {
+        return state.expense_splits
+          .filter(s => s.expense_id === expenseId)
+          .sort((a, b) => ascending(a.user_id, b.user_id))
+          .map(s => toDriver('expense_splits', s));
+      },
+      async setSplit(expenseId, type, shares) {
+        const row = state.expenses.find(e => e.id === expenseId);
+        if (row && row.split_type !== type) Object.assign(row, { split_type: type, updated_at: now() });
+        state.expense_splits = state.expense_splits.filter(s => s.expense_id !== expenseId);
+        for (const share of shares) {
+          state.expense_splits.push(numeric('expense_splits', {
+            expense_id: expenseId, user_id: share.user_id, amount: share.amount, percent: share.percent,
+          }));
+        }
+      },
+    },
+
+    tags: {
+      async list(householdId) {
+        return state.tags
+          .filter(t => t.household_id === householdId)
+          .map(t => ({ id: t.id, name: t.name, count: state.expense_tags.filter(et => et.tag_id === t.id).length }))
+          .sort((a, b) => b.count - a.count || collator.compare(a.name, b.name));
+      },
+      async remove(householdId, id) {
+        const tagged = new Set(state.expense_tags.filter(et => et.tag_id === id).map(et => et.expense_id));
+        for (const e of state.expenses) if (e.household_id === householdId && tagged.has(e.id)) bump(e);
+        const removed = removeOwned('tags', householdId, id);
+        if (removed) state.expense_tags = state.expense_tags.filter(et => et.tag_id !== id);
+        return removed;
+      },
+    },
+
+    receipts: {
+      async list(householdId, expenseId) {
+        return state.expense_receipts
+          .filter(r => r.household_id === householdId && r.expense_id === expenseId)
+          .sort((a, b) => a.created_at - b.created_at || a.id - b.id)
+          .map(r => ({ ...r }));
+      },
+      async find(householdId, expenseId, id) {
+        const row = state.expense_receipts.find(r =>
+          r.id === id && r.expense_id === expenseId && r.household_id === householdId);
+        return row ? { ...row } : null;
+      },
+      async create({ household_id, expense_id, storage_key, filename, content_type, size, uploaded_by }) {
+        const row = insert('expense_receipts', {
+          id: nextId('expense_receipts'), household_id, expense_id, storage_key, filename, content_type, size,
+          uploaded_by,
+        });
+        return { ...row };
+      },
+      async remove(id) {
+        state.expense_receipts = state.expense_receipts.filter(r => r.id !== id);
+      },
+      async move(householdId, fromExpenseId, toExpenseId) {
+        state.expense_receipts
+          .filter(r => r.household_id === householdId && r.expense_id === fromExpenseId)
+          .forEach(r => { r.expense_id = toExpenseId; });
+      },
+    },
+
+    settlements: {
+      async paidTotals(householdId) {
+        const rows = state.expenses.filter(e => e.household_id === householdId && e.split_type !== null);
+        return [...groupBy(rows, e => e.paid_by ?? e.created_by)]
+          .map(([userId, list]) => ({ user_id: userId, total: sum(list.map(e => e.amount)) }));
+      },
+      async shareTotals(householdId) {
+        const rows = state.expense_splits.filter(s =>
+          state.expenses.some(e => e.id === s.expense_id && e.household_id === householdId));
+        return [...groupBy(rows, s => s.user_id)]
+          .map(([userId, list]) => ({ user_id: userId, total: sum(list.map(s => s.amount)) }));
+      },
+      async sentTotals(householdId) {
+        const rows = state.settlements.filter(s => s.household_id === householdId);
+        return [...groupBy(rows, s => s.from_user_id)]
+          .map(([userId, list]) => ({ user_id: userId, total: sum(list.map(s => s.amount)) }));
+      },
+      async receivedTotals(householdId) {
+        const rows = state.settlements.filter(s => s.household_id === householdId);
+        return [...groupBy(rows, s => s.to_user_id)]
+          .map(([userId, list]) => ({ user_id: userId, total: sum(list.map(s => s.amount)) }));
+      },
+      async history(householdId, limit) {
+        return state.settlements
+          .filter(s => s.household_id === householdId)
+          .sort((a, b) => ascending(b.date, a.date) || b.id - a.id)
+          .slice(0, limit)
+          .map(s => ({ ...toDriver('settlements', s), from_name: userName(s.from_user_id), to_name: userName(s.to_user_id) }));
+      },
+      async create({ household_id, from_user_id, to_user_id, amount, date, note, created_by }) {
+        const row = insert('settlements', {
+          id: nextId('settlements'), household_id, from_user_id, to_user_id, amount, date, note, created_by,
+        });
+        return toDriver('settlements', row);
+      },
+      async remove(householdId, id) {
+        return removeOwned('settlements', householdId, id);
+      },
+    },
+
+    incomes: {
+      async list(householdId, { source, startDate, endDate, search }, { limit, offset }) {
+        const rows = state.incomes
+          .filter(i => i.household_id === householdId
+            && (!source || i.source === source)
+            && (!startDate || i.date >= startDate)
+            && (!endDate || i.date <= endDate)
+            && (!search || contains(i.description, search)))
+          .sort(byDateDesc);
+        return { rows: rows.slice(offset, offset + limit).map(r => toDriver('incomes', r)), total: rows.length };
+      },
+      async find(householdId, id) {
+        const row = ownedBy('incomes', householdId, id);
+        return row ? toDriver('incomes', row) : null;
+      },
+      async upsert(income) {
+        const row = state.incomes.find(i => i.id === income.id);
+        if (!row) {
+          insert('incomes', { ...income, version: 1 });
+          return true;
+        }
+        if (row.household_id !== income.household_id) return false;
+        const { description, amount, source, account_id, date } = income;
+        bump(Object.assign(row, numeric('incomes', { description, amount, source, account_id, date })));
+        return true;
+      },
+      async update(householdId, id, changes, version) {
+        return versionedUpdate('incomes', householdId, id, changes, version);
+      },
+      async remove(householdId, id) {
+        return removeOwned('incomes', householdId, id);
+      },
+    },
+
+    budgets: {
+      async periods(householdId, to) {
+        return state.budgets
+          .filter(b => b.household_id === householdId && b.effective_month <= to)
+          .sort(byMonthAsc)
+          .map(b => {
+            const c = categoryOf(b.category_id);
+            return { ...toDriver('budgets', b), category: c.name, color: c.color, parent_id: c.parent_id };
+          });
+      },
+      async find(householdId, categoryId, month) {
+        const row = state.budgets.find(b =>
+          b.household_id === householdId && b.category_id === categoryId && b.effective_month === month);
+        return row ? budgetRow(row) : null;
+      },
+      async previous(householdId, categoryId, month) {
+        const [row] = state.budgets
+          .filter(b => b.household_id === householdId && b.category_id === categoryId && b.effective_month <= month)
+          .sort(byMonthDesc);
+        return row ? { rollover: row.rollover, alert_thresholds: row.alert_thresholds } : null;
+      },
+      async updateVersioned(householdId, categoryId, month, values, version) {
+        const row = state.budgets.find(b =>
+          b.household_id === householdId && b.category_id === categoryId && b.effective_month === month);
+        return periodUpdate(row, values, version);
+      },
+      async upsert(householdId, categoryId, month, values) {
+        periodUpsert(
+          'budgets',
+          b => b.household_id === householdId && b.category_id === categoryId && b.effective_month === month,
+          values,
+          { id: nextId('budgets'), household_id: householdId, category_id: categoryId, effective_month: month }
+        );
+      },
+      async keys(householdId, categoryId, month = null) {
+        return state.budgets
+          .filter(b => b.household_id === householdId && b.category_id === categoryId
+            && (!month || b.effective_month === month))
+          .map(({ category_id, effective_month }) => ({ category_id, effective_month }));
+      },
+      async remove(householdId, categoryId, month = null) {
+        state.budgets = state.budgets.filter(b => !(b.household_id === householdId && b.category_id === categoryId
+          && (!month || b.effective_month === month)));
+      },
+    },
+
+    householdBudgets: {
+      async periods(householdId, to) {
+        return state.household_budgets
+          .filter(b => b.household_id === householdId && b.effective_month <= to)
+          .sort(byMonthAsc)
+          .map(b => toDriver('household_budgets', b));
+      },
+      async find(householdId, month) {
+        const row = state.household_budgets.find(b => b.household_id === householdId && b.effective_month === month);
+        return row ? toDriver('household_budgets', row) : null;
+      },
+      async previous(householdId, month) {
+        const [row] = state.household_budgets
+          .filter(b => b.household_id === householdId && b.effective_month <= month)
+          .sort(byMonthDesc);
+        return row ? { rollover: row.rollover, alert_thresholds: row.alert_thresholds } : null;
+      },
+      async updateVersioned(householdId, month, values, version) {
+        const row = state.household_budgets.find(b => b.household_id === householdId && b.effective_month === month);
+        return periodUpdate(row, values, version);
+      },
+      async upsert(householdId, month, values) {
+        periodUpsert(
+          'household_budgets',
+          b => b.household_id === householdId && b.effective_month === month,
+          values,
+          { household_id: householdId, effective_month: month }
+        );
+      },
+      async remove(householdId, month) {
+        const before = state.household_budgets.length;
+        state.household_budgets = state.household_budgets
+          .filter(b => !(b.household_id === householdId && b.effective_month === month));
+        return before - state.household_budgets.length;
+      },
+    },
+
+    notifications: {
+      async create(householdId, { type, title, body, data = null, dedupeKey = null }) {
+        if (dedupeKey !== null && state.notifications.some(n =>
+          n.household_id === householdId && sameText(n.dedupe_key, dedupeKey))) return null;
+        const id = nextId('notifications');
+        insert('notifications', {
+          id, household_id: householdId, type, title, body, data: data ? structuredClone(data) : null,
+          dedupe_key: dedupeKey, read_at: null,
+        });
+        return id;
+      },
+      async dedupeKeys(householdId, prefix) {
+        return state.notifications
+          .filter(n => n.household_id === householdId && n.dedupe_key !== null && startsWith(n.dedupe_key, prefix))
+          .map(n => n.dedupe_key);
+      },
+      async list(householdId, { unreadOnly = false, limit }) {
+        return state.notifications
+          .filter(n => n.household_id === householdId && (!unreadOnly || n.read_at === null))
+          .sort((a, b) => b.created_at - a.created_at || b.id - a.id)
+          .slice(0, limit)
+          .map(({ id, type, title, body, data, read_at, created_at }) =>
+            ({ id, type, title, body, data: data && structuredClone(data), read_at, created_at }));
+      },
+      async unreadCount(householdId) {
+        return state.notifications.filter(n => n.household_id === householdId && n.read_at === null).length;
+      },
+      async markAllRead(householdId) {
+        const unread = state.notifications.filter(n => n.household_id === householdId && n.read_at === null);
+        const at = now();
+        for (const n of unread) n.read_at = at;
+        return unread.length;
+      },
+      async markRead(householdId, id) {
+        const row = ownedBy('notifications', householdId, id);
+        if (!row) return 0;
+        row.read_at ??= now();
+        return 1;
+      },
+      async remove(householdId, id) {
+        return removeOwned('notifications', householdId, id);
+      },
+    },
+
+    goals: {
+      async find(householdId, id) {
+        const row = ownedBy('savings_goals', householdId, id);
+        return row ? toDriver('savings_goals', row) : null;
+      },
+      async list(householdId, { includeArchived = false } = {}) {
+        return state.savings_goals
+          .filter(g => g.household_id === householdId && (includeArchived || !g.archived))
+          .sort((a, b) => a.archived - b.archived
+            || (a.deadline === null) - (b.deadline === null)
+            || ascending(a.deadline, b.deadline)
+            || collator.compare(a.name, b.name))
+          .map(g => toDriver('savings_goals', g));
+      },
+      async create(householdId, { name, target_amount, deadline, color }) {
+        if (taken('savings_goals', householdId, 'name', name)) throw duplicateEntry(name);
+        const id = nextId('savings_goals');
+        insert('savings_goals', {
+          id, household_id: householdId, name, target_amount, deadline, color, archived: 0, version: 1,
+        });
+        return id;
+      },
+      async update(householdId, id, changes, version) {
+        return versionedUpdate('savings_goals', householdId, id, changes, version,
+          uniqueUpdate('savings_goals', householdId, 'name'));
+      },
+      async remove(householdId, id) {
+        const removed = removeOwned('savings_goals', householdId, id);
+        if (removed) state.goal_contributions = state.goal_contributions.filter(c => c.goal_id !== id);
+        return removed;
+      },
+      async contributions(householdId, goalId = null) {
+        return state.goal_contributions
+          .filter(c => c.household_id === householdId && (!goalId || c.goal_id === goalId))
+          .sort((a, b) => ascending(b.date, a.date) || b.id - a.id)
+          .map(c => toDriver('goal_contributions', c));
+      },
+      async addContribution({ household_id, goal_id, amount, date, note, created_by }) {
+        insert('goal_contributions', {
+          id: nextId('goal_contributions'), household_id, goal_id, amount, date, note, created_by,
+        });
+      },
+      async removeContribution(householdId, goalId, id) {
+        const before = state.goal_contributions.length;
+        state.goal_contributions = state.goal_contributions
+          .filter(c => !(c.id === id && c.goal_id === goalId && c.household_id === householdId));
+        return before - state.goal_contributions.length;
+      },
+    },
+
+    recurring: {
+      async list(householdId) {
+        return state.recurring_rules
+          .filter(r => r.household_id === householdId)
+          .sort((a, b) => ascending(b.start_date, a.start_date) || b.created_at - a.created_at)
+          .map(ruleRow);
+      },
+      async find(householdId, id) {
+        const row = ownedBy('recurring_rules', householdId, id);
+        return row ? ruleRow(row) : null;
+      },
+      async due(until, householdId = null) {
+        return state.recurring_rules
+          .filter(r => r.start_date <= until && (!householdId || r.household_id === householdId))
+          .map(r => toDriver('recurring_rules', r));
+      },
+      async create({
+        id, household_id, created_by, description, amount, category_id, frequency, day_of_month, start_date, end_date,
+      }) {
+        insert('recurring_rules', {
+          id, household_id, created_by, description, amount, category_id, frequency, day_of_month,
+          start_date, end_date, last_generated: null, version: 1,
+        });
+      },
+      async update(householdId, id, changes, version) {
+        return versionedUpdate('recurring_rules', householdId, id, changes, version);
+      },
+      async setLastGenerated(id, date) {
+        const row = state.recurring_rules.find(r => r.id === id);
+        if (row && row.last_generated !== date) Object.assign(row, { last_generated: date, updated_at: now() });
+      },
+      // As despesas já geradas permanecem (ON DELETE SET NULL)
+      async remove(householdId, id) {
+        const removed = removeOwned('recurring_rules', householdId, id);
+        if (removed) for (const e of state.expenses) if (e.recurring_rule_id === id) e.recurring_rule_id = null;
+        return removed;
+      },
+    },
+
+    installments: {
+      async find(householdId, id) {
+        const row = ownedBy('installment_plans', householdId, id);
+        return row ? planRow(row) : null;
+      },
+      async list(householdId) {
+        return state.installment_plans
+          .filter(p => p.household_id === householdId)
+          .sort((a, b) => ascending(b.first_date, a.first_date) || b.created_at - a.created_at)
+          .map(planRow);
+      },
+      async ownerOf(id) {
+        return state.installment_plans.find(p => p.id === id)?.household_id ?? null;
+      },
+      async create({
+        id, household_id, created_by, description, total_amount, installments, category_id, account_id,
+        payment_method, first_date,
+      }) {
+        if (state.installment_plans.some(p => p.id === id)) throw duplicateEntry(id);
+        insert('installment_plans', {
+          id, household_id, created_by, description, total_amount, installments, category_id, account_id,
+          payment_method, first_date, cancelled_at: null, version: 1,
+        });
+      },
+      async update(householdId, id, changes, version) {
+        return versionedUpdate('installment_plans', householdId, id, changes, version);
+      },
+      async progress(householdId, today, planId = null) {
+        const rows = state.expenses.filter(e => e.household_id === householdId
+          && (planId ? e.installment_plan_id === planId : e.installment_plan_id !== null));
+        return [...groupBy(rows, e => e.installment_plan_id)].map(([id, list]) => {
+          const upcoming = list.filter(e => e.date >= today).map(e => e.date).sort();
+          return {
+            plan_id:          id,
+            count:            list.length,
+            due_count:        String(list.filter(e => e.date < today).length),
+            remaining_amount: sum([0, ...list.filter(e => e.date >= today).map(e => e.amount)]),
+            next_date:        upcoming.length ? driverDate(upcoming[0]) : null,
+          };
+        });
+      },
+      async pastTotals(householdId, planId, before) {
+        const rows = state.expenses.filter(e =>
+          e.household_id === householdId && e.installment_plan_id === planId && e.date < before);
+        return {
+          n:     Math.max(0, ...rows.map(e => e.installment_number)),
+          total: sum([0, ...rows.map(e => e.amount)]),
+        };
+      },
+      async expenseIds(householdId, planId, { from = null } = {}) {
+        return state.expenses
+          .filter(e => e.household_id === householdId && e.installment_plan_id === planId && (!from || e.date >= from))
+          .map(e => e.id);
+      },
+      async updateRemaining(householdId, planId, from, { description, count, category_id, account_id, payment_method }) {
+        for (const e of state.expenses) {
+          if (e.household_id !== householdId || e.installment_plan_id !== planId || e.date < from) continue;
+          bump(Object.assign(e, {
+            description: `${description} (${e.installment_number}/${count})`, category_id, account_id, payment_method,
+          }));
+        }
+      },
+      async relabelPast(householdId, planId, before, { description, count }) {
+        for (const e of state.expenses) {
+          if (e.household_id !== householdId || e.installment_plan_id !== planId || e.date >= before) continue;
+          bump(Object.assign(e, { description: `${description} (${e.installment_number}/${count})` }));
+        }
+      },
+      async countExpenses(id) {
+        return state.expenses.filter(e => e.installment_plan_id === id).length;
+      },
+      // As parcelas que sobrarem ficam soltas (ON DELETE SET NULL)
+      async remove(householdId, id) {
+        if (!removeOwned('installment_plans', householdId, id)) return;
+        for (const e of state.expenses) if (e.installment_plan_id === id) e.installment_plan_id = null;
+      },
+      async cancel(householdId, id) {
+        const row = ownedBy('installment_plans', householdId, id);
+        if (!row) return;
+        row.cancelled_at ??= now();
+        bump(row);
+      },
+    },
+
+    reports: {
+      async categoryTotals(householdId, { month = null, rollup = false } = {}) {
+        const rows = state.expenses.filter(e => e.household_id === householdId && inMonth(e, month));
+        const groups = groupBy(rows, e => {
+          const c = categoryOf(e.category_id);
+          return rollup ? (c.parent_id ?? c.id) : c.id;
+        });
+        return [...groups]
+          .map(([id, list]) => {
+            const g = categoryOf(id);
+            return { category_id: id, category: g.name, color: g.color, total: sum(list.map(e => e.amount)), count: list.length };
+          })
+          .sort((a, b) => Number(b.total) - Number(a.total));
+      },
+      async expenseTotals(householdId, { month = null } = {}) {
+        const rows = state.expenses.filter(e => e.household_id === householdId && inMonth(e, month));
+        return {
+          grand_total: sum(rows.map(e => e.amount)),
+          tx_count:    rows.length,
+          card_total:  sum(rows.map(e => (e.statement_month === null ? 0 : e.amount))),
+        };
+      },
+      async incomeTotal(householdId, { month = null } = {}) {
+        return sum(state.incomes.filter(i => i.household_id === householdId && inMonth(i, month)).map(i => i.amount));
+      },
+      async memberTotals(householdId, { month = null } = {}) {
+        const rows = state.expenses.filter(e => e.household_id === householdId && inMonth(e, month));
+        return [...groupBy(rows, e => e.created_by)]
+          .map(([userId, list]) => ({
+            user_id: userId, name: userName(userId), total: sum(list.map(e => e.amount)), count: list.length,
+          }))
+          .sort((a, b) => Number(b.total) - Number(a.total));
+      },
+      async monthlySpending(householdId, before) {
+        const rows = state.expenses.filter(e => e.household_id === householdId && e.date < before);
+        return [...groupBy(rows, e => `${e.category_id}:${e.date.slice(0, 7)}`).values()].map(list => ({
+          category_id: list[0].category_id,
+          parent_id:   categoryOf(list[0].category_id).parent_id,
+          month:       list[0].date.slice(0, 7),
+          total:       sum(list.map(e => e.amount)),
+        }));
+      },
+      async monthlyTotals(householdId, from, to) {
+        const inPeriod = r => r.household_id === householdId && inRange(r, from, to);
+        const months = new Map();
+        const bucket = month => {
+          if (!months.has(month)) months.set(month, { month, expenses: [], incomes: [] });
+          return months.get(month);
+        };
+        state.expenses.filter(inPeriod).forEach(e => bucket(e.date.slice(0, 7)).expenses.push(e));
+        state.incomes.filter(inPeriod).forEach(i => bucket(i.date.slice(0, 7)).incomes.push(i));
+        return [...months.values()]
+          .sort((a, b) => (a.month < b.month ? -1 : 1))
+          .map(m => ({
+            month:        m.month,
+            total:        sum([0, ...m.expenses.map(e => e.amount)]),
+            count:        String(m.expenses.length),
+            income:       sum([0, ...m.incomes.map(i => i.amount)]),
+            installments: sum([0, ...m.expenses.map(e => (e.installment_plan_id === null ? 0 : e.amount))]),
+          }));
+      },
+      async forecastMonth(householdId, cutoff, from, to) {
+        const rows = state.expenses.filter(e => e.household_id === householdId && inRange(e, from, to));
+        const variable = e => e.recurring_rule_id === null && e.installment_plan_id === null;
+        return [...groupBy(rows, e => e.category_id)].map(([categoryId, list]) => ({
+          category_id:      categoryId,
+          to_date:          sum(list.map(e => (e.date <= cutoff ? e.amount : 0))),
+          variable_to_date: sum(list.map(e => (e.date <= cutoff && variable(e) ? e.amount : 0))),
+          scheduled:        sum(list.map(e => (e.date > cutoff ? e.amount : 0))),
+        }));
+      },
+      async variableDaily(householdId, from, to) {
+        const rows = state.expenses.filter(e => e.household_id === householdId && inRange(e, from, to)
+          && e.recurring_rule_id === null && e.installment_plan_id === null);
+        return [...groupBy(rows, e => `${e.category_id}:${e.date}`).values()].map(list => ({
+          category_id: list[0].category_id,
+          month:       list[0].date.slice(0, 7),
+          day:         Number(list[0].date.slice(8, 10)),
+          total:       sum(list.map(e => e.amount)),
+        }));
+      },
+      async tagTotals(householdId, { startDate = null, endDate = null } = {}) {
+        const rows = [];
+        for (const tag of state.tags.filter(t => t.household_id === householdId)) {
+          const tagged = state.expense_tags
+            .filter(et => et.tag_id === tag.id)
+            .map(et => state.expenses.find(e => e.id === et.expense_id))
+            .filter(e => (!startDate || e.date >= startDate) && (!endDate || e.date <= endDate));
+          for (const [categoryId, list] of groupBy(tagged, e => e.category_id)) {
+            const c = categoryOf(categoryId);
+            const dates = list.map(e => e.date).sort();
+            rows.push({
+              tag_id: tag.id, tag: tag.name, category_id: c.id, category: c.name, color: c.color,
+              total: sum(list.map(e => e.amount)), count: list.length,
+              first_date: driverDate(dates[0]), last_date: driverDate(dates[dates.length - 1]),
+            });
+          }
+        }
+        return rows;
+      },
+    },
+
+    categoryRules: {
+      async list(householdId) {
+        return state.category_rules
+          .filter(r => r.household_id === householdId && !categoryOf(r.category_id).archived)
+          .sort((a, b) => b.priority - a.priority || b.pattern.length - a.pattern.length)
+          .map(r => ({ ...r, category: categoryOf(r.category_id).name }));
+      },
+      async create(householdId, { pattern, category_id, priority }) {
+        if (taken('category_rules', householdId, 'pattern', pattern)) throw duplicateEntry(pattern);
+        const id = nextId('category_rules');
+        insert('category_rules', { id, household_id: householdId, pattern, category_id, priority });
+        return id;
+      },
+      async update(householdId, id, changes) {
+        const row = ownedBy('category_rules', householdId, id);
+        if (!row) return 0;
+        uniqueUpdate('category_rules', householdId, 'pattern')(row, changes);
+        Object.assign(row, changes, { updated_at: now() });
+        return 1;
+      },
+      async remove(householdId, id) {
+        return removeOwned('category_rules', householdId, id);
+      },
+    },
+
+    flags: {
+      async create(householdId, { expense_id, related_expense_id, kind, flag_key, score, reason }) {
+        if (taken('expense_flags', householdId, 'flag_key', flag_key)) return null;
+        const id = nextId('expense_flags');
+        insert('expense_flags', {
+          id, household_id: householdId, expense_id, related_expense_id, kind, flag_key, score, reason,
+          status: 'open', resolved_at: null, resolved_by: null,
+        });
+        return id;
+      },
+      async clearOpen(householdId, expenseId) {
+        state.expense_flags = state.expense_flags.filter(f => !(f.household_id === householdId && f.status === 'open'
+          && (f.expense_id === expenseId || f.related_expense_id === expenseId)));
+      },
+      async listOpen(householdId) {
+        return state.expense_flags
+          .filter(f => f.household_id === householdId && f.status === 'open')
+          .sort((a, b) => b.created_at - a.created_at || b.id - a.id)
+          .map(f => toDriver('expense_flags', f));
+      },
+      async find(householdId, id) {
+        const row = ownedBy('expense_flags', householdId, id);
+        return row ? toDriver('expense_flags', row) : null;
+      },
+      async dismiss(householdId, id, userId) {
+        const row = ownedBy('expense_flags', householdId, id);
+        if (!row) return 0;
+        Object.assign(row, { status: 'dismissed', resolved_at: now(), resolved_by: userId });
+        return 1;
+      },
+    },
+
+    insightCache: {
+      async find(householdId, month, hash) {
+        const row = state.insight_cache.find(c =>
+          c.household_id === householdId && c.month === month && c.context_hash === hash);
+        return row ? structuredClone(row) : null;
+      },
+      async save(householdId, month, hash, provider, insights) {
+        const row = state.insight_cache.find(c => c.household_id === householdId && c.month === month);
+        const values = { context_hash: hash, provider, insights: structuredClone(insights) };
+        if (row) Object.assign(row, values, { updated_at: now() });
+        else insert('insight_cache', { household_id: householdId, month, ...values });
+      },
+    },
+
+    changes: {
+      async since(householdId, since = null) {
+        const changed = r => r.household_id === householdId && (!since || r.updated_at >= since);
+        return {
+          now:      clockTime(),
+          expenses: state.expenses.filter(changed).sort(byDateDesc).map(expenseRow),
+          incomes:  state.incomes.filter(changed).sort(byDateDesc).map(r => toDriver('incomes', r)),
+          budgets:  state.budgets.filter(changed).map(budgetRow),
+          householdBudgets: state.household_budgets.filter(changed).map(b => toDriver('household_budgets', b)),
+          categories:   state.categories.filter(changed).sort(categoryOrder).map(c => ({ ...c })),
+          recurring:    state.recurring_rules.filter(changed).map(ruleRow),
+          installments: state.installment_plans.filter(changed).map(planRow),
+          deleted: since
+            ? state.deleted_records
+                .filter(d => d.household_id === householdId && d.deleted_at >= since)
+                .map(({ entity, entity_id, deleted_at }) => ({ entity, id: entity_id, deleted_at }))
+            : [],
+        };
+      },
+    },
+
+    deletions: {
+      async record(householdId, entity, entityId) {
+        state.deleted_records.push({
+          id: nextId('deleted_records'), household_id: householdId, entity, entity_id: String(entityId), deleted_at: now(),
+        });
+      },
+    },
+  };
+
+  return repo;
+}
@@ -0,0 +1,1324 @@
+// ============================================================
+//  EcoFin — Repositório MySQL
+//  Arquivo: repositories/mysql.js
+// ============================================================
+// Todo o acesso a dados das rotas; server.js só usa o pool
+// diretamente para rodar as migrações.
+//
+// `db` é o pool ou uma conexão dentro de transação: os dois têm
+// execute(). Linhas voltam como o mysql2 entrega (DATE como Date,
+// DECIMAL e SUM como string); o mapeamento fica nas rotas.
+
+// Colunas comuns às consultas de despesas: o nome/cor da
+// categoria, o nome de quem lançou e o total de parcelas vêm por
+// JOIN; tags, comprovantes e cotas da divisão, por subconsulta
+// (sem GROUP BY, para que os filtros continuem só acrescentando
+// WHERE).
+const EXPENSE_SELECT = `
+  SELECT e.*, c.name AS category, c.color AS category_color,
+         c.parent_id AS category_parent_id, u.name AS created_by_name,
+         pb.name AS paid_by_name,
+         ip.installments AS installment_count,
+         (SELECT GROUP_CONCAT(CONCAT(s.user_id, ':', s.amount) ORDER BY s.user_id SEPARATOR ',')
+          FROM expense_splits s WHERE s.expense_id = e.id) AS splits,
+         (SELECT GROUP_CONCAT(t.name ORDER BY t.name SEPARATOR ',')
+          FROM expense_tags et JOIN tags t ON t.id = et.tag_id
+          WHERE et.expense_id = e.id) AS tags,
+         (SELECT COUNT(*) FROM expense_receipts r WHERE r.expense_id = e.id) AS receipt_count
+  FROM expenses e
+  JOIN categories c ON c.id = e.category_id
+  LEFT JOIN users u ON u.id = e.created_by
+  LEFT JOIN users pb ON pb.id = e.paid_by
+  LEFT JOIN installment_plans ip ON ip.id = e.installment_plan_id`;
+
+const RULE_SELECT = `
+  SELECT r.*, c.name AS category
+  FROM recurring_rules r JOIN categories c ON c.id = r.category_id`;
+
+const PLAN_SELECT = `
+  SELECT p.*, c.name AS category
+  FROM installment_plans p JOIN categories c ON c.id = p.category_id`;
+
+// A fatura é identificada pelo mês em que fecha: uma compra feita
+// depois do dia de fechamento cai na fatura seguinte. Dias de
+// fechamento maiores que o mês (ex.: 31 em fevereiro) valem como
+// o último dia.
+const STATEMENT_MONTH_SQL = `DATE_FORMAT(
+  IF(DAY(e.date) > LEAST(a.closing_day, DAY(LAST_DAY(e.date))),
+     DATE_ADD(e.date, INTERVAL 1 MONTH), e.date),
+  '%Y-%m')`;
+
+const EXPENSE_COUNT = `
+  SELECT COUNT(*) AS total
+  FROM expenses e
+  JOIN categories c ON c.id = e.category_id`;
+
+const EXPENSE_SORT_COLUMNS = {
+  date:        'e.date',
+  amount:      'e.amount',
+  description: 'e.description',
+};
+
+// Dados criados antes da autenticação existir (household_id NULL)
+// passam a pertencer à primeira família cadastrada. IGNORE descarta
+// orçamentos duplicados da mesma categoria em vez de abortar.
+const HOUSEHOLD_TABLES = ['categories', 'expenses', 'budgets', 'incomes', 'recurring_rules'];
+
+// ─── Helper: WHERE da listagem de despesas ──────────────────
+// Filtros já validados pela rota: category é lista de ids (inclui
+// as subcategorias), tag já normalizada, recurring booleano.
+function expenseWhere(householdId, filters) {
+  const {
+    category = [], account, tag, payee, startDate, endDate, search,
+    minAmount, maxAmount, recurring,
+  } = filters;
+  let where  = 'WHERE e.household_id = ?';
+  const vals = [householdId];
+
+  if (category.length) {
+    const marks = category.map(() => '?').join(', ');
+    where += ` AND (e.category_id IN (${marks}) OR c.parent_id IN (${marks}))`;
+    vals.push(...category, ...category);
+  }
+  if (account)   { where += ' AND e.account_id = ?';     vals.push(account); }
+  if (tag) {
+    where += ` AND EXISTS (SELECT 1 FROM expense_tags et JOIN tags t ON t.id = et.tag_id
+                           WHERE et.expense_id = e.id AND t.name = ?)`;
+    vals.push(tag);
+  }
+  if (payee)     { where += ' AND e.payee LIKE ?';       vals.push(`%${payee}%`); }
+  if (startDate) { where += ' AND e.date >= ?';          vals.push(startDate); }
+  if (endDate)   { where += ' AND e.date <= ?';          vals.push(endDate); }
+  if (minAmount !== undefined) { where += ' AND e.amount >= ?'; vals.push(minAmount); }
+  if (maxAmount !== undefined) { where += ' AND e.amount <= ?'; vals.push(maxAmount); }
+  if (recurring !== undefined) where += recurring ? ' AND e.isRecurring = 1' : ' AND e.isRecurring = 0';
+  if (search) {
+    where += ' AND (e.description LIKE ? OR e.payee LIKE ? OR c.name LIKE ?)';
+    vals.push(`%${search}%`, `%${search}%`, `%${search}%`);
+  }
+  return { where, vals };
+}
+
+// ─── Helper: UPDATE com controle de versão ──────────────────
+// `changes` traz só colunas já filtradas pela rota. Sem version
+// sobrescreve; com ela, só aplica se ainda for a vigente.
+async function versionedUpdate(db, table, changes, id, householdId, version) {
+  const keys  = Object.keys(changes);
+  const check = version !== undefined ? ' AND version = ?' : '';
+  const [result] = await db.execute(
+    `UPDATE ${table} SET ${[...keys.map(k => `${k} = ?`), 'version = version + 1'].join(', ')}
+     WHERE id = ? AND household_id = ?${check}`,
+    [...keys.map(k => changes[k]), id, householdId, ...(version !== undefined ? [version] : [])]
+  );
+  return result.affectedRows;
+}
+
+// Filtro de mês opcional ("YYYY-MM"), com e sem o alias "e.".
+function monthWhere(householdId, month, prefix = '') {
+  return {
+    where: `WHERE ${prefix}household_id = ?${month ? ` AND DATE_FORMAT(${prefix}date, "%Y-%m") = ?` : ''}`,
+    vals:  month ? [householdId, month] : [householdId],
+  };
+}
+
+export function createMySqlRepository(db) {
+  const one = async (sql, vals = []) => {
+    const [[row]] = await db.execute(sql, vals);
+    return row || null;
+  };
+  const all = async (sql, vals = []) => {
+    const [rows] = await db.execute(sql, vals);
+    return rows;
+  };
+  const run = async (sql, vals = []) => {
+    const [result] = await db.execute(sql, vals);
+    return result;
+  };
+
+  const repo = {
+    async ping() {
+      await db.execute('SELECT 1');
+    },
+
+    // Executa fn com um repositório preso a uma conexão; qualquer
+    // erro desfaz tudo o que fn gravou.
+    async transaction(fn) {
+      const conn = await db.getConnection();
+      try {
+        await conn.beginTransaction();
+        const result = await fn(createMySqlRepository(conn));
+        await conn.commit();
+        return result;
+      } catch (err) {
+        await conn.rollback();
+        throw err;
+      } finally {
+        conn.release();
+      }
+    },
+
+    households: {
+      async count() {
+        return (await one('SELECT COUNT(*) AS n FROM households')).n;
+      },
+      find(id) {
+        return one('SELECT * FROM households WHERE id = ?', [id]);
+      },
+      findByInviteCode(code) {
+        return one('SELECT * FROM households WHERE invite_code = ?', [code]);
+      },
+      async create({ id, name, invite_code }) {
+        await run('INSERT INTO households (id, name, invite_code) VALUES (?, ?, ?)', [id, name, invite_code]);
+      },
+      async adoptLegacyData(householdId) {
+        for (const table of HOUSEHOLD_TABLES) {
+          await run(`UPDATE IGNORE ${table} SET household_id = ? WHERE household_id IS NULL`, [householdId]);
+        }
+      },
+    },
+
+    users: {
+      findByEmail(email) {
+        return one('SELECT * FROM users WHERE email = ?', [email]);
+      },
+      listByHousehold(householdId) {
+        return all('SELECT id, name, email FROM users WHERE household_id = ? ORDER BY name', [householdId]);
+      },
+      async create({ id, household_id, name, email, password_hash }) {
+        await run(
+          'INSERT INTO users (id, household_id, name, email, password_hash) VALUES (?, ?, ?, ?, ?)',
+          [id, household_id, name, email, password_hash]
+        );
+      },
+    },
+
+    categories: {
+      list(householdId, { includeArchived = false } = {}) {
+        return all(
+          `SELECT * FROM categories
+           WHERE household_id = ?${includeArchived ? '' : ' AND archived = 0'}
+           ORDER BY COALESCE(parent_id, id), parent_id IS NOT NULL, name`,
+          [householdId]
+        );
+      },
+      find(householdId, id) {
+        return one('SELECT * FROM categories WHERE id = ? AND household_id = ?', [id, householdId]);
+      },
+      // Nome repetido na família lança o ER_DUP_ENTRY do MySQL.
+      async create(householdId, { parent_id, name, color, icon }) {
+        const result = await run(
+          `INSERT INTO categories (household_id, parent_id, name, color, icon)
+           VALUES (?, ?, ?, ?, ?)`,
+          [householdId, parent_id, name, color, icon]
+        );
+        return result.insertId;
+      },
+      update(householdId, id, changes, version) {
+        return versionedUpdate(db, 'categories', changes, id, householdId, version);
+      },
+      async countChildren(id) {
+        return (await one('SELECT COUNT(*) AS n FROM categories WHERE parent_id = ?', [id])).n;
+      },
+      // Despesas, recorrências e subcategorias que usam a categoria
+      async countUsage(id) {
+        const row = await one(
+          `SELECT
+             (SELECT COUNT(*) FROM expenses        WHERE category_id = ?) +
+             (SELECT COUNT(*) FROM recurring_rules WHERE category_id = ?) +
+             (SELECT COUNT(*) FROM categories      WHERE parent_id   = ?) AS n`,
+          [id, id, id]
+        );
+        return Number(row.n);
+      },
+      async remove(householdId, id) {
+        await run('DELETE FROM categories WHERE id = ? AND household_id = ?', [id, householdId]);
+      },
+      // Usa <=> para também funcionar com household_id NULL (dados
+      // anteriores à autenticação), onde o UNIQUE não impede repetição.
+      async seedDefaults(householdId, list) {
+        for (const c of list) {
+          await run(
+            `INSERT INTO categories (household_id, name, color, icon)
+             SELECT ?, ?, ?, ? FROM DUAL
+             WHERE NOT EXISTS (
+               SELECT 1 FROM categories WHERE household_id <=> ? AND name = ?
+             )`,
+            [householdId, c.name, c.color, c.icon, householdId, c.name]
+          );
+        }
+      },
+    },
+
+    accounts: {
+      find(householdId, id) {
+        return one('SELECT * FROM accounts WHERE id = ? AND household_id = ?', [id, householdId]);
+      },
+      // Contas com os totais que compõem o saldo (a conta fica na
+      // rota): receitas, despesas e pagamentos de fatura que saem
+      // da conta ou abatem a dívida do cartão.
+      listWithTotals(householdId, { includeArchived = false } = {}) {
+        return all(
+          `SELECT a.*,
+             (SELECT COALESCE(SUM(amount), 0) FROM incomes i WHERE i.account_id = a.id)                   AS incomes_total,
+             (SELECT COALESCE(SUM(amount), 0) FROM expenses e WHERE e.account_id = a.id)                  AS expenses_total,
+             (SELECT COALESCE(SUM(amount), 0) FROM statement_payments p WHERE p.from_account_id = a.id)   AS paid_out,
+             (SELECT COALESCE(SUM(amount), 0) FROM statement_payments p WHERE p.account_id = a.id)        AS paid_in
+           FROM accounts a
+           WHERE a.household_id = ?${includeArchived ? '' : ' AND a.archived = 0'}
+           ORDER BY a.archived, FIELD(a.type, 'checking', 'cash', 'credit_card'), a.name`,
+          [householdId]
+        );
+      },
+      // Nome repetido na família lança o ER_DUP_ENTRY do MySQL.
+      async create(householdId, { name, type, opening_balance, credit_limit, closing_day, due_day }) {
+        const result = await run(
+          `INSERT INTO accounts (household_id, name, type, opening_balance, credit_limit, closing_day, due_day)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [householdId, name, type, opening_balance, credit_limit, closing_day, due_day]
+        );
+        return result.insertId;
+      },
+      update(householdId, id, changes, version) {
+        return versionedUpdate(db, 'accounts', changes, id, householdId, version);
+      },
+      // Despesas, receitas e pagamentos de fatura ligados à conta
+      async countUsage(id) {
+        const row = await one(
+          `SELECT
+             (SELECT COUNT(*) FROM expenses           WHERE account_id      = ?) +
+             (SELECT COUNT(*) FROM incomes            WHERE account_id      = ?) +
+             (SELECT COUNT(*) FROM statement_payments WHERE account_id      = ?) +
+             (SELECT COUNT(*) FROM statement_payments WHERE from_account_id = ?) AS n`,
+          [id, id, id, id]
+        );
+        return Number(row.n);
+      },
+      async remove(householdId, id) {
+        await run('DELETE FROM accounts WHERE id = ? AND household_id = ?', [id, householdId]);
+      },
+    },
+
+    // Faturas de cartão: lançamentos e pagamentos por mês de fatura
+    statements: {
+      charges(householdId, accountId) {
+        return all(
+          `SELECT statement_month AS month, SUM(amount) AS total, COUNT(*) AS n
+           FROM expenses
+           WHERE household_id = ? AND account_id = ? AND statement_month IS NOT NULL
+           GROUP BY statement_month`,
+          [householdId, accountId]
+        );
+      },
+      paymentTotals(householdId, accountId) {
+        return all(
+          `SELECT statement_month AS month, SUM(amount) AS paid
+           FROM statement_payments
+           WHERE household_id = ? AND account_id = ?
+           GROUP BY statement_month`,
+          [householdId, accountId]
+        );
+      },
+      payments(householdId, accountId, month) {
+        return all(
+          `SELECT id, from_account_id, amount, paid_at, created_by, created_at
+           FROM statement_payments
+           WHERE household_id = ? AND account_id = ? AND statement_month = ?
+           ORDER BY paid_at, id`,
+          [householdId, accountId, month]
+        );
+      },
+      async addPayment({ household_id, account_id, statement_month, from_account_id, amount, paid_at, created_by }) {
+        await run(
+          `INSERT INTO statement_payments
+             (household_id, account_id, statement_month, from_account_id, amount, paid_at, created_by)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [household_id, account_id, statement_month, from_account_id, amount, paid_at, created_by]
+        );
+      },
+    },
+
+    expenses: {
+      find(householdId, id) {
+        return one(`${EXPENSE_SELECT} WHERE e.id = ? AND e.household_id = ?`, [id, householdId]);
+      },
+      // Paginação por keyset: `after` ({ value, id }) é a última
+      // linha já entregue; e.id desempata valores iguais.
+      list(householdId, filters, { sort = 'date', dir = 'desc', after = null, limit = null } = {}) {
+        const { where, vals } = expenseWhere(householdId, filters);
+        const column = EXPENSE_SORT_COLUMNS[sort] || EXPENSE_SORT_COLUMNS.date;
+        const order  = dir === 'asc' ? 'ASC' : 'DESC';
+        const op     = order === 'ASC' ? '>' : '<';
+
+        let sql = `${EXPENSE_SELECT} ${where}`;
+        const params = [...vals];
+        if (after) {
+          sql += ` AND (${column} ${op} ? OR (${column} = ? AND e.id ${op} ?))`;
+          params.push(after.value, after.value, after.id);
+        }
+        sql += ` ORDER BY ${column} ${order}, e.id ${order}`;
+        // LIMIT vai como string: o MySQL 8 recusa inteiro em prepared statement.
+        if (limit) { sql += ' LIMIT ?'; params.push(String(limit)); }
+        return all(sql, params);
+      },
+      async count(householdId, filters) {
+        const { where, vals } = expenseWhere(householdId, filters);
+        return (await one(`${EXPENSE_COUNT} ${where}`, vals)).total;
+      },
+      // O upsert por id só atualiza linhas da própria família; false
+      // quando o id pertence a outra. Com keepLinks, uma linha que já
+      // existe mantém a conta e quem pagou (a restauração de backup
+      // não traz esses vínculos).
+      async upsert(expense, { keepLinks = false } = {}) {
+        const {
+          id, household_id, created_by, paid_by = null, description, payee = null, notes = null,
+          amount, category_id, account_id = null, payment_method = null, date, isRecurring = false,
+        } = expense;
+        const result = await run(
+          `INSERT INTO expenses (id, household_id, created_by, paid_by, description, payee, notes, amount, category_id,
+                                 account_id, payment_method, date, isRecurring)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON DUPLICATE KEY UPDATE
+             paid_by        = IF(household_id = VALUES(household_id) AND NOT ?, VALUES(paid_by), paid_by),
+             description    = IF(household_id = VALUES(household_id), VALUES(description),    description),
+             payee          = IF(household_id = VALUES(household_id), VALUES(payee),          payee),
+             notes          = IF(household_id = VALUES(household_id), VALUES(notes),          notes),
+             amount         = IF(household_id = VALUES(household_id), VALUES(amount),         amount),
+             category_id    = IF(household_id = VALUES(household_id), VALUES(category_id),    category_id),
+             account_id     = IF(household_id = VALUES(household_id) AND NOT ?, VALUES(account_id), account_id),
+             payment_method = IF(household_id = VALUES(household_id), VALUES(payment_method), payment_method),
+             date           = IF(household_id = VALUES(household_id), VALUES(date),           date),
+             isRecurring    = IF(household_id = VALUES(household_id), VALUES(isRecurring),    isRecurring),
+             version        = IF(household_id = VALUES(household_id), version + 1,            version)`,
+          [
+            id, household_id, created_by, paid_by, description, payee, notes,
+            amount, category_id, account_id, payment_method, date, isRecurring ? 1 : 0,
+            keepLinks ? 1 : 0, keepLinks ? 1 : 0,
+          ]
+        );
+        if (result.affectedRows === 1) return true;
+        const owner = await one('SELECT household_id FROM expenses WHERE id = ?', [id]);
+        return !owner || owner.household_id === household_id;
+      },
+      // Substitui as tags da despesa (nomes já normalizados),
+      // criando as que ainda não existem.
+      async setTags(householdId, expenseId, names) {
+        await run('DELETE FROM expense_tags WHERE expense_id = ?', [expenseId]);
+        for (const name of names) {
+          await run('INSERT IGNORE INTO tags (household_id, name) VALUES (?, ?)', [householdId, name]);
+          const tag = await one('SELECT id FROM tags WHERE household_id = ? AND name = ?', [householdId, name]);
+          await run('INSERT IGNORE INTO expense_tags (expense_id, tag_id) VALUES (?, ?)', [expenseId, tag.id]);
+        }
+      },
+      // Inserção direta (parcelas, recorrências e importação), sem o
+      // upsert por id. Com ignore, uma ocorrência já gerada (chave
+      // única) é descartada; devolve se a linha entrou.
+      async create(expense, { ignore = false } = {}) {
+        const {
+          id, household_id, created_by = null, description, amount, category_id, account_id = null,
+          payment_method = null, date, isRecurring = false, recurring_rule_id = null,
+          installment_plan_id = null, installment_number = null,
+        } = expense;
+        const result = await run(
+          `INSERT ${ignore ? 'IGNORE ' : ''}INTO expenses
+             (id, household_id, created_by, description, amount, category_id, account_id, payment_method,
+              date, isRecurring, recurring_rule_id, installment_plan_id, installment_number)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            id, household_id, created_by, description, amount, category_id, account_id, payment_method,
+            date, isRecurring ? 1 : 0, recurring_rule_id, installment_plan_id, installment_number,
+          ]
+        );
+        return result.affectedRows === 1;
+      },
+      update(householdId, id, changes, version) {
+        return versionedUpdate(db, 'expenses', changes, id, householdId, version);
+      },
+      // Só a versão sobe: algo ligado à despesa mudou (comprovantes)
+      // e o feed precisa levá-la de novo.
+      async touch(householdId, id) {
+        await run('UPDATE expenses SET version = version + 1 WHERE id = ? AND household_id = ?', [id, householdId]);
+      },
+      // Tags, cotas, comprovantes e sinalizações caem junto (ON
+      // DELETE CASCADE); os arquivos dos comprovantes ficam com a rota.
+      async remove(householdId, id) {
+        const result = await run('DELETE FROM expenses WHERE id = ? AND household_id = ?', [id, householdId]);
+        return result.affectedRows;
+      },
+      // Recalcula statement_month das despesas afetadas — depois de
+      // gravar uma despesa ou de mudar o tipo/fechamento de um cartão.
+      async refreshStatementMonths(householdId, { expenseId = null, accountId = null, planId = null } = {}) {
+        let where  = 'WHERE e.household_id = ?';
+        const vals = [householdId];
+        if (expenseId) { where += ' AND e.id = ?';                  vals.push(expenseId); }
+        if (accountId) { where += ' AND e.account_id = ?';          vals.push(accountId); }
+        if (planId)    { where += ' AND e.installment_plan_id = ?'; vals.push(planId); }
+
+        await run(
+          `UPDATE expenses e
+           LEFT JOIN accounts a ON a.id = e.account_id AND a.type = 'credit_card'
+           SET e.statement_month = IF(a.id IS NULL, NULL, ${STATEMENT_MONTH_SQL})
+           ${where}`, vals
+        );
+      },
+      listByStatement(householdId, accountId, month) {
+        return all(
+          `${EXPENSE_SELECT}
+           WHERE e.household_id = ? AND e.account_id = ? AND e.statement_month = ?
+           ORDER BY e.date, e.created_at`,
+          [householdId, accountId, month]
+        );
+      },
+      listByPlan(householdId, planId) {
+        return all(
+          `${EXPENSE_SELECT} WHERE e.household_id = ? AND e.installment_plan_id = ?
+           ORDER BY e.installment_number`, [householdId, planId]
+        );
+      },
+      async listByIds(householdId, ids) {
+        if (!ids.length) return [];
+        return all(
+          `${EXPENSE_SELECT} WHERE e.household_id = ? AND e.id IN (${ids.map(() => '?').join(',')})`,
+          [householdId, ...ids]
+        );
+      },
+      // Parcelas com vencimento entre from e to (datas)
+      listInstallments(householdId, from, to) {
+        return all(
+          `${EXPENSE_SELECT}
+           WHERE e.household_id = ? AND e.installment_plan_id IS NOT NULL AND e.date BETWEEN ? AND ?
+           ORDER BY e.date, e.description`,
+          [householdId, from, to]
+        );
+      },
+      // Candidatas a duplicata de uma importação
+      inDateRange(householdId, from, to) {
+        return all(
+          `SELECT id, description, amount, date FROM expenses
+           WHERE household_id = ? AND date BETWEEN ? AND ?`,
+          [householdId, from, to]
+        );
+      },
+      // Categoria das descrições mais recentes (categorias ativas)
+      descriptionHistory(householdId, limit) {
+        return all(
+          `SELECT e.description, e.category_id
+           FROM expenses e JOIN categories c ON c.id = e.category_id
+           WHERE e.household_id = ? AND c.archived = 0
+           ORDER BY e.date DESC LIMIT ${parseInt(limit)}`,
+          [householdId]
+        );
+      },
+      // Base de comparação das anomalias: despesas a partir de `from`
+      anomalyBase(householdId, from) {
+        return all(
+          `SELECT e.id, e.description, e.amount, e.category_id, c.name AS category, e.date,
+                  e.recurring_rule_id, e.installment_plan_id, e.created_at
+           FROM expenses e JOIN categories c ON c.id = e.category_id
+           WHERE e.household_id = ? AND e.date >= ?`,
+          [householdId, from]
+        );
+      },
+      splits(expenseId) {
+        return all('SELECT * FROM expense_splits WHERE expense_id = ? ORDER BY user_id', [expenseId]);
+      },
+      // Substitui a divisão da despesa; type null desfaz a divisão.
+      async setSplit(expenseId, type, shares) {
+        await run('UPDATE expenses SET split_type = ? WHERE id = ?', [type, expenseId]);
+        await run('DELETE FROM expense_splits WHERE expense_id = ?', [expenseId]);
+        for (const share of shares) {
+          await run(
+            'INSERT INTO expense_splits (expense_id, user_id, amount, percent) VALUES (?, ?, ?, ?)',
+            [expenseId, share.user_id, share.amount, share.percent]
+          );
+        }
+      },
+    },
+
+    tags: {
+      list(householdId) {
+        return all(
+          `SELECT t.id, t.name, COUNT(et.expense_id) AS count
+           FROM tags t LEFT JOIN expense_tags et ON et.tag_id = t.id
+           WHERE t.household_id = ?
+           GROUP BY t.id, t.name ORDER BY count DESC, t.name`, [householdId]
+        );
+      },
+      // A versão das despesas marcadas sobe para que a mudança
+      // chegue aos outros aparelhos pelo feed.
+      async remove(householdId, id) {
+        await run(
+          `UPDATE expenses SET version = version + 1
+           WHERE household_id = ? AND id IN (SELECT expense_id FROM expense_tags WHERE tag_id = ?)`,
+          [householdId, id]
+        );
+        const result = await run('DELETE FROM tags WHERE id = ? AND household_id = ?', [id, householdId]);
+        return result.affectedRows;
+      },
+    },
+
+    receipts: {
+      list(householdId, expenseId) {
+        return all(
+          'SELECT * FROM expense_receipts WHERE household_id = ? AND expense_id = ? ORDER BY created_at, id',
+          [householdId, expenseId]
+        );
+      },
+      find(householdId, expenseId, id) {
+        return one(
+          'SELECT * FROM expense_receipts WHERE id = ? AND expense_id = ? AND household_id = ?',
+          [id, expenseId, householdId]
+        );
+      },
+      async create({ household_id, expense_id, storage_key, filename, content_type, size, uploaded_by }) {
+        const result = await run(
+          `INSERT INTO expense_receipts
+             (household_id, expense_id, storage_key, filename, content_type, size, uploaded_by)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [household_id, expense_id, storage_key, filename, content_type, size, uploaded_by]
+        );
+        return one('SELECT * FROM expense_receipts WHERE id = ?', [result.insertId]);
+      },
+      async remove(id) {
+        await run('DELETE FROM expense_receipts WHERE id = ?', [id]);
+      },
+      // Mesclagem: os comprovantes passam para a outra despesa. Os
+      // arquivos ficam onde estão (a chave não depende da despesa).
+      async move(householdId, fromExpenseId, toExpenseId) {
+        await run(
+          'UPDATE expense_receipts SET expense_id = ? WHERE household_id = ? AND expense_id = ?',
+          [toExpenseId, householdId, fromExpenseId]
+        );
+      },
+    },
+
+    // Acertos entre membros e os totais que compõem o saldo de cada um
+    settlements: {
+      // Despesas divididas, pelo valor total, para quem pagou
+      paidTotals(householdId) {
+        return all(
+          `SELECT COALESCE(paid_by, created_by) AS user_id, SUM(amount) AS total
+           FROM expenses
+           WHERE household_id = ? AND split_type IS NOT NULL
+           GROUP BY COALESCE(paid_by, created_by)`, [householdId]
+        );
+      },
+      shareTotals(householdId) {
+        return all(
+          `SELECT s.user_id, SUM(s.amount) AS total
+           FROM expense_splits s JOIN expenses e ON e.id = s.expense_id
+           WHERE e.household_id = ?
+           GROUP BY s.user_id`, [householdId]
+        );
+      },
+      sentTotals(householdId) {
+        return all(
+          `SELECT from_user_id AS user_id, SUM(amount) AS total
+           FROM settlements WHERE household_id = ? GROUP BY from_user_id`, [householdId]
+        );
+      },
+      receivedTotals(householdId) {
+        return all(
+          `SELECT to_user_id AS user_id, SUM(amount) AS total
+           FROM settlements WHERE household_id = ? GROUP BY to_user_id`, [householdId]
+        );
+      },
+      history(householdId, limit) {
+        return all(
+          `SELECT st.*, f.name AS from_name, t.name AS to_name
+           FROM settlements st
+           JOIN users f ON f.id = st.from_user_id
+           JOIN users t ON t.id = st.to_user_id
+           WHERE st.household_id = ?
+           ORDER BY st.date DESC, st.id DESC LIMIT ${parseInt(limit)}`, [householdId]
+        );
+      },
+      async create({ household_id, from_user_id, to_user_id, amount, date, note, created_by }) {
+        const result = await run(
+          `INSERT INTO settlements (household_id, from_user_id, to_user_id, amount, date, note, created_by)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [household_id, from_user_id, to_user_id, amount, date, note, created_by]
+        );
+        return one('SELECT * FROM settlements WHERE id = ?', [result.insertId]);
+      },
+      async remove(householdId, id) {
+        const result = await run('DELETE FROM settlements WHERE id = ? AND household_id = ?', [id, householdId]);
+        return result.affectedRows;
+      },
+    },
+
+    incomes: {
+      async list(householdId, { source, startDate, endDate, search }, { limit, offset }) {
+        let where  = 'WHERE household_id = ?';
+        const vals = [householdId];
+
+        if (source)    { where += ' AND source = ?';         vals.push(source); }
+        if (startDate) { where += ' AND date >= ?';          vals.push(startDate); }
+        if (endDate)   { where += ' AND date <= ?';          vals.push(endDate); }
+        if (search)    { where += ' AND description LIKE ?'; vals.push(`%${search}%`); }
+
+        const rows = await all(
+          `SELECT * FROM incomes ${where}
+           ORDER BY date DESC, created_at DESC
+           LIMIT ? OFFSET ?`, [...vals, String(limit), String(offset)]
+        );
+        const { total } = await one(`SELECT COUNT(*) AS total FROM incomes ${where}`, vals);
+        return { rows, total };
+      },
+      find(householdId, id) {
+        return one('SELECT * FROM incomes WHERE id = ? AND household_id = ?', [id, householdId]);
+      },
+      // Reenvio do mesmo id (fila offline) atualiza em vez de
+      // duplicar. Retorna false quando o id é de outra família.
+      async upsert({ id, household_id, created_by, description, amount, source, account_id, date }) {
+        const result = await run(
+          `INSERT INTO incomes (id, household_id, created_by, description, amount, source, account_id, date)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+           ON DUPLICATE KEY UPDATE
+             description = IF(household_id = VALUES(household_id), VALUES(description), description),
+             amount      = IF(household_id = VALUES(household_id), VALUES(amount),      amount),
+             source      = IF(household_id = VALUES(household_id), VALUES(source),      source),
+             account_id  = IF(household_id = VALUES(household_id), VALUES(account_id),  account_id),
+             date        = IF(household_id = VALUES(household_id), VALUES(date),        date),
+             version     = IF(household_id = VALUES(household_id), version + 1,         version)`,
+          [id, household_id, created_by, description, amount, source, account_id, date]
+        );
+        if (result.affectedRows === 1) return true;
+        const owner = await one('SELECT household_id FROM incomes WHERE id = ?', [id]);
+        return !owner || owner.household_id === household_id;
+      },
+      update(householdId, id, changes, version) {
+        return versionedUpdate(db, 'incomes', changes, id, householdId, version);
+      },
+      async remove(householdId, id) {
+        const result = await run('DELETE FROM incomes WHERE id = ? AND household_id = ?', [id, householdId]);
+        return result.affectedRows;
+      },
+    },
+
+    // Orçamentos por categoria: um período por effective_month.
+    budgets: {
+      periods(householdId, to) {
+        return all(
+          `SELECT b.*, c.name AS category, c.color, c.parent_id
+           FROM budgets b JOIN categories c ON c.id = b.category_id
+           WHERE b.household_id = ? AND b.effective_month <= ?
+           ORDER BY b.effective_month`, [householdId, to]
+        );
+      },
+      find(householdId, categoryId, month) {
+        return one(
+          `SELECT b.*, c.name AS category
+           FROM budgets b JOIN categories c ON c.id = b.category_id
+           WHERE b.household_id = ? AND b.category_id = ? AND b.effective_month = ?`,
+          [householdId, categoryId, month]
+        );
+      },
+      // Período vigente em `month` (o próprio ou o anterior mais recente)
+      previous(householdId, categoryId, month) {
+        return one(
+          `SELECT rollover, alert_thresholds FROM budgets
+           WHERE household_id = ? AND category_id = ? AND effective_month <= ?
+           ORDER BY effective_month DESC LIMIT 1`, [householdId, categoryId, month]
+        );
+      },
+      async updateVersioned(householdId, categoryId, month, { limit, rollover, thresholds }, version) {
+        const result = await run(
+          `UPDATE budgets SET monthly_limit = ?, rollover = ?, alert_thresholds = ?, version = version + 1
+           WHERE household_id = ? AND category_id = ? AND effective_month = ? AND version = ?`,
+          [limit, rollover, thresholds, householdId, categoryId, month, version]
+        );
+        return result.affectedRows;
+      },
+      // version vem antes: compara com os valores ainda não alterados
+      async upsert(householdId, categoryId, month, { limit, rollover, thresholds }) {
+        await run(
+          `INSERT INTO budgets (household_id, category_id, effective_month, monthly_limit, rollover, alert_thresholds)
+           VALUES (?, ?, ?, ?, ?, ?)
+           ON DUPLICATE KEY UPDATE
+             version          = IF(monthly_limit = VALUES(monthly_limit) AND rollover = VALUES(rollover)
+                                     AND alert_thresholds = VALUES(alert_thresholds),
+                                   version, version + 1),
+             monthly_limit    = VALUES(monthly_limit),
+             rollover         = VALUES(rollover),
+             alert_thresholds = VALUES(alert_thresholds)`,
+          [householdId, categoryId, month, limit, rollover, thresholds]
+        );
+      },
+      // Sem month, todos os períodos da categoria
+      keys(householdId, categoryId, month = null) {
+        return all(
+          `SELECT category_id, effective_month FROM budgets
+           WHERE household_id = ? AND category_id = ?${month ? ' AND effective_month = ?' : ''}`,
+          [householdId, categoryId, ...(month ? [month] : [])]
+        );
+      },
+      async remove(householdId, categoryId, month = null) {
+        await run(
+          `DELETE FROM budgets WHERE household_id = ? AND category_id = ?${month ? ' AND effective_month = ?' : ''}`,
+          [householdId, categoryId, ...(month ? [month] : [])]
+        );
+      },
+    },
+
+    // Orçamento geral da família, com as mesmas regras de período
+    householdBudgets: {
+      periods(householdId, to) {
+        return all(
+          `SELECT * FROM household_budgets
+           WHERE household_id = ? AND effective_month <= ?
+           ORDER BY effective_month`, [householdId, to]
+        );
+      },
+      find(householdId, month) {
+        return one(
+          'SELECT * FROM household_budgets WHERE household_id = ? AND effective_month = ?', [householdId, month]
+        );
+      },
+      previous(householdId, month) {
+        return one(
+          `SELECT rollover, alert_thresholds FROM household_budgets
+           WHERE household_id = ? AND effective_month <= ?
+           ORDER BY effective_month DESC LIMIT 1`, [householdId, month]
+        );
+      },
+      async updateVersioned(householdId, month, { limit, rollover, thresholds }, version) {
+        const result = await run(
+          `UPDATE household_budgets SET monthly_limit = ?, rollover = ?, alert_thresholds = ?, version = version + 1
+           WHERE household_id = ? AND effective_month = ? AND version = ?`,
+          [limit, rollover, thresholds, householdId, month, version]
+        );
+        return result.affectedRows;
+      },
+      async upsert(householdId, month, { limit, rollover, thresholds }) {
+        await run(
+          `INSERT INTO household_budgets (household_id, effective_month, monthly_limit, rollover, alert_thresholds)
+           VALUES (?, ?, ?, ?, ?)
+           ON DUPLICATE KEY UPDATE
+             version          = IF(monthly_limit = VALUES(monthly_limit) AND rollover = VALUES(rollover)
+                                     AND alert_thresholds = VALUES(alert_thresholds),
+                                   version, version + 1),
+             monthly_limit    = VALUES(monthly_limit),
+             rollover         = VALUES(rollover),
+             alert_thresholds = VALUES(alert_thresholds)`,
+          [householdId, month, limit, rollover, thresholds]
+        );
+      },
+      async remove(householdId, month) {
+        const result = await run(
+          'DELETE FROM household_budgets WHERE household_id = ? AND effective_month = ?', [householdId, month]
+        );
+        return result.affectedRows;
+      },
+    },
+
+    notifications: {
+      // INSERT IGNORE: com dedupe_key repetida a notificação já
+      // existe e nada é criado (devolve null).
+      async create(householdId, { type, title, body, data = null, dedupeKey = null }) {
+        const result = await run(
+          `INSERT IGNORE INTO notifications (household_id, type, title, body, data, dedupe_key)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [householdId, type, title, body, data ? JSON.stringify(data) : null, dedupeKey]
+        );
+        return result.affectedRows ? result.insertId : null;
+      },
+      async dedupeKeys(householdId, prefix) {
+        const rows = await all(
+          'SELECT dedupe_key FROM notifications WHERE household_id = ? AND dedupe_key LIKE ?',
+          [householdId, `${prefix}%`]
+        );
+        return rows.map(r => r.dedupe_key);
+      },
+      list(householdId, { unreadOnly = false, limit }) {
+        return all(
+          `SELECT id, type, title, body, data, read_at, created_at FROM notifications
+           WHERE household_id = ?${unreadOnly ? ' AND read_at IS NULL' : ''}
+           ORDER BY created_at DESC, id DESC LIMIT ${parseInt(limit)}`, [householdId]
+        );
+      },
+      async unreadCount(householdId) {
+        const row = await one(
+          'SELECT COUNT(*) AS unread FROM notifications WHERE household_id = ? AND read_at IS NULL', [householdId]
+        );
+        return Number(row.unread);
+      },
+      async markAllRead(householdId) {
+        const result = await run(
+          'UPDATE notifications SET read_at = NOW() WHERE household_id = ? AND read_at IS NULL', [householdId]
+        );
+        return result.affectedRows;
+      },
+      async markRead(householdId, id) {
+        const result = await run(
+          `UPDATE notifications SET read_at = COALESCE(read_at, NOW())
+           WHERE id = ? AND household_id = ?`, [id, householdId]
+        );
+        return result.affectedRows;
+      },
+      async remove(householdId, id) {
+        const result = await run('DELETE FROM notifications WHERE id = ? AND household_id = ?', [id, householdId]);
+        return result.affectedRows;
+      },
+    },
+
+    // Metas de economia e seus aportes (valor negativo é resgate)
+    goals: {
+      find(householdId, id) {
+        return one('SELECT * FROM savings_goals WHERE id = ? AND household_id = ?', [id, householdId]);
+      },
+      list(householdId, { includeArchived = false } = {}) {
+        return all(
+          `SELECT * FROM savings_goals
+           WHERE household_id = ?${includeArchived ? '' : ' AND archived = 0'}
+           ORDER BY archived, deadline IS NULL, deadline, name`,
+          [householdId]
+        );
+      },
+      // Nome repetido na família lança o ER_DUP_ENTRY do MySQL.
+      async create(householdId, { name, target_amount, deadline, color }) {
+        const result = await run(
+          `INSERT INTO savings_goals (household_id, name, target_amount, deadline, color)
+           VALUES (?, ?, ?, ?, ?)`,
+          [householdId, name, target_amount, deadline, color]
+        );
+        return result.insertId;
+      },
+      update(householdId, id, changes, version) {
+        return versionedUpdate(db, 'savings_goals', changes, id, householdId, version);
+      },
+      // Os aportes caem junto (ON DELETE CASCADE)
+      async remove(householdId, id) {
+        const result = await run('DELETE FROM savings_goals WHERE id = ? AND household_id = ?', [id, householdId]);
+        return result.affectedRows;
+      },
+      // Sem goalId, os aportes de todas as metas da família
+      contributions(householdId, goalId = null) {
+        return all(
+          `SELECT * FROM goal_contributions
+           WHERE household_id = ?${goalId ? ' AND goal_id = ?' : ''}
+           ORDER BY date DESC, id DESC`,
+          goalId ? [householdId, goalId] : [householdId]
+        );
+      },
+      async addContribution({ household_id, goal_id, amount, date, note, created_by }) {
+        await run(
+          `INSERT INTO goal_contributions (household_id, goal_id, amount, date, note, created_by)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [household_id, goal_id, amount, date, note, created_by]
+        );
+      },
+      async removeContribution(householdId, goalId, id) {
+        const result = await run(
+          'DELETE FROM goal_contributions WHERE id = ? AND goal_id = ? AND household_id = ?',
+          [id, goalId, householdId]
+        );
+        return result.affectedRows;
+      },
+    },
+
+    // Regras de despesas recorrentes (com o nome da categoria)
+    recurring: {
+      list(householdId) {
+        return all(
+          `${RULE_SELECT} WHERE r.household_id = ? ORDER BY r.start_date DESC, r.created_at DESC`, [householdId]
+        );
+      },
+      find(householdId, id) {
+        return one(`${RULE_SELECT} WHERE r.id = ? AND r.household_id = ?`, [id, householdId]);
+      },
+      // Regras já iniciadas em `until`; sem householdId, de todas as
+      // famílias (materialização na subida do servidor).
+      due(until, householdId = null) {
+        return householdId
+          ? all('SELECT * FROM recurring_rules WHERE start_date <= ? AND household_id = ?', [until, householdId])
+          : all('SELECT * FROM recurring_rules WHERE start_date <= ?', [until]);
+      },
+      async create({
+        id, household_id, created_by, description, amount, category_id, frequency, day_of_month, start_date, end_date,
+      }) {
+        await run(
+          `INSERT INTO recurring_rules
+             (id, household_id, created_by, description, amount, category_id,
+              frequency, day_of_month, start_date, end_date)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [id, household_id, created_by, description, amount, category_id, frequency, day_of_month, start_date, end_date]
+        );
+      },
+      update(householdId, id, changes, version) {
+        return versionedUpdate(db, 'recurring_rules', changes, id, householdId, version);
+      },
+      async setLastGenerated(id, date) {
+        await run('UPDATE recurring_rules SET last_generated = ? WHERE id = ?', [date, id]);
+      },
+      // As despesas já geradas permanecem; a FK apenas zera o vínculo.
+      async remove(householdId, id) {
+        const result = await run('DELETE FROM recurring_rules WHERE id = ? AND household_id = ?', [id, householdId]);
+        return result.affectedRows;
+      },
+    },
+
+    // Compras parceladas: o plano e as parcelas (despesas ligadas a ele)
+    installments: {
+      find(householdId, id) {
+        return one(`${PLAN_SELECT} WHERE p.id = ? AND p.household_id = ?`, [id, householdId]);
+      },
+      list(householdId) {
+        return all(
+          `${PLAN_SELECT} WHERE p.household_id = ? ORDER BY p.first_date DESC, p.created_at DESC`, [householdId]
+        );
+      },
+      // Família dona do id, de qualquer família (reenvio da fila offline)
+      async ownerOf(id) {
+        const row = await one('SELECT household_id FROM installment_plans WHERE id = ?', [id]);
+        return row ? row.household_id : null;
+      },
+      async create({
+        id, household_id, created_by, description, total_amount, installments, category_id, account_id,
+        payment_method, first_date,
+      }) {
+        await run(
+          `INSERT INTO installment_plans
+             (id, household_id, created_by, description, total_amount, installments,
+              category_id, account_id, payment_method, first_date)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            id, household_id, created_by, description, total_amount, installments,
+            category_id, account_id, payment_method, first_date,
+          ]
+        );
+      },
+      update(householdId, id, changes, version) {
+        return versionedUpdate(db, 'installment_plans', changes, id, householdId, version);
+      },
+      // Por plano: parcelas lançadas, vencidas antes de `today`, o
+      // que falta pagar e o próximo vencimento.
+      progress(householdId, today, planId = null) {
+        return all(
+          `SELECT installment_plan_id AS plan_id,
+                  COUNT(*)                          AS count,
+                  SUM(date < ?)                     AS due_count,
+                  SUM(IF(date >= ?, amount, 0))     AS remaining_amount,
+                  MIN(IF(date >= ?, date, NULL))    AS next_date
+           FROM expenses
+           WHERE household_id = ? AND installment_plan_id ${planId ? '= ?' : 'IS NOT NULL'}
+           GROUP BY installment_plan_id`,
+          planId ? [today, today, today, householdId, planId] : [today, today, today, householdId]
+        );
+      },
+      // n é o número da última parcela vencida (e não a contagem),
+      // para não colidir com parcelas apagadas individualmente.
+      pastTotals(householdId, planId, before) {
+        return one(
+          `SELECT COALESCE(MAX(installment_number), 0) AS n, COALESCE(SUM(amount), 0) AS total FROM expenses
+           WHERE household_id = ? AND installment_plan_id = ? AND date < ?`,
+          [householdId, planId, before]
+        );
+      },
+      // Ids das parcelas do plano; com from, só as de `from` em diante
+      async expenseIds(householdId, planId, { from = null } = {}) {
+        const rows = await all(
+          `SELECT id FROM expenses
+           WHERE household_id = ? AND installment_plan_id = ?${from ? ' AND date >= ?' : ''}`,
+          from ? [householdId, planId, from] : [householdId, planId]
+        );
+        return rows.map(r => r.id);
+      },
+      // Rótulo "k/N", categoria, conta e forma de pagamento das
+      // parcelas de `from` em diante
+      async updateRemaining(householdId, planId, from, { description, count, category_id, account_id, payment_method }) {
+        await run(
+          `UPDATE expenses
+           SET description = CONCAT(?, ' (', installment_number, '/', ?, ')'),
+               category_id = ?, account_id = ?, payment_method = ?, version = version + 1
+           WHERE household_id = ? AND installment_plan_id = ? AND date >= ?`,
+          [description, count, category_id, account_id, payment_method, householdId, planId, from]
+        );
+      },
+      // Só o rótulo "k/N" das parcelas vencidas antes de `before`
+      async relabelPast(householdId, planId, before, { description, count }) {
+        await run(
+          `UPDATE expenses
+           SET description = CONCAT(?, ' (', installment_number, '/', ?, ')'), version = version + 1
+           WHERE household_id = ? AND installment_plan_id = ? AND date < ?`,
+          [description, count, householdId, planId, before]
+        );
+      },
+      async countExpenses(id) {
+        return Number((await one('SELECT COUNT(*) AS n FROM expenses WHERE installment_plan_id = ?', [id])).n);
+      },
+      async remove(householdId, id) {
+        await run('DELETE FROM installment_plans WHERE id = ? AND household_id = ?', [id, householdId]);
+      },
+      async cancel(householdId, id) {
+        await run(
+          `UPDATE installment_plans SET cancelled_at = COALESCE(cancelled_at, NOW()), version = version + 1
+           WHERE id = ? AND household_id = ?`, [id, householdId]
+        );
+      },
+    },
+
+    // Agregações dos relatórios. month é "YYYY-MM" ou null (todo o
+    // período); rollup soma as subcategorias na categoria pai.
+    reports: {
+      categoryTotals(householdId, { month = null, rollup = false } = {}) {
+        const { where, vals } = monthWhere(householdId, month, 'e.');
+        const groupId = rollup ? 'COALESCE(c.parent_id, c.id)' : 'c.id';
+        return all(
+          `SELECT ${groupId} AS category_id, g.name AS category, g.color AS color,
+                  SUM(e.amount) AS total, COUNT(*) AS count
+           FROM expenses e
+           JOIN categories c ON c.id = e.category_id
+           JOIN categories g ON g.id = ${groupId}
+           ${where}
+           GROUP BY ${groupId}, g.name, g.color ORDER BY total DESC`, vals
+        );
+      },
+      // Compras no cartão (com fatura) ficam à parte do que saiu
+      // à vista das contas no período.
+      expenseTotals(householdId, { month = null } = {}) {
+        const { where, vals } = monthWhere(householdId, month);
+        return one(
+          `SELECT SUM(amount) AS grand_total, COUNT(*) AS tx_count,
+                  SUM(IF(statement_month IS NULL, 0, amount)) AS card_total
+           FROM expenses ${where}`, vals
+        );
+      },
+      async incomeTotal(householdId, { month = null } = {}) {
+        const { where, vals } = monthWhere(householdId, month);
+        return (await one(`SELECT SUM(amount) AS income_total FROM incomes ${where}`, vals)).income_total;
+      },
+      memberTotals(householdId, { month = null } = {}) {
+        const { where, vals } = monthWhere(householdId, month, 'e.');
+        return all(
+          `SELECT e.created_by AS user_id, u.name, SUM(e.amount) AS total, COUNT(*) AS count
+           FROM expenses e LEFT JOIN users u ON u.id = e.created_by
+           ${where}
+           GROUP BY e.created_by, u.name ORDER BY total DESC`, vals
+        );
+      },
+      // Gasto por categoria e mês antes de `before` ("YYYY-MM-DD")
+      monthlySpending(householdId, before) {
+        return all(
+          `SELECT e.category_id, c.parent_id, DATE_FORMAT(e.date, '%Y-%m') AS month, SUM(e.amount) AS total
+           FROM expenses e JOIN categories c ON c.id = e.category_id
+           WHERE e.household_id = ? AND e.date < ?
+           GROUP BY e.category_id, c.parent_id, month`, [householdId, before]
+        );
+      },
+      // Despesas, parcelas e receitas por mês entre from e to (datas)
+      monthlyTotals(householdId, from, to) {
+        return all(`
+          SELECT month,
+                 SUM(expense) AS total, SUM(is_expense) AS count, SUM(income) AS income,
+                 SUM(installment) AS installments
+          FROM (
+            SELECT DATE_FORMAT(date, '%Y-%m') AS month, amount AS expense, 1 AS is_expense, 0 AS income,
+                   IF(installment_plan_id IS NULL, 0, amount) AS installment
+            FROM expenses
+            WHERE household_id = ? AND date BETWEEN ? AND ?
+            UNION ALL
+            SELECT DATE_FORMAT(date, '%Y-%m') AS month, 0, 0, amount, 0
+            FROM incomes
+            WHERE household_id = ? AND date BETWEEN ? AND ?
+          ) t
+          GROUP BY month ORDER BY month ASC
+        `, [householdId, from, to, householdId, from, to]);
+      },
+      // Por categoria no mês [from, to]: realizado até `cutoff`
+      // (total e só o variável) e o que já está lançado depois.
+      forecastMonth(householdId, cutoff, from, to) {
+        return all(
+          `SELECT category_id,
+                  SUM(IF(date <= ?, amount, 0)) AS to_date,
+                  SUM(IF(date <= ? AND recurring_rule_id IS NULL AND installment_plan_id IS NULL, amount, 0)) AS variable_to_date,
+                  SUM(IF(date > ?, amount, 0)) AS scheduled
+           FROM expenses
+           WHERE household_id = ? AND date BETWEEN ? AND ?
+           GROUP BY category_id`,
+          [cutoff, cutoff, cutoff, householdId, from, to]
+        );
+      },
+      // Gasto variável (sem recorrentes nem parcelas) por
+      // categoria e dia entre from e to
+      variableDaily(householdId, from, to) {
+        return all(
+          `SELECT category_id, DATE_FORMAT(date, '%Y-%m') AS month, DAY(date) AS day, SUM(amount) AS total
+           FROM expenses
+           WHERE household_id = ? AND date BETWEEN ? AND ?
+             AND recurring_rule_id IS NULL AND installment_plan_id IS NULL
+           GROUP BY category_id, month, day`,
+          [householdId, from, to]
+        );
+      },
+      // Gasto por tag e categoria no período
+      tagTotals(householdId, { startDate = null, endDate = null } = {}) {
+        let range  = '';
+        const vals = [householdId];
+        if (startDate) { range += ' AND e.date >= ?'; vals.push(startDate); }
+        if (endDate)   { range += ' AND e.date <= ?'; vals.push(endDate); }
+        return all(
+          `SELECT t.id AS tag_id, t.name AS tag, c.id AS category_id, c.name AS category, c.color,
+                  SUM(e.amount) AS total, COUNT(*) AS count,
+                  MIN(e.date) AS first_date, MAX(e.date) AS last_date
+           FROM tags t
+           JOIN expense_tags et ON et.tag_id = t.id
+           JOIN expenses e ON e.id = et.expense_id
+           JOIN categories c ON c.id = e.category_id
+           WHERE t.household_id = ?${range}
+           GROUP BY t.id, t.name, c.id, c.name, c.color`, vals
+        );
+      },
+    },
+
+    // Regras de categorização da importação, em ordem de
+    // prioridade; no empate, o padrão mais longo vence.
+    categoryRules: {
+      list(householdId) {
+        return all(
+          `SELECT r.*, c.name AS category
+           FROM category_rules r
+           JOIN categories c ON c.id = r.category_id
+           WHERE r.household_id = ? AND c.archived = 0
+           ORDER BY r.priority DESC, CHAR_LENGTH(r.pattern) DESC`,
+          [householdId]
+        );
+      },
+      // Padrão repetido na família lança o ER_DUP_ENTRY do MySQL.
+      async create(householdId, { pattern, category_id, priority }) {
+        const result = await run(
+          `INSERT INTO category_rules (household_id, pattern, category_id, priority)
+           VALUES (?, ?, ?, ?)`,
+          [householdId, pattern, category_id, priority]
+        );
+        return result.insertId;
+      },
+      async update(householdId, id, changes) {
+        const keys = Object.keys(changes);
+        const result = await run(
+          `UPDATE category_rules SET ${keys.map(k => `${k} = ?`).join(', ')} WHERE id = ? AND household_id = ?`,
+          [...keys.map(k => changes[k]), id, householdId]
+        );
+        return result.affectedRows;
+      },
+      async remove(householdId, id) {
+        const result = await run('DELETE FROM category_rules WHERE id = ? AND household_id = ?', [id, householdId]);
+        return result.affectedRows;
+      },
+    },
+
+    // Sinalizações de anomalia (outliers e duplicatas)
+    flags: {
+      // INSERT IGNORE pela flag_key: achados já registrados
+      // (inclusive os descartados) não se repetem; devolve null.
+      async create(householdId, { expense_id, related_expense_id, kind, flag_key, score, reason }) {
+        const result = await run(
+          `INSERT IGNORE INTO expense_flags
+             (household_id, expense_id, related_expense_id, kind, flag_key, score, reason)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [householdId, expense_id, related_expense_id, kind, flag_key, score, reason]
+        );
+        return result.affectedRows ? result.insertId : null;
+      },
+      // Apaga as sinalizações em aberto que envolvem a despesa
+      async clearOpen(householdId, expenseId) {
+        await run(
+          `DELETE FROM expense_flags
+           WHERE household_id = ? AND status = 'open' AND (expense_id = ? OR related_expense_id = ?)`,
+          [householdId, expenseId, expenseId]
+        );
+      },
+      listOpen(householdId) {
+        return all(
+          `SELECT * FROM expense_flags
+           WHERE household_id = ? AND status = 'open'
+           ORDER BY created_at DESC, id DESC`, [householdId]
+        );
+      },
+      find(householdId, id) {
+        return one('SELECT * FROM expense_flags WHERE id = ? AND household_id = ?', [id, householdId]);
+      },
+      async dismiss(householdId, id, userId) {
+        const result = await run(
+          `UPDATE expense_flags SET status = 'dismissed', resolved_at = NOW(), resolved_by = ?
+           WHERE id = ? AND household_id = ?`,
+          [userId, id, householdId]
+        );
+        return result.affectedRows;
+      },
+    },
+
+    // Último resultado de insights por família e mês
+    insightCache: {
+      find(householdId, month, hash) {
+        return one(
+          'SELECT * FROM insight_cache WHERE household_id = ? AND month = ? AND context_hash = ?',
+          [householdId, month, hash]
+        );
+      },
+      async save(householdId, month, hash, provider, insights) {
+        await run(
+          `INSERT INTO insight_cache (household_id, month, context_hash, provider, insights)
+           VALUES (?, ?, ?, ?, ?)
+           ON DUPLICATE KEY UPDATE
+             context_hash = VALUES(context_hash),
+             provider     = VALUES(provider),
+             insights     = VALUES(insights)`,
+          [householdId, month, hash, provider, JSON.stringify(insights)]
+        );
+      },
+    },
+
+    // Feed de /api/changes: tudo da família ou, com since, só as
+    // linhas alteradas desde então (>=) e as exclusões.
+    changes: {
+      async since(householdId, since = null) {
+        const vals  = since ? [householdId, since] : [householdId];
+        const after = p => (since ? ` AND ${p}updated_at >= ?` : '');
+        return {
+          now:      (await one('SELECT NOW() AS now')).now,
+          expenses: await all(
+            `${EXPENSE_SELECT} WHERE e.household_id = ?${after('e.')}
+             ORDER BY e.date DESC, e.created_at DESC`, vals
+          ),
+          incomes: await all(
+            `SELECT * FROM incomes WHERE household_id = ?${after('')}
+             ORDER BY date DESC, created_at DESC`, vals
+          ),
+          budgets: await all(
+            `SELECT b.*, c.name AS category
+             FROM budgets b JOIN categories c ON c.id = b.category_id
+             WHERE b.household_id = ?${after('b.')}`, vals
+          ),
+          householdBudgets: await all(
+            `SELECT * FROM household_budgets WHERE household_id = ?${after('')}`, vals
+          ),
+          categories: await all(
+            `SELECT * FROM categories WHERE household_id = ?${after('')}
+             ORDER BY COALESCE(parent_id, id), parent_id IS NOT NULL, name`, vals
+          ),
+          recurring:    await all(`${RULE_SELECT} WHERE r.household_id = ?${after('r.')}`, vals),
+          installments: await all(`${PLAN_SELECT} WHERE p.household_id = ?${after('p.')}`, vals),
+          deleted: since
+            ? await all(
+                `SELECT entity, entity_id AS id, deleted_at FROM deleted_records
+                 WHERE household_id = ? AND deleted_at >= ?`, vals
+              )
+            : [],
+        };
+      },
+    },
+
+    // Exclusões não deixam linha para o feed de /api/changes; a
+    // "lápide" avisa os outros dispositivos para removerem o item.
+    deletions: {
+      async record(householdId, entity, entityId) {
+        await run(
+          'INSERT INTO deleted_records (household_id, entity, entity_id) VALUES (?, ?, ?)',
+          [householdId, entity, String(entityId)]
+        );
+      },
+    },
+  };
+
+  return repo;
+}
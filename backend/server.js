@@ -8,17 +8,49 @@ import mysql from 'mysql2/promise';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
-import { body, param, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import dotenv from 'dotenv';
 import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import net from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import { createMySqlRepository } from './repositories/mysql.js';
+import { createMemoryRepository } from './repositories/memory.js';
+import { runMigrations } from './migrations/index.js';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const TESTING = process.env.NODE_ENV === 'test';
 
 const ALLOWED_ORIGIN = (process.env.CORS_ORIGIN || 'http://localhost:3000').trim();
 
+// Em produção o segredo é obrigatório: com o de desenvolvimento,
+// que está no repositório, qualquer um forjaria um token.
+if (!process.env.AUTH_SECRET && process.env.NODE_ENV === 'production') {
+  throw new Error('AUTH_SECRET não definido: obrigatório com NODE_ENV=production.');
+}
+const AUTH_SECRET = process.env.AUTH_SECRET || 'ecofin-dev-secret';
+const TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
+const GEMINI_MODEL   = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+
+// Canais de saída das notificações (todos opcionais)
+const NOTIFY_WEBHOOK_URL = process.env.NOTIFY_WEBHOOK_URL || '';
+const SMTP_HOST = process.env.SMTP_HOST || '';
+const SMTP_PORT = parseInt(process.env.SMTP_PORT || '25', 10);
+const SMTP_FROM = process.env.SMTP_FROM || 'ecofin@localhost';
+
+// Comprovantes anexados às despesas: adaptador de armazenamento
+// (só "local" por enquanto) e a pasta usada por ele.
+const RECEIPTS_STORAGE = process.env.RECEIPTS_STORAGE || 'local';
+const RECEIPTS_DIR     = process.env.RECEIPTS_DIR || path.join(process.cwd(), 'uploads', 'receipts');
+
 // ─── Helper: formata Date sem perder dia por fuso horário ───
 // toISOString() converte para UTC e subtrai 3h no Brasil,
 // jogando a data para o dia anterior. getFullYear/Month/Date
@@ -31,6 +63,33 @@ function formatDate(d) {
   return `${y}-${m}-${day}`;
 }
 
+// ─── Helpers: aritmética de datas "YYYY-MM-DD" ──────────────
+// Usados pelas recorrências. Operam sobre Date.UTC para que o
+// fuso do servidor nunca desloque uma ocorrência de dia.
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+function todayISO() {
+  return formatDate(new Date());
+}
+
+function daysInMonth(y, m) {
+  return new Date(Date.UTC(y, m, 0)).getUTCDate();
+}
+
+function addDaysISO(iso, n) {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + n)).toISOString().slice(0, 10);
+}
+
+// Mesmo dia `n` meses depois, limitado ao último dia do mês
+function addMonthsISO(iso, n) {
+  const [y, m, d] = iso.split('-').map(Number);
+  const t  = y * 12 + (m - 1) + n;
+  const ny = Math.floor(t / 12);
+  const nm = (t % 12) + 1;
+  return `${ny}-${String(nm).padStart(2, '0')}-${String(Math.min(d, daysInMonth(ny, nm))).padStart(2, '0')}`;
+}
+
 // ─── CORS Manual ────────────────────────────────────────────
 // NÃO usa o pacote cors() — escreve os headers diretamente com
 // res.set() que SOBRESCREVE qualquer valor já existente,
@@ -59,14 +118,18 @@ app.use((req, res, next) => {
 
 // ─── Outros Middlewares ─────────────────────────────────────
 app.use(helmet({ crossOriginResourcePolicy: false }));
-app.use(express.json());
-app.use(morgan('dev'));
+// Extratos importados chegam como texto no corpo JSON; backups
+// restaurados (POST /api/restore) podem ser bem maiores.
+app.use('/api/restore', express.json({ limit: '25mb' }));
+app.use(express.json({ limit: '2mb' }));
+app.use(morgan('dev', { skip: () => TESTING }));
 
 app.use(rateLimit({
   windowMs: 15 * 60 * 1000,
   max: 100,
   standardHeaders: true,
   legacyHeaders: false,
+  skip: () => TESTING,
   message: { error: 'Muitas requisições. Tente novamente em breve.' }
 }));
 
@@ -84,46 +147,27 @@ const pool = mysql.createPool({
   ssl: { rejectUnauthorized: false }
 });
 
-// ─── Inicialização do Banco de Dados ────────────────────────
-async function initDB() {
-  const conn = await pool.getConnection();
-  try {
-    await conn.execute(`
-      CREATE TABLE IF NOT EXISTS expenses (
-        id          VARCHAR(36)    NOT NULL PRIMARY KEY,
-        description VARCHAR(255)   NOT NULL,
-        amount      DECIMAL(10,2)  NOT NULL CHECK (amount > 0),
-        category    ENUM(
-          'Alimentação','Transporte','Moradia',
-          'Contas Fixas','Lazer','Saúde','Educação','Outros'
-        ) NOT NULL,
-        date        DATE           NOT NULL,
-        isRecurring TINYINT(1)     NOT NULL DEFAULT 0,
-        created_at  TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        updated_at  TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-        INDEX idx_category (category),
-        INDEX idx_date     (date)
-      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-    `);
-
-    await conn.execute(`
-      CREATE TABLE IF NOT EXISTS budgets (
-        id            INT UNSIGNED   NOT NULL AUTO_INCREMENT PRIMARY KEY,
-        category      ENUM(
-          'Alimentação','Transporte','Moradia',
-          'Contas Fixas','Lazer','Saúde','Educação','Outros'
-        ) NOT NULL UNIQUE,
-        monthly_limit DECIMAL(10,2)  NOT NULL CHECK (monthly_limit >= 0),
-        created_at    TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        updated_at    TIMESTAMP      NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-    `);
+// ─── Repositório ────────────────────────────────────────────
+// Todo o acesso a dados das rotas (veja repositories/); o pool só
+// é usado direto pelas migrações. Com DB_DRIVER=memory os testes
+// sobem a API sem MySQL.
+const repo = process.env.DB_DRIVER === 'memory'
+  ? createMemoryRepository()
+  : createMySqlRepository(pool);
 
-    console.log('✅  Banco de dados inicializado com sucesso.');
-  } finally {
-    conn.release();
-  }
-}
+// ─── Categorias padrão ──────────────────────────────────────
+// As oito categorias que antes eram um ENUM fixo, semeadas para
+// cada família nova.
+const DEFAULT_CATEGORIES = [
+  { name: 'Alimentação',  color: '#10b981', icon: 'shopping-cart' },
+  { name: 'Transporte',   color: '#3b82f6', icon: 'truck' },
+  { name: 'Moradia',      color: '#f59e0b', icon: 'home' },
+  { name: 'Contas Fixas', color: '#ef4444', icon: 'bolt' },
+  { name: 'Lazer',        color: '#8b5cf6', icon: 'film' },
+  { name: 'Saúde',        color: '#ec4899', icon: 'heart' },
+  { name: 'Educação',     color: '#06b6d4', icon: 'academic-cap' },
+  { name: 'Outros',       color: '#64748b', icon: 'tag' },
+];
 
 // ─── Helper: validação de erros ────────────────────────────
 function validate(req, res, next) {
@@ -132,286 +176,4879 @@ function validate(req, res, next) {
   next();
 }
 
-const VALID_CATEGORIES = [
-  'Alimentação','Transporte','Moradia',
-  'Contas Fixas','Lazer','Saúde','Educação','Outros'
+// ─── Helpers: versões e exclusões (sincronização) ───────────
+// Cada UPDATE incrementa "version". Um PUT que envia a versão
+// em que a edição se baseou só é aplicado se ela ainda for a
+// vigente; do contrário o cliente recebe 409 com o registro
+// atual. Sem "version" o PUT sobrescreve, como antes.
+function sendConflict(res, current) {
+  return res.status(409).json({
+    error: 'Este registro foi alterado em outro dispositivo.',
+    current,
+  });
+}
+
+// Exclusões não deixam linha para o feed de /api/changes; a
+// "lápide" avisa os outros dispositivos para removerem o item.
+async function recordDeletion(householdId, entity, entityId) {
+  await repo.deletions.record(householdId, entity, entityId);
+}
+
+// ─── Helpers: senha e token de sessão ───────────────────────
+// Senhas: scrypt com salt aleatório, guardado como
+// "scrypt$<salt>$<hash>". Tokens: payload JSON em base64url
+// assinado com HMAC-SHA256 (AUTH_SECRET) e com expiração.
+const scryptAsync = promisify(crypto.scrypt);
+
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password, stored) {
+  const [scheme, salt, hex] = String(stored).split('$');
+  if (scheme !== 'scrypt' || !salt || !hex) return false;
+  const expected = Buffer.from(hex, 'hex');
+  const actual   = await scryptAsync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function signToken(payload) {
+  const body = Buffer.from(JSON.stringify({ ...payload, exp: Date.now() + TOKEN_TTL_MS }))
+    .toString('base64url');
+  const sig  = crypto.createHmac('sha256', AUTH_SECRET).update(body).digest('base64url');
+  return `${body}.${sig}`;
+}
+
+function verifyToken(token) {
+  const [body, sig] = String(token).split('.');
+  if (!body || !sig) return null;
+
+  const expected = crypto.createHmac('sha256', AUTH_SECRET).update(body).digest();
+  const actual   = Buffer.from(sig, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    return payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Middleware: exige sessão válida ────────────────────────
+// Popula req.user = { id, household_id } a partir do header
+// "Authorization: Bearer <token>".
+function requireAuth(req, res, next) {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  const payload = scheme === 'Bearer' ? verifyToken(token) : null;
+  if (!payload) return res.status(401).json({ error: 'Não autenticado.' });
+  req.user = { id: payload.sub, household_id: payload.hid };
+  next();
+}
+
+// ─── Helper: categoria pertencente à família ────────────────
+function mapCategory(r) {
+  return { ...r, archived: !!r.archived };
+}
+
+async function findCategory(householdId, id) {
+  const row = await repo.categories.find(householdId, id);
+  return row ? mapCategory(row) : null;
+}
+
+// Validador reutilizável: category_id precisa existir na família
+// do usuário (um id de outra família é tratado como inválido).
+function categoryIdField(field = 'category_id') {
+  return body(field).isInt({ min: 1 }).bail().toInt()
+    .custom(async (id, { req }) => {
+      if (!(await findCategory(req.user.household_id, id)))
+        throw new Error('Categoria inválida.');
+    });
+}
+
+// ─── Helpers: exportação CSV ────────────────────────────────
+// Separador ";", vírgula decimal e BOM UTF-8: o formato que o
+// Excel em português abre direto, com acentos e números corretos.
+const MONTH_NAMES = [
+  'janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho',
+  'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro',
 ];
 
+function formatDateBR(iso) {
+  const [y, m, d] = String(iso).split('-');
+  return `${d}/${m}/${y}`;
+}
+
+function formatMoneyBR(value) {
+  return `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function csvAmount(value) {
+  return value.toFixed(2).replace('.', ',');
+}
+
+// Células iniciadas por = + - @ seriam lidas como fórmula pela
+// planilha; o apóstrofo as mantém como texto.
+function csvCell(value) {
+  let text = String(value ?? '');
+  if (/^[=+\-@]/.test(text) && !/^-?\d+(,\d+)?$/.test(text)) text = `'${text}`;
+  return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCSV(header, rows) {
+  return '\uFEFF' + [header, ...rows].map(r => r.map(csvCell).join(';')).join('\r\n') + '\r\n';
+}
+
+function sendDownload(res, content, type, filename) {
+  res.set('Content-Type', type);
+  res.set('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(content);
+}
+
+function truncate(text, max) {
+  const str = String(text ?? '');
+  return str.length > max ? `${str.slice(0, max - 1)}…` : str;
+}
+
+// ─── Helpers: geração de PDF ────────────────────────────────
+// Gerador mínimo de PDF 1.4 (A4, Helvetica, WinAnsiEncoding) para
+// os relatórios, sem dependências nem serviços externos. Suporta
+// texto e retângulos preenchidos — o suficiente para tabelas e
+// gráficos de barras. Coordenadas em pontos, origem no canto
+// inferior esquerdo; "y" guarda a linha corrente de escrita.
+const PDF_PAGE = { width: 595, height: 842, margin: 40 };
+
+// Caracteres do WinAnsi fora do Latin-1
+const PDF_WIN_ANSI = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+// Larguras da Helvetica (em 1/1000 do tamanho da fonte) para os
+// caracteres de valores monetários; o resto usa a média 556.
+const PDF_NARROW = { ' ': 278, ',': 278, '.': 278, '-': 333, '%': 889, R: 722, '+': 584 };
+
+function pdfString(text) {
+  const encoded = [...String(text)].map(ch => {
+    if (PDF_WIN_ANSI[ch]) return String.fromCharCode(PDF_WIN_ANSI[ch]);
+    return ch.charCodeAt(0) < 256 ? ch : '?';
+  }).join('');
+  return `(${encoded.replace(/[\\()]/g, m => `\\${m}`)})`;
+}
+
+function pdfTextWidth(text, size) {
+  return [...String(text)].reduce((acc, ch) => acc + (PDF_NARROW[ch] ?? 556), 0) * size / 1000;
+}
+
+function pdfColor(hex) {
+  const n = parseInt(hex.slice(1), 16);
+  return [n >> 16, (n >> 8) & 255, n & 255].map(c => (c / 255).toFixed(3)).join(' ');
+}
+
+function createPdf({ footer = '' } = {}) {
+  const pages = [];
+  let ops = null;
+
+  const doc = {
+    y: 0,
+
+    addPage() {
+      ops = [];
+      pages.push(ops);
+      doc.y = PDF_PAGE.height - PDF_PAGE.margin;
+      return doc;
+    },
+
+    // Abre nova página se não couberem `needed` pontos; devolve
+    // true quando isso acontece (para repetir cabeçalhos).
+    ensureSpace(needed) {
+      if (doc.y - needed >= PDF_PAGE.margin + 20) return false;
+      doc.addPage();
+      return true;
+    },
+
+    text(str, x, y, { size = 10, bold = false, color = '#0f172a', align = 'left' } = {}) {
+      const left = align === 'right'  ? x - pdfTextWidth(str, size)
+                 : align === 'center' ? x - pdfTextWidth(str, size) / 2
+                 : x;
+      ops.push(`${pdfColor(color)} rg BT /${bold ? 'F2' : 'F1'} ${size} Tf ` +
+               `${left.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(str)} Tj ET`);
+      return doc;
+    },
+
+    rect(x, y, w, h, color) {
+      ops.push(`${pdfColor(color)} rg ${x.toFixed(2)} ${y.toFixed(2)} ${w.toFixed(2)} ${h.toFixed(2)} re f`);
+      return doc;
+    },
+
+    // Monta os objetos e a tabela xref. Todo o conteúdo é Latin-1,
+    // então o tamanho da string é o tamanho em bytes.
+    toBuffer() {
+      const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        null,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      ];
+      const kids = [];
+
+      pages.forEach((pageOps, i) => {
+        ops = pageOps;
+        doc.text(`${footer}${footer ? ' · ' : ''}Página ${i + 1} de ${pages.length}`,
+          PDF_PAGE.width / 2, PDF_PAGE.margin / 2, { size: 8, color: '#94a3b8', align: 'center' });
+
+        const content = pageOps.join('\n');
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE.width} ${PDF_PAGE.height}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${objects.length} 0 R >>`
+        );
+        kids.push(`${objects.length} 0 R`);
+      });
+      objects[1] = `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${kids.length} >>`;
+
+      let out = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+      const offsets = objects.map((obj, i) => {
+        const offset = out.length;
+        out += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+        return offset;
+      });
+      const xref = out.length;
+      out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      out += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+      out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+      return Buffer.from(out, 'latin1');
+    },
+  };
+
+  return doc.addPage();
+}
+
+// Título, subtítulo e data de geração no topo da primeira página
+function pdfHeader(pdf, title, subtitle) {
+  pdf.text('EcoFin', PDF_PAGE.margin, pdf.y, { size: 10, bold: true, color: '#059669' })
+     .text(`Gerado em ${formatDateBR(todayISO())}`, PDF_PAGE.width - PDF_PAGE.margin, pdf.y,
+       { size: 8, color: '#94a3b8', align: 'right' });
+  pdf.y -= 26;
+  pdf.text(title, PDF_PAGE.margin, pdf.y, { size: 18, bold: true });
+  pdf.y -= 16;
+  if (subtitle) {
+    pdf.text(subtitle, PDF_PAGE.margin, pdf.y, { size: 9, color: '#64748b' });
+    pdf.y -= 14;
+  }
+  pdf.y -= 14;
+}
+
 // ════════════════════════════════════════════════════════════
-//  ROTAS — DESPESAS
+//  ROTAS — AUTENTICAÇÃO / FAMÍLIAS
 // ════════════════════════════════════════════════════════════
 
-app.get('/api/expenses', async (req, res, next) => {
-  try {
-    const { category, startDate, endDate, search, page = 1, limit = 50 } = req.query;
-
-    let sql    = 'SELECT * FROM expenses WHERE 1=1';
-    const vals = [];
-
-    if (category)  { sql += ' AND category = ?';      vals.push(category); }
-    if (startDate) { sql += ' AND date >= ?';          vals.push(startDate); }
-    if (endDate)   { sql += ' AND date <= ?';          vals.push(endDate); }
-    if (search)    { sql += ' AND description LIKE ?'; vals.push(`%${search}%`); }
-
-    sql += ' ORDER BY date DESC, created_at DESC';
-    const offset = (parseInt(page) - 1) * parseInt(limit);
-    sql += ` LIMIT ${parseInt(limit)} OFFSET ${offset}`;
-
-    const [rows] = await pool.execute(sql, vals);
-
-    const countVals = [];
-    if (category)  countVals.push(category);
-    if (startDate) countVals.push(startDate);
-    if (endDate)   countVals.push(endDate);
-    if (search)    countVals.push(`%${search}%`);
-
-    const [[{ total }]] = await pool.execute(
-      `SELECT COUNT(*) AS total FROM expenses WHERE 1=1${
-        category  ? ' AND category = ?'       : ''}${
-        startDate ? ' AND date >= ?'          : ''}${
-        endDate   ? ' AND date <= ?'          : ''}${
-        search    ? ' AND description LIKE ?' : ''}`,
-      countVals
-    );
-
-    const mapped = rows.map(r => ({
-      ...r,
-      amount:      parseFloat(r.amount),
-      isRecurring: !!r.isRecurring,
-      date:        formatDate(r.date),   // ← corrigido: sem conversão UTC
-    }));
+function newInviteCode() {
+  return crypto.randomBytes(4).toString('hex').toUpperCase();
+}
 
-    res.json({ data: mapped, total, page: parseInt(page), limit: parseInt(limit) });
-  } catch (err) { next(err); }
-});
+function sessionResponse(user, household) {
+  return {
+    token:     signToken({ sub: user.id, hid: household.id }),
+    user:      { id: user.id, name: user.name, email: user.email },
+    household: { id: household.id, name: household.name, invite_code: household.invite_code },
+  };
+}
 
-app.get('/api/expenses/:id',
-  param('id').isUUID(), validate,
+// Sem inviteCode cria uma família nova; com inviteCode entra
+// em uma família existente.
+app.post('/api/auth/register',
+  body('name').trim().notEmpty().isLength({ max: 120 }),
+  body('email').trim().isEmail().normalizeEmail(),
+  body('password').isLength({ min: 8, max: 128 }),
+  body('householdName').optional().trim().notEmpty().isLength({ max: 120 }),
+  body('inviteCode').optional().trim().isAlphanumeric().isLength({ max: 12 }),
+  validate,
   async (req, res, next) => {
     try {
-      const [[row]] = await pool.execute(
-        'SELECT * FROM expenses WHERE id = ?', [req.params.id]
-      );
-      if (!row) return res.status(404).json({ error: 'Despesa não encontrada.' });
-      res.json({
-        ...row,
-        amount:      parseFloat(row.amount),
-        isRecurring: !!row.isRecurring,
-        date:        formatDate(row.date),  // ← corrigido: sem conversão UTC
+      const { name, email, password, householdName, inviteCode } = req.body;
+      const passwordHash = await hashPassword(password);
+
+      // Dados criados antes da autenticação existir (household_id
+      // NULL) passam a pertencer à primeira família cadastrada.
+      const result = await repo.transaction(async tx => {
+        if (await tx.users.findByEmail(email)) return { status: 409, error: 'E-mail já cadastrado.' };
+
+        let household;
+        if (inviteCode) {
+          household = await tx.households.findByInviteCode(inviteCode.toUpperCase());
+          if (!household) return { status: 404, error: 'Código de convite inválido.' };
+        } else {
+          const n = await tx.households.count();
+          household = { id: uuidv4(), name: householdName || `Família de ${name}`, invite_code: newInviteCode() };
+          await tx.households.create(household);
+          if (!n) await tx.households.adoptLegacyData(household.id);
+          await tx.categories.seedDefaults(household.id, DEFAULT_CATEGORIES);
+        }
+
+        const user = { id: uuidv4(), name, email };
+        await tx.users.create({ ...user, household_id: household.id, password_hash: passwordHash });
+        return { user, household };
       });
+
+      if (result.error) return res.status(result.status).json({ error: result.error });
+      res.status(201).json(sessionResponse(result.user, result.household));
     } catch (err) { next(err); }
   }
 );
 
-app.post('/api/expenses',
-  body('description').trim().notEmpty().isLength({ max: 255 }),
-  body('amount').isFloat({ gt: 0 }),
-  body('category').isIn(VALID_CATEGORIES),
-  body('date').isDate(),
-  body('isRecurring').optional().isBoolean(),
+app.post('/api/auth/login',
+  body('email').trim().isEmail().normalizeEmail(),
+  body('password').notEmpty(),
   validate,
   async (req, res, next) => {
     try {
-      const { description, amount, category, date, isRecurring = false } = req.body;
-      const id = req.body.id || uuidv4();
-
-      await pool.execute(
-        `INSERT INTO expenses (id, description, amount, category, date, isRecurring)
-         VALUES (?, ?, ?, ?, ?, ?)
-         ON DUPLICATE KEY UPDATE
-           description = VALUES(description),
-           amount      = VALUES(amount),
-           category    = VALUES(category),
-           date        = VALUES(date),
-           isRecurring = VALUES(isRecurring)`,
-        [id, description, parseFloat(amount), category, date, isRecurring ? 1 : 0]
-      );
+      const user = await repo.users.findByEmail(req.body.email);
+      if (!user || !(await verifyPassword(req.body.password, user.password_hash)))
+        return res.status(401).json({ error: 'E-mail ou senha inválidos.' });
 
-      res.status(201).json({
-        id, description, amount: parseFloat(amount), category, date, isRecurring
-      });
+      const household = await repo.households.find(user.household_id);
+      res.json(sessionResponse(user, household));
     } catch (err) { next(err); }
   }
 );
 
-app.put('/api/expenses/:id',
-  param('id').isUUID(),
-  body('description').optional().trim().notEmpty().isLength({ max: 255 }),
-  body('amount').optional().isFloat({ gt: 0 }),
-  body('category').optional().isIn(VALID_CATEGORIES),
-  body('date').optional().isDate(),
-  body('isRecurring').optional().isBoolean(),
+// Todas as rotas /api abaixo exigem sessão e ficam restritas à
+// família (household) do usuário autenticado.
+app.use('/api', requireAuth);
+
+app.get('/api/auth/me', async (req, res, next) => {
+  try {
+    const row     = await repo.households.find(req.user.household_id);
+    const members = await repo.users.listByHousehold(req.user.household_id);
+    const user    = members.find(m => m.id === req.user.id);
+    if (!row || !user) return res.status(401).json({ error: 'Não autenticado.' });
+    const household = { id: row.id, name: row.name, invite_code: row.invite_code };
+    res.json({ user, household, members });
+  } catch (err) { next(err); }
+});
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — CATEGORIAS
+// ════════════════════════════════════════════════════════════
+
+// Subcategorias têm apenas um nível: o pai precisa ser uma
+// categoria raiz da mesma família e diferente da própria.
+async function checkParent(householdId, parentId, selfId = null) {
+  if (parentId === null || parentId === undefined) return null;
+  if (selfId !== null && parentId === selfId) return 'Uma categoria não pode ser pai de si mesma.';
+
+  const parent = await findCategory(householdId, parentId);
+  if (!parent) return 'Categoria pai inválida.';
+  if (parent.parent_id !== null) return 'Subcategorias não podem ter subcategorias.';
+
+  if (selfId !== null && await repo.categories.countChildren(selfId))
+    return 'Uma categoria com subcategorias não pode virar subcategoria.';
+  return null;
+}
+
+app.get('/api/categories', async (req, res, next) => {
+  try {
+    const includeArchived = req.query.includeArchived === '1' || req.query.includeArchived === 'true';
+    const rows = await repo.categories.list(req.user.household_id, { includeArchived });
+    res.json(rows.map(mapCategory));
+  } catch (err) { next(err); }
+});
+
+app.post('/api/categories',
+  body('name').trim().notEmpty().isLength({ max: 60 }),
+  body('color').optional().matches(/^#[0-9a-fA-F]{6}$/),
+  body('icon').optional().matches(/^[a-z0-9-]{1,40}$/),
+  body('parent_id').optional({ values: 'null' }).isInt({ min: 1 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { name, color = '#64748b', icon = 'tag' } = req.body;
+      const parentId = req.body.parent_id ?? null;
+
+      const parentError = await checkParent(req.user.household_id, parentId);
+      if (parentError) return res.status(422).json({ error: parentError });
+
+      const id = await repo.categories.create(req.user.household_id, { parent_id: parentId, name, color, icon });
+      res.status(201).json(await findCategory(req.user.household_id, id));
+    } catch (err) {
+      if (err.code === 'ER_DUP_ENTRY')
+        return res.status(409).json({ error: 'Já existe uma categoria com esse nome.' });
+      next(err);
+    }
+  }
+);
+
+app.put('/api/categories/:id',
+  param('id').isInt({ min: 1 }).toInt(),
+  body('name').optional().trim().notEmpty().isLength({ max: 60 }),
+  body('color').optional().matches(/^#[0-9a-fA-F]{6}$/),
+  body('icon').optional().matches(/^[a-z0-9-]{1,40}$/),
+  body('parent_id').optional({ values: 'null' }).isInt({ min: 1 }).toInt(),
+  body('archived').optional().isBoolean(),
+  body('version').optional().isInt({ min: 1 }).toInt(),
   validate,
   async (req, res, next) => {
     try {
-      const fields  = [];
-      const vals    = [];
-      const allowed = ['description','amount','category','date','isRecurring'];
+      if (req.body.parent_id !== undefined) {
+        const parentError = await checkParent(req.user.household_id, req.body.parent_id, req.params.id);
+        if (parentError) return res.status(422).json({ error: parentError });
+      }
+
+      const changes = {};
+      const allowed = ['name','color','icon','parent_id','archived'];
 
       for (const key of allowed) {
-        if (req.body[key] !== undefined) {
-          fields.push(`${key} = ?`);
-          vals.push(key === 'isRecurring' ? (req.body[key] ? 1 : 0) : req.body[key]);
-        }
+        if (req.body[key] !== undefined)
+          changes[key] = key === 'archived' ? (req.body[key] ? 1 : 0) : req.body[key];
       }
 
-      if (!fields.length)
+      if (!Object.keys(changes).length)
         return res.status(400).json({ error: 'Nenhum campo para atualizar.' });
 
-      vals.push(req.params.id);
-      const [result] = await pool.execute(
-        `UPDATE expenses SET ${fields.join(', ')} WHERE id = ?`, vals
+      const updated = await repo.categories.update(
+        req.user.household_id, req.params.id, changes, req.body.version
       );
+      const current = await findCategory(req.user.household_id, req.params.id);
 
-      if (result.affectedRows === 0)
-        return res.status(404).json({ error: 'Despesa não encontrada.' });
+      if (!current) return res.status(404).json({ error: 'Categoria não encontrada.' });
+      if (!updated) return sendConflict(res, current);
 
-      res.json({ message: 'Despesa atualizada com sucesso.' });
-    } catch (err) { next(err); }
+      res.json(current);
+    } catch (err) {
+      if (err.code === 'ER_DUP_ENTRY')
+        return res.status(409).json({ error: 'Já existe uma categoria com esse nome.' });
+      next(err);
+    }
   }
 );
 
-app.delete('/api/expenses/:id',
-  param('id').isUUID(), validate,
+// Categorias em uso não são removidas — devem ser arquivadas
+// para preservar o histórico das despesas.
+app.delete('/api/categories/:id',
+  param('id').isInt({ min: 1 }).toInt(), validate,
   async (req, res, next) => {
     try {
-      const [result] = await pool.execute(
-        'DELETE FROM expenses WHERE id = ?', [req.params.id]
-      );
-      if (result.affectedRows === 0)
-        return res.status(404).json({ error: 'Despesa não encontrada.' });
-      res.json({ message: 'Despesa removida com sucesso.' });
+      if (!(await findCategory(req.user.household_id, req.params.id)))
+        return res.status(404).json({ error: 'Categoria não encontrada.' });
+
+      if (await repo.categories.countUsage(req.params.id) > 0)
+        return res.status(409).json({ error: 'Categoria em uso. Arquive-a em vez de remover.' });
+
+      // Os orçamentos da categoria caem junto (ON DELETE CASCADE)
+      const budgets = await repo.budgets.keys(req.user.household_id, req.params.id);
+      await repo.categories.remove(req.user.household_id, req.params.id);
+      await recordDeletion(req.user.household_id, 'categories', req.params.id);
+      for (const b of budgets)
+        await recordDeletion(req.user.household_id, 'budgets', budgetKey(b));
+      res.json({ message: 'Categoria removida com sucesso.' });
     } catch (err) { next(err); }
   }
 );
 
 // ════════════════════════════════════════════════════════════
-//  ROTAS — ORÇAMENTOS
+//  ROTAS — CONTAS E CARTÕES
 // ════════════════════════════════════════════════════════════
 
-app.get('/api/budgets', async (req, res, next) => {
+const VALID_ACCOUNT_TYPES   = ['checking','cash','credit_card'];
+const VALID_PAYMENT_METHODS = ['pix','debit','credit','cash','transfer','boleto'];
+
+function mapAccount(r) {
+  return {
+    ...r,
+    opening_balance: parseFloat(r.opening_balance),
+    credit_limit:    r.credit_limit === null ? null : parseFloat(r.credit_limit),
+    archived:        !!r.archived,
+  };
+}
+
+async function findAccount(householdId, id) {
+  const row = await repo.accounts.find(householdId, id);
+  return row ? mapAccount(row) : null;
+}
+
+// Validador reutilizável: account_id é opcional (null desvincula),
+// mas quando vem precisa ser uma conta da família do usuário.
+function accountIdField(field = 'account_id') {
+  return body(field).optional({ values: 'null' }).isInt({ min: 1 }).bail().toInt()
+    .custom(async (id, { req }) => {
+      if (!(await findAccount(req.user.household_id, id)))
+        throw new Error('Conta inválida.');
+    });
+}
+
+// Forma de pagamento padrão quando o cliente não informa uma.
+function defaultPaymentMethod(account) {
+  if (!account) return null;
+  if (account.type === 'credit_card') return 'credit';
+  if (account.type === 'cash') return 'cash';
+  return null;
+}
+
+// ─── Helpers: faturas de cartão ─────────────────────────────
+// A fatura é identificada pelo mês em que fecha: uma compra
+// feita depois do dia de fechamento cai na fatura seguinte. Dias
+// de fechamento maiores que o mês (ex.: 31 em fevereiro) valem
+// como o último dia.
+function statementMonthFor(date, closingDay) {
+  const [y, m, d] = date.split('-').map(Number);
+  const month = date.slice(0, 7);
+  return d > Math.min(closingDay, daysInMonth(y, m)) ? shiftMonth(month, 1) : month;
+}
+
+function dayOfMonth(month, day) {
+  const [y, m] = month.split('-').map(Number);
+  return `${month}-${String(Math.min(day, daysInMonth(y, m))).padStart(2, '0')}`;
+}
+
+// Período, fechamento e vencimento da fatura de `month`. O
+// vencimento cai no mesmo mês quando é depois do fechamento;
+// senão, no mês seguinte.
+function statementDates(month, closingDay, dueDay) {
+  const closing = dayOfMonth(month, closingDay);
+  return {
+    opening_date: addDaysISO(dayOfMonth(shiftMonth(month, -1), closingDay), 1),
+    closing_date: closing,
+    due_date:     dayOfMonth(dueDay > closingDay ? month : shiftMonth(month, 1), dueDay),
+  };
+}
+
+function describeStatement(account, month, total = 0, paid = 0, count = 0) {
+  const dates     = statementDates(month, account.closing_day, account.due_day);
+  const remaining = round2(total - paid);
+  const today     = todayISO();
+
+  let status = 'closed';
+  if (today <= dates.closing_date) status = 'open';
+  else if (remaining <= 0)         status = 'paid';
+  else if (today > dates.due_date) status = 'overdue';
+
+  return {
+    account_id: account.id,
+    month,
+    ...dates,
+    total:     round2(total),
+    paid:      round2(paid),
+    remaining,
+    count,
+    status,
+  };
+}
+
+// Todas as faturas com lançamentos ou pagamentos, mais a fatura
+// aberta hoje — da mais recente para a mais antiga.
+async function cardStatements(householdId, account) {
+  const charges  = await repo.statements.charges(householdId, account.id);
+  const payments = await repo.statements.paymentTotals(householdId, account.id);
+
+  const byMonth = new Map();
+  const entry = month => {
+    if (!byMonth.has(month)) byMonth.set(month, { total: 0, paid: 0, count: 0 });
+    return byMonth.get(month);
+  };
+  entry(statementMonthFor(todayISO(), account.closing_day));
+  for (const c of charges)  Object.assign(entry(c.month), { total: parseFloat(c.total), count: c.n });
+  for (const p of payments) entry(p.month).paid = parseFloat(p.paid);
+
+  return [...byMonth.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([month, s]) => describeStatement(account, month, s.total, s.paid, s.count));
+}
+
+// Saldo de cada conta: saldo inicial + receitas − despesas, com
+// os pagamentos de fatura saindo da conta de origem e abatendo a
+// dívida do cartão. Em cartões, saldo negativo é o que se deve.
+async function accountBalances(householdId, { includeArchived = false } = {}) {
+  const rows = await repo.accounts.listWithTotals(householdId, { includeArchived });
+
+  return rows.map(r => {
+    const { incomes_total, expenses_total, paid_out, paid_in, ...account } = mapAccount(r);
+    const balance = round2(
+      account.opening_balance + parseFloat(incomes_total) - parseFloat(expenses_total)
+      - parseFloat(paid_out) + parseFloat(paid_in)
+    );
+    return {
+      ...account,
+      balance,
+      available_credit: account.type === 'credit_card' && account.credit_limit !== null
+        ? round2(account.credit_limit + balance)
+        : null,
+    };
+  });
+}
+
+// Campos comuns de criação/edição; cartões exigem os dias de
+// fechamento e vencimento (checado na rota).
+function accountFields() {
+  return [
+    body('name').optional().trim().notEmpty().isLength({ max: 60 }),
+    body('type').optional().isIn(VALID_ACCOUNT_TYPES),
+    body('opening_balance').optional().isFloat().toFloat(),
+    body('credit_limit').optional({ values: 'null' }).isFloat({ min: 0 }).toFloat(),
+    body('closing_day').optional({ values: 'null' }).isInt({ min: 1, max: 31 }).toInt(),
+    body('due_day').optional({ values: 'null' }).isInt({ min: 1, max: 31 }).toInt(),
+  ];
+}
+
+// Lista as contas com saldo; cartões trazem também as faturas
+// ainda não pagas (aberta, fechada ou vencida).
+app.get('/api/accounts', async (req, res, next) => {
   try {
-    const [rows] = await pool.execute('SELECT * FROM budgets ORDER BY category');
-    res.json(rows.map(r => ({ ...r, monthly_limit: parseFloat(r.monthly_limit) })));
+    const householdId = req.user.household_id;
+    const includeArchived = req.query.includeArchived === '1' || req.query.includeArchived === 'true';
+    const accounts = await accountBalances(householdId, { includeArchived });
+
+    for (const account of accounts) {
+      if (account.type !== 'credit_card') continue;
+      const statements = await cardStatements(householdId, account);
+      account.upcoming_bills = statements
+        .filter(s => s.status !== 'paid')
+        .sort((a, b) => a.due_date.localeCompare(b.due_date));
+    }
+    res.json(accounts);
   } catch (err) { next(err); }
 });
 
-app.put('/api/budgets',
-  body('category').isIn(VALID_CATEGORIES),
-  body('limit').isFloat({ min: 0 }),
+app.post('/api/accounts',
+  body('name').trim().notEmpty().isLength({ max: 60 }),
+  body('type').isIn(VALID_ACCOUNT_TYPES),
+  ...accountFields().slice(2),
   validate,
   async (req, res, next) => {
     try {
-      const { category, limit } = req.body;
-      await pool.execute(
-        `INSERT INTO budgets (category, monthly_limit) VALUES (?, ?)
-         ON DUPLICATE KEY UPDATE monthly_limit = VALUES(monthly_limit)`,
-        [category, parseFloat(limit)]
-      );
-      res.json({ category, monthly_limit: parseFloat(limit) });
-    } catch (err) { next(err); }
+      const { name, type, opening_balance = 0 } = req.body;
+      const isCard = type === 'credit_card';
+      if (isCard && (!req.body.closing_day || !req.body.due_day))
+        return res.status(422).json({ error: 'Cartões precisam dos dias de fechamento e vencimento.' });
+
+      const id = await repo.accounts.create(req.user.household_id, {
+        name, type, opening_balance,
+        credit_limit: isCard ? req.body.credit_limit ?? null : null,
+        closing_day:  isCard ? req.body.closing_day : null,
+        due_day:      isCard ? req.body.due_day : null,
+      });
+      res.status(201).json(await findAccount(req.user.household_id, id));
+    } catch (err) {
+      if (err.code === 'ER_DUP_ENTRY')
+        return res.status(409).json({ error: 'Já existe uma conta com esse nome.' });
+      next(err);
+    }
   }
 );
 
-app.delete('/api/budgets/:category',
-  param('category').isIn(VALID_CATEGORIES), validate,
+app.put('/api/accounts/:id',
+  param('id').isInt({ min: 1 }).toInt(),
+  ...accountFields(),
+  body('archived').optional().isBoolean(),
+  body('version').optional().isInt({ min: 1 }).toInt(),
+  validate,
   async (req, res, next) => {
     try {
-      await pool.execute(
-        'DELETE FROM budgets WHERE category = ?', [req.params.category]
-      );
-      res.json({ message: 'Orçamento removido.' });
-    } catch (err) { next(err); }
-  }
-);
+      const householdId = req.user.household_id;
+      const before = await findAccount(householdId, req.params.id);
+      if (!before) return res.status(404).json({ error: 'Conta não encontrada.' });
 
-// ════════════════════════════════════════════════════════════
-//  ROTAS — RELATÓRIOS / ANALYTICS
-// ════════════════════════════════════════════════════════════
+      const type   = req.body.type ?? before.type;
+      const isCard = type === 'credit_card';
+      const closingDay = req.body.closing_day !== undefined ? req.body.closing_day : before.closing_day;
+      const dueDay     = req.body.due_day     !== undefined ? req.body.due_day     : before.due_day;
+      if (isCard && (!closingDay || !dueDay))
+        return res.status(422).json({ error: 'Cartões precisam dos dias de fechamento e vencimento.' });
 
-app.get('/api/reports/summary', async (req, res, next) => {
-  try {
-    const { month } = req.query;
-    let where = '';
-    const vals = [];
+      const changes = {};
+      const allowed = ['name','type','opening_balance','credit_limit','closing_day','due_day','archived'];
 
-    if (month && /^\d{4}-\d{2}$/.test(month)) {
-      where = 'WHERE DATE_FORMAT(date, "%Y-%m") = ?';
-      vals.push(month);
-    }
+      for (const key of allowed) {
+        if (req.body[key] !== undefined)
+          changes[key] = key === 'archived' ? (req.body[key] ? 1 : 0) : req.body[key];
+      }
+      // Contas que deixam de ser cartão perdem os dados de fatura
+      if (!isCard && before.type === 'credit_card')
+        Object.assign(changes, { credit_limit: null, closing_day: null, due_day: null });
 
-    const [byCategory] = await pool.execute(
-      `SELECT category, SUM(amount) AS total, COUNT(*) AS count
-       FROM expenses ${where}
-       GROUP BY category ORDER BY total DESC`, vals
-    );
+      if (!Object.keys(changes).length)
+        return res.status(400).json({ error: 'Nenhum campo para atualizar.' });
 
-    const [[totals]] = await pool.execute(
-      `SELECT SUM(amount) AS grand_total, COUNT(*) AS tx_count
-       FROM expenses ${where}`, vals
-    );
+      const updated = await repo.accounts.update(householdId, req.params.id, changes, req.body.version);
+      const current = await findAccount(householdId, req.params.id);
 
-    const [budgets] = await pool.execute('SELECT * FROM budgets');
-    const budgetMap = {};
-    budgets.forEach(b => { budgetMap[b.category] = parseFloat(b.monthly_limit); });
-
-    const summary = byCategory.map(r => ({
-      category:     r.category,
-      total:        parseFloat(r.total),
-      count:        r.count,
-      budget_limit: budgetMap[r.category] || 0,
-      budget_pct:   budgetMap[r.category]
-                      ? ((parseFloat(r.total) / budgetMap[r.category]) * 100).toFixed(1)
-                      : null,
-    }));
-
-    res.json({
-      grand_total: parseFloat(totals.grand_total || 0),
-      tx_count:    totals.tx_count,
-      by_category: summary,
-    });
-  } catch (err) { next(err); }
-});
+      if (!current) return res.status(404).json({ error: 'Conta não encontrada.' });
+      if (!updated) return sendConflict(res, current);
 
-app.get('/api/reports/monthly', async (req, res, next) => {
-  try {
-    const [rows] = await pool.execute(`
-      SELECT DATE_FORMAT(date, '%Y-%m') AS month,
-             SUM(amount) AS total, COUNT(*) AS count
-      FROM expenses
-      WHERE date >= DATE_SUB(CURDATE(), INTERVAL 12 MONTH)
-      GROUP BY month ORDER BY month ASC
-    `);
-    res.json(rows.map(r => ({ ...r, total: parseFloat(r.total) })));
-  } catch (err) { next(err); }
-});
+      if (current.type !== before.type || current.closing_day !== before.closing_day)
+        await repo.expenses.refreshStatementMonths(householdId, { accountId: current.id });
 
-// ─── Health Check ────────────────────────────────────────────
-app.get('/health', async (req, res) => {
-  try {
-    await pool.execute('SELECT 1');
-    res.json({ status: 'ok', db: 'connected', ts: new Date().toISOString() });
-  } catch {
-    res.status(503).json({ status: 'error', db: 'disconnected' });
+      res.json(current);
+    } catch (err) {
+      if (err.code === 'ER_DUP_ENTRY')
+        return res.status(409).json({ error: 'Já existe uma conta com esse nome.' });
+      next(err);
+    }
   }
-});
+);
 
-// ─── 404 ─────────────────────────────────────────────────────
-app.use((req, res) => res.status(404).json({ error: 'Rota não encontrada.' }));
+// Contas com lançamentos não são removidas — devem ser
+// arquivadas para preservar os saldos e as faturas.
+app.delete('/api/accounts/:id',
+  param('id').isInt({ min: 1 }).toInt(), validate,
+  async (req, res, next) => {
+    try {
+      if (!(await findAccount(req.user.household_id, req.params.id)))
+        return res.status(404).json({ error: 'Conta não encontrada.' });
 
-// ─── Error Handler Global ─────────────────────────────────────
-app.use((err, req, res, _next) => {
-  console.error('❌  Erro interno:', err);
-  const status = err.status || 500;
-  res.status(status).json({
-    error: status === 500 ? 'Erro interno do servidor.' : err.message
-  });
-});
+      if (await repo.accounts.countUsage(req.params.id) > 0)
+        return res.status(409).json({ error: 'Conta em uso. Arquive-a em vez de remover.' });
 
-// ─── Inicialização ────────────────────────────────────────────
-(async () => {
-  await initDB();
-  app.listen(PORT, () =>
-    console.log(`🚀  EcoFin API rodando em http://localhost:${PORT}`)
-  );
-})();
\ No newline at end of file
+      await repo.accounts.remove(req.user.household_id, req.params.id);
+      res.json({ message: 'Conta removida com sucesso.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// ─── Faturas ─────────────────────────────────────────────────
+async function findCard(req, res) {
+  const account = await findAccount(req.user.household_id, req.params.id);
+  if (!account) {
+    res.status(404).json({ error: 'Conta não encontrada.' });
+    return null;
+  }
+  if (account.type !== 'credit_card') {
+    res.status(422).json({ error: 'Faturas existem apenas para cartões de crédito.' });
+    return null;
+  }
+  return account;
+}
+
+app.get('/api/accounts/:id/statements',
+  param('id').isInt({ min: 1 }).toInt(), validate,
+  async (req, res, next) => {
+    try {
+      const account = await findCard(req, res);
+      if (!account) return;
+      res.json(await cardStatements(req.user.household_id, account));
+    } catch (err) { next(err); }
+  }
+);
+
+async function statementDetail(householdId, account, month) {
+  const expenses = await repo.expenses.listByStatement(householdId, account.id, month);
+  const payments = await repo.statements.payments(householdId, account.id, month);
+
+  const total = expenses.reduce((acc, e) => acc + parseFloat(e.amount), 0);
+  const paid  = payments.reduce((acc, p) => acc + parseFloat(p.amount), 0);
+  return {
+    ...describeStatement(account, month, total, paid, expenses.length),
+    expenses: expenses.map(mapExpense),
+    payments: payments.map(p => ({ ...p, amount: parseFloat(p.amount), paid_at: formatDate(p.paid_at) })),
+  };
+}
+
+app.get('/api/accounts/:id/statements/:month',
+  param('id').isInt({ min: 1 }).toInt(),
+  param('month').matches(MONTH_PATTERN),
+  validate,
+  async (req, res, next) => {
+    try {
+      const account = await findCard(req, res);
+      if (!account) return;
+      res.json(await statementDetail(req.user.household_id, account, req.params.month));
+    } catch (err) { next(err); }
+  }
+);
+
+// Paga (total ou parcialmente) uma fatura. Sem amount, quita o
+// que falta; from_account_id é a conta de onde sai o dinheiro.
+app.post('/api/accounts/:id/statements/:month/payments',
+  param('id').isInt({ min: 1 }).toInt(),
+  param('month').matches(MONTH_PATTERN),
+  body('amount').optional().isFloat({ gt: 0 }).toFloat(),
+  accountIdField('from_account_id'),
+  body('date').optional().isDate(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const householdId = req.user.household_id;
+      const account = await findCard(req, res);
+      if (!account) return;
+
+      const fromId = req.body.from_account_id ?? null;
+      if (fromId !== null) {
+        const from = await findAccount(householdId, fromId);
+        if (from.type === 'credit_card' || from.id === account.id)
+          return res.status(422).json({ error: 'A fatura deve ser paga com uma conta corrente ou dinheiro.' });
+      }
+
+      const statement = await statementDetail(householdId, account, req.params.month);
+      const amount = req.body.amount ?? statement.remaining;
+      if (!(amount > 0))
+        return res.status(422).json({ error: 'Esta fatura não tem saldo a pagar.' });
+
+      await repo.statements.addPayment({
+        household_id:    householdId,
+        account_id:      account.id,
+        statement_month: req.params.month,
+        from_account_id: fromId,
+        amount,
+        paid_at:         req.body.date || todayISO(),
+        created_by:      req.user.id,
+      });
+      res.status(201).json(await statementDetail(householdId, account, req.params.month));
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — DESPESAS
+// ════════════════════════════════════════════════════════════
+
+function mapExpense(r) {
+  return {
+    ...r,
+    amount:      parseFloat(r.amount),
+    isRecurring: !!r.isRecurring,
+    date:        formatDate(r.date),   // ← corrigido: sem conversão UTC
+    tags:        r.tags ? r.tags.split(',') : [],
+    receipt_count: Number(r.receipt_count || 0),
+    splits:      r.splits
+      ? r.splits.split(',').map(part => {
+          const [userId, amount] = part.split(':');
+          return { user_id: userId, amount: parseFloat(amount) };
+        })
+      : [],
+  };
+}
+
+// ─── Helper: tags ───────────────────────────────────────────
+// Minúsculas e espaços viram hífen: "Viagem 2026" → "viagem-2026".
+// Vírgula não é aceita (separa as tags na consulta das despesas).
+const MAX_TAGS = 20;
+
+function normalizeTag(name) {
+  return String(name ?? '').trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+function tagsField() {
+  return [
+    body('tags').optional().isArray({ max: MAX_TAGS }),
+    body('tags.*').isString().trim().isLength({ min: 1, max: 50 }).not().contains(','),
+  ];
+}
+
+// Substitui as tags da despesa, criando as que ainda não existem
+async function setExpenseTags(householdId, expenseId, names) {
+  const unique = [...new Set(names.map(normalizeTag).filter(Boolean))];
+  await repo.expenses.setTags(householdId, expenseId, unique);
+}
+
+// ─── Helper: divisão entre membros ──────────────────────────
+// split = { type, members: [{ user_id, percent?, amount? }] }:
+// 'equal' divide igualmente, 'percent' usa os percentuais (soma
+// 100) e 'exact' os valores informados (soma = valor da despesa).
+// As contas são em centavos e a sobra do arredondamento fica com
+// o primeiro membro, como nas parcelas.
+const VALID_SPLIT_TYPES = ['equal', 'percent', 'exact'];
+
+function splitFields() {
+  const hasSplit = body('split').exists({ values: 'null' });
+  return [
+    body('split').optional({ values: 'null' }).isObject(),
+    body('split.type').if(hasSplit).isIn(VALID_SPLIT_TYPES),
+    body('split.members').if(hasSplit).isArray({ min: 1, max: 20 }),
+    body('split.members.*.user_id').isUUID(),
+    body('split.members.*.percent').optional().isFloat({ gt: 0, max: 100 }).toFloat(),
+    body('split.members.*.amount').optional().isFloat({ min: 0 }).toFloat(),
+    body('paid_by').optional({ values: 'null' }).isUUID(),
+  ];
+}
+
+// Reparte `cents` proporcionalmente aos pesos (em reais)
+function proportionalShares(cents, weights) {
+  const sum   = weights.reduce((acc, w) => acc + w, 0);
+  const parts = sum > 0
+    ? weights.map(w => Math.floor((cents * w) / sum))
+    : weights.map(() => Math.floor(cents / weights.length));
+  parts[0] += cents - parts.reduce((acc, v) => acc + v, 0);
+  return parts.map(v => v / 100);
+}
+
+// Valida a divisão (e quem pagou) contra os membros da família.
+// Devolve { error } ou { shares: [{ user_id, amount, percent }] }.
+async function resolveSplit(householdId, amount, split, paidBy = null) {
+  const members = await repo.users.listByHousehold(householdId);
+  const memberIds = new Set(members.map(m => m.id));
+  if (paidBy && !memberIds.has(paidBy)) return { error: 'Quem pagou precisa ser membro da família.' };
+  if (!split) return { shares: [] };
+
+  const ids = split.members.map(m => m.user_id);
+  if (ids.some(id => !memberIds.has(id))) return { error: 'A divisão só pode incluir membros da família.' };
+  if (new Set(ids).size !== ids.length) return { error: 'Um membro aparece duas vezes na divisão.' };
+
+  const cents = Math.round(amount * 100);
+  if (split.type === 'equal') {
+    const amounts = proportionalShares(cents, ids.map(() => 1));
+    return { shares: ids.map((id, i) => ({ user_id: id, amount: amounts[i], percent: round2(100 / ids.length) })) };
+  }
+  if (split.type === 'percent') {
+    const percents = split.members.map(m => m.percent || 0);
+    if (Math.abs(percents.reduce((acc, p) => acc + p, 0) - 100) > 0.01)
+      return { error: 'Os percentuais da divisão devem somar 100%.' };
+    const amounts = proportionalShares(cents, percents);
+    return { shares: ids.map((id, i) => ({ user_id: id, amount: amounts[i], percent: percents[i] })) };
+  }
+  const exact = split.members.map(m => Math.round((m.amount || 0) * 100));
+  if (exact.reduce((acc, v) => acc + v, 0) !== cents)
+    return { error: `Os valores da divisão devem somar ${formatMoneyBR(amount)}.` };
+  return { shares: ids.map((id, i) => ({ user_id: id, amount: exact[i] / 100, percent: null })) };
+}
+
+// Valor da despesa mudou sem nova divisão: as cotas acompanham,
+// pelos percentuais guardados ou, em 'exact', na proporção dos
+// valores antigos.
+async function rescaleSplit(expense) {
+  const rows = await repo.expenses.splits(expense.id);
+  if (!rows.length) return;
+  const weights = rows.map(r => parseFloat(expense.split_type === 'exact' ? r.amount : r.percent));
+  const amounts = proportionalShares(Math.round(expense.amount * 100), weights);
+  await repo.expenses.setSplit(expense.id, expense.split_type, rows.map((r, i) => ({
+    user_id: r.user_id, amount: amounts[i], percent: r.percent,
+  })));
+}
+
+// ─── Helper: consulta do extrato ────────────────────────────
+// Filtros de GET /api/expenses e da exportação; o WHERE fica no
+// repositório. A paginação é por cursor (keyset): o cursor guarda
+// o valor da coluna de ordenação e o id da última linha entregue,
+// então despesas antigas continuam alcançáveis mesmo com
+// lançamentos novos entrando no meio da rolagem.
+const EXPENSE_SORTS = ['date', 'amount', 'description'];
+const MAX_EXPENSE_PAGE = 200;
+
+// Aceita ?category=1,2 ou ?category=1&category=2.
+function idList(value) {
+  return (Array.isArray(value) ? value : String(value).split(','))
+    .map(v => parseInt(v, 10))
+    .filter(Number.isInteger);
+}
+
+function encodeCursor(expense, sort) {
+  const value = sort === 'amount' ? String(expense.amount) : expense[sort];
+  return Buffer.from(JSON.stringify([value, expense.id])).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+  try {
+    const parsed = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+    const [value, id] = parsed;
+    if (typeof value !== 'string' || typeof id !== 'string') return null;
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
+// ?category=<ids> também traz as despesas das subcategorias;
+// ?tag=<nome> exige a tag, ?payee= busca no favorecido e ?search=
+// em descrição, favorecido e nome da categoria. ?recurring=true
+// restringe às recorrentes (false, às avulsas).
+function expenseQueryFields() {
+  return [
+    query('category').optional().customSanitizer(idList)
+      .custom(ids => ids.length > 0).withMessage('Categoria inválida'),
+    query('account').optional().isInt().toInt(),
+    query('tag').optional().customSanitizer(normalizeTag),
+    query('startDate').optional().isDate(),
+    query('endDate').optional().isDate(),
+    query('minAmount').optional().isFloat({ min: 0 }).toFloat(),
+    query('maxAmount').optional().isFloat({ min: 0 }).toFloat(),
+    query('recurring').optional().isBoolean().toBoolean(),
+    query('sort').optional().isIn(EXPENSE_SORTS),
+    query('dir').optional().isIn(['asc', 'desc']),
+    query('limit').optional().isInt({ min: 1, max: MAX_EXPENSE_PAGE }).toInt(),
+    query('cursor').optional().custom(c => decodeCursor(c) !== null).withMessage('Cursor inválido'),
+  ];
+}
+
+app.get('/api/expenses',
+  expenseQueryFields(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { limit = 50, cursor, sort = 'date', dir = 'desc' } = req.query;
+      const householdId = req.user.household_id;
+
+      // Busca uma linha a mais para saber se existe próxima página.
+      const rows = await repo.expenses.list(householdId, req.query, {
+        sort, dir, after: cursor ? decodeCursor(cursor) : null, limit: limit + 1,
+      });
+      const data = rows.slice(0, limit).map(mapExpense);
+      const next_cursor = rows.length > limit ? encodeCursor(data[data.length - 1], sort) : null;
+      const total = await repo.expenses.count(householdId, req.query);
+
+      res.json({ data, total, limit, next_cursor });
+    } catch (err) { next(err); }
+  }
+);
+
+// Exporta todas as despesas que atendem aos filtros de
+// GET /api/expenses (sem paginação). Registrada antes de
+// /:id para que "export" não seja lido como um id.
+app.get('/api/expenses/export',
+  query('format').optional().isIn(['csv', 'pdf']),
+  expenseQueryFields(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { format = 'csv', startDate, endDate, search } = req.query;
+      const { sort, dir } = req.query;
+      const rows = await repo.expenses.list(req.user.household_id, req.query, { sort, dir });
+      const expenses = rows.map(mapExpense);
+      const filename = `extrato-${todayISO()}.${format}`;
+
+      if (format === 'csv') {
+        const csv = toCSV(
+          ['Data', 'Descrição', 'Favorecido', 'Categoria', 'Valor', 'Tags', 'Recorrente', 'Lançado por', 'Observações'],
+          expenses.map(e => [
+            formatDateBR(e.date), e.description, e.payee || '', e.category, csvAmount(e.amount),
+            e.tags.join(' '), e.isRecurring ? 'Sim' : 'Não', e.created_by_name || '', e.notes || '',
+          ])
+        );
+        return sendDownload(res, csv, 'text/csv; charset=utf-8', filename);
+      }
+
+      const period = startDate || endDate
+        ? `Período: ${startDate ? formatDateBR(startDate) : 'início'} a ${endDate ? formatDateBR(endDate) : 'hoje'}`
+        : 'Todo o período';
+      const filters = [period, search ? `Busca: "${search}"` : null].filter(Boolean).join(' · ');
+
+      const pdf = createPdf({ footer: 'EcoFin — Extrato de Despesas' });
+      pdfHeader(pdf, 'Extrato de Despesas', filters);
+
+      const cols = { date: 40, description: 105, category: 360, amount: 555 };
+      const tableHeader = () => {
+        pdf.rect(40, pdf.y - 6, 515, 20, '#f1f5f9');
+        pdf.text('DATA', cols.date + 4, pdf.y, { size: 8, bold: true, color: '#64748b' })
+           .text('DESCRIÇÃO', cols.description, pdf.y, { size: 8, bold: true, color: '#64748b' })
+           .text('CATEGORIA', cols.category, pdf.y, { size: 8, bold: true, color: '#64748b' })
+           .text('VALOR', cols.amount - 4, pdf.y, { size: 8, bold: true, color: '#64748b', align: 'right' });
+        pdf.y -= 22;
+      };
+      tableHeader();
+
+      expenses.forEach((e, i) => {
+        if (pdf.ensureSpace(18)) tableHeader();
+        if (i % 2) pdf.rect(40, pdf.y - 5, 515, 16, '#f8fafc');
+        pdf.text(formatDateBR(e.date), cols.date + 4, pdf.y, { size: 9, color: '#64748b' })
+           .text(truncate(e.description, 48), cols.description, pdf.y, { size: 9 })
+           .text(truncate(e.category, 30), cols.category, pdf.y, { size: 9, color: '#64748b' })
+           .text(formatMoneyBR(e.amount), cols.amount - 4, pdf.y, { size: 9, bold: true, align: 'right' });
+        pdf.y -= 16;
+      });
+
+      const total = expenses.reduce((acc, e) => acc + e.amount, 0);
+      pdf.ensureSpace(30);
+      pdf.y -= 8;
+      pdf.rect(40, pdf.y + 14, 515, 1, '#e2e8f0');
+      pdf.text(`${expenses.length} lançamento(s)`, cols.date + 4, pdf.y, { size: 9, color: '#64748b' })
+         .text(`Total: ${formatMoneyBR(total)}`, cols.amount - 4, pdf.y, { size: 11, bold: true, align: 'right' });
+
+      sendDownload(res, pdf.toBuffer(), 'application/pdf', filename);
+    } catch (err) { next(err); }
+  }
+);
+
+async function findExpense(householdId, id) {
+  const row = await repo.expenses.find(householdId, id);
+  return row ? mapExpense(row) : null;
+}
+
+app.get('/api/expenses/:id',
+  param('id').isUUID(), validate,
+  async (req, res, next) => {
+    try {
+      const expense = await findExpense(req.user.household_id, req.params.id);
+      if (!expense) return res.status(404).json({ error: 'Despesa não encontrada.' });
+      res.json(expense);
+    } catch (err) { next(err); }
+  }
+);
+
+app.post('/api/expenses',
+  body('description').trim().notEmpty().isLength({ max: 255 }),
+  body('payee').optional({ values: 'null' }).trim().isLength({ max: 120 }),
+  body('notes').optional({ values: 'null' }).isString().isLength({ max: 5000 }),
+  tagsField(),
+  body('amount').isFloat({ gt: 0 }),
+  categoryIdField(),
+  accountIdField(),
+  body('payment_method').optional({ values: 'null' }).isIn(VALID_PAYMENT_METHODS),
+  body('date').isDate(),
+  body('isRecurring').optional().isBoolean(),
+  splitFields(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { description, amount, category_id, date, isRecurring = false } = req.body;
+      const id = req.body.id || uuidv4();
+      const paidBy = req.body.paid_by || null;
+      const split = await resolveSplit(req.user.household_id, parseFloat(amount), req.body.split, paidBy);
+      if (split.error) return res.status(422).json({ error: split.error });
+
+      const accountId = req.body.account_id ?? null;
+      const paymentMethod = req.body.payment_method !== undefined
+        ? req.body.payment_method
+        : defaultPaymentMethod(accountId && await findAccount(req.user.household_id, accountId));
+
+      // O upsert por id só atualiza linhas da própria família;
+      // um id de outra família resulta em 404.
+      const saved = await repo.expenses.upsert({
+        id, household_id: req.user.household_id, created_by: req.user.id, paid_by: paidBy,
+        description, payee: req.body.payee || null, notes: req.body.notes || null,
+        amount: parseFloat(amount), category_id, account_id: accountId, payment_method: paymentMethod,
+        date, isRecurring,
+      });
+      if (!saved) return res.status(404).json({ error: 'Despesa não encontrada.' });
+
+      if (req.body.tags) await setExpenseTags(req.user.household_id, id, req.body.tags);
+      if (req.body.split !== undefined) await repo.expenses.setSplit(id, req.body.split ? req.body.split.type : null, split.shares);
+      await repo.expenses.refreshStatementMonths(req.user.household_id, { expenseId: id });
+      await evaluateBudgetAlerts(req.user.household_id, category_id, date);
+      const flags = await checkExpenseAnomalies(req.user.household_id, id);
+
+      res.status(201).json({ ...await findExpense(req.user.household_id, id), flags });
+    } catch (err) { next(err); }
+  }
+);
+
+app.put('/api/expenses/:id',
+  param('id').isUUID(),
+  body('description').optional().trim().notEmpty().isLength({ max: 255 }),
+  body('payee').optional({ values: 'null' }).trim().isLength({ max: 120 }),
+  body('notes').optional({ values: 'null' }).isString().isLength({ max: 5000 }),
+  tagsField(),
+  body('amount').optional().isFloat({ gt: 0 }),
+  categoryIdField().optional(),
+  accountIdField(),
+  body('payment_method').optional({ values: 'null' }).isIn(VALID_PAYMENT_METHODS),
+  body('date').optional().isDate(),
+  body('isRecurring').optional().isBoolean(),
+  splitFields(),
+  body('version').optional().isInt({ min: 1 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const changes = {};
+      const allowed = ['description','payee','notes','paid_by','amount','category_id','account_id','payment_method','date','isRecurring'];
+
+      for (const key of allowed) {
+        if (req.body[key] !== undefined)
+          changes[key] = key === 'isRecurring' ? (req.body[key] ? 1 : 0) : req.body[key] === '' ? null : req.body[key];
+      }
+
+      // Só as tags ou a divisão mudando também conta: a versão sobe
+      // do mesmo jeito
+      if (!Object.keys(changes).length && req.body.tags === undefined && req.body.split === undefined)
+        return res.status(400).json({ error: 'Nenhum campo para atualizar.' });
+
+      const before = await findExpense(req.user.household_id, req.params.id);
+      if (!before) return res.status(404).json({ error: 'Despesa não encontrada.' });
+      const amount = req.body.amount !== undefined ? parseFloat(req.body.amount) : before.amount;
+      const split  = await resolveSplit(req.user.household_id, amount, req.body.split, req.body.paid_by || null);
+      if (split.error) return res.status(422).json({ error: split.error });
+
+      const updated = await repo.expenses.update(
+        req.user.household_id, req.params.id, changes, req.body.version
+      );
+      const current = await findExpense(req.user.household_id, req.params.id);
+
+      if (!current) return res.status(404).json({ error: 'Despesa não encontrada.' });
+      if (!updated) return sendConflict(res, current);
+
+      if (req.body.tags !== undefined) await setExpenseTags(req.user.household_id, current.id, req.body.tags);
+      if (req.body.split !== undefined) {
+        await repo.expenses.setSplit(current.id, req.body.split ? req.body.split.type : null, split.shares);
+      } else if (current.split_type && current.amount !== before.amount) {
+        await rescaleSplit(current);
+      }
+      await repo.expenses.refreshStatementMonths(req.user.household_id, { expenseId: current.id });
+      await evaluateBudgetAlerts(req.user.household_id, current.category_id, current.date);
+      const flags = await checkExpenseAnomalies(req.user.household_id, current.id);
+
+      res.json({ message: 'Despesa atualizada com sucesso.', version: current.version, flags });
+    } catch (err) { next(err); }
+  }
+);
+
+app.delete('/api/expenses/:id',
+  param('id').isUUID(), validate,
+  async (req, res, next) => {
+    try {
+      if (!(await removeExpense(req.user.household_id, req.params.id)))
+        return res.status(404).json({ error: 'Despesa não encontrada.' });
+      res.json({ message: 'Despesa removida com sucesso.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — TAGS E COMPROVANTES
+// ════════════════════════════════════════════════════════════
+
+app.get('/api/tags', async (req, res, next) => {
+  try {
+    const rows = await repo.tags.list(req.user.household_id);
+    res.json(rows.map(r => ({ ...r, count: Number(r.count) })));
+  } catch (err) { next(err); }
+});
+
+// Remove a tag de todas as despesas. A versão delas sobe para
+// que a mudança chegue aos outros aparelhos pelo feed.
+app.delete('/api/tags/:id',
+  param('id').isInt({ min: 1 }).toInt(), validate,
+  async (req, res, next) => {
+    try {
+      if (!(await repo.tags.remove(req.user.household_id, req.params.id)))
+        return res.status(404).json({ error: 'Tag não encontrada.' });
+      res.json({ message: 'Tag removida com sucesso.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// ─── Armazenamento de comprovantes ──────────────────────────
+// Um adaptador expõe save/read/remove por chave. O padrão grava
+// em disco (RECEIPTS_DIR); outro destino só precisa implementar a
+// mesma interface e entrar em RECEIPT_STORAGES.
+function localDiskStorage(dir) {
+  const resolve = key => path.join(dir, key);
+  return {
+    name: 'local',
+
+    async save(key, buffer) {
+      await fs.mkdir(path.dirname(resolve(key)), { recursive: true });
+      await fs.writeFile(resolve(key), buffer);
+    },
+
+    read: key => fs.readFile(resolve(key)),
+
+    remove: key => fs.rm(resolve(key), { force: true }),
+  };
+}
+
+const RECEIPT_STORAGES = {
+  local: () => localDiskStorage(RECEIPTS_DIR),
+};
+
+if (!RECEIPT_STORAGES[RECEIPTS_STORAGE]) {
+  throw new Error(`RECEIPTS_STORAGE desconhecido: "${RECEIPTS_STORAGE}".`);
+}
+const receiptStorage = RECEIPT_STORAGES[RECEIPTS_STORAGE]();
+
+// Fotos da câmera do celular (inclusive HEIC) e PDFs
+const RECEIPT_TYPES = {
+  'image/jpeg':      '.jpg',
+  'image/png':       '.png',
+  'image/webp':      '.webp',
+  'image/heic':      '.heic',
+  'application/pdf': '.pdf',
+};
+const MAX_RECEIPT_BYTES = 5 * 1024 * 1024;
+
+function mapReceipt({ storage_key, household_id, ...r }) {
+  return r;
+}
+
+function expenseReceipts(householdId, expenseId) {
+  return repo.receipts.list(householdId, expenseId);
+}
+
+// Arquivo que não sai do armazenamento não impede a remoção da
+// despesa; fica só o aviso no log.
+async function removeReceiptFiles(receipts) {
+  for (const r of receipts) {
+    try {
+      await receiptStorage.remove(r.storage_key);
+    } catch (err) {
+      console.warn(`⚠️  Comprovante "${r.storage_key}" não removido:`, err.message);
+    }
+  }
+}
+
+// Exclusão de despesa em um só lugar: a linha sai (tags, divisão,
+// comprovantes e sinalizações vão junto pela FK) e fica a lápide.
+// Devolve os comprovantes para o chamador apagar os arquivos
+// depois do commit, ou null se a despesa não existe. db é o
+// repositório ou o da transação em curso.
+async function deleteExpenseRows(db, householdId, expenseId) {
+  const receipts = await db.receipts.list(householdId, expenseId);
+  if (!(await db.expenses.remove(householdId, expenseId))) return null;
+  await db.deletions.record(householdId, 'expenses', expenseId);
+  return receipts;
+}
+
+async function removeExpense(householdId, expenseId) {
+  const receipts = await deleteExpenseRows(repo, householdId, expenseId);
+  if (!receipts) return false;
+  await removeReceiptFiles(receipts);
+  return true;
+}
+
+app.get('/api/expenses/:id/receipts',
+  param('id').isUUID(), validate,
+  async (req, res, next) => {
+    try {
+      if (!await findExpense(req.user.household_id, req.params.id))
+        return res.status(404).json({ error: 'Despesa não encontrada.' });
+      res.json((await expenseReceipts(req.user.household_id, req.params.id)).map(mapReceipt));
+    } catch (err) { next(err); }
+  }
+);
+
+// O corpo é o próprio arquivo (Content-Type da imagem ou PDF);
+// ?filename= guarda o nome original.
+app.post('/api/expenses/:id/receipts',
+  express.raw({ type: Object.keys(RECEIPT_TYPES), limit: MAX_RECEIPT_BYTES }),
+  param('id').isUUID(),
+  query('filename').optional().trim().isLength({ max: 255 }),
+  validate,
+  async (req, res, next) => {
+    try {
+      const householdId = req.user.household_id;
+      if (!await findExpense(householdId, req.params.id))
+        return res.status(404).json({ error: 'Despesa não encontrada.' });
+
+      const contentType = (req.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+      if (!RECEIPT_TYPES[contentType] || !Buffer.isBuffer(req.body) || !req.body.length)
+        return res.status(415).json({ error: 'Envie uma imagem (JPEG, PNG, WebP ou HEIC) ou um PDF.' });
+
+      const key = `${householdId}/${uuidv4()}${RECEIPT_TYPES[contentType]}`;
+      await receiptStorage.save(key, req.body);
+
+      const row = await repo.receipts.create({
+        household_id: householdId,
+        expense_id:   req.params.id,
+        storage_key:  key,
+        filename:     req.query.filename || `comprovante${RECEIPT_TYPES[contentType]}`,
+        content_type: contentType,
+        size:         req.body.length,
+        uploaded_by:  req.user.id,
+      });
+      // receipt_count muda: a versão sobe para o feed levar a despesa
+      await repo.expenses.touch(householdId, req.params.id);
+
+      res.status(201).json(mapReceipt(row));
+    } catch (err) { next(err); }
+  }
+);
+
+async function findReceipt(req, res) {
+  const row = await repo.receipts.find(req.user.household_id, req.params.id, req.params.receiptId);
+  if (!row) res.status(404).json({ error: 'Comprovante não encontrado.' });
+  return row || null;
+}
+
+app.get('/api/expenses/:id/receipts/:receiptId',
+  param('id').isUUID(),
+  param('receiptId').isInt({ min: 1 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const receipt = await findReceipt(req, res);
+      if (!receipt) return;
+
+      let content;
+      try {
+        content = await receiptStorage.read(receipt.storage_key);
+      } catch (err) {
+        if (err.code === 'ENOENT')
+          return res.status(404).json({ error: 'Arquivo do comprovante não encontrado.' });
+        throw err;
+      }
+      res.set('Content-Type', receipt.content_type);
+      res.set('Content-Disposition', `inline; filename="${encodeURIComponent(receipt.filename)}"`);
+      res.send(content);
+    } catch (err) { next(err); }
+  }
+);
+
+app.delete('/api/expenses/:id/receipts/:receiptId',
+  param('id').isUUID(),
+  param('receiptId').isInt({ min: 1 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const receipt = await findReceipt(req, res);
+      if (!receipt) return;
+
+      await repo.receipts.remove(receipt.id);
+      await removeReceiptFiles([receipt]);
+      await repo.expenses.touch(req.user.household_id, req.params.id);
+      res.json({ message: 'Comprovante removido com sucesso.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — DIVISÃO E ACERTOS
+// ════════════════════════════════════════════════════════════
+
+// Só despesas divididas entram no saldo: quem pagou tem a receber
+// o valor total e cada membro deve a sua cota. Um acerto de A
+// para B soma no saldo de A e desconta no de B. Saldo positivo =
+// tem a receber.
+
+function mapSettlement(r) {
+  return { ...r, amount: parseFloat(r.amount), date: formatDate(r.date) };
+}
+
+// Menor lista de transferências que zera os saldos: o maior
+// devedor paga o maior credor, e assim por diante.
+function suggestTransfers(balances) {
+  const debtors   = balances.filter(b => b.net < 0).map(b => ({ ...b, cents: Math.round(-b.net * 100) }));
+  const creditors = balances.filter(b => b.net > 0).map(b => ({ ...b, cents: Math.round(b.net * 100) }));
+  debtors.sort((a, b) => b.cents - a.cents);
+  creditors.sort((a, b) => b.cents - a.cents);
+
+  const transfers = [];
+  let i = 0, j = 0;
+  while (i < debtors.length && j < creditors.length) {
+    const cents = Math.min(debtors[i].cents, creditors[j].cents);
+    if (cents > 0) {
+      transfers.push({
+        from_user_id: debtors[i].user_id,   from_name: debtors[i].name,
+        to_user_id:   creditors[j].user_id, to_name:   creditors[j].name,
+        amount:       cents / 100,
+      });
+    }
+    debtors[i].cents -= cents;
+    creditors[j].cents -= cents;
+    if (!debtors[i].cents) i++;
+    if (!creditors[j].cents) j++;
+  }
+  return transfers;
+}
+
+async function settlementBalances(householdId) {
+  const members  = await repo.users.listByHousehold(householdId);
+  const paid     = await repo.settlements.paidTotals(householdId);
+  const shares   = await repo.settlements.shareTotals(householdId);
+  const sent     = await repo.settlements.sentTotals(householdId);
+  const received = await repo.settlements.receivedTotals(householdId);
+
+  const totals = rows => Object.fromEntries(rows.map(r => [r.user_id, parseFloat(r.total)]));
+  const [p, s, out, inc] = [totals(paid), totals(shares), totals(sent), totals(received)];
+
+  return members.map(m => {
+    const entry = {
+      user_id:     m.id,
+      name:        m.name,
+      paid:        round2(p[m.id] || 0),
+      share:       round2(s[m.id] || 0),
+      settled_out: round2(out[m.id] || 0),
+      settled_in:  round2(inc[m.id] || 0),
+    };
+    entry.net = round2(entry.paid - entry.share + entry.settled_out - entry.settled_in);
+    return entry;
+  });
+}
+
+app.get('/api/settlements', async (req, res, next) => {
+  try {
+    const balances = await settlementBalances(req.user.household_id);
+    const history  = await repo.settlements.history(req.user.household_id, 50);
+    res.json({ balances, transfers: suggestTransfers(balances), history: history.map(mapSettlement) });
+  } catch (err) { next(err); }
+});
+
+app.post('/api/settlements',
+  body('from_user_id').isUUID(),
+  body('to_user_id').isUUID(),
+  body('amount').isFloat({ gt: 0 }),
+  body('date').optional().isDate(),
+  body('note').optional({ values: 'null' }).trim().isLength({ max: 255 }),
+  validate,
+  async (req, res, next) => {
+    try {
+      const householdId = req.user.household_id;
+      const { from_user_id, to_user_id, amount } = req.body;
+      if (from_user_id === to_user_id)
+        return res.status(422).json({ error: 'O acerto precisa ser entre dois membros diferentes.' });
+
+      const members = (await repo.users.listByHousehold(householdId)).map(m => m.id);
+      if (!members.includes(from_user_id) || !members.includes(to_user_id))
+        return res.status(422).json({ error: 'O acerto só pode ser entre membros da família.' });
+
+      const row = await repo.settlements.create({
+        household_id: householdId, from_user_id, to_user_id, amount,
+        date: req.body.date || todayISO(), note: req.body.note || null, created_by: req.user.id,
+      });
+      res.status(201).json(mapSettlement(row));
+    } catch (err) { next(err); }
+  }
+);
+
+app.delete('/api/settlements/:id',
+  param('id').isInt({ min: 1 }).toInt(), validate,
+  async (req, res, next) => {
+    try {
+      if (!(await repo.settlements.remove(req.user.household_id, req.params.id)))
+        return res.status(404).json({ error: 'Acerto não encontrado.' });
+      res.json({ message: 'Acerto removido com sucesso.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — ORÇAMENTOS
+// ════════════════════════════════════════════════════════════
+
+// ─── Helpers: orçamentos por período ────────────────────────
+// Cada linha vale de effective_month até o próximo período da
+// mesma categoria, então mudar o limite de um mês não reescreve
+// os anteriores. Com rollover, a sobra (ou o estouro) de um mês
+// entra no disponível do mês seguinte.
+const BUDGET_EPOCH = '2000-01';
+const DEFAULT_ALERT_THRESHOLDS = '80,100';
+const MAX_HISTORY_MONTHS = 24;
+
+function currentMonth() {
+  return todayISO().slice(0, 7);
+}
+
+// Identificador do orçamento no feed de sincronização
+function budgetKey(b) {
+  return `${b.category_id}:${b.effective_month}`;
+}
+
+// Limiares gravados como "80,100"
+function parseThresholds(str) {
+  return String(str || '').split(',').filter(Boolean).map(Number);
+}
+
+function serializeThresholds(list) {
+  return [...new Set(list)].sort((a, b) => a - b).join(',');
+}
+
+function mapBudget(r) {
+  return {
+    ...r,
+    monthly_limit:    parseFloat(r.monthly_limit),
+    rollover:         !!r.rollover,
+    alert_thresholds: parseThresholds(r.alert_thresholds),
+  };
+}
+
+function round2(n) {
+  return Math.round(n * 100) / 100;
+}
+
+// Período vigente no mês (periods em ordem crescente de mês)
+function effectivePeriod(periods, month) {
+  let current = null;
+  for (const p of periods) if (p.effective_month <= month) current = p;
+  return current;
+}
+
+// Limite x realizado de cada orçamento entre `from` e `to`. A
+// conta do rollover começa no primeiro mês com despesas, para que
+// limites antigos não acumulem sobras de meses sem lançamentos.
+// O realizado de uma categoria pai inclui as subcategorias.
+async function budgetHistory(householdId, from, to) {
+  const rows      = await repo.budgets.periods(householdId, to);
+  const household = await repo.householdBudgets.periods(householdId, to);
+  const spending  = await repo.reports.monthlySpending(householdId, `${shiftMonth(to, 1)}-01`);
+
+  const spent = {};
+  const total = {};
+  let firstMonth = from;
+  for (const s of spending) {
+    const amount = parseFloat(s.total);
+    for (const id of s.parent_id ? [s.category_id, s.parent_id] : [s.category_id]) {
+      spent[`${id}:${s.month}`] = (spent[`${id}:${s.month}`] || 0) + amount;
+    }
+    total[s.month] = (total[s.month] || 0) + amount;
+    if (s.month < firstMonth) firstMonth = s.month;
+  }
+
+  const walk = (periods, actualOf) => {
+    const months = [];
+    if (!periods.length) return months;
+
+    let carry = 0;
+    const start = periods[0].effective_month > firstMonth ? periods[0].effective_month : firstMonth;
+    for (let m = start; m <= to; m = shiftMonth(m, 1)) {
+      const period    = effectivePeriod(periods, m);
+      const limit     = parseFloat(period.monthly_limit);
+      const available = limit + carry;
+      const actual    = actualOf(m);
+      if (m >= from) {
+        months.push({
+          month:           m,
+          effective_month: period.effective_month,
+          version:         period.version,
+          limit,
+          rollover:        !!period.rollover,
+          alert_thresholds: parseThresholds(period.alert_thresholds),
+          carry_in:        round2(carry),
+          available:       round2(available),
+          actual:          round2(actual),
+          remaining:       round2(available - actual),
+          pct:             available > 0 ? parseFloat(((actual / available) * 100).toFixed(1)) : null,
+        });
+      }
+      carry = period.rollover ? available - actual : 0;
+    }
+    return months;
+  };
+
+  const byCategory = {};
+  rows.forEach(r => {
+    if (!byCategory[r.category_id]) {
+      byCategory[r.category_id] = {
+        category_id: r.category_id, category: r.category, color: r.color, parent_id: r.parent_id, periods: [],
+      };
+    }
+    byCategory[r.category_id].periods.push(r);
+  });
+
+  return {
+    from,
+    to,
+    categories: Object.values(byCategory)
+      .map(({ periods, ...c }) => ({ ...c, months: walk(periods, m => spent[`${c.category_id}:${m}`] || 0) }))
+      .filter(c => c.months.length),
+    household: household.length ? { months: walk(household, m => total[m] || 0) } : null,
+  };
+}
+
+// Limites vigentes no mês (padrão: o corrente), com a sobra
+// acumulada de meses anteriores.
+app.get('/api/budgets',
+  query('month').optional().matches(MONTH_PATTERN), validate,
+  async (req, res, next) => {
+    try {
+      const month = req.query.month || currentMonth();
+      const { categories } = await budgetHistory(req.user.household_id, month, month);
+      res.json(categories.map(({ months: [m], ...c }) => ({
+        category_id:     c.category_id,
+        category:        c.category,
+        month,
+        effective_month: m.effective_month,
+        monthly_limit:   m.limit,
+        rollover:        m.rollover,
+        carry_in:        m.carry_in,
+        available:       m.available,
+        version:         m.version,
+      })));
+    } catch (err) { next(err); }
+  }
+);
+
+// Limite x realizado por categoria e mês (padrão: últimos 6 meses)
+app.get('/api/budgets/history',
+  query('to').optional().matches(MONTH_PATTERN),
+  query('from').optional().matches(MONTH_PATTERN)
+    .custom((from, { req }) => {
+      const to = req.query.to || currentMonth();
+      return from <= to && shiftMonth(from, MAX_HISTORY_MONTHS - 1) >= to;
+    })
+    .withMessage(`from deve ser anterior a to, num intervalo de até ${MAX_HISTORY_MONTHS} meses.`),
+  validate,
+  async (req, res, next) => {
+    try {
+      const to   = req.query.to || currentMonth();
+      const from = req.query.from || shiftMonth(to, -5);
+      res.json(await budgetHistory(req.user.household_id, from, to));
+    } catch (err) { next(err); }
+  }
+);
+
+async function findBudget(householdId, categoryId, month) {
+  const row = await repo.budgets.find(householdId, categoryId, month);
+  return row ? mapBudget(row) : null;
+}
+
+async function findHouseholdBudget(householdId, month) {
+  const row = await repo.householdBudgets.find(householdId, month);
+  return row ? mapBudget(row) : null;
+}
+
+// Campos omitidos no corpo (rollover, alert_thresholds) são
+// herdados do período anterior.
+function periodSettings(previous, reqBody) {
+  return {
+    rollover: reqBody.rollover !== undefined
+      ? reqBody.rollover
+      : !!(previous && previous.rollover),
+    thresholds: reqBody.alert_thresholds !== undefined
+      ? serializeThresholds(reqBody.alert_thresholds)
+      : (previous ? previous.alert_thresholds : DEFAULT_ALERT_THRESHOLDS),
+  };
+}
+
+const budgetPeriodFields = () => [
+  body('limit').isFloat({ min: 0 }),
+  body('month').optional().matches(MONTH_PATTERN),
+  body('rollover').optional().isBoolean().toBoolean(),
+  body('alert_thresholds').optional().isArray({ max: 5 }),
+  body('alert_thresholds.*').isInt({ min: 1, max: 500 }).toInt(),
+  body('version').optional().isInt({ min: 1 }).toInt(),
+];
+
+// Define o limite de uma categoria a partir de "month" (padrão: o
+// corrente). Com "version", o período do mês só é trocado se a
+// versão ainda for a vigente.
+app.put('/api/budgets',
+  categoryIdField(),
+  ...budgetPeriodFields(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { category_id, limit, version } = req.body;
+      const householdId = req.user.household_id;
+      const month       = req.body.month || currentMonth();
+      const settings = periodSettings(await repo.budgets.previous(householdId, category_id, month), req.body);
+      const values   = { limit: parseFloat(limit), ...settings };
+
+      if (version !== undefined) {
+        if (await repo.budgets.updateVersioned(householdId, category_id, month, values, version))
+          return res.json(await findBudget(householdId, category_id, month));
+
+        const current = await findBudget(householdId, category_id, month);
+        if (current) return sendConflict(res, current);
+      }
+
+      await repo.budgets.upsert(householdId, category_id, month, values);
+      res.json(await findBudget(householdId, category_id, month));
+    } catch (err) { next(err); }
+  }
+);
+
+// Orçamento geral da família, com as mesmas regras de período
+app.put('/api/budgets/household',
+  ...budgetPeriodFields(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { limit, version } = req.body;
+      const householdId = req.user.household_id;
+      const month       = req.body.month || currentMonth();
+      const settings = periodSettings(await repo.householdBudgets.previous(householdId, month), req.body);
+      const values   = { limit: parseFloat(limit), ...settings };
+
+      if (version !== undefined) {
+        if (await repo.householdBudgets.updateVersioned(householdId, month, values, version))
+          return res.json(await findHouseholdBudget(householdId, month));
+
+        const current = await findHouseholdBudget(householdId, month);
+        if (current) return sendConflict(res, current);
+      }
+
+      await repo.householdBudgets.upsert(householdId, month, values);
+      res.json(await findHouseholdBudget(householdId, month));
+    } catch (err) { next(err); }
+  }
+);
+
+// Remove só o período do mês informado (o anterior volta a valer)
+app.delete('/api/budgets/household',
+  query('month').matches(MONTH_PATTERN), validate,
+  async (req, res, next) => {
+    try {
+      if (await repo.householdBudgets.remove(req.user.household_id, req.query.month))
+        await recordDeletion(req.user.household_id, 'household_budgets', req.query.month);
+      res.json({ message: 'Orçamento removido.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// Com ?month= remove só aquele período; sem, todos os da categoria.
+app.delete('/api/budgets/:categoryId',
+  param('categoryId').isInt({ min: 1 }).toInt(),
+  query('month').optional().matches(MONTH_PATTERN),
+  validate,
+  async (req, res, next) => {
+    try {
+      const householdId = req.user.household_id;
+      const month       = req.query.month || null;
+
+      const periods = await repo.budgets.keys(householdId, req.params.categoryId, month);
+      await repo.budgets.remove(householdId, req.params.categoryId, month);
+      for (const b of periods) await recordDeletion(householdId, 'budgets', budgetKey(b));
+      res.json({ message: 'Orçamento removido.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — NOTIFICAÇÕES
+// ════════════════════════════════════════════════════════════
+
+// ─── Helper: cliente SMTP mínimo ────────────────────────────
+// Sem TLS nem autenticação: pensado para um relay interno ou para
+// o servidor de testes (npm run stub:notifications). Assunto e
+// corpo vão em base64, o que dispensa o "dot-stuffing" do DATA.
+function smtpSend({ host, port, from, to, subject, text }) {
+  const base64Lines = str => Buffer.from(str, 'utf8').toString('base64').match(/.{1,76}/g) || [];
+  const message = [
+    `From: EcoFin <${from}>`,
+    `To: ${to.join(', ')}`,
+    `Subject: =?UTF-8?B?${Buffer.from(subject, 'utf8').toString('base64')}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...base64Lines(text),
+  ].join('\r\n');
+
+  const commands = [
+    'EHLO ecofin',
+    `MAIL FROM:<${from}>`,
+    ...to.map(addr => `RCPT TO:<${addr}>`),
+    'DATA',
+    `${message}\r\n.`,
+    'QUIT',
+  ];
+
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    let pending = '';
+    socket.setEncoding('utf8');
+    socket.setTimeout(10000, () => socket.destroy(new Error('Tempo esgotado na conexão SMTP.')));
+    socket.on('error', reject);
+    socket.on('close', () => reject(new Error('Conexão SMTP encerrada antes do fim.')));
+
+    // Cada resposta final (ex.: "250 OK", não "250-...") libera o
+    // próximo comando.
+    socket.on('data', chunk => {
+      const lines = (pending + chunk).split('\r\n');
+      pending = lines.pop();
+      for (const line of lines) {
+        if (/^\d{3}-/.test(line)) continue;
+        if (parseInt(line.slice(0, 3), 10) >= 400) {
+          socket.destroy();
+          return reject(new Error(`SMTP respondeu: ${line}`));
+        }
+        const next = commands.shift();
+        if (next === undefined) {
+          socket.end();
+          return resolve();
+        }
+        socket.write(`${next}\r\n`);
+      }
+    });
+  });
+}
+
+// ─── Helpers: canais de envio ───────────────────────────────
+// Um canal é { name, send(notification, ctx) }; ctx traz a
+// família e os e-mails dos membros. Falhas de um canal não
+// impedem os demais nem afetam a notificação no app.
+function webhookChannel(url) {
+  return {
+    name: 'webhook',
+
+    async send(notification, ctx) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: AbortSignal.timeout(10000),
+        body: JSON.stringify({ household: ctx.household, notification }),
+      });
+      if (!res.ok) throw new Error(`Webhook respondeu ${res.status}.`);
+    },
+  };
+}
+
+function smtpChannel({ host, port, from }) {
+  return {
+    name: 'smtp',
+
+    async send(notification, ctx) {
+      if (!ctx.recipients.length) return;
+      await smtpSend({
+        host, port, from,
+        to:      ctx.recipients,
+        subject: `[EcoFin] ${notification.title}`,
+        text:    `${notification.body}\n\n— ${ctx.household.name}`,
+      });
+    },
+  };
+}
+
+const notificationChannels = [
+  ...(NOTIFY_WEBHOOK_URL ? [webhookChannel(NOTIFY_WEBHOOK_URL)] : []),
+  ...(SMTP_HOST ? [smtpChannel({ host: SMTP_HOST, port: SMTP_PORT, from: SMTP_FROM })] : []),
+];
+
+// Envia a todos os canais; devolve o resultado de cada um
+async function dispatchNotification(householdId, notification) {
+  if (!notificationChannels.length) return [];
+
+  const { id, name } = await repo.households.find(householdId);
+  const members = await repo.users.listByHousehold(householdId);
+  const ctx = { household: { id, name }, recipients: members.map(m => m.email) };
+
+  const results = [];
+  for (const channel of notificationChannels) {
+    try {
+      await channel.send(notification, ctx);
+      results.push({ channel: channel.name, ok: true });
+    } catch (err) {
+      console.warn(`⚠️  Canal de notificação "${channel.name}" falhou:`, err.message);
+      results.push({ channel: channel.name, ok: false, error: err.message });
+    }
+  }
+  return results;
+}
+
+// Com dedupe_key repetida a notificação já existe e nada é
+// criado (devolve null).
+async function createNotification(householdId, { type, title, body, data = null, dedupeKey = null }) {
+  const id = await repo.notifications.create(householdId, { type, title, body, data, dedupeKey });
+  if (!id) return null;
+  return { id, type, title, body, data, read_at: null, created_at: new Date() };
+}
+
+// ─── Helper: alertas de orçamento ───────────────────────────
+// Avaliado a cada despesa criada ou alterada, para a categoria
+// dela, a categoria pai e o orçamento geral do mês da despesa.
+// Cada limiar dispara uma vez por orçamento e mês; se a despesa
+// cruzar vários de uma vez, só o maior vira notificação. Erros
+// aqui não desfazem o lançamento.
+async function evaluateBudgetAlerts(householdId, categoryId, date) {
+  try {
+    const month    = String(date).slice(0, 7);
+    const category = await findCategory(householdId, categoryId);
+    const scopes   = [categoryId, category && category.parent_id].filter(Boolean);
+    const history  = await budgetHistory(householdId, month, month);
+
+    const targets = [
+      ...history.categories
+        .filter(c => scopes.includes(c.category_id))
+        .map(c => ({ scope: `category:${c.category_id}`, name: c.category, stats: c.months[0] })),
+      ...(history.household
+        ? [{ scope: 'household', name: 'Orçamento geral', stats: history.household.months[0] }]
+        : []),
+    ];
+
+    const [y, m] = month.split('-').map(Number);
+    const created = [];
+    for (const { scope, name, stats } of targets) {
+      if (stats.pct === null) continue;
+      const crossed = stats.alert_thresholds.filter(t => stats.pct >= t);
+      if (!crossed.length) continue;
+
+      const prefix = `budget:${scope}:${month}:`;
+      const fired = await repo.notifications.dedupeKeys(householdId, prefix);
+      const lastFired = Math.max(0, ...fired.map(key => parseInt(key.slice(prefix.length), 10)));
+      const threshold = Math.max(...crossed);
+      if (threshold <= lastFired) continue;
+
+      const notification = await createNotification(householdId, {
+        type:  'budget_alert',
+        title: threshold >= 100 ? `Orçamento estourado: ${name}` : `${name} atingiu ${threshold}% do orçamento`,
+        body:  `Gasto de ${formatMoneyBR(stats.actual)} de ${formatMoneyBR(stats.available)} ` +
+               `em ${MONTH_NAMES[m - 1]} de ${y} (${pctBR(stats.pct)}).`,
+        data:  { scope, month, threshold, pct: stats.pct, actual: stats.actual, available: stats.available },
+        dedupeKey: `${prefix}${threshold}`,
+      });
+      if (notification) created.push(notification);
+    }
+
+    // Os canais externos não seguram a resposta da despesa
+    created.forEach(n => {
+      dispatchNotification(householdId, n)
+        .catch(err => console.error('❌  Erro ao enviar notificação:', err.message));
+    });
+    return created;
+  } catch (err) {
+    console.error('❌  Erro ao avaliar alertas de orçamento:', err.message);
+    return [];
+  }
+}
+
+function mapNotification(r) {
+  return { ...r, id: Number(r.id), read: r.read_at !== null };
+}
+
+app.get('/api/notifications',
+  query('unread').optional().isIn(['0', '1', 'true', 'false']),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const unreadOnly = req.query.unread === '1' || req.query.unread === 'true';
+      const limit      = req.query.limit || 30;
+
+      const rows   = await repo.notifications.list(req.user.household_id, { unreadOnly, limit });
+      const unread = await repo.notifications.unreadCount(req.user.household_id);
+      res.json({ unread_count: unread, notifications: rows.map(mapNotification) });
+    } catch (err) { next(err); }
+  }
+);
+
+app.post('/api/notifications/read-all', async (req, res, next) => {
+  try {
+    const updated = await repo.notifications.markAllRead(req.user.household_id);
+    res.json({ message: 'Notificações marcadas como lidas.', updated });
+  } catch (err) { next(err); }
+});
+
+// Cria uma notificação de teste e a envia pelos canais
+// configurados, devolvendo o resultado de cada um.
+app.post('/api/notifications/test', async (req, res, next) => {
+  try {
+    const notification = await createNotification(req.user.household_id, {
+      type:  'test',
+      title: 'Notificação de teste',
+      body:  'Enviada para conferir os canais de notificação configurados.',
+    });
+    const channels = await dispatchNotification(req.user.household_id, notification);
+    res.status(201).json({ notification, channels });
+  } catch (err) { next(err); }
+});
+
+app.post('/api/notifications/:id/read',
+  param('id').isInt({ min: 1 }).toInt(), validate,
+  async (req, res, next) => {
+    try {
+      if (!(await repo.notifications.markRead(req.user.household_id, req.params.id)))
+        return res.status(404).json({ error: 'Notificação não encontrada.' });
+      res.json({ message: 'Notificação marcada como lida.' });
+    } catch (err) { next(err); }
+  }
+);
+
+app.delete('/api/notifications/:id',
+  param('id').isInt({ min: 1 }).toInt(), validate,
+  async (req, res, next) => {
+    try {
+      if (!(await repo.notifications.remove(req.user.household_id, req.params.id)))
+        return res.status(404).json({ error: 'Notificação não encontrada.' });
+      res.json({ message: 'Notificação removida.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — METAS DE ECONOMIA
+// ════════════════════════════════════════════════════════════
+
+// ─── Helpers: progresso e projeção ──────────────────────────
+// O ritmo de uma meta é a média mensal dos aportes dos últimos
+// GOAL_PACE_MONTHS meses (ou desde o primeiro aporte). Sem aportes,
+// a projeção usa a sobra média da família (receitas − despesas
+// dos meses completos, como em /api/reports/monthly).
+const GOAL_PACE_MONTHS = 6;
+
+function mapGoal(r) {
+  return {
+    ...r,
+    target_amount: parseFloat(r.target_amount),
+    deadline:      formatDate(r.deadline),
+    archived:      !!r.archived,
+  };
+}
+
+function mapContribution(r) {
+  return { ...r, amount: parseFloat(r.amount), date: formatDate(r.date) };
+}
+
+async function findGoal(householdId, id) {
+  const row = await repo.goals.find(householdId, id);
+  return row ? mapGoal(row) : null;
+}
+
+// Diferença em meses entre dois "YYYY-MM"
+function monthsBetween(from, to) {
+  const [fy, fm] = from.split('-').map(Number);
+  const [ty, tm] = to.split('-').map(Number);
+  return (ty * 12 + tm) - (fy * 12 + fm);
+}
+
+async function averageMonthlyNet(householdId) {
+  const series = await monthlySeries(householdId, shiftMonth(currentMonth(), -1), GOAL_PACE_MONTHS);
+  if (!series.length) return null;
+  return round2(series.reduce((acc, r) => acc + r.net, 0) / series.length);
+}
+
+function goalProgress(goal, contributions, averageNet) {
+  const month     = currentMonth();
+  const saved     = round2(contributions.reduce((acc, c) => acc + c.amount, 0));
+  const remaining = round2(Math.max(goal.target_amount - saved, 0));
+
+  const dates = contributions.map(c => c.date).sort();
+  const windowStart = dates.length && dates[0].slice(0, 7) > shiftMonth(month, 1 - GOAL_PACE_MONTHS)
+    ? dates[0].slice(0, 7)
+    : shiftMonth(month, 1 - GOAL_PACE_MONTHS);
+  const windowSum = contributions
+    .filter(c => c.date.slice(0, 7) >= windowStart)
+    .reduce((acc, c) => acc + c.amount, 0);
+  const pace = dates.length ? round2(windowSum / (monthsBetween(windowStart, month) + 1)) : 0;
+
+  // O mês do prazo conta como mês para aportar; prazo vencido
+  // exige o restante de uma vez.
+  const deadlineMonth = goal.deadline ? goal.deadline.slice(0, 7) : null;
+  const monthsLeft    = deadlineMonth ? Math.max(monthsBetween(month, deadlineMonth) + 1, 1) : null;
+  const required      = deadlineMonth ? round2(remaining / monthsLeft) : null;
+
+  let basis = null;
+  let rate  = 0;
+  if (pace > 0)            { basis = 'contributions'; rate = pace; }
+  else if (averageNet > 0) { basis = 'household_net'; rate = averageNet; }
+
+  let projected = null;
+  if (remaining <= 0) {
+    projected = dates[dates.length - 1] || null;
+  } else if (rate > 0) {
+    const target = shiftMonth(month, Math.ceil(remaining / rate) - 1);
+    const [y, m] = target.split('-').map(Number);
+    projected = `${target}-${String(daysInMonth(y, m)).padStart(2, '0')}`;
+  }
+
+  const atRisk = remaining > 0 && goal.deadline !== null
+    && (projected === null || projected > goal.deadline);
+
+  return {
+    saved,
+    remaining,
+    pct:                  round2((saved / goal.target_amount) * 100),
+    monthly_pace:         pace,
+    average_net:          averageNet,
+    required_monthly:     required,
+    months_left:          monthsLeft,
+    projection_basis:     basis,
+    projected_completion: projected,
+    at_risk:              atRisk,
+    status:               remaining <= 0 ? 'achieved' : atRisk ? 'at_risk' : 'on_track',
+  };
+}
+
+async function goalContributions(householdId, goalId = null) {
+  const rows = await repo.goals.contributions(householdId, goalId);
+  return rows.map(mapContribution);
+}
+
+async function goalDetail(householdId, id) {
+  const goal = await findGoal(householdId, id);
+  if (!goal) return null;
+  const contributions = await goalContributions(householdId, id);
+  return {
+    ...goal,
+    ...goalProgress(goal, contributions, await averageMonthlyNet(householdId)),
+    contributions,
+  };
+}
+
+// Avisa uma única vez quando a meta é atingida
+async function notifyGoalAchieved(householdId, goal) {
+  if (goal.status !== 'achieved') return;
+  const notification = await createNotification(householdId, {
+    type:  'goal_achieved',
+    title: `Meta atingida: ${goal.name}`,
+    body:  `Vocês juntaram ${formatMoneyBR(goal.saved)} de ${formatMoneyBR(goal.target_amount)}.`,
+    data:  { goal_id: goal.id, saved: goal.saved, target_amount: goal.target_amount },
+    dedupeKey: `goal:${goal.id}:achieved`,
+  });
+  if (notification) {
+    dispatchNotification(householdId, notification)
+      .catch(err => console.error('❌  Erro ao enviar notificação:', err.message));
+  }
+}
+
+app.get('/api/goals', async (req, res, next) => {
+  try {
+    const householdId = req.user.household_id;
+    const includeArchived = req.query.includeArchived === '1' || req.query.includeArchived === 'true';
+    const rows = await repo.goals.list(householdId, { includeArchived });
+    const contributions = await goalContributions(householdId);
+    const averageNet    = await averageMonthlyNet(householdId);
+
+    res.json(rows.map(mapGoal).map(goal => ({
+      ...goal,
+      ...goalProgress(goal, contributions.filter(c => c.goal_id === goal.id), averageNet),
+    })));
+  } catch (err) { next(err); }
+});
+
+app.get('/api/goals/:id',
+  param('id').isInt({ min: 1 }).toInt(), validate,
+  async (req, res, next) => {
+    try {
+      const goal = await goalDetail(req.user.household_id, req.params.id);
+      if (!goal) return res.status(404).json({ error: 'Meta não encontrada.' });
+      res.json(goal);
+    } catch (err) { next(err); }
+  }
+);
+
+// initial_amount registra o que já estava guardado como um
+// primeiro aporte.
+app.post('/api/goals',
+  body('name').trim().notEmpty().isLength({ max: 80 }),
+  body('target_amount').isFloat({ gt: 0 }).toFloat(),
+  body('deadline').optional({ values: 'null' }).isDate(),
+  body('color').optional().matches(/^#[0-9a-fA-F]{6}$/),
+  body('initial_amount').optional().isFloat({ min: 0 }).toFloat(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const householdId = req.user.household_id;
+      const { name, target_amount, color = '#10b981' } = req.body;
+      const id = await repo.goals.create(householdId, {
+        name, target_amount, deadline: req.body.deadline || null, color,
+      });
+      if (req.body.initial_amount > 0) {
+        await repo.goals.addContribution({
+          household_id: householdId, goal_id: id, amount: req.body.initial_amount,
+          date: todayISO(), note: 'Saldo inicial', created_by: req.user.id,
+        });
+      }
+      res.status(201).json(await goalDetail(householdId, id));
+    } catch (err) {
+      if (err.code === 'ER_DUP_ENTRY')
+        return res.status(409).json({ error: 'Já existe uma meta com esse nome.' });
+      next(err);
+    }
+  }
+);
+
+app.put('/api/goals/:id',
+  param('id').isInt({ min: 1 }).toInt(),
+  body('name').optional().trim().notEmpty().isLength({ max: 80 }),
+  body('target_amount').optional().isFloat({ gt: 0 }).toFloat(),
+  body('deadline').optional({ values: 'null' }).isDate(),
+  body('color').optional().matches(/^#[0-9a-fA-F]{6}$/),
+  body('archived').optional().isBoolean(),
+  body('version').optional().isInt({ min: 1 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const changes = {};
+      const allowed = ['name','target_amount','deadline','color','archived'];
+
+      for (const key of allowed) {
+        if (req.body[key] !== undefined)
+          changes[key] = key === 'archived' ? (req.body[key] ? 1 : 0) : req.body[key];
+      }
+
+      if (!Object.keys(changes).length)
+        return res.status(400).json({ error: 'Nenhum campo para atualizar.' });
+
+      const updated = await repo.goals.update(
+        req.user.household_id, req.params.id, changes, req.body.version
+      );
+      const current = await goalDetail(req.user.household_id, req.params.id);
+
+      if (!current) return res.status(404).json({ error: 'Meta não encontrada.' });
+      if (!updated) return sendConflict(res, current);
+
+      await notifyGoalAchieved(req.user.household_id, current);
+      res.json(current);
+    } catch (err) {
+      if (err.code === 'ER_DUP_ENTRY')
+        return res.status(409).json({ error: 'Já existe uma meta com esse nome.' });
+      next(err);
+    }
+  }
+);
+
+// Os aportes caem junto (ON DELETE CASCADE)
+app.delete('/api/goals/:id',
+  param('id').isInt({ min: 1 }).toInt(), validate,
+  async (req, res, next) => {
+    try {
+      if (!(await repo.goals.remove(req.user.household_id, req.params.id)))
+        return res.status(404).json({ error: 'Meta não encontrada.' });
+      res.json({ message: 'Meta removida com sucesso.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// Valor negativo é um resgate, limitado ao que já foi guardado
+app.post('/api/goals/:id/contributions',
+  param('id').isInt({ min: 1 }).toInt(),
+  body('amount').isFloat().toFloat().custom(v => v !== 0).withMessage('O valor não pode ser zero.'),
+  body('date').optional().isDate(),
+  body('note').optional({ values: 'null' }).trim().isLength({ max: 255 }),
+  validate,
+  async (req, res, next) => {
+    try {
+      const householdId = req.user.household_id;
+      const before = await goalDetail(householdId, req.params.id);
+      if (!before) return res.status(404).json({ error: 'Meta não encontrada.' });
+      if (before.saved + req.body.amount < 0)
+        return res.status(422).json({ error: `O resgate passa do valor guardado (${formatMoneyBR(before.saved)}).` });
+
+      await repo.goals.addContribution({
+        household_id: householdId, goal_id: before.id, amount: req.body.amount,
+        date: req.body.date || todayISO(), note: req.body.note || null, created_by: req.user.id,
+      });
+
+      const goal = await goalDetail(householdId, before.id);
+      await notifyGoalAchieved(householdId, goal);
+      res.status(201).json(goal);
+    } catch (err) { next(err); }
+  }
+);
+
+app.delete('/api/goals/:id/contributions/:contributionId',
+  param('id').isInt({ min: 1 }).toInt(),
+  param('contributionId').isInt({ min: 1 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const removed = await repo.goals.removeContribution(
+        req.user.household_id, req.params.id, req.params.contributionId
+      );
+      if (!removed) return res.status(404).json({ error: 'Aporte não encontrado.' });
+      res.json(await goalDetail(req.user.household_id, req.params.id));
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — RECEITAS
+// ════════════════════════════════════════════════════════════
+
+const VALID_INCOME_SOURCES = [
+  'Salário','Freelance','Reembolso','Investimentos','Outros'
+];
+
+function mapIncome(r) {
+  return { ...r, amount: parseFloat(r.amount), date: formatDate(r.date) };
+}
+
+app.get('/api/incomes',
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+  query('startDate').optional().isDate(),
+  query('endDate').optional().isDate(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { page = 1, limit = 50 } = req.query;
+      const { rows, total } = await repo.incomes.list(req.user.household_id, req.query, {
+        limit, offset: (page - 1) * limit,
+      });
+
+      res.json({ data: rows.map(mapIncome), total, page, limit });
+    } catch (err) { next(err); }
+  }
+);
+
+async function findIncome(householdId, id) {
+  const row = await repo.incomes.find(householdId, id);
+  return row ? mapIncome(row) : null;
+}
+
+app.get('/api/incomes/:id',
+  param('id').isUUID(), validate,
+  async (req, res, next) => {
+    try {
+      const income = await findIncome(req.user.household_id, req.params.id);
+      if (!income) return res.status(404).json({ error: 'Receita não encontrada.' });
+      res.json(income);
+    } catch (err) { next(err); }
+  }
+);
+
+app.post('/api/incomes',
+  body('description').trim().notEmpty().isLength({ max: 255 }),
+  body('amount').isFloat({ gt: 0 }),
+  body('source').isIn(VALID_INCOME_SOURCES),
+  accountIdField(),
+  body('date').isDate(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { description, amount, source, date } = req.body;
+      const id = req.body.id || uuidv4();
+      const accountId = req.body.account_id ?? null;
+
+      const saved = await repo.incomes.upsert({
+        id, household_id: req.user.household_id, created_by: req.user.id,
+        description, amount: parseFloat(amount), source, account_id: accountId, date,
+      });
+      if (!saved) return res.status(404).json({ error: 'Receita não encontrada.' });
+
+      res.status(201).json({
+        id, description, amount: parseFloat(amount), source, account_id: accountId, date,
+        created_by: req.user.id
+      });
+    } catch (err) { next(err); }
+  }
+);
+
+app.put('/api/incomes/:id',
+  param('id').isUUID(),
+  body('description').optional().trim().notEmpty().isLength({ max: 255 }),
+  body('amount').optional().isFloat({ gt: 0 }),
+  body('source').optional().isIn(VALID_INCOME_SOURCES),
+  accountIdField(),
+  body('date').optional().isDate(),
+  body('version').optional().isInt({ min: 1 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const changes = {};
+      const allowed = ['description','amount','source','account_id','date'];
+
+      for (const key of allowed) {
+        if (req.body[key] !== undefined) changes[key] = req.body[key];
+      }
+
+      if (!Object.keys(changes).length)
+        return res.status(400).json({ error: 'Nenhum campo para atualizar.' });
+
+      const updated = await repo.incomes.update(
+        req.user.household_id, req.params.id, changes, req.body.version
+      );
+      const current = await findIncome(req.user.household_id, req.params.id);
+
+      if (!current) return res.status(404).json({ error: 'Receita não encontrada.' });
+      if (!updated) return sendConflict(res, current);
+
+      res.json({ message: 'Receita atualizada com sucesso.', version: current.version });
+    } catch (err) { next(err); }
+  }
+);
+
+app.delete('/api/incomes/:id',
+  param('id').isUUID(), validate,
+  async (req, res, next) => {
+    try {
+      if (!(await repo.incomes.remove(req.user.household_id, req.params.id)))
+        return res.status(404).json({ error: 'Receita não encontrada.' });
+      await recordDeletion(req.user.household_id, 'incomes', req.params.id);
+      res.json({ message: 'Receita removida com sucesso.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — DESPESAS RECORRENTES
+// ════════════════════════════════════════════════════════════
+
+const VALID_FREQUENCIES = ['weekly', 'monthly', 'yearly'];
+
+function mapRule(r) {
+  return {
+    ...r,
+    amount:         parseFloat(r.amount),
+    start_date:     formatDate(r.start_date),
+    end_date:       formatDate(r.end_date),
+    last_generated: formatDate(r.last_generated),
+  };
+}
+
+// ─── Helper: datas de uma regra dentro de [from, until] ─────
+// Mensal/anual usam day_of_month, limitado ao último dia do mês
+// (dia 31 vira 28/29 em fevereiro); semanal conta de 7 em 7 dias
+// a partir de start_date.
+function ruleOccurrences(rule, from, until) {
+  const first = from > rule.start_date ? from : rule.start_date;
+  const last  = rule.end_date && rule.end_date < until ? rule.end_date : until;
+  const dates = [];
+  if (first > last) return dates;
+
+  if (rule.frequency === 'weekly') {
+    for (let d = rule.start_date; d <= last; d = addDaysISO(d, 7)) {
+      if (d >= first) dates.push(d);
+    }
+    return dates;
+  }
+
+  const step = rule.frequency === 'yearly' ? 12 : 1;
+  const dom  = rule.day_of_month || Number(rule.start_date.slice(8, 10));
+  let [y, m] = rule.start_date.split('-').map(Number);
+  for (;;) {
+    const day = Math.min(dom, daysInMonth(y, m));
+    const d   = `${y}-${String(m).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    if (d > last) break;
+    if (d >= first) dates.push(d);
+    m += step;
+    while (m > 12) { m -= 12; y++; }
+  }
+  return dates;
+}
+
+// ─── Materializador idempotente ─────────────────────────────
+// Cria as despesas devidas até `until`. last_generated evita
+// recriar uma ocorrência que o usuário apagou, e a chave única
+// (recurring_rule_id, date) impede duplicatas mesmo com chamadas
+// concorrentes. Sem householdId processa todas as famílias.
+// `until` vai no máximo a 12 meses de hoje: uma regra semanal sem
+// fim não pode virar milhares de despesas numa chamada.
+const MAX_MATERIALIZE_MONTHS = 12;
+
+function materializeLimit() {
+  return addMonthsISO(todayISO(), MAX_MATERIALIZE_MONTHS);
+}
+
+async function materializeRecurring(until, householdId = null) {
+  if (until > materializeLimit()) {
+    const err = new Error(`until não pode passar de ${materializeLimit()}.`);
+    err.status = 400;
+    throw err;
+  }
+  const rows = await repo.recurring.due(until, householdId);
+
+  let created = 0;
+  for (const rule of rows.map(mapRule)) {
+    const from = rule.last_generated ? addDaysISO(rule.last_generated, 1) : rule.start_date;
+
+    for (const date of ruleOccurrences(rule, from, until)) {
+      const inserted = await repo.expenses.create({
+        id: uuidv4(), household_id: rule.household_id, created_by: rule.created_by,
+        description: rule.description, amount: rule.amount, category_id: rule.category_id,
+        date, isRecurring: true, recurring_rule_id: rule.id,
+      }, { ignore: true });
+      if (inserted) created++;
+    }
+
+    if (!rule.last_generated || until > rule.last_generated)
+      await repo.recurring.setLastGenerated(rule.id, until);
+  }
+  return created;
+}
+
+app.get('/api/recurring', async (req, res, next) => {
+  try {
+    const rows = await repo.recurring.list(req.user.household_id);
+    res.json(rows.map(mapRule));
+  } catch (err) { next(err); }
+});
+
+app.get('/api/recurring/upcoming',
+  query('days').optional().isInt({ min: 1, max: 366 }), validate,
+  async (req, res, next) => {
+    try {
+      const from  = addDaysISO(todayISO(), 1);
+      const until = addDaysISO(todayISO(), parseInt(req.query.days || '30'));
+
+      const rows = await repo.recurring.list(req.user.household_id);
+      const upcoming = [];
+      for (const rule of rows.map(mapRule)) {
+        const after = rule.last_generated && rule.last_generated >= from
+          ? addDaysISO(rule.last_generated, 1)
+          : from;
+        for (const date of ruleOccurrences(rule, after, until)) {
+          upcoming.push({
+            recurring_rule_id: rule.id,
+            description:       rule.description,
+            amount:            rule.amount,
+            category_id:       rule.category_id,
+            category:          rule.category,
+            date,
+          });
+        }
+      }
+
+      upcoming.sort((a, b) => a.date.localeCompare(b.date));
+      res.json(upcoming);
+    } catch (err) { next(err); }
+  }
+);
+
+app.post('/api/recurring/materialize',
+  body('until').optional().isDate(), validate,
+  async (req, res, next) => {
+    try {
+      const until   = req.body.until || todayISO();
+      if (until > materializeLimit())
+        return res.status(400).json({ error: `until não pode passar de ${materializeLimit()}.` });
+      const created = await materializeRecurring(until, req.user.household_id);
+      res.json({ until, created });
+    } catch (err) { next(err); }
+  }
+);
+
+async function findRule(householdId, id) {
+  const row = await repo.recurring.find(householdId, id);
+  return row ? mapRule(row) : null;
+}
+
+app.get('/api/recurring/:id',
+  param('id').isUUID(), validate,
+  async (req, res, next) => {
+    try {
+      const rule = await findRule(req.user.household_id, req.params.id);
+      if (!rule) return res.status(404).json({ error: 'Recorrência não encontrada.' });
+      res.json(rule);
+    } catch (err) { next(err); }
+  }
+);
+
+app.post('/api/recurring',
+  body('id').optional().isUUID(),
+  body('description').trim().notEmpty().isLength({ max: 255 }),
+  body('amount').isFloat({ gt: 0 }),
+  categoryIdField(),
+  body('frequency').optional().isIn(VALID_FREQUENCIES),
+  body('day_of_month').optional({ values: 'null' }).isInt({ min: 1, max: 31 }),
+  body('start_date').isDate(),
+  body('end_date').optional({ values: 'null' }).isDate()
+    .custom((end, { req }) => end >= req.body.start_date)
+    .withMessage('end_date deve ser igual ou posterior a start_date.'),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { description, amount, category_id, start_date, frequency = 'monthly' } = req.body;
+      const id           = req.body.id || uuidv4();
+      const end_date     = req.body.end_date || null;
+      const day_of_month = frequency === 'weekly'
+        ? null
+        : parseInt(req.body.day_of_month || start_date.slice(8, 10));
+
+      await repo.recurring.create({
+        id, household_id: req.user.household_id, created_by: req.user.id, description,
+        amount: parseFloat(amount), category_id, frequency, day_of_month, start_date, end_date,
+      });
+
+      await materializeRecurring(todayISO(), req.user.household_id);
+
+      res.status(201).json(await findRule(req.user.household_id, id));
+    } catch (err) { next(err); }
+  }
+);
+
+app.put('/api/recurring/:id',
+  param('id').isUUID(),
+  body('description').optional().trim().notEmpty().isLength({ max: 255 }),
+  body('amount').optional().isFloat({ gt: 0 }),
+  categoryIdField().optional(),
+  body('frequency').optional().isIn(VALID_FREQUENCIES),
+  body('day_of_month').optional({ values: 'null' }).isInt({ min: 1, max: 31 }),
+  body('start_date').optional().isDate(),
+  body('end_date').optional({ values: 'null' }).isDate(),
+  body('version').optional().isInt({ min: 1 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const changes = {};
+      const allowed = ['description','amount','category_id','frequency','day_of_month','start_date','end_date'];
+
+      for (const key of allowed) {
+        if (req.body[key] !== undefined) changes[key] = req.body[key];
+      }
+
+      if (!Object.keys(changes).length)
+        return res.status(400).json({ error: 'Nenhum campo para atualizar.' });
+
+      // Só uma das datas no corpo: a outra vem da regra gravada
+      if (changes.start_date !== undefined || changes.end_date !== undefined) {
+        const stored = await findRule(req.user.household_id, req.params.id);
+        if (!stored) return res.status(404).json({ error: 'Recorrência não encontrada.' });
+        const start = changes.start_date ?? stored.start_date;
+        const end   = changes.end_date !== undefined ? changes.end_date : stored.end_date;
+        if (end && end < start)
+          return res.status(422).json({ error: 'end_date deve ser igual ou posterior a start_date.' });
+      }
+
+      const updated = await repo.recurring.update(
+        req.user.household_id, req.params.id, changes, req.body.version
+      );
+      const current = await findRule(req.user.household_id, req.params.id);
+
+      if (!current) return res.status(404).json({ error: 'Recorrência não encontrada.' });
+      if (!updated) return sendConflict(res, current);
+
+      res.json({ message: 'Recorrência atualizada com sucesso.', version: current.version });
+    } catch (err) { next(err); }
+  }
+);
+
+// As despesas já geradas permanecem; a FK apenas zera o vínculo.
+app.delete('/api/recurring/:id',
+  param('id').isUUID(), validate,
+  async (req, res, next) => {
+    try {
+      if (!(await repo.recurring.remove(req.user.household_id, req.params.id)))
+        return res.status(404).json({ error: 'Recorrência não encontrada.' });
+      await recordDeletion(req.user.household_id, 'recurring', req.params.id);
+      res.json({ message: 'Recorrência removida com sucesso.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — COMPRAS PARCELADAS
+// ════════════════════════════════════════════════════════════
+
+// Uma compra "10x R$ 350" vira um plano e dez despesas ligadas
+// a ele, uma por mês a partir de first_date. Edições e
+// cancelamentos valem para as parcelas restantes — as que vencem
+// hoje ou depois; as já vencidas ficam como estão.
+const MAX_INSTALLMENTS = 72;
+
+function mapPlan(r) {
+  return {
+    ...r,
+    total_amount: parseFloat(r.total_amount),
+    first_date:   formatDate(r.first_date),
+  };
+}
+
+async function findPlan(householdId, id) {
+  const row = await repo.installments.find(householdId, id);
+  return row ? mapPlan(row) : null;
+}
+
+function installmentLabel(description, number, count) {
+  return `${description} (${number}/${count})`;
+}
+
+// Divide em centavos; a diferença do arredondamento fica na
+// primeira parcela, como fazem as lojas.
+function splitInstallments(total, count) {
+  const cents = Math.round(total * 100);
+  const base  = Math.floor(cents / count);
+  return Array.from({ length: count }, (_, i) =>
+    (i === 0 ? base + (cents - base * count) : base) / 100
+  );
+}
+
+// Grava as parcelas `from`..`from + amounts.length - 1` do plano
+// (tx é o repositório da transação em curso)
+async function insertInstallments(tx, plan, from, amounts, createdBy) {
+  const ids = [];
+  for (const [i, amount] of amounts.entries()) {
+    const number = from + i;
+    const id = uuidv4();
+    await tx.expenses.create({
+      id,
+      household_id:        plan.household_id,
+      created_by:          createdBy,
+      description:         installmentLabel(plan.description, number, plan.installments),
+      amount,
+      category_id:         plan.category_id,
+      account_id:          plan.account_id,
+      payment_method:      plan.payment_method,
+      date:                addMonthsISO(plan.first_date, number - 1),
+      installment_plan_id: plan.id,
+      installment_number:  number,
+    });
+    ids.push(id);
+  }
+  return ids;
+}
+
+// Situação de cada plano: parcelas vencidas e o que ainda falta
+async function planProgress(householdId, planId = null) {
+  const rows = await repo.installments.progress(householdId, todayISO(), planId);
+  const map = {};
+  for (const r of rows) {
+    map[r.plan_id] = {
+      posted:           r.count,
+      due_count:        Number(r.due_count),
+      remaining_amount: parseFloat(r.remaining_amount),
+      next_date:        r.next_date ? formatDate(r.next_date) : null,
+    };
+  }
+  return map;
+}
+
+const EMPTY_PROGRESS = { posted: 0, due_count: 0, remaining_amount: 0, next_date: null };
+
+async function planDetail(householdId, id) {
+  const plan = await findPlan(householdId, id);
+  if (!plan) return null;
+  const rows = await repo.expenses.listByPlan(householdId, id);
+  const progress = (await planProgress(householdId, id))[id] || EMPTY_PROGRESS;
+  return { ...plan, ...progress, expenses: rows.map(mapExpense) };
+}
+
+// Remove as parcelas restantes (data >= hoje) pelo mesmo caminho
+// de DELETE /api/expenses/:id. Devolve os comprovantes, cujos
+// arquivos saem depois do commit.
+async function deleteRemainingInstallments(tx, householdId, planId, { all = false } = {}) {
+  const ids = await tx.installments.expenseIds(householdId, planId, { from: all ? null : todayISO() });
+  const receipts = [];
+  for (const id of ids) receipts.push(...await deleteExpenseRows(tx, householdId, id));
+  return { removed: ids.length, receipts };
+}
+
+app.get('/api/installments',
+  query('active').optional().isBoolean(), validate,
+  async (req, res, next) => {
+    try {
+      const householdId = req.user.household_id;
+      const rows = await repo.installments.list(householdId);
+      const progress = await planProgress(householdId);
+      let plans = rows.map(r => ({ ...mapPlan(r), ...(progress[r.id] || EMPTY_PROGRESS) }));
+      if (req.query.active === 'true' || req.query.active === '1')
+        plans = plans.filter(p => p.remaining_amount > 0);
+      res.json(plans);
+    } catch (err) { next(err); }
+  }
+);
+
+app.get('/api/installments/:id',
+  param('id').isUUID(), validate,
+  async (req, res, next) => {
+    try {
+      const plan = await planDetail(req.user.household_id, req.params.id);
+      if (!plan) return res.status(404).json({ error: 'Parcelamento não encontrado.' });
+      res.json(plan);
+    } catch (err) { next(err); }
+  }
+);
+
+// Reenviar o mesmo id (fila offline) devolve o plano já criado
+// em vez de duplicar as parcelas.
+app.post('/api/installments',
+  body('description').trim().notEmpty().isLength({ max: 240 }),
+  body('total_amount').isFloat({ gt: 0 }).toFloat(),
+  body('installments').isInt({ min: 2, max: MAX_INSTALLMENTS }).toInt(),
+  categoryIdField(),
+  accountIdField(),
+  body('payment_method').optional({ values: 'null' }).isIn(VALID_PAYMENT_METHODS),
+  body('first_date').isDate(),
+  validate,
+  async (req, res, next) => {
+    const householdId = req.user.household_id;
+    const id = req.body.id || uuidv4();
+    let plan;
+    try {
+      const owner = await repo.installments.ownerOf(id);
+      if (owner) {
+        if (owner !== householdId)
+          return res.status(404).json({ error: 'Parcelamento não encontrado.' });
+        return res.json(await planDetail(householdId, id));
+      }
+
+      const accountId = req.body.account_id ?? null;
+      plan = {
+        id,
+        household_id:   householdId,
+        description:    req.body.description,
+        total_amount:   req.body.total_amount,
+        installments:   req.body.installments,
+        category_id:    req.body.category_id,
+        account_id:     accountId,
+        payment_method: req.body.payment_method !== undefined
+          ? req.body.payment_method
+          : defaultPaymentMethod(accountId && await findAccount(householdId, accountId)),
+        first_date:     req.body.first_date,
+      };
+    } catch (err) { return next(err); }
+
+    try {
+      await repo.transaction(async tx => {
+        await tx.installments.create({ ...plan, created_by: req.user.id });
+        await insertInstallments(
+          tx, plan, 1, splitInstallments(plan.total_amount, plan.installments), req.user.id
+        );
+      });
+      await repo.expenses.refreshStatementMonths(householdId, { planId: id });
+      await evaluateBudgetAlerts(householdId, plan.category_id, plan.first_date);
+      res.status(201).json(await planDetail(householdId, id));
+    } catch (err) { next(err); }
+  }
+);
+
+// Altera as parcelas restantes. Mudar total_amount ou
+// installments redistribui o que falta pagar (novo total menos
+// as parcelas vencidas) entre as parcelas que sobram; os
+// rótulos "k/N" de todas as parcelas acompanham o novo N.
+app.put('/api/installments/:id',
+  param('id').isUUID(),
+  body('description').optional().trim().notEmpty().isLength({ max: 240 }),
+  body('total_amount').optional().isFloat({ gt: 0 }).toFloat(),
+  body('installments').optional().isInt({ min: 2, max: MAX_INSTALLMENTS }).toInt(),
+  categoryIdField().optional(),
+  accountIdField(),
+  body('payment_method').optional({ values: 'null' }).isIn(VALID_PAYMENT_METHODS),
+  body('version').optional().isInt({ min: 1 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    const householdId = req.user.household_id;
+    const today = todayISO();
+    const changes = {};
+    let before, past;
+    try {
+      before = await findPlan(householdId, req.params.id);
+      if (!before) return res.status(404).json({ error: 'Parcelamento não encontrado.' });
+      if (before.cancelled_at)
+        return res.status(409).json({ error: 'Parcelamento cancelado não pode ser alterado.' });
+
+      // n é o número da última parcela vencida (e não a contagem),
+      // para não colidir com parcelas apagadas individualmente.
+      past = await repo.installments.pastTotals(householdId, before.id, today);
+      past = { n: Number(past.n), total: parseFloat(past.total) };
+
+      const count = req.body.installments ?? before.installments;
+      const total = req.body.total_amount ?? before.total_amount;
+      if (count <= past.n)
+        return res.status(422).json({ error: `Já venceram ${past.n} parcela(s); o novo número de parcelas precisa ser maior.` });
+      if (round2(total - past.total) <= 0)
+        return res.status(422).json({ error: 'O novo total precisa ser maior que o valor das parcelas já vencidas.' });
+
+      const allowed = ['description','total_amount','installments','category_id','account_id','payment_method'];
+
+      for (const key of allowed) {
+        if (req.body[key] !== undefined) changes[key] = req.body[key];
+      }
+
+      if (!Object.keys(changes).length)
+        return res.status(400).json({ error: 'Nenhum campo para atualizar.' });
+    } catch (err) { return next(err); }
+
+    // O plano e as parcelas mudam juntos: se a regeração falhar,
+    // a versão do plano também não sobe.
+    try {
+      const { current, receipts, conflict } = await repo.transaction(async tx => {
+        const updated = await tx.installments.update(householdId, before.id, changes, req.body.version);
+        const row = await tx.installments.find(householdId, before.id);
+        if (!row) return {};
+        const current = mapPlan(row);
+        if (!updated) return { current, conflict: true };
+
+        let receipts = [];
+        if (current.total_amount !== before.total_amount || current.installments !== before.installments) {
+          ({ receipts } = await deleteRemainingInstallments(tx, householdId, current.id));
+          await insertInstallments(
+            tx, { ...current, household_id: householdId }, past.n + 1,
+            splitInstallments(round2(current.total_amount - past.total), current.installments - past.n),
+            req.user.id
+          );
+        } else {
+          await tx.installments.updateRemaining(householdId, current.id, today, {
+            description:    current.description,
+            count:          current.installments,
+            category_id:    current.category_id,
+            account_id:     current.account_id,
+            payment_method: current.payment_method,
+          });
+        }
+        if (current.installments !== before.installments) {
+          await tx.installments.relabelPast(householdId, current.id, today, {
+            description: current.description, count: current.installments,
+          });
+        }
+        return { current, receipts };
+      });
+
+      if (!current) return res.status(404).json({ error: 'Parcelamento não encontrado.' });
+      if (conflict) return sendConflict(res, current);
+
+      await removeReceiptFiles(receipts);
+      await repo.expenses.refreshStatementMonths(householdId, { planId: current.id });
+      res.json({ message: 'Parcelamento atualizado com sucesso.', version: current.version });
+    } catch (err) { next(err); }
+  }
+);
+
+// Cancela as parcelas restantes; as vencidas continuam ligadas ao
+// plano, que fica marcado como cancelado. Com ?all=1 (lançamento
+// feito por engano) o plano e todas as parcelas são removidos.
+app.delete('/api/installments/:id',
+  param('id').isUUID(),
+  query('all').optional().isBoolean(),
+  validate,
+  async (req, res, next) => {
+    const householdId = req.user.household_id;
+    const all = req.query.all === 'true' || req.query.all === '1';
+    try {
+      if (!(await findPlan(householdId, req.params.id)))
+        return res.status(404).json({ error: 'Parcelamento não encontrado.' });
+    } catch (err) { return next(err); }
+
+    try {
+      const { removed, receipts } = await repo.transaction(async tx => {
+        const result = await deleteRemainingInstallments(tx, householdId, req.params.id, { all });
+        if (await tx.installments.countExpenses(req.params.id) === 0) {
+          await tx.installments.remove(householdId, req.params.id);
+          await tx.deletions.record(householdId, 'installments', req.params.id);
+        } else {
+          await tx.installments.cancel(householdId, req.params.id);
+        }
+        return result;
+      });
+      await removeReceiptFiles(receipts);
+      res.json({ message: 'Parcelamento cancelado com sucesso.', removed });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — SINCRONIZAÇÃO
+// ════════════════════════════════════════════════════════════
+
+// Feed de mudanças para clientes offline-first. Sem ?since
+// devolve tudo (carga inicial); com ele, só o que mudou desde
+// então — incluindo as exclusões. server_time é o cursor da
+// próxima chamada: a comparação usa >=, então uma linha pode vir
+// repetida, mas nenhuma se perde dentro do mesmo segundo.
+app.get('/api/changes',
+  query('since').optional().isISO8601(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const householdId = req.user.household_id;
+      const since = req.query.since ? new Date(req.query.since) : null;
+      const {
+        now, expenses, incomes, budgets, householdBudgets, categories, recurring, installments, deleted,
+      } = await repo.changes.since(householdId, since);
+
+      res.json({
+        server_time: now,
+        full:        !since,
+        expenses:    expenses.map(mapExpense),
+        incomes:     incomes.map(mapIncome),
+        budgets:     budgets.map(mapBudget),
+        household_budgets: householdBudgets.map(mapBudget),
+        categories:  categories.map(mapCategory),
+        recurring:   recurring.map(mapRule),
+        installments: installments.map(mapPlan),
+        deleted,
+      });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — IMPORTAÇÃO DE EXTRATOS (OFX / CSV)
+// ════════════════════════════════════════════════════════════
+
+// O fluxo tem duas etapas: POST /api/import devolve a prévia
+// (nada é gravado) e POST /api/import/commit grava as linhas
+// confirmadas numa única transação.
+
+// Minúsculas, sem acentos e sem pontuação — base para comparar
+// descrições de extrato e padrões de regras.
+function normalizeText(text) {
+  return String(text ?? '')
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Aceita "1.234,56", "1,234.56", "-12,30", "(12,30)" e o
+// "12,30-" usado por alguns bancos para débitos.
+function parseAmount(raw, decimalComma) {
+  let text = String(raw ?? '').replace(/R\$|\s/g, '');
+  if (!text) return NaN;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) { negative = true; text = text.slice(1, -1); }
+  if (text.endsWith('-'))    { negative = true; text = text.slice(0, -1); }
+
+  text = decimalComma
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  if (!/^[-+]?\d+(\.\d+)?$/.test(text)) return NaN;
+
+  const value = parseFloat(text);
+  return negative ? -Math.abs(value) : value;
+}
+
+const DATE_FORMATS = {
+  'dd/mm/yyyy': { re: /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/, order: ['d', 'm', 'y'] },
+  'mm/dd/yyyy': { re: /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/, order: ['m', 'd', 'y'] },
+  'yyyy-mm-dd': { re: /^(\d{4})-(\d{1,2})-(\d{1,2})/,          order: ['y', 'm', 'd'] },
+};
+
+// Converte para "YYYY-MM-DD"; null se a data não existir.
+function parseStatementDate(raw, format) {
+  const { re, order } = DATE_FORMATS[format];
+  const match = String(raw ?? '').trim().match(re);
+  if (!match) return null;
+
+  const parts = {};
+  order.forEach((key, i) => { parts[key] = parseInt(match[i + 1]); });
+  const { y, m, d } = parts;
+  if (m < 1 || m > 12 || d < 1 || d > daysInMonth(y, m)) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+// CSV com campos entre aspas (aspas duplicadas escapam) e
+// quebras de linha \n ou \r\n. Linhas vazias são descartadas.
+function parseCSV(text, delimiter) {
+  const rows = [];
+  let row = [], field = '', quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"')               field += ch;
+      else if (text[i + 1] === '"') { field += '"'; i++; }
+      else                          quoted = false;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row);
+      row = []; field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+// Cabeçalhos comuns nos extratos dos bancos brasileiros, usados
+// quando o mapeamento de colunas não é informado.
+const CSV_COLUMN_GUESSES = {
+  date:        ['data', 'date', 'data lancamento', 'data da compra'],
+  description: ['descricao', 'historico', 'lancamento', 'estabelecimento', 'title', 'description'],
+  amount:      ['valor', 'amount', 'valor r', 'quantia'],
+};
+
+function resolveColumn(header, key, mapping) {
+  const wanted = mapping?.[key];
+  if (Number.isInteger(wanted)) return wanted;
+  if (!header) return -1;
+
+  const names = header.map(normalizeText);
+  if (typeof wanted === 'string') return names.indexOf(normalizeText(wanted));
+  return names.findIndex(n => CSV_COLUMN_GUESSES[key].includes(n));
+}
+
+// Lançamentos brutos do CSV: { line, date, description, amount }
+// com amount já positivo para despesas. Linhas inválidas vão
+// para errors; créditos (ou débitos, conforme "sign") são
+// contados em skipped.
+function parseCSVStatement(content, options) {
+  const {
+    delimiter = ';', decimalComma = true, dateFormat = 'dd/mm/yyyy',
+    hasHeader = true, sign = 'negative', columns,
+  } = options;
+
+  const rows   = parseCSV(content, delimiter);
+  const header = hasHeader ? rows.shift() : null;
+  const col    = {
+    date:        resolveColumn(header, 'date', columns),
+    description: resolveColumn(header, 'description', columns),
+    amount:      resolveColumn(header, 'amount', columns),
+  };
+
+  const missing = Object.keys(col).filter(key => col[key] < 0);
+  if (missing.length) {
+    const err = new Error(`Colunas não encontradas no CSV: ${missing.join(', ')}.`);
+    err.status = 422;
+    throw err;
+  }
+
+  const entries = [], errors = [];
+  let skipped = 0;
+
+  rows.forEach((cells, i) => {
+    const line   = i + (hasHeader ? 2 : 1);
+    const date   = parseStatementDate(cells[col.date], dateFormat);
+    const amount = parseAmount(cells[col.amount], decimalComma);
+    const description = String(cells[col.description] ?? '').trim();
+
+    if (!date)               return errors.push({ line, error: 'Data inválida.' });
+    if (!Number.isFinite(amount) || amount === 0)
+                             return errors.push({ line, error: 'Valor inválido.' });
+    if (!description)        return errors.push({ line, error: 'Descrição vazia.' });
+
+    if ((sign === 'negative' && amount > 0) || (sign === 'positive' && amount < 0)) {
+      skipped++;
+      return;
+    }
+    entries.push({ line, date, description: description.slice(0, 255), amount: Math.abs(amount) });
+  });
+
+  return { entries, errors, skipped };
+}
+
+function ofxTag(block, tag) {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+}
+
+function decodeEntities(text) {
+  return text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
+
+// OFX 1.x (SGML, tags sem fechamento) e 2.x (XML). Só os débitos
+// (TRNAMT negativo) viram despesas.
+function parseOFXStatement(content) {
+  const blocks = content.split(/<STMTTRN>/i).slice(1)
+    .map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+  const entries = [], errors = [];
+  let skipped = 0;
+
+  blocks.forEach((block, i) => {
+    const line   = i + 1;
+    const posted = ofxTag(block, 'DTPOSTED');
+    const rawAmt = ofxTag(block, 'TRNAMT');
+    const date   = /^\d{8}/.test(posted)
+      ? parseStatementDate(`${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`, 'yyyy-mm-dd')
+      : null;
+    const amount = parseAmount(rawAmt, /,\d{1,2}$/.test(rawAmt));
+    const description = decodeEntities(ofxTag(block, 'MEMO') || ofxTag(block, 'NAME'));
+
+    if (!date)               return errors.push({ line, error: 'Data inválida.' });
+    if (!Number.isFinite(amount) || amount === 0)
+                             return errors.push({ line, error: 'Valor inválido.' });
+    if (!description)        return errors.push({ line, error: 'Descrição vazia.' });
+
+    if (amount > 0) { skipped++; return; }
+    entries.push({ line, date, description: description.slice(0, 255), amount: Math.abs(amount) });
+  });
+
+  return { entries, errors, skipped };
+}
+
+// Mesma data e valor já bastam para suspeitar; a descrição
+// confirma quando uma contém a outra ou quando metade das
+// palavras coincide (Jaccard ≥ 0,5).
+function similarDescriptions(a, b) {
+  const x = normalizeText(a), y = normalizeText(b);
+  if (!x || !y) return false;
+  if (x.includes(y) || y.includes(x)) return true;
+
+  const wx = new Set(x.split(' ')), wy = new Set(y.split(' '));
+  const common = [...wx].filter(w => wy.has(w)).length;
+  return common / (wx.size + wy.size - common) >= 0.5;
+}
+
+// Regras em ordem de prioridade; no empate, o padrão mais longo
+// (mais específico) vence.
+async function loadCategoryRules(householdId) {
+  const rows = await repo.categoryRules.list(householdId);
+  return rows.map(r => ({ ...r, normalized: normalizeText(r.pattern) }));
+}
+
+// Sugere a categoria de cada lançamento (regra → histórico da
+// família) e marca os prováveis duplicados de despesas já gravadas.
+async function buildImportPreview(householdId, entries) {
+  if (!entries.length) return [];
+
+  const rules = await loadCategoryRules(householdId);
+
+  const dates = entries.map(e => e.date).sort();
+  const existing = await repo.expenses.inDateRange(householdId, dates[0], dates[dates.length - 1]);
+  const byKey = new Map();
+  for (const row of existing) {
+    const key = `${formatDate(row.date)}|${parseFloat(row.amount).toFixed(2)}`;
+    byKey.set(key, [...(byKey.get(key) || []), row]);
+  }
+
+  const history = await repo.expenses.descriptionHistory(householdId, 2000);
+  const learned = new Map();
+  for (const row of history) {
+    const key = normalizeText(row.description);
+    if (!learned.has(key)) learned.set(key, row.category_id);
+  }
+
+  return entries.map(entry => {
+    const text = normalizeText(entry.description);
+    const rule = rules.find(r => r.normalized && text.includes(r.normalized));
+
+    let category_id = null, category_source = null;
+    if (rule)                    { category_id = rule.category_id;  category_source = 'rule'; }
+    else if (learned.has(text))  { category_id = learned.get(text); category_source = 'history'; }
+
+    const candidates = byKey.get(`${entry.date}|${entry.amount.toFixed(2)}`) || [];
+    const duplicate  = candidates.find(row => similarDescriptions(row.description, entry.description));
+
+    return {
+      ...entry,
+      category_id,
+      category_source,
+      rule_id:      rule ? rule.id : null,
+      duplicate_of: duplicate ? duplicate.id : null,
+    };
+  });
+}
+
+app.post('/api/import',
+  body('content').isString().notEmpty(),
+  body('format').optional().isIn(['ofx', 'csv']),
+  body('options.delimiter').optional().isString().isLength({ min: 1, max: 1 }),
+  body('options.decimalComma').optional().isBoolean().toBoolean(),
+  body('options.dateFormat').optional().isIn(Object.keys(DATE_FORMATS)),
+  body('options.hasHeader').optional().isBoolean().toBoolean(),
+  body('options.sign').optional().isIn(['negative', 'positive', 'all']),
+  body('options.columns').optional().isObject(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const content = req.body.content.replace(/^\uFEFF/, '');
+      const format  = req.body.format || (/<OFX>/i.test(content) ? 'ofx' : 'csv');
+
+      const { entries, errors, skipped } = format === 'ofx'
+        ? parseOFXStatement(content)
+        : parseCSVStatement(content, req.body.options || {});
+
+      const rows = await buildImportPreview(req.user.household_id, entries);
+      res.json({
+        format,
+        rows,
+        errors,
+        skipped,
+        duplicates: rows.filter(r => r.duplicate_of).length,
+      });
+    } catch (err) { next(err); }
+  }
+);
+
+// Grava todas as linhas confirmadas ou nenhuma.
+app.post('/api/import/commit',
+  body('rows').isArray({ min: 1, max: 2000 }),
+  body('rows.*.description').trim().notEmpty().isLength({ max: 255 }),
+  body('rows.*.amount').isFloat({ gt: 0 }),
+  body('rows.*.category_id').isInt({ min: 1 }).toInt(),
+  body('rows.*.date').isDate(),
+  accountIdField(),
+  validate,
+  async (req, res, next) => {
+    const { rows } = req.body;
+    const householdId = req.user.household_id;
+    const accountId = req.body.account_id ?? null;
+
+    const ids = [...new Set(rows.map(r => r.category_id))];
+    let paymentMethod = null;
+    try {
+      const owned = new Set(
+        (await repo.categories.list(householdId, { includeArchived: true })).map(c => c.id)
+      );
+      if (ids.some(id => !owned.has(id)))
+        return res.status(422).json({ error: 'Categoria inválida.' });
+      paymentMethod = defaultPaymentMethod(accountId && await findAccount(householdId, accountId));
+    } catch (err) { return next(err); }
+
+    try {
+      await repo.transaction(async tx => {
+        for (const row of rows) {
+          await tx.expenses.create({
+            id: uuidv4(), household_id: householdId, created_by: req.user.id,
+            description: row.description, amount: parseFloat(row.amount), category_id: row.category_id,
+            account_id: accountId, payment_method: paymentMethod, date: row.date,
+          });
+        }
+      });
+      if (accountId) await repo.expenses.refreshStatementMonths(householdId, { accountId });
+      res.status(201).json({ imported: rows.length });
+    } catch (err) { next(err); }
+  }
+);
+
+// ─── Regras de categorização ─────────────────────────────────
+// "pattern" é procurado dentro da descrição do extrato, sem
+// diferenciar maiúsculas nem acentos.
+app.get('/api/category-rules', async (req, res, next) => {
+  try {
+    const rules = await loadCategoryRules(req.user.household_id);
+    res.json(rules.map(({ normalized, ...rule }) => rule));
+  } catch (err) { next(err); }
+});
+
+app.post('/api/category-rules',
+  body('pattern').trim().notEmpty().isLength({ max: 100 }),
+  categoryIdField(),
+  body('priority').optional().isInt({ min: -100, max: 100 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { pattern, category_id, priority = 0 } = req.body;
+      const id = await repo.categoryRules.create(req.user.household_id, { pattern, category_id, priority });
+      res.status(201).json({ id, pattern, category_id, priority });
+    } catch (err) {
+      if (err.code === 'ER_DUP_ENTRY')
+        return res.status(409).json({ error: 'Já existe uma regra com esse padrão.' });
+      next(err);
+    }
+  }
+);
+
+app.put('/api/category-rules/:id',
+  param('id').isInt({ min: 1 }).toInt(),
+  body('pattern').optional().trim().notEmpty().isLength({ max: 100 }),
+  categoryIdField().optional(),
+  body('priority').optional().isInt({ min: -100, max: 100 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const changes = {};
+      const allowed = ['pattern','category_id','priority'];
+
+      for (const key of allowed) {
+        if (req.body[key] !== undefined) changes[key] = req.body[key];
+      }
+
+      if (!Object.keys(changes).length)
+        return res.status(400).json({ error: 'Nenhum campo para atualizar.' });
+
+      const updated = await repo.categoryRules.update(req.user.household_id, req.params.id, changes);
+      if (!updated)
+        return res.status(404).json({ error: 'Regra não encontrada.' });
+
+      res.json({ message: 'Regra atualizada com sucesso.' });
+    } catch (err) {
+      if (err.code === 'ER_DUP_ENTRY')
+        return res.status(409).json({ error: 'Já existe uma regra com esse padrão.' });
+      next(err);
+    }
+  }
+);
+
+app.delete('/api/category-rules/:id',
+  param('id').isInt({ min: 1 }).toInt(), validate,
+  async (req, res, next) => {
+    try {
+      if (!(await repo.categoryRules.remove(req.user.household_id, req.params.id)))
+        return res.status(404).json({ error: 'Regra não encontrada.' });
+      res.json({ message: 'Regra removida com sucesso.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — RELATÓRIOS / ANALYTICS
+// ════════════════════════════════════════════════════════════
+
+// Percentual da receita que sobrou no período (null sem receita),
+// no mesmo formato string de budget_pct.
+function savingsRate(income, expenses) {
+  return income > 0 ? (((income - expenses) / income) * 100).toFixed(1) : null;
+}
+
+// "YYYY-MM" deslocado em `delta` meses
+function shiftMonth(month, delta) {
+  const [y, m] = month.split('-').map(Number);
+  const t = y * 12 + (m - 1) + delta;
+  return `${Math.floor(t / 12)}-${String((t % 12) + 1).padStart(2, '0')}`;
+}
+
+// Base de /api/reports/summary e do relatório em PDF.
+// rollup soma as subcategorias na categoria pai.
+async function buildSummary(householdId, { month = null, rollup = false } = {}) {
+  const byMonth = month && /^\d{4}-\d{2}$/.test(month);
+  const period  = { month: byMonth ? month : null };
+
+  const byCategory  = await repo.reports.categoryTotals(householdId, { ...period, rollup });
+  // Compras no cartão (com fatura) ficam à parte do que saiu
+  // à vista das contas no período.
+  const totals      = await repo.reports.expenseTotals(householdId, period);
+  const incomeTotal = parseFloat(await repo.reports.incomeTotal(householdId, period) || 0);
+  const byMember    = await repo.reports.memberTotals(householdId, period);
+
+  // Limites vigentes no mês pedido, e não os de hoje; a sobra
+  // acumulada (rollover) só faz sentido com mês. Sem mês, valem os
+  // limites do mês corrente.
+  const budgetMonth = byMonth ? month : currentMonth();
+  const history     = await budgetHistory(householdId, budgetMonth, budgetMonth);
+  const budgetMap   = {};
+  history.categories.forEach(c => {
+    budgetMap[c.category_id] = { limit: c.months[0].limit, carry: byMonth ? c.months[0].carry_in : 0 };
+  });
+
+  // No rollup, um pai sem orçamento próprio usa a soma dos
+  // orçamentos das suas subcategorias.
+  if (rollup) {
+    const childSums = {};
+    history.categories.filter(c => c.parent_id !== null).forEach(c => {
+      const sum = childSums[c.parent_id] || { limit: 0, carry: 0 };
+      const own = budgetMap[c.category_id];
+      childSums[c.parent_id] = { limit: sum.limit + own.limit, carry: sum.carry + own.carry };
+    });
+    for (const [parentId, sum] of Object.entries(childSums)) {
+      if (budgetMap[parentId] === undefined) budgetMap[parentId] = sum;
+    }
+  }
+
+  const summary = byCategory.map(r => {
+    const budget    = budgetMap[r.category_id];
+    const available = budget ? budget.limit + budget.carry : 0;
+    return {
+      category_id:     r.category_id,
+      category:        r.category,
+      color:           r.color,
+      total:           parseFloat(r.total),
+      count:           r.count,
+      budget_limit:    budget ? budget.limit : 0,
+      budget_rollover: budget ? round2(budget.carry) : 0,
+      budget_pct:      available > 0
+                         ? ((parseFloat(r.total) / available) * 100).toFixed(1)
+                         : null,
+    };
+  });
+
+  const grandTotal  = parseFloat(totals.grand_total || 0);
+  const cardTotal   = parseFloat(totals.card_total || 0);
+
+  return {
+    grand_total:  grandTotal,
+    cash_total:   round2(grandTotal - cardTotal),
+    card_total:   cardTotal,
+    tx_count:     totals.tx_count,
+    income_total: incomeTotal,
+    net_balance:  round2(incomeTotal - grandTotal),
+    savings_rate: savingsRate(incomeTotal, grandTotal),
+    by_category:  summary,
+    by_member:    byMember.map(r => ({ ...r, total: parseFloat(r.total) })),
+    household_budget: byMonth && history.household ? history.household.months[0] : null,
+  };
+}
+
+// Série mensal de despesas e receitas. Sem lastMonth, cobre os
+// últimos 12 meses até hoje; com ele, os `months` meses
+// terminados em lastMonth (usado pelo relatório de um mês passado).
+// Parcelas futuras não entram: a série termina no mês corrente
+// (veja /api/reports/installments para o que já está comprometido).
+async function monthlySeries(householdId, lastMonth = null, months = 12) {
+  const last = lastMonth || currentMonth();
+  const [y, m] = last.split('-').map(Number);
+  const from = lastMonth ? `${shiftMonth(lastMonth, 1 - months)}-01` : addMonthsISO(todayISO(), -12);
+  const rows = await repo.reports.monthlyTotals(householdId, from, `${last}-${daysInMonth(y, m)}`);
+
+  return rows.map(r => {
+    const total  = parseFloat(r.total);
+    const income = parseFloat(r.income);
+    return {
+      month:        r.month,
+      total,
+      count:        Number(r.count),
+      installments: parseFloat(r.installments),
+      income,
+      net:          round2(income - total),
+      savings_rate: savingsRate(income, total),
+    };
+  });
+}
+
+// ─── Helper: previsão de fechamento do mês ──────────────────
+// O gasto variável (sem recorrentes nem parcelas) é projetado
+// pelo perfil histórico de dia do mês: `share` é a fração do
+// gasto de um mês típico que já tinha saído até o dia de hoje
+// (dias normalizados pelo tamanho de cada mês). O que falta
+// mistura o ritmo atual (gasto / share) e a média histórica,
+// com peso crescente para o ritmo conforme o mês avança.
+// Recorrentes e parcelas entram pelo valor conhecido. A faixa
+// usa o desvio padrão mensal do histórico (~80%).
+const FORECAST_HISTORY_MONTHS = 12;
+const FORECAST_MIN_PROFILE_MONTHS = 3;
+const FORECAST_Z = 1.28;
+
+function projectVariable({ toDate, elapsedFrac, share, mean, stdev, historyMonths }) {
+  if (elapsedFrac >= 1) return { projected: toDate, margin: 0, method: 'actual' };
+  if (elapsedFrac === 0) {
+    return { projected: mean, margin: FORECAST_Z * stdev, method: 'history' };
+  }
+
+  const useProfile = historyMonths >= FORECAST_MIN_PROFILE_MONTHS && share !== null;
+  // Um perfil que diz "quase nada sai até hoje" explode o ritmo;
+  // metade da fração de dias é o piso.
+  const base      = useProfile ? Math.max(share, elapsedFrac / 2) : elapsedFrac;
+  const runRate   = toDate / base;
+  const weight    = historyMonths ? elapsedFrac : 1;
+  const remaining = Math.max((1 - base) * (weight * runRate + (1 - weight) * mean), 0);
+  const margin    = historyMonths >= 2
+    ? FORECAST_Z * stdev * (1 - base)
+    : remaining / 2;
+
+  return { projected: toDate + remaining, margin, method: useProfile ? 'profile' : 'pace' };
+}
+
+async function buildForecast(householdId, { month, rollup = false }) {
+  const [y, m]   = month.split('-').map(Number);
+  const dim      = daysInMonth(y, m);
+  const monthEnd = `${month}-${String(dim).padStart(2, '0')}`;
+  const today    = todayISO();
+  const asOf     = today > monthEnd ? monthEnd : today < `${month}-01` ? null : today;
+  // Mês futuro: nada realizado, tudo que cai no mês é previsto
+  const cutoff   = asOf || addDaysISO(`${month}-01`, -1);
+  const elapsed  = asOf ? Number(asOf.slice(8, 10)) : 0;
+  const elapsedFrac = elapsed / dim;
+
+  const categories = await repo.categories.list(householdId, { includeArchived: true });
+
+  // Lançamentos do mês: até hoje (realizado) e datados depois de
+  // hoje (parcelas e recorrentes já gerados, entram como previstos).
+  const monthRows = await repo.reports.forecastMonth(householdId, cutoff, `${month}-01`, monthEnd);
+
+  // Recorrentes que ainda não viraram despesa até o fim do mês
+  const rules = await repo.recurring.list(householdId);
+  const pending = {};
+  const from = addDaysISO(cutoff, 1);
+  for (const rule of rules.map(mapRule)) {
+    const after = rule.last_generated && rule.last_generated >= from ? addDaysISO(rule.last_generated, 1) : from;
+    const count = ruleOccurrences(rule, after, monthEnd).length;
+    if (count) pending[rule.category_id] = (pending[rule.category_id] || 0) + count * rule.amount;
+  }
+
+  // Histórico: os 12 meses anteriores, mesma janela de /api/reports/monthly
+  const historyFrom = shiftMonth(month, -FORECAST_HISTORY_MONTHS);
+  const historyTo   = shiftMonth(month, -1);
+  const [hy, hm]    = historyTo.split('-').map(Number);
+  const history = await repo.reports.variableDaily(
+    householdId, `${historyFrom}-01`, `${historyTo}-${daysInMonth(hy, hm)}`
+  );
+
+  const activeMonths = new Set(history.map(h => h.month));
+  const profile = {};
+  for (const h of history) {
+    const p = profile[h.category_id] || (profile[h.category_id] = { total: 0, early: 0, months: {} });
+    const amount = parseFloat(h.total);
+    const [py, pm] = h.month.split('-').map(Number);
+    p.total += amount;
+    if (h.day / daysInMonth(py, pm) <= elapsedFrac) p.early += amount;
+    p.months[h.month] = (p.months[h.month] || 0) + amount;
+  }
+
+  const budgets   = await budgetHistory(householdId, month, month);
+  const budgetMap = {};
+  budgets.categories.forEach(c => { budgetMap[c.category_id] = c.months[0]; });
+
+  const current = {};
+  monthRows.forEach(r => { current[r.category_id] = r; });
+
+  let rows = categories.map(c => {
+    const cur       = current[c.id];
+    const toDate    = cur ? parseFloat(cur.to_date) : 0;
+    const variable  = cur ? parseFloat(cur.variable_to_date) : 0;
+    const scheduled = (cur ? parseFloat(cur.scheduled) : 0) + (pending[c.id] || 0);
+
+    const p      = profile[c.id];
+    const n      = activeMonths.size;
+    const values = [...activeMonths].map(mo => (p && p.months[mo]) || 0);
+    const mean   = n ? values.reduce((acc, v) => acc + v, 0) / n : 0;
+    const stdev  = n > 1 ? Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (n - 1)) : 0;
+
+    const { projected, margin, method } = projectVariable({
+      toDate: variable, elapsedFrac, share: p && p.total > 0 ? p.early / p.total : null,
+      mean, stdev, historyMonths: n,
+    });
+
+    const known = toDate + scheduled;
+    const total = known + (projected - variable);
+    return {
+      category_id:   c.id,
+      category:      c.name,
+      color:         c.color,
+      parent_id:     c.parent_id,
+      spent_to_date: toDate,
+      scheduled,
+      projected:     total,
+      low:           Math.max(total - margin, known),
+      high:          total + margin,
+      margin,
+      method,
+      budget:        budgetMap[c.id] || null,
+    };
+  });
+
+  // No rollup as subcategorias somam no pai; as margens se
+  // combinam como variações independentes. O pai sem orçamento
+  // próprio usa a soma dos orçamentos das subcategorias.
+  if (rollup) {
+    const roots = {};
+    rows.filter(r => r.parent_id === null).forEach(r => { roots[r.category_id] = { ...r, children_budget: 0, margin2: r.margin ** 2 }; });
+    rows.filter(r => r.parent_id !== null && roots[r.parent_id]).forEach(r => {
+      const root = roots[r.parent_id];
+      root.spent_to_date += r.spent_to_date;
+      root.scheduled     += r.scheduled;
+      root.projected     += r.projected;
+      root.margin2       += r.margin ** 2;
+      if (r.budget) root.children_budget += r.budget.available;
+      if (r.method !== 'actual' && root.method === 'actual') root.method = r.method;
+    });
+    rows = Object.values(roots).map(({ children_budget, margin2, ...r }) => {
+      const margin = Math.sqrt(margin2);
+      const known  = r.spent_to_date + r.scheduled;
+      return {
+        ...r,
+        low:    Math.max(r.projected - margin, known),
+        high:   r.projected + margin,
+        margin,
+        budget: r.budget || (children_budget > 0 ? { available: children_budget, limit: children_budget } : null),
+      };
+    });
+  }
+
+  const byCategory = rows
+    .map(({ parent_id, margin, budget, ...r }) => {
+      const available = budget ? budget.available : 0;
+      return {
+        ...r,
+        parent_id,
+        spent_to_date:    round2(r.spent_to_date),
+        scheduled:        round2(r.scheduled),
+        projected:        round2(r.projected),
+        low:              round2(r.low),
+        high:             round2(r.high),
+        budget_available: round2(available),
+        projected_pct:    available > 0 ? parseFloat(((r.projected / available) * 100).toFixed(1)) : null,
+        over_budget:      available > 0 && r.projected > available,
+      };
+    })
+    .filter(r => r.projected > 0 || r.budget_available > 0)
+    .sort((a, b) => b.projected - a.projected);
+
+  const sum = key => round2(byCategory.reduce((acc, r) => acc + r[key], 0));
+  const totalMargin = Math.sqrt(rows.reduce((acc, r) => acc + r.margin ** 2, 0));
+  const projected   = sum('projected');
+  const known       = sum('spent_to_date') + sum('scheduled');
+  const household   = budgets.household ? budgets.household.months[0] : null;
+
+  return {
+    month,
+    as_of:          asOf,
+    days_elapsed:   elapsed,
+    days_in_month:  dim,
+    history_months: activeMonths.size,
+    total: {
+      spent_to_date:    sum('spent_to_date'),
+      scheduled:        sum('scheduled'),
+      projected,
+      low:              round2(Math.max(projected - totalMargin, known)),
+      high:             round2(projected + totalMargin),
+      budget_available: household ? household.available : null,
+      over_budget:      household ? projected > household.available : false,
+    },
+    by_category: byCategory,
+  };
+}
+
+// ?rollup=1 soma as subcategorias na categoria pai;
+// ?format=csv exporta os totais por categoria.
+app.get('/api/reports/summary',
+  query('format').optional().isIn(['json', 'csv']),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { month, format = 'json' } = req.query;
+      const rollup  = req.query.rollup === '1' || req.query.rollup === 'true';
+      const summary = await buildSummary(req.user.household_id, { month, rollup });
+
+      if (format === 'json') return res.json(summary);
+
+      const csv = toCSV(
+        ['Categoria', 'Total', 'Lançamentos', 'Orçamento', 'Sobra acumulada', 'Uso do orçamento (%)'],
+        summary.by_category.map(r => [
+          r.category, csvAmount(r.total), r.count,
+          r.budget_limit ? csvAmount(r.budget_limit) : '',
+          r.budget_rollover ? csvAmount(r.budget_rollover) : '',
+          r.budget_pct ? r.budget_pct.replace('.', ',') : '',
+        ])
+      );
+      sendDownload(res, csv, 'text/csv; charset=utf-8', `resumo-${month || 'geral'}.csv`);
+    } catch (err) { next(err); }
+  }
+);
+
+// total/count continuam se referindo às despesas; income e net
+// acrescentam o lado das receitas ao mesmo mês.
+app.get('/api/reports/monthly',
+  query('format').optional().isIn(['json', 'csv']),
+  validate,
+  async (req, res, next) => {
+    try {
+      const series = await monthlySeries(req.user.household_id);
+      if (req.query.format !== 'csv') return res.json(series);
+
+      const csv = toCSV(
+        ['Mês', 'Despesas', 'Lançamentos', 'Parcelas', 'Receitas', 'Saldo', 'Taxa de poupança (%)'],
+        series.map(r => [
+          r.month, csvAmount(r.total), r.count, csvAmount(r.installments), csvAmount(r.income), csvAmount(r.net),
+          r.savings_rate ? r.savings_rate.replace('.', ',') : '',
+        ])
+      );
+      sendDownload(res, csv, 'text/csv; charset=utf-8', `mensal-${todayISO()}.csv`);
+    } catch (err) { next(err); }
+  }
+);
+
+// Parcelas já comprometidas de hoje até o fim do mês
+// `months - 1` à frente, agrupadas por mês.
+app.get('/api/reports/installments',
+  query('months').optional().isInt({ min: 1, max: MAX_INSTALLMENTS }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const from = todayISO();
+      const last = shiftMonth(currentMonth(), (req.query.months || 12) - 1);
+      const [y, m] = last.split('-').map(Number);
+      const to = `${last}-${daysInMonth(y, m)}`;
+
+      const rows = await repo.expenses.listInstallments(req.user.household_id, from, to);
+
+      const months = new Map();
+      for (const e of rows.map(mapExpense)) {
+        const month = e.date.slice(0, 7);
+        if (!months.has(month)) months.set(month, { month, total: 0, count: 0, items: [] });
+        const entry = months.get(month);
+        entry.total = round2(entry.total + e.amount);
+        entry.count++;
+        entry.items.push({
+          expense_id:         e.id,
+          plan_id:            e.installment_plan_id,
+          description:        e.description,
+          installment_number: e.installment_number,
+          installment_count:  e.installment_count,
+          amount:             e.amount,
+          date:               e.date,
+          account_id:         e.account_id,
+        });
+      }
+
+      const list = [...months.values()];
+      res.json({ from, to, total: round2(list.reduce((acc, mo) => acc + mo.total, 0)), months: list });
+    } catch (err) { next(err); }
+  }
+);
+
+// Projeção de fechamento do mês por categoria, com faixa de
+// confiança e comparação com o orçamento vigente. Sem mês, usa o
+// corrente; ?rollup=1 soma as subcategorias na categoria pai.
+app.get('/api/reports/forecast',
+  query('month').optional().matches(MONTH_PATTERN),
+  validate,
+  async (req, res, next) => {
+    try {
+      const rollup = req.query.rollup === '1' || req.query.rollup === 'true';
+      res.json(await buildForecast(req.user.household_id, { month: req.query.month || currentMonth(), rollup }));
+    } catch (err) { next(err); }
+  }
+);
+
+// Gastos por tag no período, com a divisão por categoria. Uma
+// despesa com várias tags conta em cada uma delas, então a soma
+// das tags pode passar do total gasto.
+app.get('/api/reports/tags',
+  query('startDate').optional().isDate(),
+  query('endDate').optional().isDate(),
+  query('format').optional().isIn(['json', 'csv']),
+  validate,
+  async (req, res, next) => {
+    try {
+      const { startDate, endDate, format = 'json' } = req.query;
+      const rows = await repo.reports.tagTotals(req.user.household_id, { startDate, endDate });
+
+      const tags = new Map();
+      for (const r of rows) {
+        if (!tags.has(r.tag_id)) {
+          tags.set(r.tag_id, { tag_id: r.tag_id, tag: r.tag, total: 0, count: 0, first_date: null, last_date: null, by_category: [] });
+        }
+        const entry = tags.get(r.tag_id);
+        const first = formatDate(r.first_date), last = formatDate(r.last_date);
+        entry.total = round2(entry.total + parseFloat(r.total));
+        entry.count += Number(r.count);
+        if (!entry.first_date || first < entry.first_date) entry.first_date = first;
+        if (!entry.last_date || last > entry.last_date) entry.last_date = last;
+        entry.by_category.push({
+          category_id: r.category_id, category: r.category, color: r.color,
+          total: parseFloat(r.total), count: Number(r.count),
+        });
+      }
+      const report = [...tags.values()].sort((a, b) => b.total - a.total);
+      report.forEach(t => t.by_category.sort((a, b) => b.total - a.total));
+
+      if (format === 'json') return res.json(report);
+
+      const csv = toCSV(
+        ['Tag', 'Categoria', 'Total', 'Lançamentos'],
+        report.flatMap(t => t.by_category.map(c => [t.tag, c.category, csvAmount(c.total), c.count]))
+      );
+      sendDownload(res, csv, 'text/csv; charset=utf-8', `tags-${todayISO()}.csv`);
+    } catch (err) { next(err); }
+  }
+);
+
+// Relatório mensal em PDF: totais do mês, gastos por categoria
+// com uso do orçamento e a tendência dos últimos seis meses.
+app.get('/api/reports/pdf',
+  query('month').optional().matches(/^\d{4}-(0[1-9]|1[0-2])$/),
+  validate,
+  async (req, res, next) => {
+    try {
+      const month   = req.query.month || todayISO().slice(0, 7);
+      const [y, m]  = month.split('-').map(Number);
+      const summary = await buildSummary(req.user.household_id, { month, rollup: true });
+      const series  = await monthlySeries(req.user.household_id, month, 6);
+
+      const pdf  = createPdf({ footer: 'EcoFin — Relatório Mensal' });
+      const left = PDF_PAGE.margin;
+      const width = PDF_PAGE.width - 2 * PDF_PAGE.margin;
+      pdfHeader(pdf, `Relatório Mensal — ${MONTH_NAMES[m - 1]} de ${y}`,
+        `${summary.tx_count} despesa(s) lançada(s) no mês`);
+
+      // Cartões de resumo
+      const cards = [
+        ['DESPESAS', formatMoneyBR(summary.grand_total), '#ef4444'],
+        ['RECEITAS', formatMoneyBR(summary.income_total), '#10b981'],
+        ['SALDO', formatMoneyBR(summary.net_balance), summary.net_balance < 0 ? '#ef4444' : '#0f172a'],
+        ['POUPANÇA', summary.savings_rate !== null ? `${summary.savings_rate.replace('.', ',')}%` : '—', '#0f172a'],
+      ];
+      const cardW = (width - 3 * 10) / 4;
+      cards.forEach(([label, value, color], i) => {
+        const x = left + i * (cardW + 10);
+        pdf.rect(x, pdf.y - 34, cardW, 50, '#f8fafc')
+           .text(label, x + 10, pdf.y, { size: 7, bold: true, color: '#94a3b8' })
+           .text(value, x + 10, pdf.y - 20, { size: 12, bold: true, color });
+      });
+      pdf.y -= 70;
+
+      // Gastos por categoria e uso do orçamento
+      pdf.text('Gastos por categoria', left, pdf.y, { size: 13, bold: true });
+      pdf.y -= 22;
+      if (!summary.by_category.length) {
+        pdf.text('Nenhuma despesa no mês.', left, pdf.y, { size: 9, color: '#64748b' });
+        pdf.y -= 18;
+      }
+      const barX = left + 170, barW = 200;
+      summary.by_category.forEach(r => {
+        pdf.ensureSpace(30);
+        const available = r.budget_limit + r.budget_rollover;
+        const pct = available > 0 ? r.total / available : null;
+        pdf.rect(left, pdf.y - 1, 8, 8, r.color)
+           .text(truncate(r.category, 28), left + 14, pdf.y, { size: 9, bold: true })
+           .rect(barX, pdf.y - 2, barW, 10, '#f1f5f9')
+           .text(formatMoneyBR(r.total), left + width, pdf.y, { size: 9, bold: true, align: 'right' });
+        if (pct !== null) {
+          pdf.rect(barX, pdf.y - 2, barW * Math.min(pct, 1), 10, pct > 1 ? '#ef4444' : pct >= 0.8 ? '#f59e0b' : '#10b981')
+             .text(`${(pct * 100).toFixed(0)}% de ${formatMoneyBR(available)}`, barX + barW + 8, pdf.y,
+               { size: 8, color: pct > 1 ? '#ef4444' : '#64748b' });
+        } else {
+          pdf.text('sem orçamento', barX + barW + 8, pdf.y, { size: 8, color: '#94a3b8' });
+        }
+        pdf.y -= 22;
+      });
+      pdf.y -= 12;
+
+      // Tendência mês a mês (despesas x receitas)
+      pdf.ensureSpace(190);
+      pdf.text('Tendência dos últimos 6 meses', left, pdf.y, { size: 13, bold: true });
+      pdf.y -= 16;
+
+      const months  = Array.from({ length: 6 }, (_, i) => shiftMonth(month, i - 5));
+      const byMonth = Object.fromEntries(series.map(r => [r.month, r]));
+      const peak    = Math.max(1, ...series.flatMap(r => [r.total, r.income]));
+      const chartH  = 110, slot = width / months.length, baseY = pdf.y - chartH - 10;
+
+      months.forEach((mm, i) => {
+        const r = byMonth[mm] || { total: 0, income: 0 };
+        const x = left + i * slot + slot / 2;
+        pdf.rect(x - 16, baseY, 14, chartH * (r.total / peak), '#ef4444')
+           .rect(x + 2, baseY, 14, chartH * (r.income / peak), '#10b981')
+           .text(`${MONTH_NAMES[Number(mm.slice(5)) - 1].slice(0, 3)}/${mm.slice(2, 4)}`, x, baseY - 12,
+             { size: 8, color: '#64748b', align: 'center' });
+      });
+      pdf.y = baseY - 30;
+      pdf.rect(left, pdf.y - 1, 8, 8, '#ef4444').text('Despesas', left + 12, pdf.y, { size: 8, color: '#64748b' })
+         .rect(left + 70, pdf.y - 1, 8, 8, '#10b981').text('Receitas', left + 82, pdf.y, { size: 8, color: '#64748b' });
+      pdf.y -= 20;
+
+      const previous = byMonth[shiftMonth(month, -1)];
+      if (previous && previous.total > 0) {
+        const change = ((summary.grand_total - previous.total) / previous.total) * 100;
+        const prevName = MONTH_NAMES[Number(shiftMonth(month, -1).slice(5)) - 1];
+        pdf.text(
+          `Despesas ${change >= 0 ? 'subiram' : 'caíram'} ${Math.abs(change).toFixed(1).replace('.', ',')}% em relação a ${prevName}.`,
+          left, pdf.y, { size: 10, bold: true, color: change > 0 ? '#ef4444' : '#059669' }
+        );
+      }
+
+      sendDownload(res, pdf.toBuffer(), 'application/pdf', `relatorio-${month}.pdf`);
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — ANOMALIAS
+// ════════════════════════════════════════════════════════════
+
+// Duas checagens sobre cada despesa:
+// - outlier: valor muito acima do padrão da mesma descrição (ou,
+//   com pouco histórico dela, da categoria) nos últimos 12 meses.
+//   Usa mediana e desvio absoluto mediano (MAD), que não se
+//   deixam levar pelo próprio erro; só valores altos contam
+//   (o caso típico é R$ 4500 digitado no lugar de R$ 45).
+// - duplicate: mesmo valor, descrição parecida e datas a poucos
+//   dias de distância. Ocorrências da mesma regra recorrente ou
+//   parcelas da mesma compra não contam.
+// Recorrentes e parcelas têm valor conhecido e não viram outlier.
+
+const ANOMALY_HISTORY_MONTHS = 12;
+const ANOMALY_MIN_SAMPLES    = 5;
+const ANOMALY_MAD_SCORE      = 3.5;
+const ANOMALY_MIN_RATIO      = 3;
+const DUPLICATE_WINDOW_DAYS  = 3;
+const DEFAULT_SCAN_DAYS      = 90;
+
+function median(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function daysApart(a, b) {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / 86400000;
+}
+
+function mapFlag(r) {
+  return { ...r, score: parseFloat(r.score) };
+}
+
+// Base de comparação: despesas da família de `from` menos 12
+// meses em diante (inclui parcelas futuras já lançadas).
+async function loadAnomalyBase(householdId, from) {
+  const rows = await repo.expenses.anomalyBase(householdId, addMonthsISO(from, -ANOMALY_HISTORY_MONTHS));
+  return rows.map(r => ({
+    ...r,
+    amount:      parseFloat(r.amount),
+    date:        formatDate(r.date),
+    normalized:  normalizeText(r.description),
+  }));
+}
+
+// Escore MAD modificado de `amount` contra as amostras; null se
+// não há histórico suficiente ou o valor está dentro do padrão.
+function outlierScore(amount, samples) {
+  if (samples.length < ANOMALY_MIN_SAMPLES) return null;
+  const med = median(samples);
+  const mad = median(samples.map(v => Math.abs(v - med)));
+  if (med <= 0 || amount / med < ANOMALY_MIN_RATIO) return null;
+  // Valores sempre iguais (MAD zero): basta a razão
+  const score = mad > 0 ? 0.6745 * (amount - med) / mad : amount / med;
+  return mad > 0 && score < ANOMALY_MAD_SCORE ? null : { median: med, score };
+}
+
+function findAnomalies(expense, base) {
+  const flags = [];
+  const known = expense.recurring_rule_id || expense.installment_plan_id;
+  const since = addMonthsISO(expense.date, -ANOMALY_HISTORY_MONTHS);
+  const history = base.filter(e =>
+    e.id !== expense.id && !e.installment_plan_id && e.date >= since && e.date <= expense.date
+  );
+
+  if (!known) {
+    const sameDescription = history.filter(e => e.normalized === expense.normalized).map(e => e.amount);
+    const byDescription   = outlierScore(expense.amount, sameDescription);
+    const byCategory      = byDescription
+      ? null
+      : outlierScore(expense.amount, history.filter(e => e.category_id === expense.category_id).map(e => e.amount));
+    const hit = byDescription || byCategory;
+    if (hit) {
+      flags.push({
+        kind:               'outlier',
+        flag_key:           `outlier:${expense.id}`,
+        expense_id:         expense.id,
+        related_expense_id: null,
+        score:              round2(Math.min(hit.score, 99999999)),
+        reason:             truncate(
+          `${formatMoneyBR(expense.amount)} é ${(expense.amount / hit.median).toFixed(1).replace('.', ',')}x o valor típico de ` +
+          `${byDescription ? `"${expense.description}"` : expense.category} (${formatMoneyBR(hit.median)})`, 255),
+      });
+    }
+  }
+
+  for (const other of base) {
+    if (other.id === expense.id || Math.round(other.amount * 100) !== Math.round(expense.amount * 100)) continue;
+    if (daysApart(other.date, expense.date) > DUPLICATE_WINDOW_DAYS) continue;
+    if (expense.recurring_rule_id && other.recurring_rule_id === expense.recurring_rule_id) continue;
+    if (expense.installment_plan_id && other.installment_plan_id === expense.installment_plan_id) continue;
+    if (!similarDescriptions(other.description, expense.description)) continue;
+
+    // A sinalização fica na despesa lançada por último; a outra é
+    // a que permanece numa mesclagem.
+    const [first, second] = [expense, other].sort((a, b) =>
+      (a.created_at - b.created_at) || a.id.localeCompare(b.id)
+    );
+    flags.push({
+      kind:               'duplicate',
+      flag_key:           `duplicate:${[first.id, second.id].sort().join(':')}`,
+      expense_id:         second.id,
+      related_expense_id: first.id,
+      score:              daysApart(first.date, second.date),
+      reason:             truncate(
+        `Mesmo valor (${formatMoneyBR(expense.amount)}) de "${first.description}" em ${formatDateBR(first.date)}`, 255),
+    });
+  }
+  return flags;
+}
+
+// Achados já registrados pela flag_key (inclusive os
+// descartados) não se repetem. Devolve só os novos.
+async function saveFlags(householdId, flags) {
+  const created = [];
+  for (const f of flags) {
+    const id = await repo.flags.create(householdId, f);
+    if (id) created.push({ id, ...f, status: 'open' });
+  }
+  return created;
+}
+
+// Checagem de uma despesa recém-gravada. Sinalizações em aberto
+// dela são refeitas (o valor pode ter sido corrigido); as
+// descartadas continuam valendo.
+async function checkExpenseAnomalies(householdId, expenseId) {
+  await repo.flags.clearOpen(householdId, expenseId);
+  const row = await repo.expenses.find(householdId, expenseId);
+  if (!row) return [];
+  const base    = await loadAnomalyBase(householdId, formatDate(row.date));
+  const expense = base.find(e => e.id === expenseId);
+  return saveFlags(householdId, findAnomalies(expense, base));
+}
+
+// Sinalizações em aberto com as despesas envolvidas
+async function openFlags(householdId) {
+  const flags = (await repo.flags.listOpen(householdId)).map(mapFlag);
+  const ids = [...new Set(flags.flatMap(f => [f.expense_id, f.related_expense_id]).filter(Boolean))];
+  if (!ids.length) return [];
+
+  const expenses = await repo.expenses.listByIds(householdId, ids);
+  const byId = new Map(expenses.map(mapExpense).map(e => [e.id, e]));
+  return flags.map(f => ({
+    ...f,
+    expense: byId.get(f.expense_id) || null,
+    related: f.related_expense_id ? byId.get(f.related_expense_id) || null : null,
+  }));
+}
+
+async function findFlag(householdId, id) {
+  const row = await repo.flags.find(householdId, id);
+  return row ? mapFlag(row) : null;
+}
+
+// Varre as despesas dos últimos `days` dias (e as futuras já
+// lançadas) e devolve todas as sinalizações em aberto.
+app.get('/api/reports/anomalies',
+  query('days').optional().isInt({ min: 1, max: 366 }).toInt(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const householdId = req.user.household_id;
+      const from = addDaysISO(todayISO(), -(req.query.days || DEFAULT_SCAN_DAYS));
+      const base = await loadAnomalyBase(householdId, from);
+
+      const targets = base.filter(e => e.date >= from);
+      const found   = [];
+      for (const expense of targets) found.push(...findAnomalies(expense, base));
+      const created = await saveFlags(householdId, found);
+
+      res.json({ from, scanned: targets.length, created: created.length, flags: await openFlags(householdId) });
+    } catch (err) { next(err); }
+  }
+);
+
+app.post('/api/reports/anomalies/:id/dismiss',
+  param('id').isInt({ min: 1 }).toInt(), validate,
+  async (req, res, next) => {
+    try {
+      if (!(await repo.flags.dismiss(req.user.household_id, req.params.id, req.user.id)))
+        return res.status(404).json({ error: 'Sinalização não encontrada.' });
+      res.json({ message: 'Sinalização descartada.' });
+    } catch (err) { next(err); }
+  }
+);
+
+// Mescla uma duplicata: `keep` (padrão: a despesa lançada
+// primeiro) permanece e a outra é removida. Tags, comprovantes e a
+// divisão da removida passam para a que fica (a divisão só se a
+// que fica não tiver uma); as sinalizações saem junto (ON DELETE
+// CASCADE).
+app.post('/api/reports/anomalies/:id/merge',
+  param('id').isInt({ min: 1 }).toInt(),
+  body('keep').optional().isUUID(),
+  validate,
+  async (req, res, next) => {
+    try {
+      const householdId = req.user.household_id;
+      const flag = await findFlag(householdId, req.params.id);
+      if (!flag) return res.status(404).json({ error: 'Sinalização não encontrada.' });
+      if (flag.kind !== 'duplicate')
+        return res.status(422).json({ error: 'Só duplicatas podem ser mescladas.' });
+
+      const keep = req.body.keep || flag.related_expense_id;
+      if (![flag.expense_id, flag.related_expense_id].includes(keep))
+        return res.status(422).json({ error: 'keep deve ser uma das despesas do par.' });
+      const removeId = keep === flag.expense_id ? flag.related_expense_id : flag.expense_id;
+
+      const removed = await findExpense(householdId, removeId);
+      const kept    = await findExpense(householdId, keep);
+      if (!removed || !kept) return res.status(404).json({ error: 'Despesa não encontrada.' });
+      if (removed.installment_plan_id)
+        return res.status(422).json({ error: 'Parcelas são removidas pela compra parcelada.' });
+
+      // Duplicata tem o mesmo valor em centavos: as cotas servem
+      // como estão.
+      await repo.transaction(async tx => {
+        await tx.expenses.setTags(householdId, keep, [...new Set([...kept.tags, ...removed.tags])]);
+        await tx.receipts.move(householdId, removeId, keep);
+        if (!kept.split_type && removed.split_type) {
+          const shares = await tx.expenses.splits(removeId);
+          await tx.expenses.setSplit(keep, removed.split_type, shares.map(s => ({
+            user_id: s.user_id, amount: s.amount, percent: s.percent,
+          })));
+          await tx.expenses.update(householdId, keep, { paid_by: removed.paid_by ?? removed.created_by });
+        } else {
+          await tx.expenses.touch(householdId, keep);
+        }
+        await deleteExpenseRows(tx, householdId, removeId);
+      });
+
+      res.json({ message: 'Despesas mescladas.', kept: await findExpense(householdId, keep), removed_id: removeId });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — INSIGHTS
+// ════════════════════════════════════════════════════════════
+
+// Provedores de insights seguem a mesma forma:
+//   { name, generate(context) → Promise<AIInsight[]> }
+// onde AIInsight = { title, content, severity: 'low'|'medium'|'high' }.
+// O Gemini é usado quando GEMINI_API_KEY está definida; a análise
+// por regras é determinística, funciona offline e serve de
+// fallback quando o provedor externo falha.
+const INSIGHT_SEVERITIES = ['high', 'medium', 'low'];
+const MAX_INSIGHTS = 6;
+
+// Resumo do mês, do mês anterior e tendência de seis meses:
+// tudo o que os provedores recebem.
+async function buildInsightContext(householdId, month) {
+  const previousMonth = shiftMonth(month, -1);
+  const current  = await buildSummary(householdId, { month, rollup: true });
+  const previous = await buildSummary(householdId, { month: previousMonth, rollup: true });
+  const series   = await monthlySeries(householdId, month, 6);
+
+  const previousByCategory = Object.fromEntries(previous.by_category.map(c => [c.category_id, c.total]));
+
+  return {
+    month,
+    expenses:     current.grand_total,
+    income:       current.income_total,
+    net_balance:  current.net_balance,
+    savings_rate: current.savings_rate !== null ? parseFloat(current.savings_rate) : null,
+    previous_month: { month: previousMonth, expenses: previous.grand_total, income: previous.income_total },
+    categories: current.by_category.map(c => ({
+      name:           c.category,
+      total:          c.total,
+      previous_total: previousByCategory[c.category_id] || 0,
+      // Limite do mês mais a sobra acumulada (rollover)
+      budget_limit:   round2(c.budget_limit + c.budget_rollover),
+      budget_pct:     c.budget_pct !== null ? parseFloat(c.budget_pct) : null,
+    })),
+    trend: series.map(r => ({ month: r.month, expenses: r.total, income: r.income })),
+  };
+}
+
+function pctBR(value) {
+  return `${value.toFixed(1).replace('.', ',')}%`;
+}
+
+const ruleBasedInsightProvider = {
+  name: 'rules',
+
+  async generate(ctx) {
+    const insights = [];
+
+    if (!ctx.expenses && !ctx.income) {
+      return [{
+        title:    'Sem movimentações no mês',
+        content:  'Ainda não há despesas nem receitas lançadas neste mês.',
+        severity: 'low',
+      }];
+    }
+
+    for (const c of ctx.categories) {
+      if (c.budget_pct === null) continue;
+      if (c.budget_pct > 100) {
+        insights.push({
+          title:    `Orçamento estourado em ${c.name}`,
+          content:  `Foram gastos ${formatMoneyBR(c.total)} de um limite de ${formatMoneyBR(c.budget_limit)} (${pctBR(c.budget_pct)}).`,
+          severity: 'high',
+        });
+      } else if (c.budget_pct >= 80) {
+        insights.push({
+          title:    `${c.name} perto do limite`,
+          content:  `${pctBR(c.budget_pct)} do orçamento já foi usado; restam ${formatMoneyBR(c.budget_limit - c.total)}.`,
+          severity: 'medium',
+        });
+      }
+    }
+
+    if (ctx.income > 0 && ctx.net_balance < 0) {
+      insights.push({
+        title:    'Despesas acima das receitas',
+        content:  `O mês fecha com saldo negativo de ${formatMoneyBR(-ctx.net_balance)}.`,
+        severity: 'high',
+      });
+    } else if (!ctx.income) {
+      insights.push({
+        title:    'Nenhuma receita lançada',
+        content:  'Registre as receitas do mês para acompanhar o saldo e a taxa de poupança.',
+        severity: 'medium',
+      });
+    } else if (ctx.savings_rate >= 20) {
+      insights.push({
+        title:    'Boa taxa de poupança',
+        content:  `${pctBR(ctx.savings_rate)} da receita do mês foi preservada.`,
+        severity: 'low',
+      });
+    }
+
+    const prev = ctx.previous_month.expenses;
+    if (prev > 0 && ctx.expenses > 0) {
+      const change = ((ctx.expenses - prev) / prev) * 100;
+      if (change >= 20) {
+        insights.push({
+          title:    'Gastos em alta',
+          content:  `As despesas subiram ${pctBR(change)} em relação ao mês anterior (${formatMoneyBR(prev)}).`,
+          severity: change >= 50 ? 'high' : 'medium',
+        });
+      } else if (change <= -10) {
+        insights.push({
+          title:    'Gastos em queda',
+          content:  `As despesas caíram ${pctBR(-change)} em relação ao mês anterior.`,
+          severity: 'low',
+        });
+      }
+    }
+
+    // Categoria que mais cresceu (ignora variações pequenas)
+    const grower = ctx.categories
+      .filter(c => c.previous_total > 0 && c.total - c.previous_total >= 100)
+      .map(c => ({ ...c, growth: ((c.total - c.previous_total) / c.previous_total) * 100 }))
+      .filter(c => c.growth >= 50)
+      .sort((a, b) => b.growth - a.growth)[0];
+    if (grower) {
+      insights.push({
+        title:    `${grower.name} cresceu ${pctBR(grower.growth)}`,
+        content:  `Passou de ${formatMoneyBR(grower.previous_total)} para ${formatMoneyBR(grower.total)} no mês.`,
+        severity: 'medium',
+      });
+    }
+
+    const top = ctx.categories[0];
+    if (top && ctx.expenses > 0 && top.total / ctx.expenses >= 0.4 && ctx.categories.length > 1) {
+      insights.push({
+        title:    `${top.name} concentra os gastos`,
+        content:  `${pctBR((top.total / ctx.expenses) * 100)} das despesas do mês estão nessa categoria.`,
+        severity: 'low',
+      });
+    }
+
+    return insights;
+  },
+};
+
+// Valida a resposta de um provedor externo: descarta itens fora
+// do formato e corta textos longos.
+function sanitizeInsights(raw) {
+  if (!Array.isArray(raw)) throw new Error('Resposta de insights inválida.');
+  const insights = raw
+    .filter(i => i && typeof i.title === 'string' && typeof i.content === 'string'
+              && INSIGHT_SEVERITIES.includes(i.severity))
+    .map(i => ({ title: i.title.slice(0, 120), content: i.content.slice(0, 600), severity: i.severity }));
+  if (!insights.length) throw new Error('Resposta de insights vazia.');
+  return insights;
+}
+
+function geminiInsightProvider(apiKey, model) {
+  return {
+    name: 'gemini',
+
+    async generate(ctx) {
+      const prompt = [
+        'Você é um consultor de finanças domésticas. Com base nos dados abaixo (valores em reais),',
+        `escreva até ${MAX_INSIGHTS} insights curtos, práticos e em português do Brasil.`,
+        'Use severity "high" para riscos (orçamento estourado, saldo negativo),',
+        '"medium" para pontos de atenção e "low" para observações positivas ou neutras.',
+        '',
+        JSON.stringify(ctx),
+      ].join('\n');
+
+      const res = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+          signal: AbortSignal.timeout(20000),
+          body: JSON.stringify({
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            generationConfig: {
+              responseMimeType: 'application/json',
+              responseSchema: {
+                type: 'ARRAY',
+                items: {
+                  type: 'OBJECT',
+                  properties: {
+                    title:    { type: 'STRING' },
+                    content:  { type: 'STRING' },
+                    severity: { type: 'STRING', enum: INSIGHT_SEVERITIES },
+                  },
+                  required: ['title', 'content', 'severity'],
+                },
+              },
+            },
+          }),
+        }
+      );
+      if (!res.ok) throw new Error(`Gemini respondeu ${res.status}.`);
+
+      const data = await res.json();
+      const text = data.candidates?.[0]?.content?.parts?.map(p => p.text).join('') || '';
+      return sanitizeInsights(JSON.parse(text));
+    },
+  };
+}
+
+// Ordem de tentativa: provedor externo (se configurado) e, por
+// último, as regras locais, que nunca falham.
+const insightProviders = [
+  ...(GEMINI_API_KEY ? [geminiInsightProvider(GEMINI_API_KEY, GEMINI_MODEL)] : []),
+  ruleBasedInsightProvider,
+];
+
+// fallback indica que um provedor anterior falhou: a resposta
+// serve para agora, mas não vai para o cache.
+async function generateInsights(ctx) {
+  let fallback = false;
+  for (const provider of insightProviders) {
+    try {
+      const insights = await provider.generate(ctx);
+      return {
+        provider: provider.name,
+        fallback,
+        insights: insights
+          .sort((a, b) => INSIGHT_SEVERITIES.indexOf(a.severity) - INSIGHT_SEVERITIES.indexOf(b.severity))
+          .slice(0, MAX_INSIGHTS),
+      };
+    } catch (err) {
+      console.warn(`⚠️  Provedor de insights "${provider.name}" falhou:`, err.message);
+      fallback = true;
+    }
+  }
+  return { provider: 'none', fallback, insights: [] };
+}
+
+// Cache por família e mês. O hash do contexto invalida o cache
+// sozinho quando os lançamentos do mês mudam; ?refresh=1 força
+// uma nova geração. O fallback após uma falha do Gemini não é
+// guardado, para a próxima chamada tentar o Gemini de novo.
+app.get('/api/insights',
+  query('month').optional().matches(/^\d{4}-(0[1-9]|1[0-2])$/),
+  query('refresh').optional().isIn(['0', '1', 'true', 'false']),
+  validate,
+  async (req, res, next) => {
+    try {
+      const householdId = req.user.household_id;
+      const month   = req.query.month || todayISO().slice(0, 7);
+      const refresh = req.query.refresh === '1' || req.query.refresh === 'true';
+
+      const ctx  = await buildInsightContext(householdId, month);
+      const hash = crypto.createHash('sha256').update(JSON.stringify(ctx)).digest('hex');
+
+      if (!refresh) {
+        const cached = await repo.insightCache.find(householdId, month, hash);
+        if (cached) {
+          return res.json({
+            month,
+            provider:     cached.provider,
+            cached:       true,
+            generated_at: cached.updated_at,
+            insights:     typeof cached.insights === 'string' ? JSON.parse(cached.insights) : cached.insights,
+          });
+        }
+      }
+
+      const { provider, fallback, insights } = await generateInsights(ctx);
+      if (!fallback) await repo.insightCache.save(householdId, month, hash, provider, insights);
+
+      res.json({ month, provider, cached: false, generated_at: new Date().toISOString(), insights });
+    } catch (err) { next(err); }
+  }
+);
+
+// ════════════════════════════════════════════════════════════
+//  ROTAS — BACKUP E RESTAURAÇÃO
+// ════════════════════════════════════════════════════════════
+
+// Documento JSON versionado com as categorias, despesas e
+// orçamentos da família, para levar os dados entre instâncias
+// (Render ↔ local). Despesas e orçamentos apontam para o id da
+// categoria *dentro do documento*; na restauração as categorias
+// são casadas pelo nome, já que os ids mudam de um banco para
+// outro. Contas, recorrências, parcelamentos, divisões e
+// comprovantes não entram: as despesas voltam sem esses vínculos.
+const BACKUP_FORMAT  = 'ecofin-backup';
+const BACKUP_VERSION = 1;
+const LAST_MONTH     = '9999-12';
+const LOCAL_STORAGE_KEYS = ['ecofin_expenses', 'ecofin_budgets', 'ecofin_household_budgets', 'ecofin_categories'];
+const MAX_RESTORE_ERRORS = 50;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Mesma comparação da collation utf8mb4_unicode_ci dos nomes
+function sameName(a, b) {
+  return String(a).trim().localeCompare(String(b).trim(), 'pt-BR', { sensitivity: 'base' }) === 0;
+}
+
+function isISODate(value) {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().startsWith(value);
+}
+
+function restoreError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+// ─── Helper: dados do localStorage → documento de backup ────
+// Aceita o que o app guardava no navegador, como arrays ou como
+// as strings JSON lidas do localStorage. Despesas antigas trazem
+// só o nome da categoria (category); as atuais, category_id e o
+// nome. Orçamentos antigos eram { category, limit }; os atuais,
+// { category_id, limit, effective_month, ... }. Sem
+// ecofin_categories, o id de um orçamento é resolvido pelo nome
+// que as despesas dão a ele. Categorias que só aparecem pelo nome
+// recebem ids negativos, que não colidem com os do servidor.
+function backupFromLocalStorage(input) {
+  const read = key => {
+    let value = input[key];
+    if (value === undefined || value === null) return [];
+    if (typeof value === 'string') {
+      try { value = JSON.parse(value); } catch { throw restoreError(422, `${key} não é um JSON válido.`); }
+    }
+    if (!Array.isArray(value)) throw restoreError(422, `${key} deve ser uma lista.`);
+    return value;
+  };
+  const storedCategories = read('ecofin_categories');
+  const storedExpenses   = read('ecofin_expenses');
+  const storedBudgets    = read('ecofin_budgets');
+  const storedHousehold  = read('ecofin_household_budgets');
+
+  const categories = storedCategories.map(c => ({
+    id: c.id, parent_id: c.parent_id ?? null, name: c.name, color: c.color, icon: c.icon, archived: !!c.archived,
+  }));
+  const namesById = new Map();
+  categories.forEach(c => namesById.set(c.id, c.name));
+  storedExpenses.forEach(e => {
+    if (e.category_id !== undefined && typeof e.category === 'string' && !namesById.has(e.category_id))
+      namesById.set(e.category_id, e.category);
+  });
+
+  let nextId = -1;
+  const resolve = (id, name) => {
+    if (typeof name === 'string' && name.trim()) {
+      const found = categories.find(c => typeof c.name === 'string' && sameName(c.name, name));
+      if (found) return found.id;
+      categories.push({ id: nextId, parent_id: null, name: name.trim() });
+      return nextId--;
+    }
+    return categories.some(c => c.id === id) ? id : null;
+  };
+
+  return {
+    format:  BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    expenses: storedExpenses.map(e => ({
+      id:             e.id,
+      description:    e.description,
+      payee:          e.payee ?? null,
+      notes:          e.notes ?? null,
+      amount:         e.amount,
+      category_id:    resolve(e.category_id, e.category),
+      payment_method: e.payment_method ?? null,
+      date:           e.date,
+      isRecurring:    !!e.isRecurring,
+      tags:           e.tags ?? [],
+    })),
+    budgets: storedBudgets.map(b => ({
+      category_id:      resolve(b.category_id, b.category ?? namesById.get(b.category_id)),
+      effective_month:  b.effective_month ?? BUDGET_EPOCH,
+      monthly_limit:    b.limit ?? b.monthly_limit,
+      rollover:         b.rollover ?? false,
+      alert_thresholds: b.alert_thresholds ?? parseThresholds(DEFAULT_ALERT_THRESHOLDS),
+    })),
+    household_budgets: storedHousehold.map(h => ({
+      effective_month:  h.effective_month,
+      monthly_limit:    h.limit ?? h.monthly_limit,
+      rollover:         h.rollover ?? false,
+      alert_thresholds: h.alert_thresholds ?? parseThresholds(DEFAULT_ALERT_THRESHOLDS),
+    })),
+    categories,
+  };
+}
+
+// ─── Helper: validação do documento ─────────────────────────
+// Confere tudo antes de gravar qualquer linha; os erros vêm no
+// formato do express-validator (path + msg), limitados aos
+// primeiros MAX_RESTORE_ERRORS.
+function validateBackup(doc) {
+  const errors = [];
+  const fail = (path, msg) => { if (errors.length < MAX_RESTORE_ERRORS) errors.push({ path, msg }); };
+  const list = key => {
+    if (doc[key] === undefined) return [];
+    if (Array.isArray(doc[key])) return doc[key];
+    fail(key, 'Deve ser uma lista.');
+    return [];
+  };
+  const isObject = v => v !== null && typeof v === 'object' && !Array.isArray(v);
+  const text = (v, max, min = 1) => typeof v === 'string' && v.trim().length >= min && v.length <= max;
+  const optionalText = (v, max) => v === undefined || v === null || text(v, max, 0);
+  const thresholdsOk = v => v === undefined || (Array.isArray(v) && v.length <= 5
+    && v.every(t => Number.isInteger(t) && t >= 1 && t <= 500));
+
+  const categories = list('categories');
+  const categoryIds = new Set();
+  categories.forEach((c, i) => {
+    const path = `categories[${i}]`;
+    if (!isObject(c)) return fail(path, 'Categoria inválida.');
+    if (!Number.isInteger(c.id)) fail(`${path}.id`, 'Id inválido.');
+    else if (categoryIds.has(c.id)) fail(`${path}.id`, 'Id repetido.');
+    else categoryIds.add(c.id);
+    if (!text(c.name, 60)) fail(`${path}.name`, 'Nome inválido.');
+    else if (categories.slice(0, i).some(o => isObject(o) && typeof o.name === 'string' && sameName(o.name, c.name)))
+      fail(`${path}.name`, 'Nome repetido.');
+    if (c.color !== undefined && c.color !== null && !/^#[0-9a-fA-F]{6}$/.test(c.color)) fail(`${path}.color`, 'Cor inválida.');
+    if (c.icon !== undefined && c.icon !== null && !/^[a-z0-9-]{1,40}$/.test(c.icon)) fail(`${path}.icon`, 'Ícone inválido.');
+  });
+  categories.forEach((c, i) => {
+    if (!isObject(c) || c.parent_id === null || c.parent_id === undefined) return;
+    const parent = categories.find(p => isObject(p) && p.id === c.parent_id);
+    if (!parent || parent === c || (parent.parent_id ?? null) !== null)
+      fail(`categories[${i}].parent_id`, 'Categoria pai inválida.');
+  });
+
+  const expenseIds = new Set();
+  list('expenses').forEach((e, i) => {
+    const path = `expenses[${i}]`;
+    if (!isObject(e)) return fail(path, 'Despesa inválida.');
+    if (typeof e.id !== 'string' || !UUID_PATTERN.test(e.id)) fail(`${path}.id`, 'Id inválido (UUID).');
+    else if (expenseIds.has(e.id.toLowerCase())) fail(`${path}.id`, 'Id repetido.');
+    else expenseIds.add(e.id.toLowerCase());
+    if (!text(e.description, 255)) fail(`${path}.description`, 'Descrição inválida.');
+    if (!optionalText(e.payee, 120)) fail(`${path}.payee`, 'Favorecido inválido.');
+    if (!optionalText(e.notes, 5000)) fail(`${path}.notes`, 'Observações inválidas.');
+    if (typeof e.amount !== 'number' || !Number.isFinite(e.amount) || e.amount <= 0) fail(`${path}.amount`, 'Valor inválido.');
+    if (!isISODate(e.date)) fail(`${path}.date`, 'Data inválida (AAAA-MM-DD).');
+    if (!categoryIds.has(e.category_id)) fail(`${path}.category_id`, 'Categoria desconhecida.');
+    if (e.payment_method !== undefined && e.payment_method !== null && !VALID_PAYMENT_METHODS.includes(e.payment_method))
+      fail(`${path}.payment_method`, 'Forma de pagamento inválida.');
+    if (e.isRecurring !== undefined && typeof e.isRecurring !== 'boolean') fail(`${path}.isRecurring`, 'Deve ser true ou false.');
+    if (e.tags !== undefined && !(Array.isArray(e.tags) && e.tags.length <= MAX_TAGS
+      && e.tags.every(t => text(t, 50) && !t.includes(','))))
+      fail(`${path}.tags`, 'Tags inválidas.');
+  });
+
+  const budgetKeys = new Set();
+  list('budgets').forEach((b, i) => {
+    const path = `budgets[${i}]`;
+    if (!isObject(b)) return fail(path, 'Orçamento inválido.');
+    if (!categoryIds.has(b.category_id)) fail(`${path}.category_id`, 'Categoria desconhecida.');
+    if (typeof b.effective_month !== 'string' || !MONTH_PATTERN.test(b.effective_month))
+      fail(`${path}.effective_month`, 'Mês inválido (AAAA-MM).');
+    else if (budgetKeys.has(`${b.category_id}:${b.effective_month}`)) fail(path, 'Período repetido.');
+    else budgetKeys.add(`${b.category_id}:${b.effective_month}`);
+    if (typeof b.monthly_limit !== 'number' || !Number.isFinite(b.monthly_limit) || b.monthly_limit < 0)
+      fail(`${path}.monthly_limit`, 'Limite inválido.');
+    if (b.rollover !== undefined && typeof b.rollover !== 'boolean') fail(`${path}.rollover`, 'Deve ser true ou false.');
+    if (!thresholdsOk(b.alert_thresholds)) fail(`${path}.alert_thresholds`, 'Limiares inválidos.');
+  });
+
+  const householdMonths = new Set();
+  list('household_budgets').forEach((h, i) => {
+    const path = `household_budgets[${i}]`;
+    if (!isObject(h)) return fail(path, 'Orçamento inválido.');
+    if (typeof h.effective_month !== 'string' || !MONTH_PATTERN.test(h.effective_month))
+      fail(`${path}.effective_month`, 'Mês inválido (AAAA-MM).');
+    else if (householdMonths.has(h.effective_month)) fail(path, 'Período repetido.');
+    else householdMonths.add(h.effective_month);
+    if (typeof h.monthly_limit !== 'number' || !Number.isFinite(h.monthly_limit) || h.monthly_limit < 0)
+      fail(`${path}.monthly_limit`, 'Limite inválido.');
+    if (h.rollover !== undefined && typeof h.rollover !== 'boolean') fail(`${path}.rollover`, 'Deve ser true ou false.');
+    if (!thresholdsOk(h.alert_thresholds)) fail(`${path}.alert_thresholds`, 'Limiares inválidos.');
+  });
+
+  return errors;
+}
+
+// ─── Helper: grava o documento (dentro da transação) ────────
+// Mescla com o que já existe: categorias com o mesmo nome são
+// reaproveitadas, despesas com o mesmo id e orçamentos do mesmo
+// mês são sobrescritos, e nada que falte no backup é apagado.
+// Uma despesa sobrescrita mantém a conta e quem pagou, que o
+// backup não traz, e a fatura é recalculada com a nova data.
+// Qualquer erro desfaz a restauração inteira.
+async function restoreBackup(tx, user, doc) {
+  const householdId = user.household_id;
+  const existing = await tx.categories.list(householdId, { includeArchived: true });
+  const categoryMap = new Map();
+  let created = 0;
+
+  // Pais antes das subcategorias
+  const categories = [...(doc.categories || [])]
+    .sort((a, b) => (a.parent_id == null ? 0 : 1) - (b.parent_id == null ? 0 : 1));
+  for (const c of categories) {
+    const match = existing.find(e => sameName(e.name, c.name));
+    if (match) {
+      categoryMap.set(c.id, match.id);
+      continue;
+    }
+    // O pai pode ter casado com uma subcategoria já existente;
+    // como só há um nível, a categoria nova entra como raiz.
+    const parentId = c.parent_id == null ? null : categoryMap.get(c.parent_id);
+    const parent   = existing.find(e => e.id === parentId);
+    const id = await tx.categories.create(householdId, {
+      parent_id: parent && parent.parent_id !== null ? null : parentId,
+      name:      c.name.trim(),
+      color:     c.color || '#64748b',
+      icon:      c.icon || 'tag',
+    });
+    if (c.archived) await tx.categories.update(householdId, id, { archived: 1 });
+    categoryMap.set(c.id, id);
+    created += 1;
+  }
+
+  const expenses = doc.expenses || [];
+  for (const e of expenses) {
+    const id = e.id.toLowerCase();
+    const saved = await tx.expenses.upsert({
+      id, household_id: householdId, created_by: user.id,
+      description:    e.description.trim(),
+      payee:          e.payee ? e.payee.trim() : null,
+      notes:          e.notes || null,
+      amount:         round2(e.amount),
+      category_id:    categoryMap.get(e.category_id),
+      payment_method: e.payment_method ?? null,
+      date:           e.date,
+      isRecurring:    !!e.isRecurring,
+    }, { keepLinks: true });
+    if (!saved) throw restoreError(409, `A despesa ${id} pertence a outra família; nada foi restaurado.`);
+    await tx.expenses.setTags(householdId, id, [...new Set((e.tags || []).map(normalizeTag).filter(Boolean))]);
+    await tx.expenses.refreshStatementMonths(householdId, { expenseId: id });
+  }
+
+  const thresholdsOf = p => serializeThresholds(p.alert_thresholds ?? parseThresholds(DEFAULT_ALERT_THRESHOLDS));
+  const budgets = doc.budgets || [];
+  for (const b of budgets) {
+    await tx.budgets.upsert(householdId, categoryMap.get(b.category_id), b.effective_month, {
+      limit: round2(b.monthly_limit), rollover: !!b.rollover, thresholds: thresholdsOf(b),
+    });
+  }
+
+  const householdBudgets = doc.household_budgets || [];
+  for (const h of householdBudgets) {
+    await tx.householdBudgets.upsert(householdId, h.effective_month, {
+      limit: round2(h.monthly_limit), rollover: !!h.rollover, thresholds: thresholdsOf(h),
+    });
+  }
+
+  return {
+    categories_created: created,
+    expenses:           expenses.length,
+    budgets:            budgets.length,
+    household_budgets:  householdBudgets.length,
+  };
+}
+
+// Baixa o backup da família (categorias, despesas e orçamentos)
+app.get('/api/backup', async (req, res, next) => {
+  try {
+    const householdId = req.user.household_id;
+    const categories = await repo.categories.list(householdId, { includeArchived: true });
+    const expenses   = await repo.expenses.list(householdId, {}, { sort: 'date', dir: 'asc' });
+    const budgets    = await repo.budgets.periods(householdId, LAST_MONTH);
+    const household  = await repo.householdBudgets.periods(householdId, LAST_MONTH);
+
+    const period = p => ({
+      effective_month:  p.effective_month,
+      monthly_limit:    p.monthly_limit,
+      rollover:         p.rollover,
+      alert_thresholds: p.alert_thresholds,
+    });
+    const doc = {
+      format:      BACKUP_FORMAT,
+      version:     BACKUP_VERSION,
+      exported_at: new Date().toISOString(),
+      categories:  categories.map(c => ({
+        id: c.id, parent_id: c.parent_id, name: c.name, color: c.color, icon: c.icon, archived: !!c.archived,
+      })),
+      expenses: expenses.map(mapExpense).map(e => ({
+        id: e.id, description: e.description, payee: e.payee, notes: e.notes, amount: e.amount,
+        category_id: e.category_id, payment_method: e.payment_method, date: e.date,
+        isRecurring: e.isRecurring, tags: e.tags,
+      })),
+      budgets:           budgets.map(mapBudget).map(b => ({ category_id: b.category_id, ...period(b) })),
+      household_budgets: household.map(mapBudget).map(period),
+    };
+    sendDownload(res, JSON.stringify(doc, null, 2), 'application/json; charset=utf-8', `ecofin-backup-${todayISO()}.json`);
+  } catch (err) { next(err); }
+});
+
+// Restaura um documento de GET /api/backup ou os dados do
+// localStorage ({ ecofin_expenses, ecofin_budgets, ... }). Tudo
+// ou nada: com qualquer erro de validação, nada é gravado.
+app.post('/api/restore', async (req, res, next) => {
+  try {
+    const input = req.body || {};
+    let doc;
+    if (input.format === BACKUP_FORMAT) {
+      if (!Number.isInteger(input.version) || input.version < 1 || input.version > BACKUP_VERSION)
+        return res.status(422).json({
+          error: `Versão de backup não suportada (${input.version}); este servidor lê até a versão ${BACKUP_VERSION}.`,
+        });
+      doc = input;
+    } else if (LOCAL_STORAGE_KEYS.some(key => input[key] !== undefined)) {
+      doc = backupFromLocalStorage(input);
+    } else {
+      return res.status(422).json({ error: 'Formato de backup não reconhecido.' });
+    }
+
+    const errors = validateBackup(doc);
+    if (errors.length) return res.status(422).json({ errors });
+
+    const restored = await repo.transaction(tx => restoreBackup(tx, req.user, doc));
+    res.json({ message: 'Backup restaurado com sucesso.', ...restored });
+  } catch (err) { next(err); }
+});
+
+// ─── Health Check ────────────────────────────────────────────
+app.get('/health', async (req, res) => {
+  try {
+    await repo.ping();
+    res.json({ status: 'ok', db: 'connected', ts: new Date().toISOString() });
+  } catch {
+    res.status(503).json({ status: 'error', db: 'disconnected' });
+  }
+});
+
+// ─── 404 ─────────────────────────────────────────────────────
+app.use((req, res) => res.status(404).json({ error: 'Rota não encontrada.' }));
+
+// ─── Error Handler Global ─────────────────────────────────────
+app.use((err, req, res, _next) => {
+  console.error('❌  Erro interno:', err);
+  const status = err.status || 500;
+  res.status(status).json({
+    error: status === 500 ? 'Erro interno do servidor.' : err.message
+  });
+});
+
+// ─── Inicialização ────────────────────────────────────────────
+// Só sobe quando executado diretamente (node server.js); os testes
+// importam o app e o repositório sem abrir a porta.
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  (async () => {
+    await runMigrations(pool);
+    console.log('✅  Banco de dados inicializado com sucesso.');
+    const created = await materializeRecurring(todayISO());
+    if (created) console.log(`🔁  ${created} despesa(s) recorrente(s) gerada(s).`);
+    app.listen(PORT, () =>
+      console.log(`🚀  EcoFin API rodando em http://localhost:${PORT}`)
+    );
+  })();
+}
+
+export { app, repo };
\ No newline at end of file
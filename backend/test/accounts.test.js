@@ -0,0 +1,98 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, addExpense } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+async function createAccount(session, fields) {
+  const { status, body } = await session.api('POST', '/api/accounts', fields);
+  assert.equal(status, 201);
+  return body;
+}
+
+test('POST /api/accounts valida cartões e nomes repetidos', async () => {
+  const session = await signUp(server.baseUrl);
+
+  const checking = await createAccount(session, { name: 'Conta Corrente', type: 'checking', opening_balance: 500 });
+  assert.equal(checking.opening_balance, 500);
+  assert.equal(checking.closing_day, null);
+
+  assert.equal((await session.api('POST', '/api/accounts', { name: 'conta corrente', type: 'cash' })).status, 409);
+  assert.equal((await session.api('POST', '/api/accounts', { name: 'Cartão', type: 'credit_card' })).status, 422);
+});
+
+test('GET /api/accounts calcula saldos com receitas, despesas e pagamentos', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const bank    = await createAccount(session, { name: 'Banco', type: 'checking', opening_balance: 1000 });
+  const card    = await createAccount(session, {
+    name: 'Cartão', type: 'credit_card', credit_limit: 2000, closing_day: 10, due_day: 20,
+  });
+
+  await session.api('POST', '/api/incomes', {
+    description: 'Salário', amount: 3000, source: 'Salário', date: '2026-01-05', account_id: bank.id,
+  });
+  await addExpense(session, { category_id: food, amount: '200.00', date: '2026-01-06', account_id: bank.id });
+  await addExpense(session, { category_id: food, amount: '150.00', date: '2026-01-09', account_id: card.id });
+  await addExpense(session, { category_id: food, amount: '50.00', date: '2026-01-11', account_id: card.id });
+
+  const paid = await session.api('POST', `/api/accounts/${card.id}/statements/2026-01/payments`, {
+    from_account_id: bank.id, date: '2026-01-20',
+  });
+  assert.equal(paid.status, 201);
+  assert.equal(paid.body.remaining, 0);
+
+  const { body } = await session.api('GET', '/api/accounts');
+  const balances = Object.fromEntries(body.map(a => [a.name, a.balance]));
+  assert.deepEqual(balances, { Banco: 3650, Cartão: -50 });
+  assert.equal(body.find(a => a.name === 'Cartão').available_credit, 1950);
+});
+
+test('faturas agrupam as compras pelo dia de fechamento', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const card    = await createAccount(session, { name: 'Cartão', type: 'credit_card', closing_day: 31, due_day: 10 });
+
+  // Fechamento 31 vale como o último dia de fevereiro
+  const feb = await addExpense(session, { category_id: food, amount: '40.00', date: '2026-02-28', account_id: card.id });
+  await addExpense(session, { category_id: food, amount: '60.00', date: '2026-03-01', account_id: card.id });
+  assert.equal((await session.api('GET', `/api/expenses/${feb}`)).body.payment_method, 'credit');
+
+  const list = await session.api('GET', `/api/accounts/${card.id}/statements`);
+  assert.equal(list.status, 200);
+  const byMonth = Object.fromEntries(list.body.map(s => [s.month, s.total]));
+  assert.equal(byMonth['2026-02'], 40);
+  assert.equal(byMonth['2026-03'], 60);
+
+  const detail = await session.api('GET', `/api/accounts/${card.id}/statements/2026-02`);
+  assert.equal(detail.body.closing_date, '2026-02-28');
+  assert.deepEqual(detail.body.expenses.map(e => e.id), [feb]);
+
+  // Mudar o fechamento recalcula as faturas já lançadas
+  await session.api('PUT', `/api/accounts/${card.id}`, { closing_day: 15 });
+  const moved = await session.api('GET', `/api/accounts/${card.id}/statements/2026-03`);
+  assert.equal(moved.body.total, 100);
+});
+
+test('PUT e DELETE /api/accounts/:id', async () => {
+  const session = await signUp(server.baseUrl);
+  const bank    = await createAccount(session, { name: 'Banco', type: 'checking' });
+  const wallet  = await createAccount(session, { name: 'Carteira', type: 'cash' });
+
+  const renamed = await session.api('PUT', `/api/accounts/${bank.id}`, { name: 'Banco Novo', version: bank.version });
+  assert.equal(renamed.status, 200);
+  assert.equal(renamed.body.version, bank.version + 1);
+  assert.equal((await session.api('PUT', `/api/accounts/${bank.id}`, { name: 'X', version: bank.version })).status, 409);
+  assert.equal((await session.api('PUT', `/api/accounts/${bank.id}`, { name: 'carteira' })).status, 409);
+
+  await addExpense(session, {
+    category_id: await categoryId(session, 'Outros'), amount: '5.00', date: '2026-01-01', account_id: wallet.id,
+  });
+  assert.equal((await session.api('DELETE', `/api/accounts/${wallet.id}`)).status, 409);
+  assert.equal((await session.api('DELETE', `/api/accounts/${bank.id}`)).status, 200);
+  assert.equal((await session.api('GET', `/api/accounts/${bank.id}/statements`)).status, 404);
+  assert.equal((await session.api('GET', `/api/accounts/${wallet.id}/statements`)).status, 422);
+});
@@ -0,0 +1,92 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, localDate } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+async function post(session, fields) {
+  const { status, body } = await session.api('POST', '/api/expenses', fields);
+  assert.equal(status, 201);
+  return body;
+}
+
+test('valor fora do padrão vira sinalização e pode ser descartado', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+
+  for (const [i, amount] of [10, 12, 11, 9, 10].entries()) {
+    const saved = await post(session, { description: 'Padaria', amount, category_id: food, date: localDate(i - 40) });
+    assert.deepEqual(saved.flags, []);
+  }
+  const typo = await post(session, { description: 'Padaria', amount: 4500, category_id: food, date: localDate(-2) });
+  assert.deepEqual(typo.flags.map(f => [f.kind, f.expense_id]), [['outlier', typo.id]]);
+
+  const { body } = await session.api('GET', '/api/reports/anomalies');
+  assert.deepEqual({ scanned: body.scanned, created: body.created }, { scanned: 6, created: 0 });
+  assert.equal(body.flags[0].expense.amount, 4500);
+
+  const flagId = body.flags[0].id;
+  assert.equal((await session.api('POST', `/api/reports/anomalies/${flagId}/merge`)).status, 422);
+  const intruder = await signUp(server.baseUrl);
+  assert.equal((await intruder.api('POST', `/api/reports/anomalies/${flagId}/dismiss`)).status, 404);
+  assert.equal((await session.api('POST', `/api/reports/anomalies/${flagId}/dismiss`)).status, 200);
+
+  // Descartada não volta numa nova varredura
+  const rescan = await session.api('GET', '/api/reports/anomalies');
+  assert.deepEqual({ created: rescan.body.created, flags: rescan.body.flags }, { created: 0, flags: [] });
+});
+
+test('mesclar duplicata mantém a despesa lançada primeiro', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+
+  const first  = await post(session, { description: 'Mercado Bom Preço', amount: 80, category_id: food, date: localDate(-5) });
+  const second = await post(session, { description: 'MERCADO BOM PRECO', amount: 80, category_id: food, date: localDate(-4) });
+  assert.deepEqual(second.flags.map(f => [f.kind, f.expense_id, f.related_expense_id]),
+    [['duplicate', second.id, first.id]]);
+
+  const flagId = second.flags[0].id;
+  const bad = await session.api('POST', `/api/reports/anomalies/${flagId}/merge`, { keep: '11111111-1111-4111-8111-111111111111' });
+  assert.equal(bad.status, 422);
+
+  const merged = await session.api('POST', `/api/reports/anomalies/${flagId}/merge`);
+  assert.equal(merged.status, 200);
+  assert.deepEqual({ kept: merged.body.kept.id, removed: merged.body.removed_id }, { kept: first.id, removed: second.id });
+  assert.equal((await session.api('GET', `/api/expenses/${second.id}`)).status, 404);
+  assert.deepEqual((await session.api('GET', '/api/reports/anomalies')).body.flags, []);
+});
+
+test('mesclar leva tags, comprovantes e divisão para a despesa que fica', async () => {
+  const owner  = await signUp(server.baseUrl);
+  const member = await signUp(server.baseUrl, { inviteCode: owner.household.invite_code });
+  const food   = await categoryId(owner, 'Alimentação');
+
+  const kept = await post(owner, { description: 'Feira', amount: 60, category_id: food, date: localDate(-3), tags: ['casa'] });
+  const dup  = await post(member, {
+    description: 'Feira', amount: 60, category_id: food, date: localDate(-3), tags: ['feira', 'casa'],
+    split: { type: 'equal', members: [{ user_id: owner.user.id }, { user_id: member.user.id }] },
+  });
+  const sent = await fetch(`${server.baseUrl}/api/expenses/${dup.id}/receipts?filename=feira.png`, {
+    method: 'POST', headers: { 'Content-Type': 'image/png', Authorization: `Bearer ${member.token}` }, body: 'nota',
+  });
+  assert.equal(sent.status, 201);
+
+  const merged = await owner.api('POST', `/api/reports/anomalies/${dup.flags[0].id}/merge`);
+  assert.equal(merged.body.kept.id, kept.id);
+  const { body } = await owner.api('GET', `/api/expenses/${kept.id}`);
+  assert.deepEqual([...body.tags].sort(), ['casa', 'feira']);
+  assert.equal(body.receipt_count, 1);
+  assert.equal(body.paid_by, member.user.id);
+  assert.deepEqual(body.splits.map(s => s.amount), [30, 30]);
+  assert.ok(body.version > kept.version);
+
+  const receipts = await owner.api('GET', `/api/expenses/${kept.id}/receipts`);
+  assert.deepEqual(receipts.body.map(r => r.filename), ['feira.png']);
+  const file = await fetch(`${server.baseUrl}/api/expenses/${kept.id}/receipts/${receipts.body[0].id}`, {
+    headers: { Authorization: `Bearer ${owner.token}` },
+  });
+  assert.equal(await file.text(), 'nota');
+});
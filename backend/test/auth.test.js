@@ -0,0 +1,101 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import os from 'node:os';
+import { startServer, client, signUp } from './helpers.js';
+
+let server;
+let anonymous;
+
+before(async () => {
+  server = await startServer();
+  anonymous = client(server.baseUrl);
+});
+
+after(() => server.close());
+
+test('POST /api/auth/register cria família com as categorias padrão', async () => {
+  const session = await signUp(server.baseUrl, { householdName: 'Casa Silva' });
+  assert.ok(session.token);
+  assert.equal(session.household.name, 'Casa Silva');
+  assert.match(session.household.invite_code, /^[0-9A-F]{8}$/);
+
+  const { status, body } = await session.api('GET', '/api/categories');
+  assert.equal(status, 200);
+  assert.equal(body.length, 8);
+  assert.ok(body.some(c => c.name === 'Alimentação'));
+});
+
+test('POST /api/auth/register valida o corpo', async () => {
+  const { status, body } = await anonymous('POST', '/api/auth/register', {
+    name: '', email: 'não-é-email', password: 'curta',
+  });
+  assert.equal(status, 422);
+  assert.deepEqual(body.errors.map(e => e.path).sort(), ['email', 'name', 'password']);
+});
+
+test('POST /api/auth/register recusa e-mail repetido', async () => {
+  await signUp(server.baseUrl, { email: 'repetido@exemplo.com' });
+  const { status } = await anonymous('POST', '/api/auth/register', {
+    name: 'Outra', email: 'repetido@exemplo.com', password: 'senha-segura',
+  });
+  assert.equal(status, 409);
+});
+
+test('POST /api/auth/register com convite entra na família existente', async () => {
+  const owner  = await signUp(server.baseUrl);
+  const member = await signUp(server.baseUrl, { inviteCode: owner.household.invite_code.toLowerCase() });
+  assert.equal(member.household.id, owner.household.id);
+
+  const { body } = await owner.api('GET', '/api/auth/me');
+  assert.equal(body.members.length, 2);
+  assert.deepEqual(body.household, owner.household);
+
+  const invalid = await anonymous('POST', '/api/auth/register', {
+    name: 'X', email: 'x@exemplo.com', password: 'senha-segura', inviteCode: 'FFFFFFFF',
+  });
+  assert.equal(invalid.status, 404);
+});
+
+test('POST /api/auth/login', async () => {
+  const session = await signUp(server.baseUrl, { email: 'login@exemplo.com' });
+
+  const ok = await anonymous('POST', '/api/auth/login', { email: 'LOGIN@exemplo.com', password: 'senha-segura' });
+  assert.equal(ok.status, 200);
+  assert.equal(ok.body.user.id, session.user.id);
+  assert.equal(ok.body.household.id, session.household.id);
+
+  const wrong = await anonymous('POST', '/api/auth/login', { email: 'login@exemplo.com', password: 'errada!!' });
+  assert.equal(wrong.status, 401);
+
+  const invalid = await anonymous('POST', '/api/auth/login', { email: 'login' });
+  assert.equal(invalid.status, 422);
+});
+
+test('GET /api/auth/me exige token válido', async () => {
+  assert.equal((await anonymous('GET', '/api/auth/me')).status, 401);
+  assert.equal((await client(server.baseUrl, 'abc.def')('GET', '/api/auth/me')).status, 401);
+
+  const session = await signUp(server.baseUrl, { name: 'Ana' });
+  const { status, body } = await session.api('GET', '/api/auth/me');
+  assert.equal(status, 200);
+  assert.equal(body.user.name, 'Ana');
+  assert.equal(body.user.password_hash, undefined);
+});
+
+test('GET /health', async () => {
+  const { status, body } = await anonymous('GET', '/health');
+  assert.equal(status, 200);
+  assert.equal(body.status, 'ok');
+});
+
+// Processo à parte, fora da pasta do backend para não ler um .env
+test('em produção, sem AUTH_SECRET o servidor não sobe', () => {
+  const serverUrl = new URL('../server.js', import.meta.url).href;
+  const { AUTH_SECRET, ...env } = process.env;
+  const run = spawnSync(process.execPath, ['--input-type=module', '-e', `await import(${JSON.stringify(serverUrl)})`], {
+    cwd: os.tmpdir(), env: { ...env, NODE_ENV: 'production', DB_DRIVER: 'memory' }, encoding: 'utf8', timeout: 30000,
+  });
+  assert.notEqual(run.status, 0);
+  assert.match(run.stderr, /AUTH_SECRET não definido/);
+});
@@ -0,0 +1,180 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, addExpense } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+const EXPENSE_ID = 'aaaaaaaa-bbbb-4ccc-8ddd-000000000001';
+
+test('GET /api/backup → POST /api/restore leva os dados para outra família', async () => {
+  const source = await signUp(server.baseUrl);
+  const food   = await categoryId(source, 'Alimentação');
+  const { body: bakery } = await source.api('POST', '/api/categories', { name: 'Padaria', parent_id: food, color: '#123456' });
+
+  await addExpense(source, { category_id: bakery.id, amount: '12.50', date: '2026-03-01', tags: ['café'], payee: 'Pão Quente' });
+  await source.api('PUT', '/api/budgets', { category_id: bakery.id, limit: 80, month: '2026-03', rollover: true });
+  await source.api('PUT', '/api/budgets/household', { limit: 3000, month: '2026-01' });
+
+  const backup = await source.api('GET', '/api/backup');
+  assert.equal(backup.status, 200);
+  assert.match(backup.headers.get('content-disposition'), /ecofin-backup-\d{4}-\d{2}-\d{2}\.json/);
+  assert.equal(backup.body.format, 'ecofin-backup');
+  assert.equal(backup.body.version, 1);
+  assert.equal(backup.body.expenses.length, 1);
+  assert.equal(backup.body.expenses[0].date, '2026-03-01');
+
+  // Outra instância: o mesmo documento, num banco onde os ids
+  // das despesas ainda não existem.
+  const document = {
+    ...backup.body,
+    expenses: backup.body.expenses.map(e => ({ ...e, id: EXPENSE_ID.replace(/1$/, '5') })),
+  };
+  const target = await signUp(server.baseUrl);
+  const restored = await target.api('POST', '/api/restore', document);
+  assert.equal(restored.status, 200);
+  assert.deepEqual(
+    { created: restored.body.categories_created, expenses: restored.body.expenses, budgets: restored.body.budgets },
+    { created: 1, expenses: 1, budgets: 1 },
+  );
+
+  const categories = (await target.api('GET', '/api/categories')).body;
+  const newBakery  = categories.find(c => c.name === 'Padaria');
+  assert.equal(newBakery.parent_id, await categoryId(target, 'Alimentação'));
+  assert.equal(newBakery.color, '#123456');
+
+  const { body: expense } = await target.api('GET', `/api/expenses/${document.expenses[0].id}`);
+  assert.deepEqual(
+    { amount: expense.amount, category_id: expense.category_id, tags: expense.tags, payee: expense.payee },
+    { amount: 12.5, category_id: newBakery.id, tags: ['café'], payee: 'Pão Quente' },
+  );
+
+  const budgets = (await target.api('GET', '/api/budgets?month=2026-03')).body;
+  assert.deepEqual(budgets.map(b => [b.category_id, b.monthly_limit, b.rollover]), [[newBakery.id, 80, true]]);
+
+  // Restaurar de novo não duplica nada
+  await target.api('POST', '/api/restore', document);
+  assert.equal((await target.api('GET', '/api/expenses')).body.total, 1);
+});
+
+test('POST /api/restore sobre dados existentes mantém conta e pagador', async () => {
+  const owner  = await signUp(server.baseUrl);
+  const member = await signUp(server.baseUrl, { inviteCode: owner.household.invite_code });
+  const { body: card } = await owner.api('POST', '/api/accounts', {
+    name: 'Cartão', type: 'credit_card', closing_day: 10, due_day: 20,
+  });
+  const id = await addExpense(owner, {
+    category_id: await categoryId(owner, 'Lazer'), amount: '80.00', date: '2026-03-05',
+    account_id: card.id, paid_by: member.user.id,
+  });
+
+  const { body: backup } = await owner.api('GET', '/api/backup');
+  const document = {
+    ...backup,
+    expenses: backup.expenses.map(e => ({ ...e, amount: 95, date: '2026-03-15' })),
+  };
+  assert.equal((await owner.api('POST', '/api/restore', document)).status, 200);
+
+  const { body: expense } = await owner.api('GET', `/api/expenses/${id}`);
+  assert.deepEqual(
+    { amount: expense.amount, account_id: expense.account_id, paid_by: expense.paid_by },
+    { amount: 95, account_id: card.id, paid_by: member.user.id },
+  );
+
+  // A nova data passa do fechamento: a compra muda de fatura
+  const march = await owner.api('GET', `/api/accounts/${card.id}/statements/2026-03`);
+  const april = await owner.api('GET', `/api/accounts/${card.id}/statements/2026-04`);
+  assert.deepEqual([march.body.total, april.body.total], [0, 95]);
+});
+
+test('POST /api/restore valida tudo antes de gravar', async () => {
+  const session = await signUp(server.baseUrl);
+  const { status, body } = await session.api('POST', '/api/restore', {
+    format: 'ecofin-backup',
+    version: 1,
+    categories: [{ id: 1, name: 'Mercado' }],
+    expenses: [
+      { id: EXPENSE_ID, description: 'Válida', amount: 10, category_id: 1, date: '2026-01-10' },
+      { id: 'não-é-uuid', description: '', amount: -5, category_id: 9, date: '2026-02-30' },
+    ],
+    budgets: [{ category_id: 1, effective_month: '2026-13', monthly_limit: 100 }],
+  });
+  assert.equal(status, 422);
+  assert.deepEqual(body.errors.map(e => e.path), [
+    'expenses[1].id', 'expenses[1].description', 'expenses[1].amount', 'expenses[1].date',
+    'expenses[1].category_id', 'budgets[0].effective_month',
+  ]);
+
+  assert.equal((await session.api('GET', '/api/expenses')).body.total, 0);
+  const names = (await session.api('GET', '/api/categories')).body.map(c => c.name);
+  assert.ok(!names.includes('Mercado'));
+});
+
+test('POST /api/restore recusa versões futuras e formatos desconhecidos', async () => {
+  const session = await signUp(server.baseUrl);
+  const future = await session.api('POST', '/api/restore', { format: 'ecofin-backup', version: 2 });
+  assert.equal(future.status, 422);
+  assert.match(future.body.error, /versão 1/);
+
+  assert.equal((await session.api('POST', '/api/restore', { expenses: [] })).status, 422);
+});
+
+test('POST /api/restore desfaz tudo se uma despesa pertence a outra família', async () => {
+  const owner = await signUp(server.baseUrl);
+  const taken = await addExpense(owner, {
+    category_id: await categoryId(owner, 'Lazer'), amount: '99.00', date: '2026-01-01',
+  });
+
+  const other = await signUp(server.baseUrl);
+  const { status } = await other.api('POST', '/api/restore', {
+    format: 'ecofin-backup',
+    version: 1,
+    categories: [{ id: 1, name: 'Nova categoria' }],
+    expenses: [
+      { id: EXPENSE_ID.replace(/1$/, '2'), description: 'Primeira', amount: 10, category_id: 1, date: '2026-01-10' },
+      { id: taken, description: 'Sequestro', amount: 1, category_id: 1, date: '2026-01-11' },
+    ],
+  });
+  assert.equal(status, 409);
+
+  assert.equal((await other.api('GET', '/api/expenses')).body.total, 0);
+  const names = (await other.api('GET', '/api/categories')).body.map(c => c.name);
+  assert.ok(!names.includes('Nova categoria'));
+  assert.equal((await owner.api('GET', `/api/expenses/${taken}`)).body.amount, 99);
+});
+
+test('POST /api/restore importa o formato do localStorage', async () => {
+  const session = await signUp(server.baseUrl);
+  const { status, body } = await session.api('POST', '/api/restore', {
+    // Formato antigo: categoria pelo nome, orçamento { category, limit }
+    ecofin_expenses: JSON.stringify([
+      { id: EXPENSE_ID.replace(/1$/, '3'), description: 'Feira', amount: 45.9, category: 'Alimentação', date: '2025-11-02', isRecurring: false },
+      { id: EXPENSE_ID.replace(/1$/, '4'), description: 'Curso', amount: 300, category_id: 77, category: 'Idiomas', date: '2025-11-05', isRecurring: true },
+    ]),
+    ecofin_budgets: JSON.stringify([
+      { category: 'Alimentação', limit: 600 },
+      { category_id: 77, limit: 350, effective_month: '2025-11' },
+    ]),
+  });
+  assert.equal(status, 200);
+  assert.equal(body.categories_created, 1);
+
+  const food      = await categoryId(session, 'Alimentação');
+  const languages = await categoryId(session, 'Idiomas');
+  const expenses  = (await session.api('GET', '/api/expenses?sort=date&dir=asc')).body.data;
+  assert.deepEqual(
+    expenses.map(e => [e.description, e.category_id, e.isRecurring]),
+    [['Feira', food, false], ['Curso', languages, true]],
+  );
+
+  const budgets = (await session.api('GET', '/api/budgets?month=2025-11')).body;
+  assert.deepEqual(
+    budgets.map(b => [b.category_id, b.monthly_limit, b.effective_month]).sort((a, b) => a[0] - b[0]),
+    [[food, 600, '2000-01'], [languages, 350, '2025-11']].sort((a, b) => a[0] - b[0]),
+  );
+
+  const broken = await session.api('POST', '/api/restore', { ecofin_expenses: '{não é json' });
+  assert.equal(broken.status, 422);
+});
@@ -0,0 +1,107 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, addExpense } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+test('PUT /api/budgets cria períodos e herda configurações', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+
+  const first = await session.api('PUT', '/api/budgets', {
+    category_id: food, limit: 500, month: '2026-01', rollover: true, alert_thresholds: [100, 50, 50],
+  });
+  assert.equal(first.status, 200);
+  assert.equal(first.body.monthly_limit, 500);
+  assert.equal(first.body.rollover, true);
+  assert.deepEqual(first.body.alert_thresholds, [50, 100]);
+
+  const second = await session.api('PUT', '/api/budgets', { category_id: food, limit: 600, month: '2026-03' });
+  assert.equal(second.body.rollover, true);
+  assert.deepEqual(second.body.alert_thresholds, [50, 100]);
+
+  const feb = (await session.api('GET', '/api/budgets?month=2026-02')).body;
+  assert.equal(feb.find(b => b.category_id === food).effective_month, '2026-01');
+
+  const mar = (await session.api('GET', '/api/budgets?month=2026-03')).body;
+  assert.equal(mar.find(b => b.category_id === food).monthly_limit, 600);
+});
+
+test('PUT /api/budgets valida categoria e versão', async () => {
+  const session = await signUp(server.baseUrl);
+  const other   = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const foreign = await categoryId(other, 'Alimentação');
+
+  const invalid = await session.api('PUT', '/api/budgets', { category_id: foreign, limit: 100 });
+  assert.equal(invalid.status, 422);
+
+  await session.api('PUT', '/api/budgets', { category_id: food, limit: 100, month: '2026-05' });
+  const updated = await session.api('PUT', '/api/budgets', { category_id: food, limit: 150, month: '2026-05', version: 1 });
+  assert.equal(updated.body.version, 2);
+
+  const stale = await session.api('PUT', '/api/budgets', { category_id: food, limit: 175, month: '2026-05', version: 1 });
+  assert.equal(stale.status, 409);
+  assert.equal(stale.body.current.monthly_limit, 150);
+});
+
+test('GET /api/budgets/history soma subcategorias e acumula rollover', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const { body: bakery } = await session.api('POST', '/api/categories', { name: 'Padaria', parent_id: food });
+
+  await session.api('PUT', '/api/budgets', { category_id: food, limit: 300, month: '2026-01', rollover: true });
+  await addExpense(session, { category_id: food,      amount: '200.00', date: '2026-01-10' });
+  await addExpense(session, { category_id: bakery.id, amount: '50.00',  date: '2026-01-31' });
+  await addExpense(session, { category_id: food,      amount: '400.00', date: '2026-02-01' });
+
+  const { status, body } = await session.api('GET', '/api/budgets/history?from=2026-01&to=2026-02');
+  assert.equal(status, 200);
+
+  const [jan, feb] = body.categories.find(c => c.category_id === food).months;
+  assert.deepEqual(
+    { actual: jan.actual, remaining: jan.remaining, pct: jan.pct },
+    { actual: 250, remaining: 50, pct: 83.3 },
+  );
+  assert.deepEqual(
+    { carry_in: feb.carry_in, available: feb.available, remaining: feb.remaining },
+    { carry_in: 50, available: 350, remaining: -50 },
+  );
+  assert.equal(body.household, null);
+
+  const range = await session.api('GET', '/api/budgets/history?from=2026-03&to=2026-01');
+  assert.equal(range.status, 422);
+});
+
+test('orçamento geral da família', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  await addExpense(session, { category_id: food, amount: '120.00', date: '2026-04-02' });
+
+  const put = await session.api('PUT', '/api/budgets/household', { limit: 1000, month: '2026-04' });
+  assert.equal(put.status, 200);
+
+  const history = (await session.api('GET', '/api/budgets/history?from=2026-04&to=2026-04')).body;
+  assert.equal(history.household.months[0].actual, 120);
+
+  await session.api('DELETE', '/api/budgets/household?month=2026-04');
+  const removed = (await session.api('GET', '/api/budgets/history?from=2026-04&to=2026-04')).body;
+  assert.equal(removed.household, null);
+});
+
+test('DELETE /api/budgets/:categoryId com e sem mês', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  await session.api('PUT', '/api/budgets', { category_id: food, limit: 100, month: '2026-01' });
+  await session.api('PUT', '/api/budgets', { category_id: food, limit: 200, month: '2026-02' });
+
+  await session.api('DELETE', `/api/budgets/${food}?month=2026-02`);
+  const feb = (await session.api('GET', '/api/budgets?month=2026-02')).body;
+  assert.equal(feb.find(b => b.category_id === food).monthly_limit, 100);
+
+  await session.api('DELETE', `/api/budgets/${food}`);
+  assert.deepEqual((await session.api('GET', '/api/budgets?month=2026-02')).body, []);
+});
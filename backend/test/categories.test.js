@@ -0,0 +1,85 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, addExpense } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+test('POST /api/categories cria raiz e subcategoria', async () => {
+  const session = await signUp(server.baseUrl);
+  const parent  = await categoryId(session, 'Alimentação');
+
+  const created = await session.api('POST', '/api/categories', {
+    name: 'Padaria', color: '#aabbcc', icon: 'bread', parent_id: parent,
+  });
+  assert.equal(created.status, 201);
+  assert.equal(created.body.parent_id, parent);
+  assert.equal(created.body.version, 1);
+
+  const nested = await session.api('POST', '/api/categories', { name: 'Pão', parent_id: created.body.id });
+  assert.equal(nested.status, 422);
+
+  const duplicate = await session.api('POST', '/api/categories', { name: 'padaria' });
+  assert.equal(duplicate.status, 409);
+
+  const invalid = await session.api('POST', '/api/categories', { name: 'Cor', color: 'azul' });
+  assert.equal(invalid.status, 422);
+});
+
+test('categorias não vazam entre famílias', async () => {
+  const a = await signUp(server.baseUrl);
+  const b = await signUp(server.baseUrl);
+  const own = await a.api('POST', '/api/categories', { name: 'Exclusiva' });
+
+  const names = (await b.api('GET', '/api/categories')).body.map(c => c.name);
+  assert.ok(!names.includes('Exclusiva'));
+
+  assert.equal((await b.api('PUT', `/api/categories/${own.body.id}`, { name: 'Minha' })).status, 404);
+  assert.equal((await b.api('DELETE', `/api/categories/${own.body.id}`)).status, 404);
+});
+
+test('PUT /api/categories/:id respeita a versão', async () => {
+  const session = await signUp(server.baseUrl);
+  const { body: created } = await session.api('POST', '/api/categories', { name: 'Academia' });
+
+  const renamed = await session.api('PUT', `/api/categories/${created.id}`, { name: 'Esportes', version: 1 });
+  assert.equal(renamed.status, 200);
+  assert.equal(renamed.body.name, 'Esportes');
+  assert.equal(renamed.body.version, 2);
+
+  const stale = await session.api('PUT', `/api/categories/${created.id}`, { name: 'Ginástica', version: 1 });
+  assert.equal(stale.status, 409);
+  assert.equal(stale.body.current.name, 'Esportes');
+
+  const empty = await session.api('PUT', `/api/categories/${created.id}`, {});
+  assert.equal(empty.status, 400);
+});
+
+test('categorias arquivadas só aparecem com includeArchived', async () => {
+  const session = await signUp(server.baseUrl);
+  const id = await categoryId(session, 'Lazer');
+  await session.api('PUT', `/api/categories/${id}`, { archived: true });
+
+  const active = (await session.api('GET', '/api/categories')).body;
+  assert.ok(!active.some(c => c.id === id));
+
+  const all = (await session.api('GET', '/api/categories?includeArchived=1')).body;
+  assert.equal(all.find(c => c.id === id).archived, true);
+});
+
+test('DELETE /api/categories/:id recusa categoria em uso', async () => {
+  const session = await signUp(server.baseUrl);
+  const used    = await categoryId(session, 'Transporte');
+  const unused  = await categoryId(session, 'Educação');
+  await addExpense(session, { category_id: used, amount: '10.00', date: '2026-01-05' });
+
+  assert.equal((await session.api('DELETE', `/api/categories/${used}`)).status, 409);
+
+  await session.api('PUT', '/api/budgets', { category_id: unused, limit: 100, month: '2026-01' });
+  assert.equal((await session.api('DELETE', `/api/categories/${unused}`)).status, 200);
+
+  const budgets = (await session.api('GET', '/api/budgets?month=2026-01')).body;
+  assert.ok(!budgets.some(b => b.category_id === unused));
+});
@@ -0,0 +1,54 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, addExpense } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+test('GET /api/changes sem since devolve a carga completa', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const id      = await addExpense(session, { category_id: food, amount: '12.00', date: '2026-04-01', tags: ['feira'] });
+  await session.api('POST', '/api/incomes', { description: 'Salário', amount: 3000, source: 'Salário', date: '2026-04-05' });
+  await session.api('PUT', '/api/budgets', { category_id: food, limit: 500, month: '2026-04' });
+
+  const { status, body } = await session.api('GET', '/api/changes');
+  assert.equal(status, 200);
+  assert.equal(body.full, true);
+  assert.ok(body.server_time);
+  assert.equal(body.categories.length, 8);
+  assert.deepEqual(body.expenses.map(e => [e.id, e.amount, e.date, e.tags]), [[id, 12, '2026-04-01', ['feira']]]);
+  assert.deepEqual(body.incomes.map(i => i.amount), [3000]);
+  assert.equal(body.budgets.length, 1);
+  assert.deepEqual(body.deleted, []);
+
+  // Outra família não aparece no feed
+  const other = await signUp(server.baseUrl);
+  assert.deepEqual((await other.api('GET', '/api/changes')).body.expenses, []);
+});
+
+test('GET /api/changes?since traz só o que mudou e as exclusões', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const kept    = await addExpense(session, { category_id: food, amount: '10.00', date: '2026-04-01' });
+  const gone    = await addExpense(session, { category_id: food, amount: '20.00', date: '2026-04-02' });
+  const { body: first } = await session.api('GET', '/api/changes');
+
+  const edited = await addExpense(session, { category_id: food, amount: '30.00', date: '2026-04-03' });
+  await session.api('PUT', `/api/expenses/${kept}`, { amount: 15 });
+  await session.api('DELETE', `/api/expenses/${gone}`);
+  const { body: rule } = await session.api('POST', '/api/recurring', {
+    description: 'Academia', amount: 90, category_id: await categoryId(session, 'Saúde'), start_date: '2099-01-10',
+  });
+
+  const { body } = await session.api('GET', `/api/changes?since=${encodeURIComponent(first.server_time)}`);
+  assert.equal(body.full, false);
+  assert.deepEqual(body.expenses.map(e => e.id).sort(), [kept, edited].sort());
+  assert.deepEqual(body.recurring.map(r => r.id), [rule.id]);
+  assert.deepEqual(body.categories, []);
+  assert.deepEqual(body.deleted.map(d => [d.entity, d.id]), [['expenses', gone]]);
+
+  assert.equal((await session.api('GET', '/api/changes?since=ontem')).status, 422);
+});
@@ -0,0 +1,184 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, addExpense } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+// Percorre todas as páginas do extrato seguindo next_cursor
+async function allPages(session, params) {
+  const seen = [];
+  let cursor = null;
+  do {
+    const qs = new URLSearchParams({ ...params, ...(cursor ? { cursor } : {}) });
+    const { status, body } = await session.api('GET', `/api/expenses?${qs}`);
+    assert.equal(status, 200);
+    seen.push(body);
+    cursor = body.next_cursor;
+  } while (cursor);
+  return seen;
+}
+
+test('GET /api/expenses pagina por cursor sem repetir nem pular linhas', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  // Datas repetidas forçam o desempate pelo id
+  for (let i = 0; i < 7; i++)
+    await addExpense(session, { category_id: food, amount: String(10 + i), date: `2026-01-0${1 + (i % 3)}` });
+
+  const pages = await allPages(session, { limit: 3 });
+  assert.deepEqual(pages.map(p => p.data.length), [3, 3, 1]);
+  assert.ok(pages.every(p => p.total === 7));
+
+  const rows = pages.flatMap(p => p.data);
+  assert.equal(new Set(rows.map(r => r.id)).size, 7);
+  const dates = rows.map(r => r.date);
+  assert.deepEqual(dates, [...dates].sort().reverse());
+});
+
+test('GET /api/expenses ordena por valor e descrição', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  await addExpense(session, { category_id: food, amount: '9.90',   description: 'Pão',     date: '2026-02-01' });
+  await addExpense(session, { category_id: food, amount: '100.00', description: 'açougue', date: '2026-02-02' });
+  await addExpense(session, { category_id: food, amount: '25.50',  description: 'Feira',   date: '2026-02-03' });
+
+  const byAmount = await allPages(session, { sort: 'amount', dir: 'asc', limit: 2 });
+  assert.deepEqual(byAmount.flatMap(p => p.data).map(e => e.amount), [9.9, 25.5, 100]);
+
+  const byName = (await session.api('GET', '/api/expenses?sort=description&dir=asc')).body;
+  assert.deepEqual(byName.data.map(e => e.description), ['açougue', 'Feira', 'Pão']);
+});
+
+test('GET /api/expenses combina filtros', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const fun     = await categoryId(session, 'Lazer');
+  const { body: bakery } = await session.api('POST', '/api/categories', { name: 'Padaria', parent_id: food });
+
+  await addExpense(session, { category_id: bakery.id, amount: '12.00', date: '2026-03-01', tags: ['café'] });
+  await addExpense(session, { category_id: food, amount: '80.00', date: '2026-03-02', isRecurring: 1, payee: 'Mercado São João' });
+  await addExpense(session, { category_id: fun, amount: '45.00', date: '2026-03-03' });
+  await addExpense(session, { category_id: fun, amount: '300.00', date: '2026-04-01' });
+
+  const get = async qs => (await session.api('GET', `/api/expenses?${qs}`)).body;
+
+  assert.equal((await get(`category=${food}`)).total, 2);
+  assert.equal((await get(`category=${bakery.id},${fun}`)).total, 3);
+  assert.equal((await get('minAmount=40&maxAmount=100')).total, 2);
+  assert.equal((await get('recurring=true')).total, 1);
+  assert.equal((await get('recurring=false&startDate=2026-03-01&endDate=2026-03-31')).total, 2);
+  assert.equal((await get('tag=CAF%C3%89')).total, 1);
+  assert.equal((await get('search=sao joao')).data[0].amount, 80);
+  assert.equal((await get('search=padaria')).total, 1);
+});
+
+test('GET /api/expenses valida os parâmetros', async () => {
+  const session = await signUp(server.baseUrl);
+  for (const qs of ['cursor=lixo', 'sort=category', 'limit=1000', 'category=abc', 'minAmount=-1']) {
+    const { status } = await session.api('GET', `/api/expenses?${qs}`);
+    assert.equal(status, 422, qs);
+  }
+});
+
+test('GET /api/expenses/:id restringe à família', async () => {
+  const owner    = await signUp(server.baseUrl);
+  const intruder = await signUp(server.baseUrl);
+  const id = await addExpense(owner, {
+    category_id: await categoryId(owner, 'Saúde'), amount: '150.00', date: '2026-05-01',
+  });
+
+  const { status, body } = await owner.api('GET', `/api/expenses/${id}`);
+  assert.equal(status, 200);
+  assert.equal(body.date, '2026-05-01');
+  assert.equal(body.category, 'Saúde');
+
+  assert.equal((await intruder.api('GET', `/api/expenses/${id}`)).status, 404);
+  assert.equal((await owner.api('GET', '/api/expenses/123')).status, 422);
+});
+
+test('GET /api/expenses/export gera CSV com os filtros', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  await addExpense(session, { category_id: food, amount: '1234.50', description: 'Mercado; mês', date: '2026-06-10' });
+  await addExpense(session, { category_id: food, amount: '5.00', description: 'Fora do filtro', date: '2026-07-01' });
+
+  const { status, headers, body } = await session.api('GET', '/api/expenses/export?endDate=2026-06-30');
+  assert.equal(status, 200);
+  assert.match(headers.get('content-type'), /text\/csv/);
+  assert.match(headers.get('content-disposition'), /extrato-\d{4}-\d{2}-\d{2}\.csv/);
+  assert.match(body, /10\/06\/2026;"Mercado; mês"/);
+  assert.match(body, /1234,50/);
+  assert.doesNotMatch(body, /Fora do filtro/);
+});
+
+test('POST /api/expenses cria e, com o mesmo id, atualiza', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const id      = 'bbbbbbbb-0000-4000-8000-000000000001';
+
+  const created = await session.api('POST', '/api/expenses', {
+    id, description: 'Mercado', amount: 80.5, category_id: food, date: '2026-02-10', tags: ['Viagem 2026', 'casa'],
+  });
+  assert.equal(created.status, 201);
+  assert.equal(created.body.amount, 80.5);
+  assert.deepEqual(created.body.tags, ['casa', 'viagem-2026']);
+  assert.equal(created.body.version, 1);
+
+  const again = await session.api('POST', '/api/expenses', {
+    id, description: 'Mercado', amount: 90, category_id: food, date: '2026-02-10',
+  });
+  assert.equal(again.status, 201);
+  assert.equal(again.body.amount, 90);
+  assert.equal(again.body.version, 2);
+  assert.equal((await session.api('GET', '/api/expenses')).body.total, 1);
+
+  const intruder = await signUp(server.baseUrl);
+  const stolen = await intruder.api('POST', '/api/expenses', {
+    id, description: 'X', amount: 1, category_id: await categoryId(intruder, 'Outros'), date: '2026-02-10',
+  });
+  assert.equal(stolen.status, 404);
+  assert.equal((await session.api('GET', `/api/expenses/${id}`)).body.description, 'Mercado');
+
+  const invalid = await session.api('POST', '/api/expenses', { description: 'X', amount: 0, category_id: food, date: '2026-02-10' });
+  assert.equal(invalid.status, 422);
+});
+
+test('PUT /api/expenses/:id respeita a versão e troca as tags', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const id = await addExpense(session, { category_id: food, amount: '30.00', date: '2026-02-01', tags: ['feira'] });
+
+  const updated = await session.api('PUT', `/api/expenses/${id}`, { amount: 35, tags: ['mercado'], version: 1 });
+  assert.equal(updated.status, 200);
+  assert.equal(updated.body.version, 2);
+
+  const stale = await session.api('PUT', `/api/expenses/${id}`, { amount: 40, version: 1 });
+  assert.equal(stale.status, 409);
+  assert.equal(stale.body.current.amount, 35);
+
+  const { body } = await session.api('GET', `/api/expenses/${id}`);
+  assert.deepEqual({ amount: body.amount, tags: body.tags }, { amount: 35, tags: ['mercado'] });
+  assert.equal((await session.api('PUT', `/api/expenses/${id}`, {})).status, 400);
+
+  const tags = (await session.api('GET', '/api/tags')).body;
+  assert.deepEqual(tags.map(t => [t.name, t.count]), [['mercado', 1], ['feira', 0]]);
+  assert.equal((await session.api('DELETE', `/api/tags/${tags[0].id}`)).status, 200);
+  const untagged = (await session.api('GET', `/api/expenses/${id}`)).body;
+  assert.deepEqual({ tags: untagged.tags, version: untagged.version }, { tags: [], version: 3 });
+});
+
+test('DELETE /api/expenses/:id remove e registra a exclusão', async () => {
+  const session = await signUp(server.baseUrl);
+  const id = await addExpense(session, { category_id: await categoryId(session, 'Lazer'), amount: '20.00', date: '2026-02-01' });
+  const { body: before } = await session.api('GET', '/api/changes');
+
+  assert.equal((await session.api('DELETE', `/api/expenses/${id}`)).status, 200);
+  assert.equal((await session.api('DELETE', `/api/expenses/${id}`)).status, 404);
+  assert.equal((await session.api('GET', `/api/expenses/${id}`)).status, 404);
+
+  const { body } = await session.api('GET', `/api/changes?since=${encodeURIComponent(before.server_time)}`);
+  assert.deepEqual(body.deleted.map(d => [d.entity, d.id]), [['expenses', id]]);
+});
@@ -0,0 +1,56 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+test('metas: criação, aportes, resgate e conclusão', async () => {
+  const session = await signUp(server.baseUrl);
+
+  const created = await session.api('POST', '/api/goals', { name: 'Viagem', target_amount: 1000, initial_amount: 400 });
+  assert.equal(created.status, 201);
+  assert.deepEqual({ saved: created.body.saved, pct: created.body.pct }, { saved: 400, pct: 40 });
+  assert.equal(created.body.contributions[0].note, 'Saldo inicial');
+  assert.equal((await session.api('POST', '/api/goals', { name: 'viagem', target_amount: 10 })).status, 409);
+
+  const id = created.body.id;
+  const withdrawn = await session.api('POST', `/api/goals/${id}/contributions`, { amount: -500 });
+  assert.equal(withdrawn.status, 422);
+
+  const done = await session.api('POST', `/api/goals/${id}/contributions`, { amount: 600, date: '2026-01-10' });
+  assert.equal(done.status, 201);
+  assert.equal(done.body.status, 'achieved');
+  // Mais recente primeiro: o saldo inicial é de hoje
+  assert.deepEqual(done.body.contributions.map(c => c.amount), [400, 600]);
+
+  const { body } = await session.api('GET', '/api/notifications');
+  assert.deepEqual(body.notifications.map(n => n.type), ['goal_achieved']);
+
+  const last = done.body.contributions.find(c => c.amount === 600);
+  const undone = await session.api('DELETE', `/api/goals/${id}/contributions/${last.id}`);
+  assert.equal(undone.body.saved, 400);
+  assert.equal((await session.api('DELETE', `/api/goals/${id}/contributions/${last.id}`)).status, 404);
+});
+
+test('PUT, listagem e DELETE de metas', async () => {
+  const session  = await signUp(server.baseUrl);
+  const intruder = await signUp(server.baseUrl);
+  const { body: goal } = await session.api('POST', '/api/goals', { name: 'Reserva', target_amount: 5000, deadline: '2030-12-31' });
+  await session.api('POST', '/api/goals', { name: 'Carro', target_amount: 20000 });
+
+  const archived = await session.api('PUT', `/api/goals/${goal.id}`, { archived: true, version: goal.version });
+  assert.equal(archived.status, 200);
+  assert.equal(archived.body.deadline, '2030-12-31');
+  assert.equal((await session.api('PUT', `/api/goals/${goal.id}`, { name: 'X', version: goal.version })).status, 409);
+
+  assert.deepEqual((await session.api('GET', '/api/goals')).body.map(g => g.name), ['Carro']);
+  assert.deepEqual((await session.api('GET', '/api/goals?includeArchived=1')).body.map(g => g.name), ['Carro', 'Reserva']);
+
+  assert.equal((await intruder.api('GET', `/api/goals/${goal.id}`)).status, 404);
+  assert.equal((await intruder.api('DELETE', `/api/goals/${goal.id}`)).status, 404);
+  assert.equal((await session.api('DELETE', `/api/goals/${goal.id}`)).status, 200);
+  assert.equal((await session.api('GET', `/api/goals/${goal.id}`)).status, 404);
+});
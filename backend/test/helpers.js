@@ -0,0 +1,92 @@
+// Sobe a API com o repositório em memória numa porta livre.
+// As variáveis precisam estar definidas antes de server.js ser
+// carregado, por isso o import é dinâmico.
+//
+// TZ fica num fuso à frente de UTC: ali a meia-noite local de uma
+// DATE cai no dia anterior em UTC, e um toISOString() no lugar de
+// formatDate() apareceria nos testes como data deslocada.
+//
+// Comprovantes vão para uma pasta temporária por processo.
+import os from 'node:os';
+import path from 'node:path';
+
+process.env.NODE_ENV     = 'test';
+process.env.DB_DRIVER    = 'memory';
+process.env.TZ           = 'Asia/Tokyo';
+process.env.RECEIPTS_DIR = path.join(os.tmpdir(), `ecofin-receipts-${process.pid}`);
+
+const { app, repo } = await import('../server.js');
+
+export { repo };
+
+export async function startServer() {
+  const server = await new Promise(resolve => {
+    const s = app.listen(0, () => resolve(s));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+  return {
+    baseUrl,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+// Cliente mínimo: devolve status, corpo (JSON quando houver) e headers.
+export function client(baseUrl, token = null) {
+  return async (method, path, body) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const type = res.headers.get('content-type') || '';
+    const data = type.includes('application/json') ? await res.json() : await res.text();
+    return { status: res.status, body: data, headers: res.headers };
+  };
+}
+
+let counter = 0;
+
+// Cadastra um usuário numa família nova (ou na do convite) e
+// devolve a sessão com um cliente já autenticado.
+export async function signUp(baseUrl, overrides = {}) {
+  counter += 1;
+  const res = await client(baseUrl)('POST', '/api/auth/register', {
+    name:     `Pessoa ${counter}`,
+    email:    `pessoa${counter}@exemplo.com`,
+    password: 'senha-segura',
+    ...overrides,
+  });
+  if (res.status !== 201) throw new Error(`Cadastro falhou: ${res.status} ${JSON.stringify(res.body)}`);
+  return { ...res.body, api: client(baseUrl, res.body.token) };
+}
+
+// Data local (o mesmo relógio do servidor) daqui a `days` dias
+export function localDate(days = 0) {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Categoria padrão da família pelo nome
+export async function categoryId(session, name) {
+  const { body } = await session.api('GET', '/api/categories');
+  return body.find(c => c.name === name).id;
+}
+
+// Lança uma despesa pela rota (com id conhecido) e devolve o id
+let expenseCounter = 0;
+
+export async function addExpense(session, fields) {
+  expenseCounter += 1;
+  const id = `00000000-0000-4000-8000-${String(expenseCounter).padStart(12, '0')}`;
+  const res = await session.api('POST', '/api/expenses', {
+    id,
+    description: `Despesa ${expenseCounter}`,
+    ...fields,
+  });
+  if (res.status !== 201) throw new Error(`Despesa falhou: ${res.status} ${JSON.stringify(res.body)}`);
+  return id;
+}
@@ -0,0 +1,87 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, addExpense } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+const CSV = [
+  'Data;Descrição;Valor',
+  '05/03/2026;UBER *VIAGEM;-23,90',
+  '06/03/2026;Padaria Central;-12,50',
+  '07/03/2026;Mercado Bom Preço;-150,00',
+  '08/03/2026;Salário;5.000,00',
+  '31/02/2026;Data ruim;-1,00',
+].join('\n');
+
+test('POST /api/import sugere categorias e marca duplicados', async () => {
+  const session   = await signUp(server.baseUrl);
+  const transport = await categoryId(session, 'Transporte');
+  const food      = await categoryId(session, 'Alimentação');
+
+  await session.api('POST', '/api/category-rules', { pattern: 'Uber', category_id: transport });
+  await addExpense(session, { description: 'Padaria Central', category_id: food, amount: '9.00', date: '2026-02-01' });
+  await addExpense(session, { description: 'Mercado', category_id: food, amount: '150.00', date: '2026-03-07' });
+
+  const { status, body } = await session.api('POST', '/api/import', { content: CSV });
+  assert.equal(status, 200);
+  assert.equal(body.format, 'csv');
+  assert.deepEqual(body.errors, [{ line: 6, error: 'Data inválida.' }]);
+  assert.deepEqual({ skipped: body.skipped, duplicates: body.duplicates }, { skipped: 1, duplicates: 1 });
+  assert.deepEqual(body.rows.map(r => [r.amount, r.category_id, r.category_source]), [
+    [23.9, transport, 'rule'],
+    [12.5, food, 'history'],
+    [150, null, null],
+  ]);
+  assert.ok(body.rows[2].duplicate_of);
+});
+
+test('POST /api/import lê OFX e grava tudo no commit', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const ofx = `<OFX><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260310120000<TRNAMT>-45.10<MEMO>Feira &amp; Cia</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260311<TRNAMT>100.00<MEMO>Pix recebido</STMTTRN>
+</BANKTRANLIST></OFX>`;
+
+  const preview = await session.api('POST', '/api/import', { content: ofx });
+  assert.equal(preview.body.format, 'ofx');
+  assert.deepEqual(preview.body.rows.map(r => [r.date, r.description, r.amount]), [['2026-03-10', 'Feira & Cia', 45.1]]);
+
+  const rows = preview.body.rows.map(r => ({ ...r, category_id: food }));
+  const foreign = await session.api('POST', '/api/import/commit', {
+    rows: [...rows, { ...rows[0], category_id: 999999 }],
+  });
+  assert.equal(foreign.status, 422);
+  assert.equal((await session.api('GET', '/api/expenses')).body.total, 0);
+
+  const saved = await session.api('POST', '/api/import/commit', { rows });
+  assert.deepEqual(saved.body, { imported: 1 });
+  assert.deepEqual((await session.api('GET', '/api/expenses')).body.data.map(e => e.description), ['Feira & Cia']);
+});
+
+test('CRUD de /api/category-rules', async () => {
+  const session  = await signUp(server.baseUrl);
+  const intruder = await signUp(server.baseUrl);
+  const leisure  = await categoryId(session, 'Lazer');
+
+  const created = await session.api('POST', '/api/category-rules', { pattern: 'Cinema', category_id: leisure });
+  assert.equal(created.status, 201);
+  assert.equal((await session.api('POST', '/api/category-rules', { pattern: 'cinema', category_id: leisure })).status, 409);
+  await session.api('POST', '/api/category-rules', { pattern: 'Show', category_id: leisure, priority: 5 });
+
+  // Maior prioridade primeiro
+  assert.deepEqual((await session.api('GET', '/api/category-rules')).body.map(r => r.pattern), ['Show', 'Cinema']);
+
+  const id = created.body.id;
+  assert.equal((await intruder.api('PUT', `/api/category-rules/${id}`, { priority: 9 })).status, 404);
+  assert.equal((await session.api('PUT', `/api/category-rules/${id}`, { pattern: 'show' })).status, 409);
+  assert.equal((await session.api('PUT', `/api/category-rules/${id}`, { priority: 9 })).status, 200);
+  assert.equal((await session.api('GET', '/api/category-rules')).body[0].pattern, 'Cinema');
+
+  assert.equal((await intruder.api('DELETE', `/api/category-rules/${id}`)).status, 404);
+  assert.equal((await session.api('DELETE', `/api/category-rules/${id}`)).status, 200);
+  assert.deepEqual((await session.api('GET', '/api/category-rules')).body.map(r => r.pattern), ['Show']);
+});
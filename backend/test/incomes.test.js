@@ -0,0 +1,94 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+const income = (fields = {}) => ({
+  description: 'Salário', amount: 5000, source: 'Salário', date: '2026-03-05', ...fields,
+});
+
+test('POST /api/incomes grava e devolve a data sem deslocamento de fuso', async () => {
+  const session = await signUp(server.baseUrl);
+
+  const created = await session.api('POST', '/api/incomes', income({ date: '2026-03-01' }));
+  assert.equal(created.status, 201);
+
+  const { body } = await session.api('GET', `/api/incomes/${created.body.id}`);
+  assert.equal(body.date, '2026-03-01');
+  assert.equal(body.amount, 5000);
+  assert.equal(body.version, 1);
+});
+
+test('POST /api/incomes valida o corpo', async () => {
+  const session = await signUp(server.baseUrl);
+  const { status, body } = await session.api('POST', '/api/incomes', {
+    description: '', amount: -1, source: 'Loteria', date: '05/03/2026',
+  });
+  assert.equal(status, 422);
+  assert.deepEqual(body.errors.map(e => e.path).sort(), ['amount', 'date', 'description', 'source']);
+});
+
+test('POST /api/incomes com id é idempotente e não toca outra família', async () => {
+  const owner    = await signUp(server.baseUrl);
+  const intruder = await signUp(server.baseUrl);
+  const id = '11111111-2222-4333-8444-555555555555';
+
+  await owner.api('POST', '/api/incomes', income({ id }));
+  await owner.api('POST', '/api/incomes', income({ id, amount: 5200 }));
+
+  const list = (await owner.api('GET', '/api/incomes')).body;
+  assert.equal(list.total, 1);
+  assert.equal(list.data[0].amount, 5200);
+
+  const hijack = await intruder.api('POST', '/api/incomes', income({ id, amount: 1 }));
+  assert.equal(hijack.status, 404);
+  assert.equal((await owner.api('GET', `/api/incomes/${id}`)).body.amount, 5200);
+});
+
+test('GET /api/incomes pagina e filtra', async () => {
+  const session = await signUp(server.baseUrl);
+  for (let day = 1; day <= 5; day++) {
+    await session.api('POST', '/api/incomes', income({
+      description: `Projeto ${day}`, source: 'Freelance', date: `2026-02-0${day}`,
+    }));
+  }
+  await session.api('POST', '/api/incomes', income());
+
+  const page = (await session.api('GET', '/api/incomes?source=Freelance&limit=2&page=2')).body;
+  assert.equal(page.total, 5);
+  assert.deepEqual(page.data.map(i => i.date), ['2026-02-03', '2026-02-02']);
+
+  const range = (await session.api('GET', '/api/incomes?startDate=2026-02-04&endDate=2026-03-31')).body;
+  assert.equal(range.total, 3);
+
+  const search = (await session.api('GET', '/api/incomes?search=projeto 1')).body;
+  assert.deepEqual(search.data.map(i => i.description), ['Projeto 1']);
+
+  assert.equal((await session.api('GET', '/api/incomes?limit=500')).status, 422);
+});
+
+test('PUT /api/incomes/:id respeita a versão', async () => {
+  const session = await signUp(server.baseUrl);
+  const { body: created } = await session.api('POST', '/api/incomes', income());
+
+  const updated = await session.api('PUT', `/api/incomes/${created.id}`, { amount: 5100, version: 1 });
+  assert.equal(updated.status, 200);
+  assert.equal(updated.body.version, 2);
+
+  const stale = await session.api('PUT', `/api/incomes/${created.id}`, { amount: 5300, version: 1 });
+  assert.equal(stale.status, 409);
+  assert.equal(stale.body.current.amount, 5100);
+});
+
+test('DELETE /api/incomes/:id', async () => {
+  const session = await signUp(server.baseUrl);
+  const { body: created } = await session.api('POST', '/api/incomes', income());
+
+  assert.equal((await session.api('DELETE', `/api/incomes/${created.id}`)).status, 200);
+  assert.equal((await session.api('DELETE', `/api/incomes/${created.id}`)).status, 404);
+  assert.equal((await session.api('GET', `/api/incomes/${created.id}`)).status, 404);
+});
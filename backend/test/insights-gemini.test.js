@@ -0,0 +1,44 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+
+// A chave precisa existir antes de server.js ser carregado
+process.env.GEMINI_API_KEY = 'chave-de-teste';
+const { startServer, signUp } = await import('./helpers.js');
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+// Responde no lugar da API do Gemini; o resto segue para a rede local
+const realFetch = globalThis.fetch;
+const gemini = { calls: 0, ok: false };
+
+globalThis.fetch = async (url, options) => {
+  if (!String(url).startsWith('https://generativelanguage.googleapis.com/')) return realFetch(url, options);
+  gemini.calls++;
+  if (!gemini.ok) return new Response('{}', { status: 503 });
+  const insights = [{ title: 'Do Gemini', content: 'Tudo certo.', severity: 'low' }];
+  return Response.json({ candidates: [{ content: { parts: [{ text: JSON.stringify(insights) }] } }] });
+};
+
+test('fallback por regras após falha do Gemini não fica em cache', async () => {
+  const session = await signUp(server.baseUrl);
+
+  const first = await session.api('GET', '/api/insights?month=2026-05');
+  assert.deepEqual({ provider: first.body.provider, cached: first.body.cached }, { provider: 'rules', cached: false });
+
+  // Sem cache, a próxima chamada tenta o Gemini de novo
+  const second = await session.api('GET', '/api/insights?month=2026-05');
+  assert.equal(second.body.cached, false);
+  assert.equal(gemini.calls, 2);
+
+  gemini.ok = true;
+  const fresh = await session.api('GET', '/api/insights?month=2026-05');
+  assert.deepEqual({ provider: fresh.body.provider, titles: fresh.body.insights.map(i => i.title) },
+    { provider: 'gemini', titles: ['Do Gemini'] });
+
+  const cached = await session.api('GET', '/api/insights?month=2026-05');
+  assert.deepEqual({ provider: cached.body.provider, cached: cached.body.cached }, { provider: 'gemini', cached: true });
+  assert.equal(gemini.calls, 3);
+});
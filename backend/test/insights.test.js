@@ -0,0 +1,39 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, addExpense } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+// Sem GEMINI_API_KEY os insights vêm da análise por regras
+test('GET /api/insights usa as regras e guarda em cache', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+
+  const empty = await session.api('GET', '/api/insights?month=2026-05');
+  assert.equal(empty.status, 200);
+  assert.deepEqual({ provider: empty.body.provider, cached: empty.body.cached }, { provider: 'rules', cached: false });
+  assert.deepEqual(empty.body.insights.map(i => i.title), ['Sem movimentações no mês']);
+
+  const again = await session.api('GET', '/api/insights?month=2026-05');
+  assert.equal(again.body.cached, true);
+  assert.deepEqual(again.body.insights, empty.body.insights);
+
+  // Novos lançamentos mudam o contexto e invalidam o cache
+  await session.api('PUT', '/api/budgets', { category_id: food, limit: 100, month: '2026-05' });
+  await addExpense(session, { category_id: food, amount: '150.00', date: '2026-05-10' });
+  await session.api('POST', '/api/incomes', { description: 'Freela', amount: 100, source: 'Freelance', date: '2026-05-12' });
+
+  const { body } = await session.api('GET', '/api/insights?month=2026-05');
+  assert.equal(body.cached, false);
+  assert.deepEqual(body.insights.map(i => [i.severity, i.title]), [
+    ['high', 'Orçamento estourado em Alimentação'],
+    ['high', 'Despesas acima das receitas'],
+  ]);
+
+  const refreshed = await session.api('GET', '/api/insights?month=2026-05&refresh=1');
+  assert.equal(refreshed.body.cached, false);
+  assert.equal((await session.api('GET', '/api/insights?month=2026-5')).status, 422);
+});
@@ -0,0 +1,92 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+// Anos relativos ao atual: parcelas inteiras no passado ou no futuro
+const year = new Date().getFullYear();
+
+async function createPlan(session, fields) {
+  const { status, body } = await session.api('POST', '/api/installments', {
+    description: 'TV', category_id: await categoryId(session, 'Lazer'), ...fields,
+  });
+  assert.equal(status, 201);
+  return body;
+}
+
+test('POST /api/installments divide o total em parcelas mensais', async () => {
+  const session = await signUp(server.baseUrl);
+  const plan = await createPlan(session, {
+    id: '11111111-1111-4111-8111-111111111111', total_amount: 1000, installments: 3, first_date: `${year - 1}-03-31`,
+  });
+
+  // O arredondamento fica na primeira parcela
+  assert.deepEqual(plan.expenses.map(e => [e.description, e.amount, e.date]), [
+    ['TV (1/3)', 333.34, `${year - 1}-03-31`],
+    ['TV (2/3)', 333.33, `${year - 1}-04-30`],
+    ['TV (3/3)', 333.33, `${year - 1}-05-31`],
+  ]);
+  assert.deepEqual({ due: plan.due_count, remaining: plan.remaining_amount }, { due: 3, remaining: 0 });
+
+  // Reenvio do mesmo id devolve o plano sem duplicar
+  const again = await session.api('POST', '/api/installments', {
+    id: plan.id, description: 'TV', total_amount: 1000, installments: 3,
+    category_id: plan.category_id, first_date: `${year - 1}-03-31`,
+  });
+  assert.equal(again.status, 200);
+  assert.equal(again.body.expenses.length, 3);
+
+  const intruder = await signUp(server.baseUrl);
+  assert.equal((await intruder.api('GET', `/api/installments/${plan.id}`)).status, 404);
+  assert.equal((await session.api('GET', '/api/installments?active=1')).body.length, 0);
+});
+
+test('PUT /api/installments/:id redistribui as parcelas restantes', async () => {
+  const session = await signUp(server.baseUrl);
+  const plan = await createPlan(session, { total_amount: 600, installments: 3, first_date: `${year + 1}-01-15` });
+
+  const raised = await session.api('PUT', `/api/installments/${plan.id}`, { total_amount: 900, version: plan.version });
+  assert.equal(raised.status, 200);
+  assert.equal((await session.api('PUT', `/api/installments/${plan.id}`, { description: 'X', version: plan.version })).status, 409);
+
+  const longer = await session.api('PUT', `/api/installments/${plan.id}`, { installments: 4, description: 'Televisão' });
+  assert.equal(longer.status, 200);
+  const { body } = await session.api('GET', `/api/installments/${plan.id}`);
+  assert.deepEqual(body.expenses.map(e => [e.description, e.amount]), [
+    ['Televisão (1/4)', 225], ['Televisão (2/4)', 225], ['Televisão (3/4)', 225], ['Televisão (4/4)', 225],
+  ]);
+  assert.equal(body.remaining_amount, 900);
+
+  const report = await session.api('GET', '/api/reports/installments?months=36');
+  assert.equal(report.body.total, 900);
+  assert.deepEqual(report.body.months.map(m => m.month), [
+    `${year + 1}-01`, `${year + 1}-02`, `${year + 1}-03`, `${year + 1}-04`,
+  ]);
+  assert.equal(report.body.months[0].items[0].installment_count, 4);
+});
+
+test('DELETE /api/installments/:id cancela as restantes ou remove tudo', async () => {
+  const session = await signUp(server.baseUrl);
+
+  // Começa no ano passado: as parcelas de lá já venceram
+  const plan = await createPlan(session, { total_amount: 3600, installments: 36, first_date: `${year - 1}-01-10` });
+  const due  = plan.due_count;
+  assert.ok(due >= 12 && due < 36);
+  assert.equal((await session.api('PUT', `/api/installments/${plan.id}`, { installments: 2 })).status, 422);
+
+  const cancelled = await session.api('DELETE', `/api/installments/${plan.id}`);
+  assert.equal(cancelled.body.removed, 36 - due);
+  const { body } = await session.api('GET', `/api/installments/${plan.id}`);
+  assert.ok(body.cancelled_at);
+  assert.equal(body.expenses.length, due);
+  assert.equal((await session.api('PUT', `/api/installments/${plan.id}`, { description: 'X' })).status, 409);
+
+  const removed = await session.api('DELETE', `/api/installments/${plan.id}?all=1`);
+  assert.equal(removed.body.removed, due);
+  assert.equal((await session.api('GET', `/api/installments/${plan.id}`)).status, 404);
+  assert.equal((await session.api('GET', '/api/expenses')).body.total, 0);
+});
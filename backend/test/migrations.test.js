@@ -0,0 +1,13 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadMigrations } from '../migrations/index.js';
+
+test('migrações numeradas, em ordem e sem lacunas', async () => {
+  const migrations = await loadMigrations();
+  assert.ok(migrations.length > 0);
+  migrations.forEach((m, i) => {
+    assert.equal(m.version, i + 1, m.name);
+    assert.equal(typeof m.up, 'function');
+  });
+  assert.equal(migrations[0].name, '001-initial-schema');
+});
@@ -0,0 +1,55 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, addExpense } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+test('alertas de orçamento disparam uma vez por limiar', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  await session.api('PUT', '/api/budgets', { category_id: food, limit: 100, month: '2026-05' });
+
+  await addExpense(session, { category_id: food, amount: '50.00', date: '2026-05-02' });
+  assert.equal((await session.api('GET', '/api/notifications')).body.unread_count, 0);
+
+  await addExpense(session, { category_id: food, amount: '35.00', date: '2026-05-03' });
+  await addExpense(session, { category_id: food, amount: '5.00', date: '2026-05-04' });
+  let { body } = await session.api('GET', '/api/notifications');
+  assert.equal(body.unread_count, 1);
+  assert.equal(body.notifications[0].type, 'budget_alert');
+  assert.equal(body.notifications[0].data.threshold, 80);
+
+  // Estouro de uma vez só: apenas o maior limiar vira notificação
+  await addExpense(session, { category_id: food, amount: '40.00', date: '2026-05-05' });
+  ({ body } = await session.api('GET', '/api/notifications'));
+  assert.deepEqual(body.notifications.map(n => n.data.threshold), [100, 80]);
+  assert.match(body.notifications[0].title, /Orçamento estourado/);
+});
+
+test('leitura e remoção de notificações', async () => {
+  const session  = await signUp(server.baseUrl);
+  const intruder = await signUp(server.baseUrl);
+
+  const first  = await session.api('POST', '/api/notifications/test');
+  const second = await session.api('POST', '/api/notifications/test');
+  assert.equal(first.status, 201);
+  const [a, b] = [first.body.notification.id, second.body.notification.id];
+
+  assert.equal((await intruder.api('POST', `/api/notifications/${a}/read`)).status, 404);
+  assert.equal((await session.api('POST', `/api/notifications/${a}/read`)).status, 200);
+
+  let { body } = await session.api('GET', '/api/notifications?unread=1');
+  assert.deepEqual({ unread: body.unread_count, ids: body.notifications.map(n => n.id) }, { unread: 1, ids: [b] });
+
+  const all = await session.api('POST', '/api/notifications/read-all');
+  assert.equal(all.body.updated, 1);
+  ({ body } = await session.api('GET', '/api/notifications'));
+  assert.ok(body.notifications.every(n => n.read));
+
+  assert.equal((await intruder.api('DELETE', `/api/notifications/${b}`)).status, 404);
+  assert.equal((await session.api('DELETE', `/api/notifications/${b}`)).status, 200);
+  assert.deepEqual((await session.api('GET', '/api/notifications')).body.notifications.map(n => n.id), [a]);
+});
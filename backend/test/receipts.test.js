@@ -0,0 +1,95 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { startServer, signUp, categoryId, addExpense } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+// O comprovante vai como o próprio corpo, fora do cliente JSON
+async function upload(session, expenseId, content, type = 'image/png', filename = 'nota.png') {
+  const res = await fetch(`${server.baseUrl}/api/expenses/${expenseId}/receipts?filename=${filename}`, {
+    method:  'POST',
+    headers: { 'Content-Type': type, Authorization: `Bearer ${session.token}` },
+    body:    content,
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+async function download(session, expenseId, receiptId) {
+  const res = await fetch(`${server.baseUrl}/api/expenses/${expenseId}/receipts/${receiptId}`, {
+    headers: { Authorization: `Bearer ${session.token}` },
+  });
+  return { status: res.status, type: res.headers.get('content-type'), text: await res.text() };
+}
+
+// Arquivos gravados no disco para a família
+async function storedFiles(session) {
+  return fs.readdir(path.join(process.env.RECEIPTS_DIR, session.household.id)).catch(() => []);
+}
+
+test('comprovantes: envio, download e remoção', async () => {
+  const session = await signUp(server.baseUrl);
+  const id = await addExpense(session, { category_id: await categoryId(session, 'Saúde'), amount: '90.00', date: '2026-02-01' });
+
+  const sent = await upload(session, id, 'conteudo-da-nota');
+  assert.equal(sent.status, 201);
+  assert.equal(sent.body.filename, 'nota.png');
+  assert.equal(sent.body.storage_key, undefined);
+
+  const expense = (await session.api('GET', `/api/expenses/${id}`)).body;
+  assert.deepEqual({ receipts: expense.receipt_count, version: expense.version }, { receipts: 1, version: 2 });
+
+  const list = await session.api('GET', `/api/expenses/${id}/receipts`);
+  assert.deepEqual(list.body.map(r => r.id), [sent.body.id]);
+
+  const file = await download(session, id, sent.body.id);
+  assert.deepEqual(file, { status: 200, type: 'image/png', text: 'conteudo-da-nota' });
+
+  const intruder = await signUp(server.baseUrl);
+  assert.equal((await download(intruder, id, sent.body.id)).status, 404);
+  assert.equal((await upload(session, id, 'texto', 'text/plain')).status, 415);
+
+  assert.equal((await session.api('DELETE', `/api/expenses/${id}/receipts/${sent.body.id}`)).status, 200);
+  assert.equal((await download(session, id, sent.body.id)).status, 404);
+  assert.equal((await session.api('GET', `/api/expenses/${id}`)).body.receipt_count, 0);
+});
+
+test('remover a despesa apaga os comprovantes', async () => {
+  const session = await signUp(server.baseUrl);
+  const id = await addExpense(session, { category_id: await categoryId(session, 'Saúde'), amount: '90.00', date: '2026-02-01' });
+  const sent = await upload(session, id, 'conteudo');
+  assert.equal((await storedFiles(session)).length, 1);
+
+  assert.equal((await session.api('DELETE', `/api/expenses/${id}`)).status, 200);
+  assert.deepEqual(await storedFiles(session), []);
+  assert.equal((await session.api('GET', `/api/expenses/${id}/receipts`)).status, 404);
+  assert.equal((await download(session, id, sent.body.id)).status, 404);
+});
+
+test('parcelas removidas pelo parcelamento levam os comprovantes', async () => {
+  const session = await signUp(server.baseUrl);
+  const { body: plan } = await session.api('POST', '/api/installments', {
+    description: 'Notebook', total_amount: 3000, installments: 3,
+    category_id: await categoryId(session, 'Educação'), first_date: `${new Date().getFullYear() + 1}-01-10`,
+  });
+  const [first, second] = plan.expenses;
+  await upload(session, first.id, 'nota-1');
+  await upload(session, second.id, 'nota-2');
+  const { body: before } = await session.api('GET', '/api/changes');
+
+  // Novo total regera as parcelas restantes
+  await session.api('PUT', `/api/installments/${plan.id}`, { total_amount: 3300 });
+  assert.deepEqual(await storedFiles(session), []);
+
+  const { body } = await session.api('GET', `/api/changes?since=${encodeURIComponent(before.server_time)}`);
+  assert.deepEqual(body.deleted.map(d => d.id).sort(), plan.expenses.map(e => e.id).sort());
+
+  const { body: regenerated } = await session.api('GET', `/api/installments/${plan.id}`);
+  await upload(session, regenerated.expenses[0].id, 'nota-3');
+  assert.equal((await session.api('DELETE', `/api/installments/${plan.id}`)).body.removed, 3);
+  assert.deepEqual(await storedFiles(session), []);
+});
@@ -0,0 +1,102 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, localDate } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+async function recurringExpenses(session) {
+  const { body } = await session.api('GET', '/api/expenses?recurring=true&sort=date&dir=asc');
+  return body.data;
+}
+
+test('POST /api/recurring gera as ocorrências vencidas', async () => {
+  const session = await signUp(server.baseUrl);
+  const home    = await categoryId(session, 'Moradia');
+
+  const created = await session.api('POST', '/api/recurring', {
+    description: 'Aluguel', amount: 1500, category_id: home,
+    start_date: '2025-01-31', end_date: '2025-04-30',
+  });
+  assert.equal(created.status, 201);
+  assert.deepEqual(
+    { day: created.body.day_of_month, last: created.body.last_generated, frequency: created.body.frequency },
+    { day: 31, last: localDate(), frequency: 'monthly' }
+  );
+
+  // Dia 31 cai no último dia dos meses mais curtos
+  const expenses = await recurringExpenses(session);
+  assert.deepEqual(expenses.map(e => e.date), ['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+  assert.ok(expenses.every(e => e.recurring_rule_id === created.body.id));
+
+  // Idempotente: materializar de novo não duplica
+  const again = await session.api('POST', '/api/recurring/materialize', {});
+  assert.deepEqual(again.body, { until: localDate(), created: 0 });
+
+  const invalid = await session.api('POST', '/api/recurring', {
+    description: 'X', amount: 10, category_id: home, start_date: '2025-05-01', end_date: '2025-04-01',
+  });
+  assert.equal(invalid.status, 422);
+  const badId = await session.api('POST', '/api/recurring', {
+    id: 'regra-1', description: 'X', amount: 10, category_id: home, start_date: '2025-05-01',
+  });
+  assert.equal(badId.status, 422);
+});
+
+test('próximas ocorrências e materialização manual', async () => {
+  const session = await signUp(server.baseUrl);
+  const { body: rule } = await session.api('POST', '/api/recurring', {
+    description: 'Feira', amount: 80, category_id: await categoryId(session, 'Alimentação'),
+    frequency: 'weekly', start_date: localDate(3),
+  });
+  assert.equal(rule.day_of_month, null);
+
+  const upcoming = await session.api('GET', '/api/recurring/upcoming?days=14');
+  assert.deepEqual(upcoming.body.map(u => u.date), [localDate(3), localDate(10)]);
+  assert.equal(upcoming.body[0].recurring_rule_id, rule.id);
+
+  const done = await session.api('POST', '/api/recurring/materialize', { until: localDate(7) });
+  assert.equal(done.body.created, 1);
+  assert.deepEqual((await recurringExpenses(session)).map(e => e.date), [localDate(3)]);
+
+  // Já materializada, a ocorrência sai da lista de próximas
+  const rest = await session.api('GET', '/api/recurring/upcoming?days=14');
+  assert.deepEqual(rest.body.map(u => u.date), [localDate(10)]);
+
+  // Mais de 12 meses à frente é recusado antes de gerar qualquer despesa
+  const far = await session.api('POST', '/api/recurring/materialize', { until: localDate(400) });
+  assert.equal(far.status, 400);
+  assert.equal((await recurringExpenses(session)).length, 1);
+});
+
+test('PUT e DELETE /api/recurring/:id', async () => {
+  const session  = await signUp(server.baseUrl);
+  const intruder = await signUp(server.baseUrl);
+  const { body: rule } = await session.api('POST', '/api/recurring', {
+    description: 'Internet', amount: 120, category_id: await categoryId(session, 'Contas Fixas'),
+    start_date: '2025-06-10', end_date: '2025-07-10',
+  });
+
+  const updated = await session.api('PUT', `/api/recurring/${rule.id}`, { amount: 130, version: rule.version });
+  assert.equal(updated.status, 200);
+  assert.equal(updated.body.version, rule.version + 1);
+  assert.equal((await session.api('PUT', `/api/recurring/${rule.id}`, { amount: 1, version: rule.version })).status, 409);
+  assert.equal((await intruder.api('PUT', `/api/recurring/${rule.id}`, { amount: 1 })).status, 404);
+  assert.equal((await session.api('GET', `/api/recurring/${rule.id}`)).body.amount, 130);
+
+  // A data que não veio é comparada com a gravada
+  assert.equal((await session.api('PUT', `/api/recurring/${rule.id}`, { end_date: '2025-06-01' })).status, 422);
+  assert.equal((await session.api('PUT', `/api/recurring/${rule.id}`, { start_date: '2025-08-01' })).status, 422);
+  assert.equal((await session.api('PUT', `/api/recurring/${rule.id}`, { start_date: '2025-08-01', end_date: null })).status, 200);
+  assert.equal((await session.api('PUT', `/api/recurring/${rule.id}`, { start_date: '2025-06-10' })).status, 200);
+
+  // As despesas já geradas ficam, sem o vínculo com a regra
+  assert.equal((await intruder.api('DELETE', `/api/recurring/${rule.id}`)).status, 404);
+  assert.equal((await session.api('DELETE', `/api/recurring/${rule.id}`)).status, 200);
+  assert.deepEqual((await session.api('GET', '/api/recurring')).body, []);
+  const kept = await recurringExpenses(session);
+  assert.equal(kept.length, 2);
+  assert.ok(kept.every(e => e.recurring_rule_id === null));
+});
@@ -0,0 +1,171 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId, addExpense } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+// "YYYY-MM" local, `delta` meses a partir do mês corrente
+function monthFromNow(delta) {
+  const d = new Date();
+  d.setDate(1);
+  d.setMonth(d.getMonth() + delta);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+test('GET /api/reports/summary do mês com orçamento e receitas', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const fun     = await categoryId(session, 'Lazer');
+
+  await session.api('PUT', '/api/budgets', { category_id: food, limit: 400, month: '2026-02' });
+  await session.api('POST', '/api/incomes', { description: 'Salário', amount: 1000, source: 'Salário', date: '2026-02-05' });
+  await addExpense(session, { category_id: food, amount: '200.00', date: '2026-02-01' });
+  const { body: card } = await session.api('POST', '/api/accounts', {
+    name: 'Cartão', type: 'credit_card', closing_day: 25, due_day: 5,
+  });
+  await addExpense(session, { category_id: fun, amount: '50.00', date: '2026-02-28', account_id: card.id });
+  await addExpense(session, { category_id: fun, amount: '999.00', date: '2026-03-01' });
+
+  const { status, body } = await session.api('GET', '/api/reports/summary?month=2026-02');
+  assert.equal(status, 200);
+  assert.equal(body.grand_total, 250);
+  assert.equal(body.card_total, 50);
+  assert.equal(body.cash_total, 200);
+  assert.equal(body.tx_count, 2);
+  assert.equal(body.income_total, 1000);
+  assert.equal(body.net_balance, 750);
+  assert.equal(body.savings_rate, '75.0');
+
+  const foodRow = body.by_category.find(c => c.category_id === food);
+  assert.deepEqual(
+    { total: foodRow.total, budget_limit: foodRow.budget_limit, budget_pct: foodRow.budget_pct },
+    { total: 200, budget_limit: 400, budget_pct: '50.0' },
+  );
+  assert.equal(body.by_category.find(c => c.category_id === fun).budget_pct, null);
+  assert.deepEqual(body.by_member.map(m => m.total), [250]);
+});
+
+test('GET /api/reports/summary arredonda o saldo em centavos', async () => {
+  const session = await signUp(server.baseUrl);
+  await session.api('POST', '/api/incomes', { description: 'Reembolso', amount: 0.3, source: 'Outros', date: '2026-02-05' });
+  await addExpense(session, { category_id: await categoryId(session, 'Outros'), amount: '0.10', date: '2026-02-06' });
+
+  const { body } = await session.api('GET', '/api/reports/summary?month=2026-02');
+  assert.equal(body.net_balance, 0.2);
+});
+
+test('GET /api/reports/monthly arredonda o saldo em centavos', async () => {
+  const session = await signUp(server.baseUrl);
+  const month   = monthFromNow(-1);
+  await session.api('POST', '/api/incomes', { description: 'Reembolso', amount: 0.3, source: 'Outros', date: `${month}-05` });
+  await addExpense(session, { category_id: await categoryId(session, 'Outros'), amount: '0.10', date: `${month}-06` });
+
+  const { body } = await session.api('GET', '/api/reports/monthly');
+  assert.equal(body.find(r => r.month === month).net, 0.2);
+});
+
+test('GET /api/reports/summary?rollup=1 agrega as subcategorias no pai', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const { body: bakery } = await session.api('POST', '/api/categories', { name: 'Padaria', parent_id: food });
+
+  await session.api('PUT', '/api/budgets', { category_id: bakery.id, limit: 100, month: '2026-02' });
+  await addExpense(session, { category_id: food,      amount: '30.00', date: '2026-02-10' });
+  await addExpense(session, { category_id: bakery.id, amount: '20.00', date: '2026-02-11' });
+
+  const flat = (await session.api('GET', '/api/reports/summary?month=2026-02')).body;
+  assert.equal(flat.by_category.length, 2);
+
+  const rolled = (await session.api('GET', '/api/reports/summary?month=2026-02&rollup=1')).body;
+  assert.equal(rolled.by_category.length, 1);
+  assert.deepEqual(
+    { id: rolled.by_category[0].category_id, total: rolled.by_category[0].total, pct: rolled.by_category[0].budget_pct },
+    { id: food, total: 50, pct: '50.0' },
+  );
+});
+
+test('GET /api/reports/summary?format=csv', async () => {
+  const session = await signUp(server.baseUrl);
+  await addExpense(session, { category_id: await categoryId(session, 'Saúde'), amount: '80.25', date: '2026-02-10' });
+
+  const { status, headers, body } = await session.api('GET', '/api/reports/summary?month=2026-02&format=csv');
+  assert.equal(status, 200);
+  assert.match(headers.get('content-disposition'), /resumo-2026-02\.csv/);
+  assert.match(body, /Saúde;80,25;1/);
+});
+
+test('GET /api/reports/monthly cobre os últimos 12 meses', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const thisMonth = monthFromNow(0);
+  const lastMonth = monthFromNow(-1);
+
+  await addExpense(session, { category_id: food, amount: '100.00', date: `${thisMonth}-01` });
+  await addExpense(session, { category_id: food, amount: '40.00',  date: `${lastMonth}-15` });
+  await addExpense(session, { category_id: food, amount: '70.00',  date: `${monthFromNow(-14)}-15` });
+  await session.api('POST', '/api/incomes', { description: 'Salário', amount: 200, source: 'Salário', date: `${lastMonth}-05` });
+
+  const { status, body } = await session.api('GET', '/api/reports/monthly');
+  assert.equal(status, 200);
+  assert.deepEqual(body, [
+    { month: lastMonth, total: 40,  count: 1, installments: 0, income: 200, net: 160,  savings_rate: '80.0' },
+    { month: thisMonth, total: 100, count: 1, installments: 0, income: 0,   net: -100, savings_rate: null },
+  ]);
+
+  const csv = await session.api('GET', '/api/reports/monthly?format=csv');
+  assert.match(csv.body, new RegExp(`${lastMonth};40,00;1;0,00;200,00;160,00;80,0`));
+});
+
+test('GET /api/reports/forecast: mês fechado é o realizado, mês futuro soma recorrentes', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const home    = await categoryId(session, 'Moradia');
+  const past    = monthFromNow(-2);
+  const future  = monthFromNow(2);
+
+  await addExpense(session, { category_id: food, amount: '300.00', date: `${past}-10` });
+  await session.api('PUT', '/api/budgets', { category_id: food, limit: 250, month: past });
+
+  const closed = await session.api('GET', `/api/reports/forecast?month=${past}`);
+  assert.equal(closed.status, 200);
+  assert.equal(closed.body.days_elapsed, closed.body.days_in_month);
+  const [row] = closed.body.by_category;
+  assert.deepEqual(
+    { category: row.category, projected: row.projected, low: row.low, high: row.high, method: row.method, over: row.over_budget },
+    { category: 'Alimentação', projected: 300, low: 300, high: 300, method: 'actual', over: true }
+  );
+
+  // Recorrente ainda não gerada entra como prevista
+  await session.api('POST', '/api/recurring', {
+    description: 'Aluguel', amount: 1500, category_id: home, start_date: `${future}-05`,
+  });
+  const ahead = await session.api('GET', `/api/reports/forecast?month=${future}`);
+  assert.equal(ahead.body.as_of, null);
+  const rent = ahead.body.by_category.find(r => r.category_id === home);
+  assert.deepEqual({ scheduled: rent.scheduled, projected: rent.projected }, { scheduled: 1500, projected: 1500 });
+
+  assert.equal((await session.api('GET', '/api/reports/forecast?month=2026-13')).status, 422);
+});
+
+test('GET /api/reports/tags soma por tag e categoria', async () => {
+  const session = await signUp(server.baseUrl);
+  const food    = await categoryId(session, 'Alimentação');
+  const fun     = await categoryId(session, 'Lazer');
+
+  await addExpense(session, { category_id: food, amount: '100.00', date: '2026-07-01', tags: ['Viagem 2026'] });
+  await addExpense(session, { category_id: fun, amount: '250.00', date: '2026-07-02', tags: ['viagem-2026', 'praia'] });
+  await addExpense(session, { category_id: fun, amount: '30.00', date: '2026-08-01', tags: ['praia'] });
+
+  const { body } = await session.api('GET', '/api/reports/tags?endDate=2026-07-31');
+  assert.deepEqual(body.map(t => [t.tag, t.total, t.count, t.first_date, t.last_date]), [
+    ['viagem-2026', 350, 2, '2026-07-01', '2026-07-02'],
+    ['praia', 250, 1, '2026-07-02', '2026-07-02'],
+  ]);
+  assert.deepEqual(body[0].by_category.map(c => [c.category, c.total]), [['Lazer', 250], ['Alimentação', 100]]);
+
+  const csv = await session.api('GET', '/api/reports/tags?format=csv');
+  assert.match(csv.body, /praia;Lazer;280,00;2/);
+});
@@ -0,0 +1,74 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, signUp, categoryId } from './helpers.js';
+
+let server;
+
+before(async () => { server = await startServer(); });
+after(() => server.close());
+
+// Dono e um membro convidado na mesma família
+async function couple() {
+  const owner  = await signUp(server.baseUrl);
+  const member = await signUp(server.baseUrl, { inviteCode: owner.household.invite_code });
+  return { owner, member };
+}
+
+test('despesa dividida entra no saldo de cada membro', async () => {
+  const { owner, member } = await couple();
+  const food = await categoryId(owner, 'Alimentação');
+
+  const { status, body } = await owner.api('POST', '/api/expenses', {
+    description: 'Mercado', amount: 100, category_id: food, date: '2026-03-01',
+    split: { type: 'percent', members: [{ user_id: owner.user.id, percent: 60 }, { user_id: member.user.id, percent: 40 }] },
+  });
+  assert.equal(status, 201);
+  const share = (expense, session) => expense.splits.find(s => s.user_id === session.user.id).amount;
+  assert.deepEqual([share(body, owner), share(body, member)], [60, 40]);
+
+  const { body: summary } = await member.api('GET', '/api/settlements');
+  const net = Object.fromEntries(summary.balances.map(b => [b.user_id, b.net]));
+  assert.deepEqual(net, { [owner.user.id]: 40, [member.user.id]: -40 });
+  assert.deepEqual(summary.transfers.map(t => [t.from_user_id, t.to_user_id, t.amount]),
+    [[member.user.id, owner.user.id, 40]]);
+
+  // Novo valor sem nova divisão: as cotas acompanham os percentuais
+  await owner.api('PUT', `/api/expenses/${body.id}`, { amount: 50 });
+  const rescaled = (await owner.api('GET', `/api/expenses/${body.id}`)).body;
+  assert.equal(share(rescaled, member), 20);
+
+  const invalid = await owner.api('PUT', `/api/expenses/${body.id}`, {
+    split: { type: 'exact', members: [{ user_id: owner.user.id, amount: 10 }] },
+  });
+  assert.equal(invalid.status, 422);
+});
+
+test('POST e DELETE /api/settlements', async () => {
+  const { owner, member } = await couple();
+  const outsider = await signUp(server.baseUrl);
+
+  await owner.api('POST', '/api/expenses', {
+    description: 'Luz', amount: 80, category_id: await categoryId(owner, 'Moradia'), date: '2026-03-01',
+    split: { type: 'equal', members: [{ user_id: owner.user.id }, { user_id: member.user.id }] },
+  });
+
+  const paid = await member.api('POST', '/api/settlements', {
+    from_user_id: member.user.id, to_user_id: owner.user.id, amount: 40, date: '2026-03-05', note: 'Pix',
+  });
+  assert.equal(paid.status, 201);
+  assert.deepEqual({ amount: paid.body.amount, date: paid.body.date }, { amount: 40, date: '2026-03-05' });
+
+  const { body } = await owner.api('GET', '/api/settlements');
+  assert.ok(body.balances.every(b => b.net === 0));
+  assert.deepEqual(body.transfers, []);
+  assert.deepEqual(body.history.map(h => [h.from_name, h.to_name]), [[member.user.name, owner.user.name]]);
+
+  const foreign = await owner.api('POST', '/api/settlements', {
+    from_user_id: outsider.user.id, to_user_id: owner.user.id, amount: 10,
+  });
+  assert.equal(foreign.status, 422);
+
+  assert.equal((await outsider.api('DELETE', `/api/settlements/${paid.body.id}`)).status, 404);
+  assert.equal((await owner.api('DELETE', `/api/settlements/${paid.body.id}`)).status, 200);
+  assert.equal((await owner.api('GET', '/api/settlements')).body.history.length, 0);
+});
@@ -1,14 +1,31 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   PlusIcon, TrashIcon, ChartBarIcon, ListBulletIcon, 
   WalletIcon, MagnifyingGlassIcon, 
   ArrowPathIcon, CreditCardIcon,
-  ArrowTrendingDownIcon, AdjustmentsHorizontalIcon
+  ArrowTrendingDownIcon, ArrowTrendingUpIcon, AdjustmentsHorizontalIcon, BanknotesIcon,
+  ArrowRightOnRectangleIcon, UserGroupIcon, ArchiveBoxIcon, TagIcon,
+  ShoppingCartIcon, TruckIcon, HomeIcon, BoltIcon, FilmIcon, HeartIcon, AcademicCapIcon,
+  ArrowUpTrayIcon, ExclamationTriangleIcon, ArrowDownTrayIcon, DocumentTextIcon,
+  SparklesIcon, InformationCircleIcon, CheckCircleIcon, CloudArrowUpIcon, SignalSlashIcon,
+  BellIcon, PaperClipIcon, CameraIcon
 } from '@heroicons/react/24/outline';
-import { Expense, Category, BudgetGoal } from './types';
+import {
+  Expense, Category, BudgetGoal, Income, IncomeSource,
+  RecurringFrequency, UpcomingExpense, AuthSession,
+  ImportFormat, ImportOptions, ImportPreview, ImportPreviewRow, CategoryRule, RestoreResult,
+  AIInsight, InsightsResponse, HouseholdBudget, BudgetHistory,
+  AppNotification, NotificationsResponse,
+  Account, AccountType, PaymentMethod, CardStatement, StatementStatus,
+  InstallmentPlan, InstallmentCommitments, SavingsGoal, SpendingForecast,
+  ExpenseFlag, AnomaliesResponse, ExpenseReceipt, TagReportEntry,
+  SplitType, SettlementsResponse, ExpenseSort, StatementFilters, ExpensePage,
+  SyncEntity, PendingMutation, SyncConflict, ChangeFeed
+} from './types';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell
 } from 'recharts';
+import { currentMonth, effectiveFor, totalSpent as sumSpent, categoryData as groupByCategory } from './calculations';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -22,52 +39,760 @@ function formatDateBR(dateStr: string): string {
   return `${d}/${m}/${y}`;
 }
 
+// ─── Helper: fetch autenticado ──────────────────────────────
+// Anexa o token da sessão salva em localStorage a toda chamada
+// à API; o backend restringe os dados à família do usuário.
+function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const session: AuthSession | null = JSON.parse(localStorage.getItem('ecofin_session') || 'null');
+  return fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: {
+      ...(init.headers as Record<string, string> | undefined),
+      ...(session ? { Authorization: `Bearer ${session.token}` } : {})
+    }
+  });
+}
+
+// ─── Helper: download de arquivo autenticado ────────────────
+// Exportações exigem o token, então não dá para usar um link
+// simples: baixa o conteúdo e dispara o download pelo navegador.
+async function downloadFile(path: string, filename: string): Promise<void> {
+  const res = await apiFetch(path);
+  if (!res.ok) throw new Error("Falha ao exportar");
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Mesma normalização do backend: "Viagem 2026" → "viagem-2026"
+function normalizeTag(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+// ─── Fila de sincronização (outbox) ─────────────────────────
+// Toda alteração vira uma operação persistida em localStorage e
+// enviada em ordem. Se a API estiver fora do ar a fila continua
+// salva e é reenviada na reconexão, em vez de se perder.
+const OUTBOX_KEY = 'ecofin_outbox';
+const CONFLICTS_KEY = 'ecofin_conflicts';
+const SYNC_CURSOR_KEY = 'ecofin_sync_cursor';
+
+function loadOutbox(): PendingMutation[] {
+  return JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+}
+
+function saveOutbox(queue: PendingMutation[]) {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(queue));
+}
+
+// Aplica um lote de /api/changes sobre a lista local. Registros
+// com operação pendente na fila mantêm a versão local, para que o
+// servidor não sobrescreva edições ainda não enviadas.
+function mergeChanges<T>(
+  entity: SyncEntity,
+  local: T[],
+  incoming: T[],
+  idOf: (item: T) => string | number,
+  feed: ChangeFeed,
+  pending: Set<string>
+): T[] {
+  const keyOf = (item: T) => `${entity}:${idOf(item)}`;
+  const base = feed.full ? local.filter(item => pending.has(keyOf(item))) : local;
+  const byKey = new Map(base.map(item => [keyOf(item), item]));
+
+  incoming.forEach(item => {
+    if (!pending.has(keyOf(item))) byKey.set(keyOf(item), item);
+  });
+  feed.deleted
+    .filter(d => d.entity === entity && !pending.has(`${entity}:${d.id}`))
+    .forEach(d => byKey.delete(`${entity}:${d.id}`));
+
+  return [...byKey.values()];
+}
+
+// "<entidade>:<id>"; o id dos orçamentos também contém ":"
+function splitKey(key: string): [string, string] {
+  const i = key.indexOf(':');
+  return [key.slice(0, i), key.slice(i + 1)];
+}
+
+// --- Orçamentos por período ---
+function shiftMonth(month: string, delta: number): string {
+  const [y, m] = month.split('-').map(Number);
+  const t = y * 12 + (m - 1) + delta;
+  return `${Math.floor(t / 12)}-${String((t % 12) + 1).padStart(2, '0')}`;
+}
+
+function formatMonth(month: string): string {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString('pt-BR', { month: 'short', year: '2-digit' });
+}
+
+const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+// "80, 100" → [80, 100]; valores fora de 1–500 são descartados
+function parseThresholds(text: string): number[] {
+  const values = text.split(/[,;\s]+/).map(v => parseInt(v, 10)).filter(v => v >= 1 && v <= 500);
+  return [...new Set(values)].sort((a, b) => a - b).slice(0, 5);
+}
+
+const budgetId = (b: BudgetGoal) => `${b.category_id}:${b.effective_month ?? ''}`;
+
+const byDateDesc = (a: { date: string }, b: { date: string }) => b.date.localeCompare(a.date);
+
+// Pai antes dos filhos, como em GET /api/categories
+function sortCategories(list: Category[]): Category[] {
+  const rank = (c: Category) => [c.parent_id ?? c.id, c.parent_id === null ? 0 : 1] as const;
+  return [...list].sort((a, b) => {
+    const [ra, rb] = [rank(a), rank(b)];
+    return ra[0] - rb[0] || ra[1] - rb[1] || a.name.localeCompare(b.name);
+  });
+}
+
+// Nomes de ícone gravados em categories.icon → componente heroicons
+const CATEGORY_ICONS: Record<string, React.ComponentType<React.SVGProps<SVGSVGElement>>> = {
+  'shopping-cart': ShoppingCartIcon,
+  'truck': TruckIcon,
+  'home': HomeIcon,
+  'bolt': BoltIcon,
+  'film': FilmIcon,
+  'heart': HeartIcon,
+  'academic-cap': AcademicCapIcon,
+  'tag': TagIcon
+};
+
+type View = 'dashboard' | 'list' | 'budgets' | 'goals' | 'accounts' | 'import';
+
+const VIEW_LABELS: Record<View, string> = {
+  dashboard: 'Visão Geral',
+  list: 'Transações',
+  budgets: 'Orçamentos',
+  goals: 'Metas',
+  accounts: 'Contas',
+  import: 'Importar'
+};
+
+// Padrão dos extratos CSV dos bancos brasileiros
+const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+  delimiter: ';',
+  decimalComma: true,
+  dateFormat: 'dd/mm/yyyy',
+  hasHeader: true,
+  sign: 'negative'
+};
+
+// Linha da prévia com a marcação "importar" editável
+type ImportRow = ImportPreviewRow & { include: boolean };
+
+// Cores e ícone de cada severidade dos cards de insight
+const SEVERITY_STYLES: Record<AIInsight['severity'], { card: string, icon: string, Icon: React.ComponentType<React.SVGProps<SVGSVGElement>> }> = {
+  high: { card: 'bg-red-50 border-red-100', icon: 'text-red-500', Icon: ExclamationTriangleIcon },
+  medium: { card: 'bg-amber-50 border-amber-100', icon: 'text-amber-500', Icon: InformationCircleIcon },
+  low: { card: 'bg-emerald-50 border-emerald-100', icon: 'text-emerald-500', Icon: CheckCircleIcon }
+};
+
+const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  monthly: 'Mensal',
+  weekly: 'Semanal',
+  yearly: 'Anual'
+};
+
+const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Conta corrente',
+  cash: 'Dinheiro',
+  credit_card: 'Cartão de crédito'
+};
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: 'Pix',
+  debit: 'Débito',
+  credit: 'Crédito',
+  cash: 'Dinheiro',
+  transfer: 'Transferência',
+  boleto: 'Boleto'
+};
+
+const STATEMENT_STATUS_STYLES: Record<StatementStatus, { label: string, badge: string }> = {
+  open: { label: 'Aberta', badge: 'bg-slate-100 text-slate-500' },
+  closed: { label: 'Fechada', badge: 'bg-amber-50 text-amber-600' },
+  overdue: { label: 'Vencida', badge: 'bg-red-50 text-red-500' },
+  paid: { label: 'Paga', badge: 'bg-emerald-50 text-emerald-600' }
+};
+
+const SPLIT_TYPE_LABELS: Record<SplitType, string> = {
+  equal: 'Partes iguais',
+  percent: 'Percentual',
+  exact: 'Valores exatos'
+};
+
+// Nomes das séries do gráfico de categorias no tooltip
+const SORT_LABELS: Record<ExpenseSort, string> = {
+  date: 'Data',
+  amount: 'Valor',
+  description: 'Descrição',
+};
+
+const DEFAULT_STATEMENT_FILTERS: StatementFilters = {
+  categories: [], minAmount: '', maxAmount: '', recurring: '', sort: 'date', dir: 'desc',
+};
+
+// Query string do extrato, compartilhada pela listagem e pela
+// exportação. "#tag" na busca vira o filtro de tag.
+function statementParams(filters: StatementFilters, searchTerm: string): URLSearchParams {
+  const params = new URLSearchParams({ sort: filters.sort, dir: filters.dir });
+  const term = searchTerm.trim();
+  if (term.startsWith('#')) params.set('tag', normalizeTag(term.slice(1)));
+  else if (term) params.set('search', term);
+  if (filters.categories.length) params.set('category', filters.categories.join(','));
+  if (filters.minAmount) params.set('minAmount', filters.minAmount);
+  if (filters.maxAmount) params.set('maxAmount', filters.maxAmount);
+  if (filters.recurring) params.set('recurring', filters.recurring);
+  return params;
+}
+
+// Mesmos filtros aplicados ao cache local, usado quando o backend
+// não responde.
+function filterStatementLocally(
+  expenses: Expense[], categories: Category[], filters: StatementFilters, searchTerm: string
+): Expense[] {
+  const term = searchTerm.trim().toLowerCase();
+  const parentOf = new Map(categories.map(c => [c.id, c.parent_id ?? null]));
+  const rows = expenses.filter(e => {
+    if (filters.categories.length && !filters.categories.includes(e.category_id)
+      && !filters.categories.includes(parentOf.get(e.category_id) ?? -1)) return false;
+    if (filters.minAmount && e.amount < parseFloat(filters.minAmount)) return false;
+    if (filters.maxAmount && e.amount > parseFloat(filters.maxAmount)) return false;
+    if (filters.recurring && e.isRecurring !== (filters.recurring === 'true')) return false;
+    if (term.startsWith('#')) return (e.tags ?? []).includes(normalizeTag(term.slice(1)));
+    return !term ||
+      e.description.toLowerCase().includes(term) ||
+      e.category.toLowerCase().includes(term) ||
+      (e.payee ?? '').toLowerCase().includes(term);
+  });
+  const sign = filters.dir === 'asc' ? 1 : -1;
+  return rows.sort((a, b) => {
+    const diff = filters.sort === 'amount'
+      ? a.amount - b.amount
+      : a[filters.sort].localeCompare(b[filters.sort]);
+    return sign * (diff || a.id.localeCompare(b.id));
+  });
+}
+
+const CHART_SERIES_LABELS: Record<string, string> = {
+  value: 'Gasto',
+  projected: 'Previsto no mês',
+  limit: 'Orçamento'
+};
+
+const GOAL_STATUS_STYLES: Record<SavingsGoal['status'], { label: string, badge: string, bar: string }> = {
+  on_track: { label: 'No ritmo', badge: 'bg-emerald-50 text-emerald-600', bar: '' },
+  at_risk: { label: 'Em risco', badge: 'bg-red-50 text-red-500', bar: 'bg-red-500' },
+  achieved: { label: 'Atingida', badge: 'bg-emerald-600 text-white', bar: '' }
+};
+
+const EMPTY_GOAL_FORM = { name: '', target_amount: '', deadline: '', initial_amount: '', color: '#10b981' };
+
+const EMPTY_ACCOUNT_FORM = {
+  name: '', type: 'checking' as AccountType, opening_balance: '', credit_limit: '', closing_day: '', due_day: ''
+};
+
+// ─── Tela de Login / Cadastro ───────────────────────────────
+const AuthScreen: React.FC<{ onAuth: (session: AuthSession) => void }> = ({ onAuth }) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [householdName, setHouseholdName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [error, setError] = useState('');
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const payload = mode === 'login'
+      ? { email, password }
+      : {
+          name, email, password,
+          ...(inviteCode ? { inviteCode } : {}),
+          ...(householdName && !inviteCode ? { householdName } : {})
+        };
+
+    try {
+      const res = await fetch(`${API_URL}/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? data.errors?.[0]?.msg ?? 'Não foi possível entrar.');
+        return;
+      }
+      onAuth(data);
+    } catch (e) {
+      setError('Servidor indisponível. Tente novamente em instantes.');
+    }
+  };
+
+  const inputClass = "w-full px-5 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all placeholder:text-slate-300";
+
+  return (
+    <div className="min-h-screen bg-[#f8fafc] flex items-center justify-center px-6 font-sans">
+      <div className="w-full max-w-md bg-white p-10 rounded-[2.5rem] shadow-xl shadow-slate-200/40 border border-slate-100">
+        <div className="flex items-center gap-2 mb-8">
+          <div className="bg-emerald-600 p-2 rounded-xl shadow-lg shadow-emerald-200">
+            <WalletIcon className="w-5 h-5 text-white" />
+          </div>
+          <span className="text-xl font-black tracking-tight text-slate-800">Eco<span className="text-emerald-600">Fin</span></span>
+        </div>
+
+        <div className="grid grid-cols-2 bg-slate-100 p-1 rounded-2xl mb-6">
+          {(['login', 'register'] as const).map(m => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={`py-2 rounded-xl text-sm font-bold transition-all ${mode === m ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {m === 'login' ? 'Entrar' : 'Criar conta'}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={submit} className="space-y-4">
+          {mode === 'register' && (
+            <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Seu nome" className={inputClass} />
+          )}
+          <input type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="E-mail" className={inputClass} />
+          <input type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="Senha (mín. 8 caracteres)" className={inputClass} />
+          {mode === 'register' && (
+            <>
+              <input type="text" value={householdName} onChange={e => setHouseholdName(e.target.value)} placeholder="Nome da família (nova)" disabled={!!inviteCode} className={inputClass} />
+              <input type="text" value={inviteCode} onChange={e => setInviteCode(e.target.value.toUpperCase())} placeholder="Ou código de convite" className={inputClass} />
+            </>
+          )}
+
+          {error && <p className="text-sm font-bold text-red-500 ml-1">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-emerald-600 text-white font-bold py-4 rounded-2xl shadow-lg shadow-emerald-200 hover:bg-emerald-700 transition-all active:scale-[0.98]"
+          >
+            {mode === 'login' ? 'Entrar' : 'Cadastrar'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
 const App: React.FC = () => {
   // --- Estado ---
+  const [session, setSession] = useState<AuthSession | null>(
+    () => JSON.parse(localStorage.getItem('ecofin_session') || 'null')
+  );
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [incomes, setIncomes] = useState<Income[]>([]);
+  const [entryType, setEntryType] = useState<'expense' | 'income'>('expense');
+  const [incomeSource, setIncomeSource] = useState<IncomeSource>(IncomeSource.SALARY);
   const [budgetGoals, setBudgetGoals] = useState<BudgetGoal[]>([]);
+  const [householdBudgets, setHouseholdBudgets] = useState<HouseholdBudget[]>([]);
+  const [budgetMonth, setBudgetMonth] = useState(currentMonth);
+  const [budgetHistory, setBudgetHistory] = useState<BudgetHistory | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [newCategoryName, setNewCategoryName] = useState('');
+  const [newCategoryColor, setNewCategoryColor] = useState('#10b981');
+  const [newCategoryParent, setNewCategoryParent] = useState<number | ''>('');
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
-  const [category, setCategory] = useState<Category>(Category.FOOD);
+  const [categoryId, setCategoryId] = useState<number | ''>('');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [payee, setPayee] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  const [notes, setNotes] = useState('');
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [splitEnabled, setSplitEnabled] = useState(false);
+  const [splitType, setSplitType] = useState<SplitType>('equal');
+  const [splitMembers, setSplitMembers] = useState<string[]>([]);
+  const [splitValues, setSplitValues] = useState<Record<string, string>>({});
+  const [paidBy, setPaidBy] = useState('');
+  const [settlements, setSettlements] = useState<SettlementsResponse | null>(null);
+  const [tagReport, setTagReport] = useState<TagReportEntry[]>([]);
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [isInstallment, setIsInstallment] = useState(false);
+  const [installmentCount, setInstallmentCount] = useState('10');
+  const [installmentPlans, setInstallmentPlans] = useState<InstallmentPlan[]>([]);
+  const [commitments, setCommitments] = useState<InstallmentCommitments | null>(null);
+  const [forecast, setForecast] = useState<SpendingForecast | null>(null);
+  const [expenseFlags, setExpenseFlags] = useState<ExpenseFlag[]>([]);
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [newGoal, setNewGoal] = useState(EMPTY_GOAL_FORM);
+  const [goalError, setGoalError] = useState('');
+  const [contributionDrafts, setContributionDrafts] = useState<Record<number, string>>({});
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState<number | ''>('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | ''>('');
+  const [newAccount, setNewAccount] = useState(EMPTY_ACCOUNT_FORM);
+  const [accountError, setAccountError] = useState('');
+  const [statements, setStatements] = useState<Record<number, CardStatement[]>>({});
+  const [payFromAccount, setPayFromAccount] = useState<number | ''>('');
+  const [importAccount, setImportAccount] = useState<number | ''>('');
+  const [frequency, setFrequency] = useState<RecurringFrequency>('monthly');
+  const [upcoming, setUpcoming] = useState<UpcomingExpense[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [statementFilters, setStatementFilters] = useState<StatementFilters>(DEFAULT_STATEMENT_FILTERS);
+  const [statementRows, setStatementRows] = useState<Expense[]>([]);
+  const [statementTotal, setStatementTotal] = useState(0);
+  const [statementCursor, setStatementCursor] = useState<string | null>(null);
+  const [isLoadingStatement, setIsLoadingStatement] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [view, setView] = useState<'dashboard' | 'list' | 'budgets'>('dashboard');
+  const [view, setView] = useState<View>('dashboard');
+  const [importFileName, setImportFileName] = useState('');
+  const [importContent, setImportContent] = useState('');
+  const [importFormat, setImportFormat] = useState<ImportFormat>('csv');
+  const [importOptions, setImportOptions] = useState<ImportOptions>(DEFAULT_IMPORT_OPTIONS);
+  const [importColumns, setImportColumns] = useState({ date: '', description: '', amount: '' });
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importRows, setImportRows] = useState<ImportRow[]>([]);
+  const [importError, setImportError] = useState('');
+  const [restoreResult, setRestoreResult] = useState<RestoreResult | null>(null);
+  const [restoreErrors, setRestoreErrors] = useState<string[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>([]);
+  const [newRulePattern, setNewRulePattern] = useState('');
+  const [newRuleCategory, setNewRuleCategory] = useState<number | ''>('');
+  const [insights, setInsights] = useState<InsightsResponse | null>(null);
+  const [isLoadingInsights, setIsLoadingInsights] = useState(false);
+  const [outbox, setOutbox] = useState<PendingMutation[]>(loadOutbox);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(
+    () => JSON.parse(localStorage.getItem(CONFLICTS_KEY) || '[]')
+  );
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  const [browserNotify, setBrowserNotify] = useState(
+    () => localStorage.getItem('ecofin_browser_notifications') === '1'
+  );
+  const lastNotificationId = useRef<number | null>(null);
+  const statementEnd = useRef<HTMLDivElement | null>(null);
+  const statementRequest = useRef(0);
+  const flushing = useRef(false);
+  const inFlight = useRef<string | null>(null);
+
+  // --- Fila de sincronização ---
+  const updateOutbox = (fn: (queue: PendingMutation[]) => PendingMutation[]) => {
+    const next = fn(loadOutbox());
+    saveOutbox(next);
+    setOutbox(next);
+  };
+
+  // Enfileira uma operação. Duas edições do mesmo registro ainda
+  // não enviadas viram uma só (mantendo a versão em que a primeira
+  // se baseou); excluir algo que nem chegou ao servidor cancela a
+  // criação.
+  const enqueue = (mutation: Omit<PendingMutation, 'id' | 'created_at'>) => {
+    updateOutbox(queue => {
+      const waiting = queue.filter(m => m.key === mutation.key && m.id !== inFlight.current);
+
+      const created = waiting.find(m => m.method === 'POST');
+      if (mutation.method === 'DELETE' && created) {
+        return queue.filter(m => !waiting.includes(m));
+      }
+
+      const same = waiting.find(m => m.method === mutation.method);
+      if (same) {
+        const body = { ...mutation.body, ...(same.body?.version !== undefined ? { version: same.body.version } : {}) };
+        return queue.map(m => m === same ? { ...m, body } : m);
+      }
+
+      return [...queue, { ...mutation, id: crypto.randomUUID(), created_at: new Date().toISOString() }];
+    });
+  };
+
+  const saveConflicts = (fn: (list: SyncConflict[]) => SyncConflict[]) => {
+    setConflicts(prev => {
+      const next = fn(prev);
+      localStorage.setItem(CONFLICTS_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  // Versão devolvida pelo servidor após um PUT aceito
+  const applyVersion = (key: string, version: number) => {
+    const [entity, id] = splitKey(key);
+    if (entity === 'budgets') setBudgetGoals(prev => prev.map(b => budgetId(b) === id ? { ...b, version } : b));
+    if (entity === 'household_budgets') setHouseholdBudgets(prev => prev.map(h => h.effective_month === id ? { ...h, version } : h));
+    if (entity === 'categories') setCategories(prev => prev.map(c => String(c.id) === id ? { ...c, version } : c));
+    if (entity === 'expenses') setExpenses(prev => prev.map(e => e.id === id ? { ...e, version } : e));
+    if (entity === 'incomes') setIncomes(prev => prev.map(i => i.id === id ? { ...i, version } : i));
+    if (entity === 'installments') setInstallmentPlans(prev => prev.map(p => p.id === id ? { ...p, version } : p));
+  };
+
+  // Envia a fila em ordem. Para no primeiro erro de rede ou 5xx
+  // (tenta de novo depois); 409 vira um conflito para o usuário
+  // decidir; 404 significa que o registro já não existe.
+  const flushOutbox = async (): Promise<boolean> => {
+    if (flushing.current) return false;
+    flushing.current = true;
+    let sent = 0;
+    try {
+      for (let op = loadOutbox()[0]; op; op = loadOutbox()[0]) {
+        inFlight.current = op.id;
+        let res: Response;
+        try {
+          res = await apiFetch(op.path, {
+            method: op.method,
+            headers: op.body ? { 'Content-Type': 'application/json' } : undefined,
+            body: op.body ? JSON.stringify(op.body) : undefined
+          });
+        } catch (e) {
+          return false;
+        }
+
+        if (res.status === 401) {
+          logout();
+          return false;
+        }
+        if (res.status >= 500) return false;
+
+        const data = await res.json().catch(() => null);
+        const version: number | undefined = res.ok ? (data?.version ?? undefined) : undefined;
+
+        if (res.status === 409) {
+          saveConflicts(prev => [...prev, {
+            id: op.id,
+            mutation: op,
+            current: data?.current ?? null,
+            message: data?.error ?? 'Conflito de edição.'
+          }]);
+        } else if (!res.ok && res.status !== 404) {
+          console.error(`Operação rejeitada pelo backend (${res.status}): ${op.label}`);
+        }
+        if (version !== undefined) applyVersion(op.key, version);
+        sent++;
+
+        // Edições do mesmo registro que chegaram enquanto esta estava
+        // em voo passam a se basear na nova versão.
+        updateOutbox(queue => queue
+          .filter(m => m.id !== op.id)
+          .map(m => version !== undefined && m.key === op.key && m.body?.version !== undefined
+            ? { ...m, body: { ...m.body, version } }
+            : m));
+      }
+      return true;
+    } finally {
+      inFlight.current = null;
+      flushing.current = false;
+      // Despesas enviadas podem ter disparado alertas de orçamento
+      if (sent) fetchNotifications();
+    }
+  };
+
+  // Incorpora o feed /api/changes ao estado local
+  const applyChanges = (feed: ChangeFeed) => {
+    const pending = new Set(loadOutbox().map(m => m.key));
+
+    setExpenses(prev => mergeChanges('expenses', prev, feed.expenses, e => e.id, feed, pending).sort(byDateDesc));
+    setIncomes(prev => mergeChanges('incomes', prev, feed.incomes, i => i.id, feed, pending).sort(byDateDesc));
+    setCategories(prev => sortCategories(mergeChanges('categories', prev, feed.categories, c => c.id, feed, pending)));
+    setInstallmentPlans(prev => mergeChanges('installments', prev, feed.installments ?? [], p => p.id, feed, pending));
+    setBudgetGoals(prev => mergeChanges(
+      'budgets', prev,
+      feed.budgets.map(b => ({
+        category_id: b.category_id,
+        limit: b.monthly_limit,
+        effective_month: b.effective_month,
+        rollover: b.rollover,
+        alert_thresholds: b.alert_thresholds,
+        version: b.version
+      })),
+      budgetId, feed, pending
+    ));
+    setHouseholdBudgets(prev => mergeChanges(
+      'household_budgets', prev,
+      feed.household_budgets.map(h => ({
+        effective_month: h.effective_month,
+        limit: h.monthly_limit,
+        rollover: h.rollover,
+        alert_thresholds: h.alert_thresholds,
+        version: h.version
+      })),
+      h => h.effective_month, feed, pending
+    ));
+
+    localStorage.setItem(SYNC_CURSOR_KEY, feed.server_time);
+  };
 
   // --- Sincronização com Node.js API ---
   const fetchData = async () => {
     setIsSyncing(true);
     try {
-      const expRes = await fetch(`${API_URL}/expenses`);
-      const budRes = await fetch(`${API_URL}/budgets`);
+      // Envia as alterações pendentes antes de ler o servidor
+      await flushOutbox();
 
-      if (expRes.ok && budRes.ok) {
-        const expData = await expRes.json();
-        const budData = await budRes.json();
+      // Gera as ocorrências recorrentes vencidas antes de listar
+      await apiFetch(`/recurring/materialize`, { method: 'POST' });
 
-        setExpenses(expData.data ?? expData);
+      const cursor = localStorage.getItem(SYNC_CURSOR_KEY);
+      const changesRes = await apiFetch(`/changes${cursor ? `?since=${encodeURIComponent(cursor)}` : ''}`);
 
-        setBudgetGoals(budData.map((b: any) => ({
-          category: b.category,
-          limit: b.monthly_limit
-        })));
-      } else {
-        throw new Error("Backend offline");
+      if (changesRes.status === 401) {
+        logout();
+        return;
       }
+      if (!changesRes.ok) throw new Error("Backend offline");
+
+      applyChanges(await changesRes.json());
+
+      fetchNotifications();
+      fetchAccounts();
+      fetchGoals();
+      fetchAnomalies();
+
+      const upRes = await apiFetch(`/recurring/upcoming`);
+      const rulesRes = await apiFetch(`/category-rules`);
+      const commitmentsRes = await apiFetch(`/reports/installments?months=6`);
+      const forecastRes = await apiFetch(`/reports/forecast?rollup=1`);
+      const tagsRes = await apiFetch(`/reports/tags`);
+      const settlementsRes = await apiFetch(`/settlements`);
+      if (upRes.ok) setUpcoming(await upRes.json());
+      if (rulesRes.ok) setCategoryRules(await rulesRes.json());
+      if (commitmentsRes.ok) setCommitments(await commitmentsRes.json());
+      if (forecastRes.ok) setForecast(await forecastRes.json());
+      if (tagsRes.ok) setTagReport(await tagsRes.json());
+      if (settlementsRes.ok) setSettlements(await settlementsRes.json());
     } catch (error) {
       console.warn("Usando armazenamento local (Backend não detectado)");
       const savedExp = localStorage.getItem('ecofin_expenses');
       const savedBud = localStorage.getItem('ecofin_budgets');
+      const savedHouseholdBud = localStorage.getItem('ecofin_household_budgets');
+      const savedInc = localStorage.getItem('ecofin_incomes');
+      const savedCat = localStorage.getItem('ecofin_categories');
+      const savedAcc = localStorage.getItem('ecofin_accounts');
+      const savedPlans = localStorage.getItem('ecofin_installments');
+      const savedGoals = localStorage.getItem('ecofin_goals');
       if (savedExp) setExpenses(JSON.parse(savedExp));
       if (savedBud) setBudgetGoals(JSON.parse(savedBud));
+      if (savedHouseholdBud) setHouseholdBudgets(JSON.parse(savedHouseholdBud));
+      if (savedInc) setIncomes(JSON.parse(savedInc));
+      if (savedCat) setCategories(JSON.parse(savedCat));
+      if (savedAcc) setAccounts(JSON.parse(savedAcc));
+      if (savedPlans) setInstallmentPlans(JSON.parse(savedPlans));
+      if (savedGoals) setGoals(JSON.parse(savedGoals));
     } finally {
       setIsSyncing(false);
     }
   };
 
+  // Reenvia a fila assim que a conexão volta
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      if (session) fetchData();
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [session]);
+
+  // Insights podem demorar (provedor externo): carregados à parte,
+  // sem segurar o restante do painel.
+  const fetchInsights = async (refresh = false) => {
+    setIsLoadingInsights(true);
+    try {
+      const month = new Date().toISOString().slice(0, 7);
+      const res = await apiFetch(`/insights?month=${month}${refresh ? '&refresh=1' : ''}`);
+      if (res.ok) setInsights(await res.json());
+    } catch (e) {
+      console.warn("Insights indisponíveis (Backend não detectado)");
+    } finally {
+      setIsLoadingInsights(false);
+    }
+  };
+
   useEffect(() => {
-    fetchData();
-  }, []);
+    if (session) {
+      fetchData();
+      fetchInsights();
+    }
+  }, [session]);
+
+  // --- Extrato paginado ---
+  // Filtros, ordenação e paginação ficam no servidor; sem conexão o
+  // extrato cai para o cache local com os mesmos filtros. Respostas
+  // de uma busca anterior são descartadas pelo contador.
+  const fetchStatement = async (cursor: string | null = null) => {
+    const request = cursor ? statementRequest.current : ++statementRequest.current;
+    setIsLoadingStatement(true);
+    try {
+      const params = statementParams(statementFilters, searchTerm);
+      if (cursor) params.set('cursor', cursor);
+      const res = await apiFetch(`/expenses?${params}`);
+      if (!res.ok) throw new Error("Falha ao carregar extrato");
+      const page: ExpensePage = await res.json();
+      if (request !== statementRequest.current) return;
+      setStatementRows(prev => cursor ? [...prev, ...page.data] : page.data);
+      setStatementTotal(page.total);
+      setStatementCursor(page.next_cursor);
+    } catch (e) {
+      if (request !== statementRequest.current) return;
+      const rows = filterStatementLocally(expenses, categories, statementFilters, searchTerm);
+      setStatementRows(rows);
+      setStatementTotal(rows.length);
+      setStatementCursor(null);
+    } finally {
+      if (request === statementRequest.current) setIsLoadingStatement(false);
+    }
+  };
+
+  // Recarrega a primeira página quando os filtros mudam (a busca
+  // espera a digitação parar) ou quando despesas entram e saem.
+  useEffect(() => {
+    if (!session || view !== 'list') return;
+    const timer = setTimeout(() => fetchStatement(), 300);
+    return () => clearTimeout(timer);
+  }, [session, view, statementFilters, searchTerm, expenses.length]);
+
+  // Rolagem infinita: busca a próxima página quando o fim da
+  // tabela aparece na tela.
+  useEffect(() => {
+    const sentinel = statementEnd.current;
+    if (!sentinel || !statementCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting && !isLoadingStatement) fetchStatement(statementCursor);
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [statementCursor, isLoadingStatement]);
+
+  // Edições locais (comprovante anexado, versão nova) aparecem nas
+  // linhas já carregadas sem esperar outra consulta; exclusões ainda
+  // na fila somem na hora.
+  const visibleStatement = useMemo(() => {
+    const byId = new Map(expenses.map(e => [e.id, e]));
+    const removing = new Set<string>(
+      outbox.filter(m => m.method === 'DELETE' && m.key.startsWith('expenses:')).map(m => splitKey(m.key)[1])
+    );
+    return statementRows.filter(row => !removing.has(row.id)).map(row => byId.get(row.id) ?? row);
+  }, [statementRows, expenses, outbox]);
+
+  const toggleStatementCategory = (id: number) => {
+    setStatementFilters(prev => ({
+      ...prev,
+      categories: prev.categories.includes(id)
+        ? prev.categories.filter(c => c !== id)
+        : [...prev.categories, id],
+    }));
+  };
 
   useEffect(() => {
     localStorage.setItem('ecofin_expenses', JSON.stringify(expenses));
@@ -77,80 +802,1015 @@ const App: React.FC = () => {
     localStorage.setItem('ecofin_budgets', JSON.stringify(budgetGoals));
   }, [budgetGoals]);
 
+  useEffect(() => {
+    localStorage.setItem('ecofin_household_budgets', JSON.stringify(householdBudgets));
+  }, [householdBudgets]);
+
+  useEffect(() => {
+    localStorage.setItem('ecofin_incomes', JSON.stringify(incomes));
+  }, [incomes]);
+
+  useEffect(() => {
+    localStorage.setItem('ecofin_categories', JSON.stringify(categories));
+  }, [categories]);
+
+  useEffect(() => {
+    localStorage.setItem('ecofin_accounts', JSON.stringify(accounts));
+  }, [accounts]);
+
+  useEffect(() => {
+    localStorage.setItem('ecofin_installments', JSON.stringify(installmentPlans));
+  }, [installmentPlans]);
+
+  useEffect(() => {
+    localStorage.setItem('ecofin_goals', JSON.stringify(goals));
+  }, [goals]);
+
+  // Seleciona a primeira categoria ativa quando a lista chega
+  // ou quando a selecionada é arquivada.
+  useEffect(() => {
+    const active = categories.filter(c => !c.archived);
+    if (!active.some(c => c.id === categoryId)) setCategoryId(active[0]?.id ?? '');
+  }, [categories]);
+
+  // --- Sessão ---
+  const login = (newSession: AuthSession) => {
+    localStorage.setItem('ecofin_session', JSON.stringify(newSession));
+    setSession(newSession);
+  };
+
+  // Limpa também o cache local para não expor os dados da família
+  // ao próximo usuário do navegador.
+  const logout = () => {
+    // A fila também sai: com o token de outro usuário ela seria
+    // enviada para outra família.
+    ['ecofin_session', 'ecofin_expenses', 'ecofin_budgets', 'ecofin_household_budgets', 'ecofin_incomes',
+      'ecofin_categories', 'ecofin_accounts', 'ecofin_installments', 'ecofin_goals', OUTBOX_KEY, CONFLICTS_KEY, SYNC_CURSOR_KEY]
+      .forEach(key => localStorage.removeItem(key));
+    setSession(null);
+    setExpenses([]);
+    setIncomes([]);
+    setBudgetGoals([]);
+    setHouseholdBudgets([]);
+    setBudgetHistory(null);
+    setCategories([]);
+    setAccounts([]);
+    setStatements({});
+    setInstallmentPlans([]);
+    setCommitments(null);
+    setForecast(null);
+    setExpenseFlags([]);
+    setTagReport([]);
+    setSettlements(null);
+    setStatementFilters(DEFAULT_STATEMENT_FILTERS);
+    setStatementRows([]);
+    setStatementTotal(0);
+    setStatementCursor(null);
+    setSearchTerm('');
+    setGoals([]);
+    setContributionDrafts({});
+    setUpcoming([]);
+    setCategoryRules([]);
+    setInsights(null);
+    setOutbox([]);
+    setConflicts([]);
+    setNotifications([]);
+    setUnreadCount(0);
+    lastNotificationId.current = null;
+    resetImport();
+  };
+
   // --- Ações ---
   const addExpense = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!description || !amount) return;
+    if (!description || !amount || categoryId === '') return;
+    if (isInstallment && !(parseInt(installmentCount) >= 2 && parseInt(installmentCount) <= 72)) return;
 
+    const tags = [...new Set<string>(tagsInput.split(',').map(normalizeTag).filter(Boolean))];
+    const split = splitEnabled && splitMembers.length > 0
+      ? {
+          type: splitType,
+          members: splitMembers.map(id => ({
+            user_id: id,
+            ...(splitType === 'percent' ? { percent: parseFloat(splitValues[id] || '0') } : {}),
+            ...(splitType === 'exact' ? { amount: parseFloat(splitValues[id] || '0') } : {})
+          }))
+        }
+      : null;
     const newExpense: Expense = {
       id: crypto.randomUUID(),
       description,
+      payee: payee.trim() || null,
+      notes: notes.trim() || null,
+      tags,
+      ...(split ? { paid_by: paidBy || session?.user.id, split_type: split.type } : {}),
       amount: parseFloat(amount),
-      category,
+      category_id: categoryId,
+      category: categories.find(c => c.id === categoryId)?.name ?? '',
+      account_id: accountId === '' ? null : accountId,
+      ...(paymentMethod ? { payment_method: paymentMethod } : {}),
       date,
-      isRecurring: false
+      isRecurring
     };
 
-    setExpenses(prev => [newExpense, ...prev]);
     setDescription('');
     setAmount('');
+    setPayee('');
+    setTagsInput('');
+    setNotes('');
+    setReceiptFile(null);
+    setSplitEnabled(false);
+    setSplitValues({});
+
+    // Parcelado: o backend cria o plano e uma despesa por parcela;
+    // elas chegam na próxima sincronização.
+    if (isInstallment) {
+      setIsInstallment(false);
+      const planId = crypto.randomUUID();
+      enqueue({
+        method: 'POST',
+        path: `/installments`,
+        body: {
+          id: planId,
+          description: newExpense.description,
+          total_amount: newExpense.amount,
+          installments: parseInt(installmentCount),
+          category_id: categoryId,
+          first_date: date,
+          account_id: newExpense.account_id,
+          ...(paymentMethod ? { payment_method: paymentMethod } : {})
+        },
+        key: `installments:${planId}`,
+        label: `Parcelamento "${newExpense.description}"`
+      });
+      await fetchData();
+      return;
+    }
+
+    // Recorrente: o backend cria a regra e gera as ocorrências
+    // vencidas; elas aparecem na próxima sincronização.
+    if (isRecurring) {
+      setIsRecurring(false);
+      const ruleId = crypto.randomUUID();
+      enqueue({
+        method: 'POST',
+        path: `/recurring`,
+        body: {
+          id: ruleId,
+          description: newExpense.description,
+          amount: newExpense.amount,
+          category_id: categoryId,
+          frequency,
+          start_date: date
+        },
+        key: `recurring:${ruleId}`,
+        label: `Recorrência "${newExpense.description}"`
+      });
+      await fetchData();
+      return;
+    }
 
+    setExpenses(prev => [newExpense, ...prev]);
+    enqueue({
+      method: 'POST',
+      path: `/expenses`,
+      body: { ...newExpense, ...(split ? { split } : {}) },
+      key: `expenses:${newExpense.id}`,
+      label: `Despesa "${newExpense.description}"`
+    });
+    await flushOutbox();
+    if (split) fetchSettlements();
+
+    // O comprovante só sobe com a despesa já no servidor
+    if (receiptFile) {
+      const ok = await uploadReceipt(newExpense.id, receiptFile);
+      if (!ok) alert("Despesa salva, mas o comprovante não foi enviado. Anexe-o pelo extrato quando estiver online.");
+    }
+  };
+
+  // --- Divisão e acertos ---
+  const fetchSettlements = async () => {
     try {
-      await fetch(`${API_URL}/expenses`, {
+      const res = await apiFetch(`/settlements`);
+      if (res.ok) setSettlements(await res.json());
+    } catch (e) { console.warn("Acertos indisponíveis (Backend não detectado)"); }
+  };
+
+  const memberName = (id: string | null | undefined) =>
+    settlements?.balances.find(b => b.user_id === id)?.name ?? 'Membro';
+
+  const toggleSplitMember = (id: string) => {
+    setSplitMembers(prev => prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]);
+  };
+
+  const recordSettlement = async (transfer: SettlementsResponse['transfers'][number]) => {
+    if (!confirm(`Registrar que ${transfer.from_name} pagou R$ ${transfer.amount.toFixed(2)} a ${transfer.to_name}?`)) return;
+    try {
+      const res = await apiFetch(`/settlements`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newExpense)
+        body: JSON.stringify({ from_user_id: transfer.from_user_id, to_user_id: transfer.to_user_id, amount: transfer.amount })
       });
-    } catch (e) { console.error("Erro ao sincronizar com Node.js"); }
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || "Não foi possível registrar o acerto.");
+        return;
+      }
+      await fetchSettlements();
+    } catch (e) {
+      alert("Sem conexão com o servidor: tente registrar o acerto mais tarde.");
+    }
+  };
+
+  const removeSettlement = async (id: number) => {
+    try {
+      const res = await apiFetch(`/settlements/${id}`, { method: 'DELETE' });
+      if (res.ok) await fetchSettlements();
+    } catch (e) {
+      alert("Sem conexão com o servidor: tente novamente mais tarde.");
+    }
+  };
+
+  // --- Comprovantes ---
+  // O arquivo vai como corpo da requisição (foto da câmera ou PDF)
+  const uploadReceipt = async (expenseId: string, file: File) => {
+    try {
+      const res = await apiFetch(`/expenses/${expenseId}/receipts?filename=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file
+      });
+      if (!res.ok) return false;
+      setExpenses(prev => prev.map(e => e.id === expenseId ? { ...e, receipt_count: (e.receipt_count ?? 0) + 1 } : e));
+      return true;
+    } catch (e) {
+      return false;
+    }
+  };
+
+  const attachReceipt = async (exp: Expense, file: File | undefined) => {
+    if (!file) return;
+    if (!await uploadReceipt(exp.id, file)) alert("Não foi possível enviar o comprovante (imagem ou PDF de até 5 MB).");
+  };
+
+  // Abre o comprovante mais recente numa nova aba (a rota exige o token)
+  const openReceipt = async (exp: Expense) => {
+    try {
+      const listRes = await apiFetch(`/expenses/${exp.id}/receipts`);
+      if (!listRes.ok) throw new Error();
+      const receipts: ExpenseReceipt[] = await listRes.json();
+      const latest = receipts[receipts.length - 1];
+      if (!latest) return;
+      const fileRes = await apiFetch(`/expenses/${exp.id}/receipts/${latest.id}`);
+      if (!fileRes.ok) throw new Error();
+      window.open(URL.createObjectURL(await fileRes.blob()), '_blank');
+    } catch (e) {
+      alert("Não foi possível abrir o comprovante.");
+    }
+  };
+
+  const addIncome = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!description || !amount) return;
+
+    const newIncome: Income = {
+      id: crypto.randomUUID(),
+      description,
+      amount: parseFloat(amount),
+      source: incomeSource,
+      account_id: accountId === '' ? null : accountId,
+      date
+    };
+
+    setIncomes(prev => [newIncome, ...prev]);
+    setDescription('');
+    setAmount('');
+
+    enqueue({
+      method: 'POST',
+      path: `/incomes`,
+      body: { ...newIncome },
+      key: `incomes:${newIncome.id}`,
+      label: `Receita "${newIncome.description}"`
+    });
+    flushOutbox();
+  };
+
+  const removeIncome = async (id: string) => {
+    const income = incomes.find(i => i.id === id);
+    setIncomes(prev => prev.filter(i => i.id !== id));
+    enqueue({
+      method: 'DELETE',
+      path: `/incomes/${id}`,
+      key: `incomes:${id}`,
+      label: `Remover receita "${income?.description ?? id}"`
+    });
+    flushOutbox();
   };
 
   const removeExpense = async (id: string) => {
+    const expense = expenses.find(e => e.id === id);
     setExpenses(prev => prev.filter(e => e.id !== id));
+    enqueue({
+      method: 'DELETE',
+      path: `/expenses/${id}`,
+      key: `expenses:${id}`,
+      label: `Remover despesa "${expense?.description ?? id}"`
+    });
+    flushOutbox();
+  };
+
+  // Edita o orçamento a partir do mês selecionado. Se o período
+  // vigente começou antes, nasce um período novo e os meses
+  // anteriores mantêm o limite antigo. A versão só vai junto quando
+  // o período editado é o do próprio mês: se outro membro da família
+  // o alterou nesse meio-tempo, o backend aponta conflito.
+  type BudgetChanges = Partial<Pick<BudgetGoal, 'limit' | 'rollover' | 'alert_thresholds'>>;
+
+  const updateBudget = async (catId: number, changes: BudgetChanges) => {
+    const current = effectiveFor<BudgetGoal>(budgetGoals.filter(b => b.category_id === catId), budgetMonth);
+    const samePeriod = current?.effective_month === budgetMonth;
+    const next: BudgetGoal = {
+      category_id: catId,
+      limit: changes.limit ?? current?.limit ?? 0,
+      effective_month: budgetMonth,
+      rollover: changes.rollover ?? current?.rollover ?? false,
+      alert_thresholds: changes.alert_thresholds ?? current?.alert_thresholds ?? DEFAULT_ALERT_THRESHOLDS,
+      version: samePeriod ? current?.version : undefined
+    };
+    setBudgetGoals(prev => samePeriod
+      ? prev.map(b => b === current ? next : b)
+      : [...prev, next]);
+
+    enqueue({
+      method: 'PUT',
+      path: `/budgets`,
+      body: {
+        category_id: catId,
+        limit: next.limit,
+        month: budgetMonth,
+        rollover: next.rollover,
+        alert_thresholds: next.alert_thresholds,
+        version: next.version
+      },
+      key: `budgets:${catId}:${budgetMonth}`,
+      label: `Orçamento de ${categories.find(c => c.id === catId)?.name ?? catId} (${formatMonth(budgetMonth)})`
+    });
+    flushOutbox();
+  };
+
+  const updateHouseholdBudget = async (changes: BudgetChanges) => {
+    const current = effectiveFor<HouseholdBudget>(householdBudgets, budgetMonth);
+    const samePeriod = current?.effective_month === budgetMonth;
+    const next: HouseholdBudget = {
+      effective_month: budgetMonth,
+      limit: changes.limit ?? current?.limit ?? 0,
+      rollover: changes.rollover ?? current?.rollover ?? false,
+      alert_thresholds: changes.alert_thresholds ?? current?.alert_thresholds ?? DEFAULT_ALERT_THRESHOLDS,
+      version: samePeriod ? current?.version : undefined
+    };
+    setHouseholdBudgets(prev => samePeriod
+      ? prev.map(h => h === current ? next : h)
+      : [...prev, next]);
+
+    enqueue({
+      method: 'PUT',
+      path: `/budgets/household`,
+      body: {
+        limit: next.limit,
+        month: budgetMonth,
+        rollover: next.rollover,
+        alert_thresholds: next.alert_thresholds,
+        version: next.version
+      },
+      key: `household_budgets:${budgetMonth}`,
+      label: `Orçamento geral (${formatMonth(budgetMonth)})`
+    });
+    flushOutbox();
+  };
+
+  // --- Notificações ---
+  // Notificações do navegador só para as que chegaram depois da
+  // primeira leitura, para não repetir as antigas a cada login.
+  const fetchNotifications = async () => {
     try {
-      await fetch(`${API_URL}/expenses/${id}`, { method: 'DELETE' });
-    } catch (e) { console.error("Erro ao remover do backend"); }
+      const res = await apiFetch(`/notifications?limit=20`);
+      if (!res.ok) return;
+      const data: NotificationsResponse = await res.json();
+      const lastSeen = lastNotificationId.current;
+
+      if (lastSeen !== null && browserNotify && 'Notification' in window && Notification.permission === 'granted') {
+        data.notifications
+          .filter(n => n.id > lastSeen && !n.read)
+          .forEach(n => new Notification(n.title, { body: n.body, tag: `ecofin-${n.id}` }));
+      }
+      lastNotificationId.current = Math.max(lastSeen ?? 0, ...data.notifications.map(n => n.id));
+      setNotifications(data.notifications);
+      setUnreadCount(data.unread_count);
+    } catch (e) { console.error("Erro ao carregar notificações"); }
   };
 
-  const updateBudget = async (cat: Category, limit: number) => {
-    const newBudgets = [...budgetGoals];
-    const index = newBudgets.findIndex(b => b.category === cat);
-    if (index > -1) {
-      newBudgets[index].limit = limit;
-    } else {
-      newBudgets.push({ category: cat, limit });
+  const markNotificationRead = async (id: number) => {
+    setNotifications(prev => prev.map(n => n.id === id ? { ...n, read: true } : n));
+    setUnreadCount(prev => Math.max(0, prev - 1));
+    try {
+      await apiFetch(`/notifications/${id}/read`, { method: 'POST' });
+    } catch (e) { console.error("Erro ao marcar notificação como lida"); }
+  };
+
+  const markAllNotificationsRead = async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    setUnreadCount(0);
+    try {
+      await apiFetch(`/notifications/read-all`, { method: 'POST' });
+    } catch (e) { console.error("Erro ao marcar notificações como lidas"); }
+  };
+
+  const toggleBrowserNotify = async () => {
+    let enabled = !browserNotify;
+    if (enabled && 'Notification' in window && Notification.permission !== 'granted') {
+      enabled = (await Notification.requestPermission()) === 'granted';
     }
-    setBudgetGoals(newBudgets);
+    localStorage.setItem('ecofin_browser_notifications', enabled ? '1' : '0');
+    setBrowserNotify(enabled);
+  };
 
+  // Limite x realizado dos 6 meses até o mês selecionado
+  const fetchBudgetHistory = async () => {
     try {
-      await fetch(`${API_URL}/budgets`, {
-        method: 'PUT',
+      const res = await apiFetch(`/budgets/history?from=${shiftMonth(budgetMonth, -5)}&to=${budgetMonth}`);
+      if (res.ok) setBudgetHistory(await res.json());
+    } catch (e) { console.error("Erro ao carregar histórico de orçamentos"); }
+  };
+
+  useEffect(() => {
+    if (session && view === 'budgets') fetchBudgetHistory();
+  }, [session, view, budgetMonth, outbox.length]);
+
+  const addCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCategoryName.trim()) return;
+
+    try {
+      const res = await apiFetch(`/categories`, {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ category: cat, limit })
+        body: JSON.stringify({
+          name: newCategoryName.trim(),
+          color: newCategoryColor,
+          parent_id: newCategoryParent === '' ? null : newCategoryParent
+        })
       });
-    } catch (e) { console.error("Erro ao atualizar orçamento no backend"); }
+      if (!res.ok) throw new Error("Falha ao criar categoria");
+      const created: Category = await res.json();
+      setCategories(prev => [...prev, created]);
+      setNewCategoryName('');
+      setNewCategoryParent('');
+    } catch (e) { console.error("Erro ao criar categoria no backend"); }
   };
 
-  // --- Cálculos ---
-  const totalSpent = useMemo(() => expenses.reduce((acc, curr) => acc + curr.amount, 0), [expenses]);
+  const toggleArchiveCategory = async (cat: Category) => {
+    setCategories(prev => prev.map(c => c.id === cat.id ? { ...c, archived: !c.archived } : c));
+    enqueue({
+      method: 'PUT',
+      path: `/categories/${cat.id}`,
+      body: { archived: !cat.archived, version: cat.version },
+      key: `categories:${cat.id}`,
+      label: `${cat.archived ? 'Reativar' : 'Arquivar'} categoria ${cat.name}`
+    });
+    flushOutbox();
+  };
 
-  const categoryData = useMemo(() => {
-    const dataMap: Record<string, { spent: number, limit: number }> = {};
-    Object.values(Category).forEach(cat => {
-      const goal = budgetGoals.find(g => g.category === cat);
-      dataMap[cat] = { spent: 0, limit: goal?.limit || 0 };
+  // --- Compras parceladas ---
+  // Alterações e cancelamentos valem para as parcelas restantes;
+  // as despesas regeradas chegam pela sincronização.
+  const updateInstallmentPlan = async (plan: InstallmentPlan, changes: Partial<Pick<InstallmentPlan, 'description' | 'total_amount' | 'installments' | 'category_id'>>) => {
+    setInstallmentPlans(prev => prev.map(p => p.id === plan.id ? { ...p, ...changes } : p));
+    enqueue({
+      method: 'PUT',
+      path: `/installments/${plan.id}`,
+      body: { ...changes, version: plan.version },
+      key: `installments:${plan.id}`,
+      label: `Alterar parcelamento "${plan.description}"`
     });
-    expenses.forEach(exp => {
-      if (dataMap[exp.category]) dataMap[exp.category].spent += exp.amount;
+    await fetchData();
+  };
+
+  const cancelInstallmentPlan = async (plan: InstallmentPlan) => {
+    const today = new Date().toISOString().split('T')[0];
+    setExpenses(prev => prev.filter(e => e.installment_plan_id !== plan.id || e.date < today));
+    enqueue({
+      method: 'DELETE',
+      path: `/installments/${plan.id}`,
+      key: `installments:${plan.id}`,
+      label: `Cancelar parcelas de "${plan.description}"`
     });
-    return Object.entries(dataMap).map(([name, data]) => ({
-      name,
-      value: data.spent,
-      limit: data.limit,
-      percent: data.limit > 0 ? (data.spent / data.limit) * 100 : 0
-    })).filter(d => d.value > 0 || d.limit > 0);
-  }, [expenses, budgetGoals]);
+    await fetchData();
+  };
+
+  // --- Anomalias ---
+  // A varredura roda no servidor a cada sincronização; aqui só
+  // listamos as sinalizações em aberto e as ações sobre elas.
+  const fetchAnomalies = async () => {
+    try {
+      const res = await apiFetch(`/reports/anomalies`);
+      if (res.ok) setExpenseFlags(((await res.json()) as AnomaliesResponse).flags);
+    } catch (e) { console.warn("Anomalias indisponíveis (Backend não detectado)"); }
+  };
+
+  const dismissFlag = async (flag: ExpenseFlag) => {
+    setExpenseFlags(prev => prev.filter(f => f.id !== flag.id));
+    try {
+      const res = await apiFetch(`/reports/anomalies/${flag.id}/dismiss`, { method: 'POST' });
+      if (!res.ok) throw new Error();
+    } catch (e) {
+      alert("Não foi possível descartar a sinalização.");
+      fetchAnomalies();
+    }
+  };
+
+  // Mantém a despesa lançada primeiro e remove a repetida
+  const mergeDuplicate = async (flag: ExpenseFlag) => {
+    if (!flag.related_expense_id) return;
+    if (!confirm(`Remover "${flag.expense?.description ?? 'despesa'}" e manter o lançamento anterior?`)) return;
+    try {
+      const res = await apiFetch(`/reports/anomalies/${flag.id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keep: flag.related_expense_id })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Não foi possível mesclar as despesas.");
+        return;
+      }
+      setExpenses(prev => prev.filter(e => e.id !== data.removed_id));
+      setExpenseFlags(prev => prev.filter(f => f.expense_id !== data.removed_id && f.related_expense_id !== data.removed_id));
+    } catch (e) {
+      alert("Sem conexão com o servidor: tente mesclar novamente mais tarde.");
+    }
+  };
+
+  // --- Metas de economia ---
+  // Progresso e projeção vêm calculados de /api/goals
+  const fetchGoals = async () => {
+    try {
+      const res = await apiFetch(`/goals`);
+      if (res.ok) setGoals(await res.json());
+    } catch (e) { console.warn("Metas indisponíveis (Backend não detectado)"); }
+  };
+
+  const addGoal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newGoal.name.trim() || !(parseFloat(newGoal.target_amount) > 0)) return;
+    setGoalError('');
+
+    try {
+      const res = await apiFetch(`/goals`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newGoal.name.trim(),
+          target_amount: parseFloat(newGoal.target_amount),
+          deadline: newGoal.deadline || null,
+          color: newGoal.color,
+          initial_amount: parseFloat(newGoal.initial_amount) || 0
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao criar a meta.');
+      setNewGoal(EMPTY_GOAL_FORM);
+      await fetchGoals();
+    } catch (e) {
+      setGoalError(e instanceof Error ? e.message : 'Falha ao criar a meta.');
+    }
+  };
+
+  // Valor negativo resgata da meta
+  const contributeToGoal = async (goal: SavingsGoal) => {
+    const value = parseFloat(contributionDrafts[goal.id] ?? '');
+    if (!value) return;
+
+    try {
+      const res = await apiFetch(`/goals/${goal.id}/contributions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount: value })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao registrar o aporte.');
+      setGoalError('');
+      setContributionDrafts(prev => ({ ...prev, [goal.id]: '' }));
+      setGoals(prev => prev.map(g => g.id === goal.id ? data : g));
+      fetchNotifications();
+    } catch (e) {
+      setGoalError(e instanceof Error ? e.message : 'Falha ao registrar o aporte.');
+    }
+  };
+
+  const removeGoal = async (goal: SavingsGoal) => {
+    try {
+      const res = await apiFetch(`/goals/${goal.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error("Falha ao remover meta");
+      setGoals(prev => prev.filter(g => g.id !== goal.id));
+    } catch (e) { console.error("Erro ao remover meta no backend"); }
+  };
+
+  // --- Contas e cartões ---
+  // Fora do feed de sincronização: saldos e faturas são calculados
+  // no servidor, então as contas são sempre lidas de /api/accounts.
+  const fetchAccounts = async () => {
+    try {
+      const res = await apiFetch(`/accounts`);
+      if (res.ok) setAccounts(await res.json());
+    } catch (e) { console.warn("Contas indisponíveis (Backend não detectado)"); }
+  };
+
+  const fetchStatements = async () => {
+    const cards = accounts.filter(a => a.type === 'credit_card');
+    try {
+      const entries = await Promise.all(cards.map(async card => {
+        const res = await apiFetch(`/accounts/${card.id}/statements`);
+        return [card.id, res.ok ? await res.json() : []] as const;
+      }));
+      setStatements(Object.fromEntries(entries));
+    } catch (e) { console.warn("Faturas indisponíveis (Backend não detectado)"); }
+  };
+
+  useEffect(() => {
+    if (session && view === 'accounts') fetchStatements();
+  }, [session, view, accounts]);
+
+  const addAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newAccount.name.trim()) return;
+    setAccountError('');
+
+    const isCard = newAccount.type === 'credit_card';
+    try {
+      const res = await apiFetch(`/accounts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newAccount.name.trim(),
+          type: newAccount.type,
+          opening_balance: parseFloat(newAccount.opening_balance) || 0,
+          ...(isCard ? {
+            credit_limit: newAccount.credit_limit ? parseFloat(newAccount.credit_limit) : null,
+            closing_day: parseInt(newAccount.closing_day) || null,
+            due_day: parseInt(newAccount.due_day) || null
+          } : {})
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao criar a conta.');
+      setNewAccount(EMPTY_ACCOUNT_FORM);
+      await fetchAccounts();
+    } catch (e) {
+      setAccountError(e instanceof Error ? e.message : 'Falha ao criar a conta.');
+    }
+  };
+
+  const toggleArchiveAccount = async (account: Account) => {
+    try {
+      const res = await apiFetch(`/accounts/${account.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ archived: !account.archived, version: account.version })
+      });
+      if (!res.ok) throw new Error("Falha ao arquivar conta");
+      if (accountId === account.id) setAccountId('');
+      await fetchAccounts();
+    } catch (e) { console.error("Erro ao arquivar conta no backend"); }
+  };
+
+  // Quita o que falta da fatura a partir da conta escolhida
+  const payStatement = async (statement: CardStatement, fromAccountId: number | null) => {
+    try {
+      const res = await apiFetch(`/accounts/${statement.account_id}/statements/${statement.month}/payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from_account_id: fromAccountId })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao pagar a fatura.');
+      setAccountError('');
+      await fetchAccounts();
+    } catch (e) {
+      setAccountError(e instanceof Error ? e.message : 'Falha ao pagar a fatura.');
+    }
+  };
+
+  // --- Conflitos ---
+  // "Manter a minha": reenvia a edição sobre a versão atual do
+  // servidor. "Usar a do servidor": descarta a edição local.
+  const keepMine = (conflict: SyncConflict) => {
+    const body = { ...conflict.mutation.body, version: conflict.current?.version };
+    enqueue({ ...conflict.mutation, body });
+    saveConflicts(prev => prev.filter(c => c.id !== conflict.id));
+    flushOutbox();
+  };
+
+  const acceptServer = (conflict: SyncConflict) => {
+    const current = conflict.current;
+    const [entity, id] = splitKey(conflict.mutation.key);
+    if (!current) {
+      // Excluído em outro dispositivo
+      if (entity === 'budgets') setBudgetGoals(prev => prev.filter(b => budgetId(b) !== id));
+      if (entity === 'household_budgets') setHouseholdBudgets(prev => prev.filter(h => h.effective_month !== id));
+      if (entity === 'categories') setCategories(prev => prev.filter(c => String(c.id) !== id));
+      if (entity === 'expenses') setExpenses(prev => prev.filter(e => e.id !== id));
+      if (entity === 'incomes') setIncomes(prev => prev.filter(i => i.id !== id));
+      if (entity === 'installments') setInstallmentPlans(prev => prev.filter(p => p.id !== id));
+    } else {
+      const period = {
+        effective_month: current.effective_month,
+        limit: current.monthly_limit,
+        rollover: current.rollover,
+        alert_thresholds: current.alert_thresholds,
+        version: current.version
+      };
+      if (entity === 'budgets') {
+        setBudgetGoals(prev => prev.map(b => budgetId(b) === id ? { ...period, category_id: current.category_id } : b));
+      }
+      if (entity === 'household_budgets') {
+        setHouseholdBudgets(prev => prev.map(h => h.effective_month === id ? period : h));
+      }
+      if (entity === 'categories') setCategories(prev => prev.map(c => c.id === current.id ? current as Category : c));
+      if (entity === 'expenses') setExpenses(prev => prev.map(e => e.id === current.id ? current as Expense : e));
+      if (entity === 'incomes') setIncomes(prev => prev.map(i => i.id === current.id ? current as Income : i));
+      if (entity === 'installments') setInstallmentPlans(prev => prev.map(p => p.id === current.id ? current as InstallmentPlan : p));
+    }
+    saveConflicts(prev => prev.filter(c => c.id !== conflict.id));
+  };
+
+  // Valor local x valor do servidor, para exibição
+  const describeConflict = (conflict: SyncConflict): [string, string] => {
+    const body = conflict.mutation.body ?? {};
+    const current = conflict.current ?? {};
+    const [entity] = splitKey(conflict.mutation.key);
+    if (entity === 'budgets' || entity === 'household_budgets') {
+      return [`R$ ${Number(body.limit).toFixed(2)}`, `R$ ${Number(current.monthly_limit).toFixed(2)}`];
+    }
+    if (entity === 'categories' && body.archived !== undefined) {
+      return [body.archived ? 'Arquivada' : 'Ativa', current.archived ? 'Arquivada' : 'Ativa'];
+    }
+    const fields = Object.keys(body).filter(k => k !== 'version');
+    return [
+      fields.map(k => `${k}: ${body[k]}`).join(', '),
+      fields.map(k => `${k}: ${current[k]}`).join(', ')
+    ];
+  };
+
+  // --- Importação de extratos ---
+  const resetImport = () => {
+    setImportFileName('');
+    setImportContent('');
+    setImportPreview(null);
+    setImportRows([]);
+    setImportError('');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    // Muitos bancos ainda exportam em Latin-1: se o UTF-8 gerar
+    // caracteres inválidos, decodifica de novo como windows-1252.
+    const buffer = await file.arrayBuffer();
+    let text = new TextDecoder('utf-8').decode(buffer);
+    if (text.includes('\uFFFD')) text = new TextDecoder('windows-1252').decode(buffer);
+
+    resetImport();
+    setImportFileName(file.name);
+    setImportContent(text);
+    setImportFormat(/\.ofx$/i.test(file.name) || /<OFX>/i.test(text) ? 'ofx' : 'csv');
+  };
+
+  // ─── Backup e restauração ───────────────────────────────────
+  const downloadBackup = async () => {
+    setRestoreErrors([]);
+    try {
+      await downloadFile('/backup', `ecofin-backup-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (e) {
+      setRestoreErrors([e instanceof Error ? e.message : 'Falha ao gerar o backup.']);
+    }
+  };
+
+  // O backend aceita tanto o arquivo de /api/backup quanto as
+  // chaves antigas do localStorage; valida tudo antes de gravar.
+  const restoreBackup = async (body: string) => {
+    setIsRestoring(true);
+    setRestoreResult(null);
+    setRestoreErrors([]);
+    try {
+      const res = await apiFetch(`/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setRestoreErrors(data.errors
+          ? data.errors.map((err: { path: string; msg: string }) => `${err.path}: ${err.msg}`)
+          : [data.error || 'Falha ao restaurar o backup.']);
+        return;
+      }
+      setRestoreResult(data);
+      await fetchData();
+    } catch (e) {
+      setRestoreErrors([e instanceof Error ? e.message : 'Falha ao restaurar o backup.']);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
 
-  const COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#64748b'];
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    await restoreBackup(await file.text());
+  };
+
+  // Envia os dados guardados por versões antigas, que só usavam
+  // o localStorage, para o servidor.
+  const restoreFromLocalStorage = () => {
+    const keys = ['ecofin_expenses', 'ecofin_budgets', 'ecofin_household_budgets', 'ecofin_categories'];
+    const payload = Object.fromEntries(
+      keys.map(key => [key, localStorage.getItem(key)]).filter(([, value]) => value !== null)
+    );
+    if (!Object.keys(payload).length) {
+      setRestoreErrors(['Nenhum dado local encontrado neste navegador.']);
+      return;
+    }
+    restoreBackup(JSON.stringify(payload));
+  };
+
+  // Colunas informadas como número são posições a partir de 1;
+  // texto é o nome do cabeçalho. Em branco, o backend detecta.
+  const previewImport = async () => {
+    if (!importContent) return;
+    setImportError('');
+
+    const columns = Object.fromEntries(
+      (Object.entries(importColumns) as [string, string][])
+        .filter(([, v]) => v.trim())
+        .map(([k, v]) => [k, /^\d+$/.test(v.trim()) ? parseInt(v) - 1 : v.trim()])
+    );
+
+    try {
+      const res = await apiFetch(`/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          format: importFormat,
+          content: importContent,
+          options: importFormat === 'csv' ? { ...importOptions, columns } : undefined
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || data.errors?.[0]?.msg || 'Não foi possível ler o extrato.');
+
+      setImportPreview(data);
+      setImportRows(data.rows.map((r: ImportPreviewRow) => ({ ...r, include: !r.duplicate_of })));
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : 'Não foi possível ler o extrato.');
+    }
+  };
+
+  const updateImportRow = (line: number, changes: Partial<ImportRow>) => {
+    setImportRows(prev => prev.map(r => r.line === line ? { ...r, ...changes } : r));
+  };
+
+  const commitImport = async () => {
+    const rows = importRows.filter(r => r.include);
+    if (!rows.length || rows.some(r => r.category_id === null)) return;
+
+    try {
+      const res = await apiFetch(`/import/commit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rows: rows.map(({ description, amount, category_id, date }) => ({ description, amount, category_id, date })),
+          account_id: importAccount === '' ? null : importAccount
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao importar o extrato.');
+
+      resetImport();
+      await fetchData();
+      setView('list');
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : 'Falha ao importar o extrato.');
+    }
+  };
+
+  const addCategoryRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newRulePattern.trim() || newRuleCategory === '') return;
+
+    try {
+      const res = await apiFetch(`/category-rules`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pattern: newRulePattern.trim(), category_id: newRuleCategory })
+      });
+      if (!res.ok) throw new Error("Falha ao criar regra");
+      const created: CategoryRule = await res.json();
+      setCategoryRules(prev => [...prev, created]);
+      setNewRulePattern('');
+    } catch (e) { console.error("Erro ao criar regra no backend"); }
+  };
+
+  const removeCategoryRule = async (id: number) => {
+    setCategoryRules(prev => prev.filter(r => r.id !== id));
+    try {
+      await apiFetch(`/category-rules/${id}`, { method: 'DELETE' });
+    } catch (e) { console.error("Erro ao remover regra do backend"); }
+  };
+
+  // --- Exportação ---
+  // Usa a mesma busca da lista; o backend aplica os filtros de
+  // GET /api/expenses.
+  const exportStatement = async (format: 'csv' | 'pdf') => {
+    const params = statementParams(statementFilters, searchTerm);
+    params.set('format', format);
+    try {
+      await downloadFile(`/expenses/export?${params}`, `extrato-${new Date().toISOString().slice(0, 10)}.${format}`);
+    } catch (e) { console.error("Erro ao exportar extrato"); }
+  };
+
+  const exportMonthlyReport = async () => {
+    const month = new Date().toISOString().slice(0, 7);
+    try {
+      await downloadFile(`/reports/pdf?month=${month}`, `relatorio-${month}.pdf`);
+    } catch (e) { console.error("Erro ao gerar relatório mensal"); }
+  };
+
+  // --- Cálculos ---
+  const totalSpent = useMemo(() => sumSpent(expenses), [expenses]);
+
+  // Balanço do mês corrente: receitas x despesas e taxa de poupança
+  const monthBalance = useMemo(() => {
+    const month = new Date().toISOString().slice(0, 7);
+    const income = incomes.filter(i => i.date.startsWith(month)).reduce((acc, i) => acc + i.amount, 0);
+    const monthExpenses = expenses.filter(e => e.date.startsWith(month));
+    const spent = monthExpenses.reduce((acc, e) => acc + e.amount, 0);
+    // Compras no cartão vão para a fatura; o resto saiu à vista
+    const cards = new Set(accounts.filter(a => a.type === 'credit_card').map(a => a.id));
+    const cardSpent = monthExpenses
+      .filter(e => e.account_id != null && cards.has(e.account_id))
+      .reduce((acc, e) => acc + e.amount, 0);
+    return {
+      income,
+      spent,
+      cardSpent,
+      cashSpent: spent - cardSpent,
+      balance: income - spent,
+      savingsRate: income > 0 ? ((income - spent) / income) * 100 : null
+    };
+  }, [expenses, incomes, accounts]);
+
+  // Planos com parcelas a vencer, calculados sobre as despesas
+  // locais para refletir na hora as parcelas já sincronizadas.
+  const activePlans = useMemo(() => {
+    const today = new Date().toISOString().split('T')[0];
+    return installmentPlans
+      .filter(plan => !plan.cancelled_at)
+      .map(plan => {
+        const rows = expenses.filter(e => e.installment_plan_id === plan.id);
+        const upcomingRows = rows.filter(e => e.date >= today).sort((a, b) => a.date.localeCompare(b.date));
+        return {
+          plan,
+          paid: rows.length - upcomingRows.length,
+          remaining: upcomingRows.length,
+          remainingAmount: upcomingRows.reduce((acc, e) => acc + e.amount, 0),
+          next: upcomingRows[0]?.date ?? null
+        };
+      })
+      .filter(p => p.remaining > 0);
+  }, [installmentPlans, expenses]);
+
+  // Sinalizações em aberto por despesa sinalizada
+  const flagsByExpense = useMemo(() => {
+    const map: Record<string, ExpenseFlag[]> = {};
+    expenseFlags.forEach(f => { (map[f.expense_id] ??= []).push(f); });
+    return map;
+  }, [expenseFlags]);
+
+  // Faturas ainda não pagas de todos os cartões, por vencimento
+  const upcomingBills = useMemo(() => accounts
+    .flatMap(a => (a.upcoming_bills ?? []).map(bill => ({ ...bill, account: a.name })))
+    .filter(bill => bill.remaining > 0)
+    .sort((a, b) => a.due_date.localeCompare(b.due_date)), [accounts]);
+
+  const categoryData = useMemo(
+    () => groupByCategory(expenses, categories, budgetGoals, forecast),
+    [expenses, budgetGoals, categories, forecast]
+  );
+
+  if (!session) return <AuthScreen onAuth={login} />;
 
   return (
     <div className="min-h-screen bg-[#f8fafc] text-slate-900 pb-12 font-sans selection:bg-emerald-100">
@@ -165,26 +1825,148 @@ const App: React.FC = () => {
           </div>
 
           <nav className="hidden md:flex items-center bg-slate-100 p-1 rounded-2xl">
-            {(['dashboard', 'list', 'budgets'] as const).map((v) => (
+            {(Object.keys(VIEW_LABELS) as View[]).map((v) => (
               <button
                 key={v}
                 onClick={() => setView(v)}
                 className={`px-6 py-2 rounded-xl text-sm font-bold transition-all ${view === v ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
               >
-                {v === 'dashboard' ? 'Visão Geral' : v === 'list' ? 'Transações' : 'Orçamentos'}
+                {VIEW_LABELS[v]}
               </button>
             ))}
           </nav>
 
           <div className="flex items-center gap-2">
+            <div className="hidden lg:flex items-center gap-2 mr-2 text-right" title={`Código de convite: ${session.household.invite_code}`}>
+              <UserGroupIcon className="w-5 h-5 text-slate-300" />
+              <div>
+                <p className="text-xs font-black text-slate-700 leading-tight">{session.user.name}</p>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{session.household.name} · {session.household.invite_code}</p>
+              </div>
+            </div>
+            <div className="relative">
+              <button
+                onClick={() => setIsNotificationsOpen(open => !open)}
+                title="Notificações"
+                className="relative p-2 text-slate-400 hover:text-emerald-600 transition-colors bg-slate-50 rounded-lg border border-slate-100"
+              >
+                <BellIcon className="w-5 h-5" />
+                {unreadCount > 0 && (
+                  <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 flex items-center justify-center text-[10px] font-black text-white bg-red-500 rounded-full">
+                    {unreadCount > 9 ? '9+' : unreadCount}
+                  </span>
+                )}
+              </button>
+              {isNotificationsOpen && (
+                <div className="absolute right-0 mt-2 w-80 bg-white rounded-2xl border border-slate-100 shadow-xl shadow-slate-200/60 overflow-hidden">
+                  <div className="flex items-center justify-between px-4 py-3 border-b border-slate-50">
+                    <p className="text-sm font-black text-slate-800">Notificações</p>
+                    {unreadCount > 0 && (
+                      <button onClick={markAllNotificationsRead} className="text-[11px] font-bold text-emerald-600 hover:text-emerald-700">
+                        Marcar todas como lidas
+                      </button>
+                    )}
+                  </div>
+                  <ul className="max-h-80 overflow-y-auto divide-y divide-slate-50">
+                    {notifications.length === 0 && (
+                      <li className="px-4 py-6 text-center text-xs text-slate-400">Nenhuma notificação.</li>
+                    )}
+                    {notifications.map(n => (
+                      <li
+                        key={n.id}
+                        onClick={() => !n.read && markNotificationRead(n.id)}
+                        className={`px-4 py-3 flex gap-3 ${n.read ? '' : 'bg-emerald-50/50 cursor-pointer'}`}
+                      >
+                        {n.type === 'budget_alert'
+                          ? <ExclamationTriangleIcon className="w-5 h-5 shrink-0 text-amber-500" />
+                          : <InformationCircleIcon className="w-5 h-5 shrink-0 text-slate-400" />}
+                        <div className="min-w-0">
+                          <p className={`text-xs ${n.read ? 'font-semibold text-slate-500' : 'font-black text-slate-800'}`}>{n.title}</p>
+                          <p className="text-[11px] text-slate-500">{n.body}</p>
+                          <p className="text-[10px] text-slate-300 mt-1">{new Date(n.created_at).toLocaleString('pt-BR')}</p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  {'Notification' in window && (
+                    <label className="flex items-center gap-2 px-4 py-3 border-t border-slate-50 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={browserNotify}
+                        onChange={toggleBrowserNotify}
+                        className="w-4 h-4 rounded accent-emerald-600"
+                      />
+                      <span className="text-[11px] font-semibold text-slate-500">Avisar também pelo navegador</span>
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+            {(!isOnline || outbox.length > 0) && (
+              <div
+                title={outbox.map(m => m.label).join('\n') || 'Sem conexão'}
+                className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-amber-600 bg-amber-50 rounded-lg border border-amber-100"
+              >
+                {isOnline ? <CloudArrowUpIcon className="w-4 h-4" /> : <SignalSlashIcon className="w-4 h-4" />}
+                {outbox.length > 0 ? `${outbox.length} pendente${outbox.length > 1 ? 's' : ''}` : 'Offline'}
+              </div>
+            )}
             <button onClick={fetchData} className="p-2 text-slate-400 hover:text-emerald-600 transition-colors bg-slate-50 rounded-lg border border-slate-100">
               <ArrowPathIcon className={`w-5 h-5 ${isSyncing ? 'animate-spin' : ''}`} />
             </button>
+            <button onClick={logout} title="Sair" className="p-2 text-slate-400 hover:text-red-500 transition-colors bg-slate-50 rounded-lg border border-slate-100">
+              <ArrowRightOnRectangleIcon className="w-5 h-5" />
+            </button>
           </div>
         </div>
       </header>
 
       <main className="max-w-6xl mx-auto px-6 py-10">
+        {conflicts.length > 0 && (
+          <div className="mb-10 bg-amber-50 p-6 rounded-[2rem] border border-amber-100 space-y-4">
+            <h2 className="text-lg font-bold flex items-center gap-3 text-amber-800">
+              <ExclamationTriangleIcon className="w-6 h-6" />
+              Conflitos de sincronização
+            </h2>
+            {conflicts.map(conflict => {
+              const [mine, theirs] = describeConflict(conflict);
+              return (
+                <div key={conflict.id} className="bg-white p-4 rounded-2xl border border-amber-100 flex flex-col md:flex-row md:items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-slate-800 text-sm">{conflict.mutation.label}</p>
+                    <p className="text-xs text-slate-500">{conflict.message}</p>
+                    <div className="mt-2 grid grid-cols-2 gap-4 text-xs">
+                      <div>
+                        <p className="font-bold text-slate-400 uppercase tracking-wider text-[10px]">Minha alteração</p>
+                        <p className="text-slate-700 truncate">{mine}</p>
+                      </div>
+                      <div>
+                        <p className="font-bold text-slate-400 uppercase tracking-wider text-[10px]">No servidor</p>
+                        <p className="text-slate-700 truncate">{conflict.current ? theirs : 'Registro excluído'}</p>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => keepMine(conflict)}
+                      disabled={!conflict.current}
+                      className="px-4 py-2 text-xs font-bold text-white bg-emerald-600 rounded-xl hover:bg-emerald-700 disabled:opacity-40 transition-colors"
+                    >
+                      Manter a minha
+                    </button>
+                    <button
+                      onClick={() => acceptServer(conflict)}
+                      className="px-4 py-2 text-xs font-bold text-slate-600 bg-slate-100 rounded-xl hover:bg-slate-200 transition-colors"
+                    >
+                      Usar a do servidor
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-10">
 
           {/* Coluna Esquerda: Formulário */}
@@ -194,7 +1976,19 @@ const App: React.FC = () => {
                 <PlusIcon className="w-6 h-6 text-emerald-500" strokeWidth={2.5} />
                 Lançamento Rápido
               </h2>
-              <form onSubmit={addExpense} className="space-y-5">
+              <div className="grid grid-cols-2 bg-slate-100 p-1 rounded-2xl mb-6">
+                {(['expense', 'income'] as const).map(t => (
+                  <button
+                    key={t}
+                    type="button"
+                    onClick={() => setEntryType(t)}
+                    className={`py-2 rounded-xl text-sm font-bold transition-all ${entryType === t ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                  >
+                    {t === 'expense' ? 'Despesa' : 'Receita'}
+                  </button>
+                ))}
+              </div>
+              <form onSubmit={entryType === 'income' ? addIncome : addExpense} className="space-y-5">
                 <div className="space-y-1.5">
                   <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">Descrição</label>
                   <input
@@ -208,7 +2002,7 @@ const App: React.FC = () => {
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-1.5">
-                    <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">Valor (R$)</label>
+                    <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">{isInstallment && entryType === 'expense' ? 'Valor total (R$)' : 'Valor (R$)'}</label>
                     <input
                       type="number"
                       step="0.01"
@@ -230,26 +2024,241 @@ const App: React.FC = () => {
                 </div>
 
                 <div className="space-y-1.5">
-                  <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">Categoria</label>
+                  <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">{entryType === 'income' ? 'Origem' : 'Categoria'}</label>
                   <div className="relative">
-                    <select
-                      value={category}
-                      onChange={e => setCategory(e.target.value as Category)}
-                      className="w-full px-5 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all appearance-none text-slate-600 font-medium"
-                    >
-                      {Object.values(Category).map(cat => <option key={cat} value={cat}>{cat}</option>)}
-                    </select>
+                    {entryType === 'income' ? (
+                      <select
+                        value={incomeSource}
+                        onChange={e => setIncomeSource(e.target.value as IncomeSource)}
+                        className="w-full px-5 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all appearance-none text-slate-600 font-medium"
+                      >
+                        {Object.values(IncomeSource).map(src => <option key={src} value={src}>{src}</option>)}
+                      </select>
+                    ) : (
+                      <select
+                        value={categoryId}
+                        onChange={e => setCategoryId(parseInt(e.target.value))}
+                        className="w-full px-5 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all appearance-none text-slate-600 font-medium"
+                      >
+                        {categories.filter(c => !c.archived).map(cat => (
+                          <option key={cat.id} value={cat.id}>{cat.parent_id ? `— ${cat.name}` : cat.name}</option>
+                        ))}
+                      </select>
+                    )}
                     <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none">
                       <ListBulletIcon className="w-4 h-4 text-slate-300" />
                     </div>
                   </div>
                 </div>
 
+                {accounts.some(a => !a.archived) && (
+                  <div className={`grid gap-4 ${entryType === 'expense' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                    <div className="space-y-1.5">
+                      <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">Conta</label>
+                      <select
+                        value={accountId}
+                        onChange={e => setAccountId(e.target.value === '' ? '' : parseInt(e.target.value))}
+                        className="w-full px-5 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all appearance-none text-slate-600 font-medium"
+                      >
+                        <option value="">Nenhuma</option>
+                        {accounts.filter(a => !a.archived && (entryType === 'expense' || a.type !== 'credit_card')).map(acc => (
+                          <option key={acc.id} value={acc.id}>{acc.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {entryType === 'expense' && (
+                      <div className="space-y-1.5">
+                        <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">Pagamento</label>
+                        <select
+                          value={paymentMethod}
+                          onChange={e => setPaymentMethod(e.target.value as PaymentMethod | '')}
+                          className="w-full px-5 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all appearance-none text-slate-600 font-medium"
+                        >
+                          <option value="">Automático</option>
+                          {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => (
+                            <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {entryType === 'expense' && !isRecurring && !isInstallment && (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-1.5">
+                        <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">Favorecido</label>
+                        <input
+                          type="text"
+                          value={payee}
+                          onChange={e => setPayee(e.target.value)}
+                          placeholder="Ex: Posto Shell"
+                          className="w-full px-5 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all placeholder:text-slate-300"
+                        />
+                      </div>
+                      <div className="space-y-1.5">
+                        <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">Tags</label>
+                        <input
+                          type="text"
+                          value={tagsInput}
+                          onChange={e => setTagsInput(e.target.value)}
+                          placeholder="viagem-2026, presente"
+                          className="w-full px-5 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all placeholder:text-slate-300"
+                        />
+                      </div>
+                    </div>
+                    <textarea
+                      value={notes}
+                      onChange={e => setNotes(e.target.value)}
+                      placeholder="Observações (opcional)"
+                      rows={2}
+                      className="w-full px-5 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all placeholder:text-slate-300 text-sm resize-none"
+                    />
+                    <label className="flex items-center gap-3 ml-1 cursor-pointer select-none text-sm font-semibold text-slate-600">
+                      <CameraIcon className="w-5 h-5 text-emerald-600" />
+                      <span className="truncate">{receiptFile ? receiptFile.name : 'Foto do comprovante'}</span>
+                      <input
+                        type="file"
+                        accept="image/*,application/pdf"
+                        capture="environment"
+                        onChange={e => setReceiptFile(e.target.files?.[0] ?? null)}
+                        className="hidden"
+                      />
+                    </label>
+                    {(settlements?.balances.length ?? 0) > 1 && (
+                      <div className="space-y-3">
+                        <label className="flex items-center gap-3 ml-1 cursor-pointer select-none">
+                          <input
+                            type="checkbox"
+                            checked={splitEnabled}
+                            onChange={e => {
+                              setSplitEnabled(e.target.checked);
+                              if (e.target.checked && splitMembers.length === 0) setSplitMembers(settlements!.balances.map(b => b.user_id));
+                            }}
+                            className="w-4 h-4 rounded accent-emerald-600"
+                          />
+                          <span className="text-sm font-semibold text-slate-600">Dividir entre membros</span>
+                        </label>
+                        {splitEnabled && (
+                          <div className="p-4 bg-slate-50 border border-slate-100 rounded-2xl space-y-3">
+                            <div className="grid grid-cols-2 gap-3">
+                              <select
+                                value={paidBy || session?.user.id}
+                                onChange={e => setPaidBy(e.target.value)}
+                                className="px-4 py-2.5 bg-white border border-slate-100 rounded-xl outline-none text-sm text-slate-600 font-medium"
+                              >
+                                {settlements!.balances.map(b => <option key={b.user_id} value={b.user_id}>Pago por {b.name}</option>)}
+                              </select>
+                              <select
+                                value={splitType}
+                                onChange={e => setSplitType(e.target.value as SplitType)}
+                                className="px-4 py-2.5 bg-white border border-slate-100 rounded-xl outline-none text-sm text-slate-600 font-medium"
+                              >
+                                {(Object.keys(SPLIT_TYPE_LABELS) as SplitType[]).map(t => (
+                                  <option key={t} value={t}>{SPLIT_TYPE_LABELS[t]}</option>
+                                ))}
+                              </select>
+                            </div>
+                            {settlements!.balances.map(b => (
+                              <div key={b.user_id} className="flex items-center gap-3">
+                                <label className="flex-1 flex items-center gap-2 text-sm font-semibold text-slate-600 cursor-pointer">
+                                  <input
+                                    type="checkbox"
+                                    checked={splitMembers.includes(b.user_id)}
+                                    onChange={() => toggleSplitMember(b.user_id)}
+                                    className="w-4 h-4 rounded accent-emerald-600"
+                                  />
+                                  {b.name}
+                                </label>
+                                {splitType === 'equal' ? (
+                                  <span className="text-xs font-bold text-slate-400">
+                                    {splitMembers.includes(b.user_id) && parseFloat(amount) > 0
+                                      ? `R$ ${(parseFloat(amount) / splitMembers.length).toFixed(2)}`
+                                      : '—'}
+                                  </span>
+                                ) : (
+                                  <input
+                                    type="number"
+                                    step="0.01"
+                                    disabled={!splitMembers.includes(b.user_id)}
+                                    value={splitValues[b.user_id] ?? ''}
+                                    onChange={e => setSplitValues(prev => ({ ...prev, [b.user_id]: e.target.value }))}
+                                    placeholder={splitType === 'percent' ? '%' : 'R$'}
+                                    className="w-24 px-3 py-2 bg-white border border-slate-100 rounded-xl outline-none text-sm disabled:opacity-40"
+                                  />
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {entryType === 'expense' && (
+                  <div className="space-y-3">
+                    <label className="flex items-center gap-3 ml-1 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={isRecurring}
+                        onChange={e => {
+                          setIsRecurring(e.target.checked);
+                          if (e.target.checked) setIsInstallment(false);
+                        }}
+                        className="w-4 h-4 rounded accent-emerald-600"
+                      />
+                      <span className="text-sm font-semibold text-slate-600">Despesa recorrente</span>
+                    </label>
+                    <label className="flex items-center gap-3 ml-1 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={isInstallment}
+                        onChange={e => {
+                          setIsInstallment(e.target.checked);
+                          if (e.target.checked) setIsRecurring(false);
+                        }}
+                        className="w-4 h-4 rounded accent-emerald-600"
+                      />
+                      <span className="text-sm font-semibold text-slate-600">Compra parcelada</span>
+                    </label>
+                    {isInstallment && (
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="number"
+                          min="2"
+                          max="72"
+                          value={installmentCount}
+                          onChange={e => setInstallmentCount(e.target.value)}
+                          className="w-24 px-5 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all text-slate-600 font-medium"
+                        />
+                        <span className="text-sm font-semibold text-slate-500">
+                          parcelas{parseFloat(amount) > 0 && parseInt(installmentCount) >= 2
+                            ? ` de R$ ${(parseFloat(amount) / parseInt(installmentCount)).toFixed(2)}`
+                            : ''}
+                        </span>
+                      </div>
+                    )}
+                    {isRecurring && (
+                      <select
+                        value={frequency}
+                        onChange={e => setFrequency(e.target.value as RecurringFrequency)}
+                        className="w-full px-5 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all appearance-none text-slate-600 font-medium"
+                      >
+                        {(Object.keys(FREQUENCY_LABELS) as RecurringFrequency[]).map(f => (
+                          <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                )}
+
                 <button
                   type="submit"
                   className="w-full bg-emerald-600 text-white font-bold py-4 rounded-2xl shadow-lg shadow-emerald-200 hover:bg-emerald-700 hover:shadow-emerald-300 transition-all active:scale-[0.98] flex items-center justify-center gap-2"
                 >
-                  Salvar Despesa
+                  {entryType === 'income' ? 'Salvar Receita' : 'Salvar Despesa'}
                 </button>
               </form>
             </div>
@@ -284,23 +2293,187 @@ const App: React.FC = () => {
             {/* Dashboard */}
             {view === 'dashboard' && (
               <div className="space-y-10">
+                <div className="grid grid-cols-1 xl:grid-cols-3 gap-10">
+                  <section className="xl:col-span-2 bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                    <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+                      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <ChartBarIcon className="w-5 h-5 text-emerald-600" />
+                        Gastos por Categoria
+                      </h3>
+                      {forecast && forecast.total.projected > 0 && (
+                        <div className="text-right">
+                          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Previsão de fechamento do mês</p>
+                          <p className={`text-sm font-black ${forecast.total.over_budget ? 'text-red-500' : 'text-slate-700'}`}>
+                            R$ {forecast.total.projected.toFixed(2)}
+                            <span className="ml-1 text-xs font-semibold text-slate-400">(R$ {forecast.total.low.toFixed(0)} – {forecast.total.high.toFixed(0)})</span>
+                          </p>
+                          {forecast.total.budget_available !== null && (
+                            <p className="text-[10px] font-semibold text-slate-400">Orçamento da família: R$ {forecast.total.budget_available.toFixed(2)}</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 mb-4 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                      <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-slate-500" />Gasto</span>
+                      <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded border-2 border-dashed border-slate-500 bg-slate-500/20" />Previsto</span>
+                      <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-slate-200" />Orçamento</span>
+                    </div>
+                    <div className="h-80">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={categoryData} barSize={forecast ? 18 : 45} barGap={4}>
+                          <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#f1f5f9" />
+                          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#64748b', fontWeight: 600 }} dy={12} />
+                          <YAxis hide />
+                          <Tooltip
+                            cursor={{ fill: '#f8fafc' }}
+                            contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }}
+                            formatter={(value: number, name: string) => [`R$ ${Number(value).toFixed(2)}`, CHART_SERIES_LABELS[name] ?? name]}
+                          />
+                          <Bar dataKey="value" radius={[15, 15, 15, 15]}>
+                            {categoryData.map((d, index) => <Cell key={`cell-${index}`} fill={d.color} />)}
+                          </Bar>
+                          {forecast && (
+                            <Bar dataKey="projected" radius={[15, 15, 15, 15]} fillOpacity={0.2} strokeWidth={2} strokeDasharray="4 3">
+                              {categoryData.map((d, index) => <Cell key={`projected-${index}`} fill={d.color} stroke={d.color} />)}
+                            </Bar>
+                          )}
+                          {forecast && (
+                            <Bar dataKey="limit" radius={[15, 15, 15, 15]} fill="#e2e8f0" />
+                          )}
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </section>
+
+                  <section className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm space-y-6">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <BanknotesIcon className="w-5 h-5 text-emerald-600" />
+                        Balanço do Mês
+                      </h3>
+                      <button
+                        onClick={exportMonthlyReport}
+                        title="Relatório mensal em PDF"
+                        className="p-2 text-slate-400 hover:text-emerald-600 transition-colors bg-slate-50 rounded-lg border border-slate-100"
+                      >
+                        <DocumentTextIcon className="w-5 h-5" />
+                      </button>
+                    </div>
+                    <div className="space-y-3">
+                      <div className="flex justify-between text-sm font-bold">
+                        <span className="text-slate-400 flex items-center gap-1.5"><ArrowTrendingUpIcon className="w-4 h-4 text-emerald-500" />Receitas</span>
+                        <span className="text-emerald-600">R$ {monthBalance.income.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between text-sm font-bold">
+                        <span className="text-slate-400 flex items-center gap-1.5"><ArrowTrendingDownIcon className="w-4 h-4 text-red-500" />Despesas</span>
+                        <span className="text-red-500">R$ {monthBalance.spent.toFixed(2)}</span>
+                      </div>
+                      {monthBalance.cardSpent > 0 && (
+                        <div className="pl-6 space-y-1 text-xs font-semibold text-slate-400">
+                          <div className="flex justify-between"><span>À vista</span><span>R$ {monthBalance.cashSpent.toFixed(2)}</span></div>
+                          <div className="flex justify-between"><span>No cartão</span><span>R$ {monthBalance.cardSpent.toFixed(2)}</span></div>
+                        </div>
+                      )}
+                    </div>
+                    <div className="pt-6 border-t border-slate-100">
+                      <p className="text-[11px] font-bold text-slate-400 uppercase tracking-widest mb-2">Saldo</p>
+                      <h4 className={`text-3xl font-black ${monthBalance.balance < 0 ? 'text-red-500' : 'text-slate-800'}`}>
+                        R$ {monthBalance.balance.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                      </h4>
+                      <p className="text-xs font-bold text-slate-400 mt-2">
+                        Taxa de poupança: {monthBalance.savingsRate !== null ? `${monthBalance.savingsRate.toFixed(1)}%` : '—'}
+                      </p>
+                    </div>
+                    {incomes.length > 0 && (
+                      <ul className="pt-6 border-t border-slate-100 space-y-3">
+                        {incomes.slice(0, 5).map(inc => (
+                          <li key={inc.id} className="flex items-center justify-between group">
+                            <div>
+                              <p className="text-sm font-black text-slate-800">{inc.description}</p>
+                              <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{formatDateBR(inc.date)} · {inc.source}</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm font-black text-emerald-600">R$ {inc.amount.toFixed(2)}</span>
+                              <button
+                                onClick={() => removeIncome(inc.id)}
+                                className="p-1.5 text-slate-200 hover:text-red-500 rounded-lg transition-all opacity-0 group-hover:opacity-100"
+                              >
+                                <TrashIcon className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </section>
+                </div>
+
+                {upcomingBills.length > 0 && (
+                  <section className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                    <h3 className="text-lg font-bold mb-8 text-slate-800 flex items-center gap-2">
+                      <CreditCardIcon className="w-5 h-5 text-emerald-600" />
+                      Faturas de Cartão
+                    </h3>
+                    <ul className="divide-y divide-slate-50">
+                      {upcomingBills.map(bill => (
+                        <li key={`${bill.account_id}-${bill.month}`} className="py-4 flex items-center justify-between">
+                          <div>
+                            <p className="text-sm font-black text-slate-800">{bill.account} · {formatMonth(bill.month)}</p>
+                            <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                              Fecha {formatDateBR(bill.closing_date)} · Vence {formatDateBR(bill.due_date)}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span className={`text-[10px] font-black uppercase px-2 py-1 rounded-lg ${STATEMENT_STATUS_STYLES[bill.status].badge}`}>
+                              {STATEMENT_STATUS_STYLES[bill.status].label}
+                            </span>
+                            <span className="text-sm font-black text-slate-700">R$ {bill.remaining.toFixed(2)}</span>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                )}
+
                 <section className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
-                  <h3 className="text-lg font-bold mb-8 text-slate-800 flex items-center gap-2">
-                    <ChartBarIcon className="w-5 h-5 text-emerald-600" />
-                    Gastos por Categoria
-                  </h3>
-                  <div className="h-80">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={categoryData} barSize={45}>
-                        <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#f1f5f9" />
-                        <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#64748b', fontWeight: 600 }} dy={12} />
-                        <YAxis hide />
-                        <Tooltip cursor={{ fill: '#f8fafc' }} contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }} />
-                        <Bar dataKey="value" radius={[15, 15, 15, 15]}>
-                          {categoryData.map((_, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />)}
-                        </Bar>
-                      </BarChart>
-                    </ResponsiveContainer>
+                  <div className="flex items-center justify-between mb-8">
+                    <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                      <SparklesIcon className="w-5 h-5 text-emerald-600" />
+                      Insights do Mês
+                      {insights && (
+                        <span className="ml-2 text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                          {insights.provider === 'gemini' ? 'Gemini' : 'Análise local'}
+                        </span>
+                      )}
+                    </h3>
+                    <button
+                      onClick={() => fetchInsights(true)}
+                      title="Gerar novamente"
+                      className="p-2 text-slate-400 hover:text-emerald-600 transition-colors bg-slate-50 rounded-lg border border-slate-100"
+                    >
+                      <ArrowPathIcon className={`w-5 h-5 ${isLoadingInsights ? 'animate-spin' : ''}`} />
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {insights?.insights.map((insight, idx) => {
+                      const style = SEVERITY_STYLES[insight.severity];
+                      return (
+                        <div key={idx} className={`p-5 rounded-[1.5rem] border flex gap-4 ${style.card}`}>
+                          <style.Icon className={`w-6 h-6 shrink-0 ${style.icon}`} />
+                          <div>
+                            <p className="text-sm font-black text-slate-800">{insight.title}</p>
+                            <p className="text-xs font-medium text-slate-500 mt-1 leading-relaxed">{insight.content}</p>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {!insights?.insights.length && (
+                      <div className="col-span-full py-12 text-center border-2 border-dashed border-slate-100 rounded-[2rem]">
+                        <p className="text-slate-400 font-medium italic">
+                          {isLoadingInsights ? 'Analisando seus gastos...' : 'Nenhum insight disponível no momento.'}
+                        </p>
+                      </div>
+                    )}
                   </div>
                 </section>
 
@@ -336,54 +2509,458 @@ const App: React.FC = () => {
                     )}
                   </div>
                 </section>
+
+                {tagReport.length > 0 && (
+                  <section className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                    <h3 className="text-lg font-bold mb-8 text-slate-800 flex items-center gap-2">
+                      <TagIcon className="w-5 h-5 text-emerald-600" />
+                      Gastos por Tag
+                    </h3>
+                    <ul className="divide-y divide-slate-50">
+                      {tagReport.slice(0, 8).map(t => (
+                        <li key={t.tag_id} className="py-4 flex items-center justify-between gap-4">
+                          <div className="min-w-0">
+                            <button
+                              onClick={() => { setSearchTerm(`#${t.tag}`); setView('list'); }}
+                              className="text-sm font-black text-slate-800 hover:text-emerald-600"
+                            >
+                              #{t.tag}
+                            </button>
+                            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider truncate">
+                              {t.count} lançamento(s) · {t.by_category.map(c => c.category).join(', ')}
+                            </p>
+                          </div>
+                          <span className="text-sm font-black text-slate-700">R$ {t.total.toFixed(2)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                )}
+
+                {commitments && commitments.months.length > 0 && (
+                  <section className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                    <div className="flex items-center justify-between mb-8">
+                      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <CreditCardIcon className="w-5 h-5 text-emerald-600" />
+                        Parcelas a Vencer
+                      </h3>
+                      <span className="text-sm font-black text-slate-700">R$ {commitments.total.toFixed(2)}</span>
+                    </div>
+                    <ul className="divide-y divide-slate-50">
+                      {commitments.months.map(m => (
+                        <li key={m.month} className="py-4 flex items-center justify-between">
+                          <div>
+                            <p className="text-sm font-black text-slate-800 capitalize">{formatMonth(m.month)}</p>
+                            <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{m.count} parcela(s)</span>
+                          </div>
+                          <span className="text-sm font-black text-slate-700">R$ {m.total.toFixed(2)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                )}
+
+                <section className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                  <h3 className="text-lg font-bold mb-8 text-slate-800 flex items-center gap-2">
+                    <ArrowPathIcon className="w-5 h-5 text-emerald-600" />
+                    Próximos Lançamentos Recorrentes
+                  </h3>
+                  {upcoming.length > 0 ? (
+                    <ul className="divide-y divide-slate-50">
+                      {upcoming.slice(0, 8).map(u => (
+                        <li key={`${u.recurring_rule_id}-${u.date}`} className="py-4 flex items-center justify-between">
+                          <div>
+                            <p className="text-sm font-black text-slate-800">{u.description}</p>
+                            <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{formatDateBR(u.date)} · {u.category}</span>
+                          </div>
+                          <span className="text-sm font-black text-slate-700">R$ {u.amount.toFixed(2)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <div className="py-12 text-center border-2 border-dashed border-slate-100 rounded-[2rem]">
+                      <p className="text-slate-400 font-medium italic">Nenhuma despesa recorrente prevista para os próximos 30 dias.</p>
+                    </div>
+                  )}
+                </section>
               </div>
             )}
 
             {/* Lista de Transações */}
             {view === 'list' && (
-              <div className="bg-white rounded-[2.5rem] border border-slate-100 shadow-sm overflow-hidden">
-                <div className="p-8 border-b border-slate-50 flex items-center justify-between gap-6">
-                  <h3 className="text-lg font-bold text-slate-800">Extrato Consolidado</h3>
-                  <div className="relative flex-1 max-w-sm">
-                    <MagnifyingGlassIcon className="w-5 h-5 absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" />
-                    <input
-                      type="text"
-                      value={searchTerm}
-                      onChange={e => setSearchTerm(e.target.value)}
-                      placeholder="Pesquisar por descrição ou categoria..."
-                      className="w-full pl-12 pr-5 py-3 bg-slate-50 border-none rounded-2xl text-sm focus:ring-4 focus:ring-emerald-500/10 transition-all font-medium"
-                    />
+              <div className="space-y-10">
+                {settlements && settlements.balances.some(b => b.paid > 0 || b.share > 0 || b.settled_in > 0) && (
+                  <div className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                    <div className="mb-8">
+                      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <UserGroupIcon className="w-5 h-5 text-emerald-600" />
+                        Acertos da Família
+                      </h3>
+                      <p className="text-slate-400 text-sm mt-1">Saldo das despesas divididas: quanto cada um pagou a mais ou a menos que a sua parte.</p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                      <ul className="divide-y divide-slate-50">
+                        {settlements.balances.map(b => (
+                          <li key={b.user_id} className="py-3 flex items-center justify-between">
+                            <div>
+                              <p className="text-sm font-black text-slate-800">{b.name}</p>
+                              <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                                Pagou R$ {b.paid.toFixed(2)} · Parte R$ {b.share.toFixed(2)}
+                              </span>
+                            </div>
+                            <span className={`text-sm font-black ${b.net > 0 ? 'text-emerald-600' : b.net < 0 ? 'text-red-500' : 'text-slate-400'}`}>
+                              {b.net > 0 ? 'Recebe' : b.net < 0 ? 'Deve' : 'Quite'} {b.net !== 0 && `R$ ${Math.abs(b.net).toFixed(2)}`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                      <div className="space-y-3">
+                        {settlements.transfers.map(t => (
+                          <div key={`${t.from_user_id}-${t.to_user_id}`} className="flex items-center justify-between gap-3 p-4 bg-slate-50 rounded-2xl">
+                            <span className="text-sm font-semibold text-slate-600">
+                              <strong className="text-slate-800">{t.from_name}</strong> paga R$ {t.amount.toFixed(2)} a <strong className="text-slate-800">{t.to_name}</strong>
+                            </span>
+                            <button
+                              onClick={() => recordSettlement(t)}
+                              className="px-4 py-2 text-xs font-bold text-emerald-600 bg-white rounded-xl border border-slate-100 hover:bg-emerald-50 transition-colors"
+                            >
+                              Registrar
+                            </button>
+                          </div>
+                        ))}
+                        {settlements.transfers.length === 0 && (
+                          <p className="text-sm font-semibold text-slate-400 italic">Tudo acertado entre os membros.</p>
+                        )}
+                        {settlements.history.slice(0, 5).map(h => (
+                          <div key={h.id} className="flex items-center justify-between text-xs font-semibold text-slate-400">
+                            <span>{formatDateBR(h.date)} · {h.from_name} → {h.to_name} R$ {h.amount.toFixed(2)}</span>
+                            <button onClick={() => removeSettlement(h.id)} className="p-1 text-slate-200 hover:text-red-500 transition-colors">
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
                   </div>
-                </div>
-                <div className="overflow-x-auto">
-                  <table className="w-full text-left">
-                    <thead className="bg-slate-50/70">
-                      <tr>
-                        <th className="px-8 py-5 text-[11px] font-black text-slate-400 uppercase tracking-widest">Data</th>
-                        <th className="px-8 py-5 text-[11px] font-black text-slate-400 uppercase tracking-widest">Descrição</th>
-                        <th className="px-8 py-5 text-[11px] font-black text-slate-400 uppercase tracking-widest text-right">Valor</th>
-                        <th className="px-8 py-5"></th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-50">
-                      {expenses
-                        .filter(e =>
-                          e.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                          e.category.toLowerCase().includes(searchTerm.toLowerCase())
-                        )
-                        .map(exp => (
+                )}
+
+                {activePlans.length > 0 && (
+                  <div className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                    <div className="mb-8">
+                      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <CreditCardIcon className="w-5 h-5 text-emerald-600" />
+                        Compras Parceladas
+                      </h3>
+                      <p className="text-slate-400 text-sm mt-1">Alterar o total ou o número de parcelas redistribui apenas as parcelas restantes.</p>
+                    </div>
+                    <ul className="divide-y divide-slate-50">
+                      {activePlans.map(({ plan, paid, remaining, remainingAmount, next }) => (
+                        <li key={plan.id} className="py-4 flex flex-wrap items-center justify-between gap-4">
+                          <div className="flex-1 min-w-[12rem]">
+                            <input
+                              key={`${plan.id}:${plan.description}`}
+                              type="text"
+                              defaultValue={plan.description}
+                              onBlur={e => {
+                                const value = e.target.value.trim();
+                                if (value && value !== plan.description) updateInstallmentPlan(plan, { description: value });
+                              }}
+                              className="w-full bg-transparent border-none p-0 text-sm font-black text-slate-800 focus:ring-0"
+                            />
+                            <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                              {paid}/{plan.installments} pagas · faltam R$ {remainingAmount.toFixed(2)}
+                              {next && ` · próxima ${formatDateBR(next)}`}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-3 text-sm font-semibold text-slate-600">
+                            <label className="flex items-center gap-1">
+                              R$
+                              <input
+                                key={`${plan.id}:${plan.total_amount}`}
+                                type="number"
+                                step="0.01"
+                                defaultValue={plan.total_amount}
+                                onBlur={e => {
+                                  const value = parseFloat(e.target.value);
+                                  if (value > 0 && value !== plan.total_amount) updateInstallmentPlan(plan, { total_amount: value });
+                                }}
+                                className="w-28 px-3 py-1.5 bg-slate-50 border border-slate-100 rounded-xl outline-none font-bold"
+                              />
+                            </label>
+                            <label className="flex items-center gap-1">
+                              <input
+                                key={`${plan.id}:${plan.installments}`}
+                                type="number"
+                                min={paid + 1}
+                                max={72}
+                                defaultValue={plan.installments}
+                                onBlur={e => {
+                                  const value = parseInt(e.target.value);
+                                  if (value > paid && value !== plan.installments) updateInstallmentPlan(plan, { installments: value });
+                                }}
+                                className="w-16 px-3 py-1.5 bg-slate-50 border border-slate-100 rounded-xl outline-none font-bold"
+                              />
+                              x
+                            </label>
+                            <button
+                              onClick={() => cancelInstallmentPlan(plan)}
+                              title={`Cancelar as ${remaining} parcela(s) restantes`}
+                              className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all"
+                            >
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="bg-white rounded-[2.5rem] border border-slate-100 shadow-sm overflow-hidden">
+                  <div className="p-8 border-b border-slate-50 flex items-center justify-between gap-6">
+                    <div className="flex items-center gap-3">
+                      <h3 className="text-lg font-bold text-slate-800">Extrato Consolidado</h3>
+                      {expenseFlags.length > 0 && (
+                        <span className="flex items-center gap-1 text-[10px] font-black uppercase px-2 py-1 rounded-lg bg-amber-50 text-amber-600">
+                          <ExclamationTriangleIcon className="w-3.5 h-3.5" />
+                          {expenseFlags.length} para revisar
+                        </span>
+                      )}
+                      {(['csv', 'pdf'] as const).map(f => (
+                        <button
+                          key={f}
+                          onClick={() => exportStatement(f)}
+                          className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-black uppercase tracking-wider text-slate-400 hover:text-emerald-600 bg-slate-50 rounded-lg border border-slate-100 transition-colors"
+                        >
+                          <ArrowDownTrayIcon className="w-4 h-4" />
+                          {f}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="relative flex-1 max-w-sm">
+                      <MagnifyingGlassIcon className="w-5 h-5 absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" />
+                      <input
+                        type="text"
+                        value={searchTerm}
+                        onChange={e => setSearchTerm(e.target.value)}
+                        placeholder="Pesquisar por descrição, categoria ou #tag..."
+                        className="w-full pl-12 pr-5 py-3 bg-slate-50 border-none rounded-2xl text-sm focus:ring-4 focus:ring-emerald-500/10 transition-all font-medium"
+                      />
+                    </div>
+                  </div>
+                  <div className="px-8 py-5 border-b border-slate-50 space-y-4">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <AdjustmentsHorizontalIcon className="w-5 h-5 text-slate-300" />
+                      <select
+                        value=""
+                        onChange={e => e.target.value && toggleStatementCategory(Number(e.target.value))}
+                        className="px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-bold text-slate-600 outline-none"
+                      >
+                        <option value="">+ Categoria</option>
+                        {sortCategories(categories)
+                          .filter(c => !statementFilters.categories.includes(c.id))
+                          .map(c => (
+                            <option key={c.id} value={c.id}>{c.parent_id ? `— ${c.name}` : c.name}</option>
+                          ))}
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={statementFilters.minAmount}
+                        onChange={e => setStatementFilters(prev => ({ ...prev, minAmount: e.target.value }))}
+                        placeholder="Valor mín."
+                        className="w-28 px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-bold text-slate-600 outline-none placeholder:text-slate-300"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={statementFilters.maxAmount}
+                        onChange={e => setStatementFilters(prev => ({ ...prev, maxAmount: e.target.value }))}
+                        placeholder="Valor máx."
+                        className="w-28 px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-bold text-slate-600 outline-none placeholder:text-slate-300"
+                      />
+                      <select
+                        value={statementFilters.recurring}
+                        onChange={e => setStatementFilters(prev => ({ ...prev, recurring: e.target.value as StatementFilters['recurring'] }))}
+                        className="px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-bold text-slate-600 outline-none"
+                      >
+                        <option value="">Recorrentes e avulsas</option>
+                        <option value="true">Só recorrentes</option>
+                        <option value="false">Só avulsas</option>
+                      </select>
+                      <div className="ml-auto flex items-center gap-2">
+                        <span className="text-[11px] font-black text-slate-400 uppercase tracking-wider">Ordenar</span>
+                        <select
+                          value={statementFilters.sort}
+                          onChange={e => setStatementFilters(prev => ({ ...prev, sort: e.target.value as ExpenseSort }))}
+                          className="px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-bold text-slate-600 outline-none"
+                        >
+                          {(Object.keys(SORT_LABELS) as ExpenseSort[]).map(key => (
+                            <option key={key} value={key}>{SORT_LABELS[key]}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => setStatementFilters(prev => ({ ...prev, dir: prev.dir === 'asc' ? 'desc' : 'asc' }))}
+                          title={statementFilters.dir === 'asc' ? 'Crescente' : 'Decrescente'}
+                          className="px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-black text-slate-600 hover:text-emerald-600 transition-colors"
+                        >
+                          {statementFilters.dir === 'asc' ? '↑' : '↓'}
+                        </button>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-xs font-bold text-slate-400">
+                        {statementTotal} {statementTotal === 1 ? 'lançamento' : 'lançamentos'}
+                      </span>
+                      {statementFilters.categories.map(id => (
+                        <button
+                          key={id}
+                          onClick={() => toggleStatementCategory(id)}
+                          className="text-[11px] font-bold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-3 py-1 rounded-lg transition-colors"
+                        >
+                          {categories.find(c => c.id === id)?.name ?? id} ×
+                        </button>
+                      ))}
+                      {statementFilters.minAmount && (
+                        <button
+                          onClick={() => setStatementFilters(prev => ({ ...prev, minAmount: '' }))}
+                          className="text-[11px] font-bold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-3 py-1 rounded-lg transition-colors"
+                        >
+                          a partir de R$ {statementFilters.minAmount} ×
+                        </button>
+                      )}
+                      {statementFilters.maxAmount && (
+                        <button
+                          onClick={() => setStatementFilters(prev => ({ ...prev, maxAmount: '' }))}
+                          className="text-[11px] font-bold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-3 py-1 rounded-lg transition-colors"
+                        >
+                          até R$ {statementFilters.maxAmount} ×
+                        </button>
+                      )}
+                      {statementFilters.recurring && (
+                        <button
+                          onClick={() => setStatementFilters(prev => ({ ...prev, recurring: '' }))}
+                          className="text-[11px] font-bold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-3 py-1 rounded-lg transition-colors"
+                        >
+                          {statementFilters.recurring === 'true' ? 'Só recorrentes' : 'Só avulsas'} ×
+                        </button>
+                      )}
+                      {searchTerm.trim() && (
+                        <button
+                          onClick={() => setSearchTerm('')}
+                          className="text-[11px] font-bold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-3 py-1 rounded-lg transition-colors"
+                        >
+                          {searchTerm.trim().startsWith('#') ? searchTerm.trim() : `"${searchTerm.trim()}"`} ×
+                        </button>
+                      )}
+                      {(statementFilters.categories.length > 0 || statementFilters.minAmount || statementFilters.maxAmount
+                        || statementFilters.recurring || searchTerm.trim()) && (
+                        <button
+                          onClick={() => { setStatementFilters(prev => ({ ...DEFAULT_STATEMENT_FILTERS, sort: prev.sort, dir: prev.dir })); setSearchTerm(''); }}
+                          className="text-[11px] font-bold text-slate-400 hover:text-red-500 transition-colors"
+                        >
+                          Limpar filtros
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                      <thead className="bg-slate-50/70">
+                        <tr>
+                          <th className="px-8 py-5 text-[11px] font-black text-slate-400 uppercase tracking-widest">Data</th>
+                          <th className="px-8 py-5 text-[11px] font-black text-slate-400 uppercase tracking-widest">Descrição</th>
+                          <th className="px-8 py-5 text-[11px] font-black text-slate-400 uppercase tracking-widest text-right">Valor</th>
+                          <th className="px-8 py-5"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-50">
+                        {visibleStatement.map(exp => (
                           <tr key={exp.id} className="hover:bg-slate-50 transition-colors group">
                             <td className="px-8 py-6 text-xs font-bold text-slate-400">
                               {formatDateBR(exp.date)}
                             </td>
                             <td className="px-8 py-6">
                               <p className="text-sm font-black text-slate-800">{exp.description}</p>
+                              {exp.payee && <p className="text-xs font-semibold text-slate-500">{exp.payee}</p>}
                               <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{exp.category}</span>
+                              {exp.isRecurring && (
+                                <span className="ml-2 text-[10px] text-emerald-600 font-bold uppercase tracking-wider">Recorrente</span>
+                              )}
+                              {exp.installment_plan_id && (
+                                <span className="ml-2 text-[10px] text-emerald-600 font-bold uppercase tracking-wider">Parcelado</span>
+                              )}
+                              {exp.created_by_name && (
+                                <span className="ml-2 text-[10px] text-slate-300 font-bold uppercase tracking-wider">· {exp.created_by_name}</span>
+                              )}
+                              {(exp.tags ?? []).length > 0 && (
+                                <div className="mt-1.5 flex flex-wrap gap-1.5">
+                                  {exp.tags!.map(tag => (
+                                    <button
+                                      key={tag}
+                                      onClick={() => setSearchTerm(`#${tag}`)}
+                                      className="text-[10px] font-bold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-2 py-0.5 rounded-lg transition-colors"
+                                    >
+                                      #{tag}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                              {exp.notes && <p className="mt-1 text-xs text-slate-400 italic">{exp.notes}</p>}
+                              {(exp.splits ?? []).length > 0 && (
+                                <p className="mt-1 text-[11px] font-semibold text-slate-500">
+                                  Pago por {exp.paid_by_name ?? exp.created_by_name ?? memberName(exp.paid_by)}
+                                  {exp.splits!.map(sh => (
+                                    <span key={sh.user_id} className="ml-2 text-slate-400">· {memberName(sh.user_id)} R$ {sh.amount.toFixed(2)}</span>
+                                  ))}
+                                </p>
+                              )}
+                              {(flagsByExpense[exp.id] ?? []).map(flag => (
+                                <div key={flag.id} className="mt-2 flex flex-wrap items-center gap-2 text-[11px] font-semibold text-amber-700 bg-amber-50 rounded-xl px-3 py-1.5">
+                                  <ExclamationTriangleIcon className="w-4 h-4 shrink-0" />
+                                  <span className="font-black uppercase text-[10px] tracking-wider">
+                                    {flag.kind === 'duplicate' ? 'Possível duplicata' : 'Valor incomum'}
+                                  </span>
+                                  <span className="flex-1">{flag.reason}</span>
+                                  {flag.kind === 'duplicate' && (
+                                    <button onClick={() => mergeDuplicate(flag)} className="font-black text-amber-700 hover:text-amber-900 underline">
+                                      Mesclar
+                                    </button>
+                                  )}
+                                  <button onClick={() => dismissFlag(flag)} className="font-bold text-amber-500 hover:text-amber-700">
+                                    Ignorar
+                                  </button>
+                                </div>
+                              ))}
                             </td>
                             <td className="px-8 py-6 text-sm font-black text-slate-900 text-right">
                               R$ {exp.amount.toFixed(2)}
                             </td>
-                            <td className="px-8 py-6 text-right">
+                            <td className="px-8 py-6 text-right whitespace-nowrap">
+                              {(exp.receipt_count ?? 0) > 0 && (
+                                <button
+                                  onClick={() => openReceipt(exp)}
+                                  title="Ver comprovante"
+                                  className="p-2.5 text-emerald-500 hover:text-emerald-700 hover:bg-emerald-50 rounded-xl transition-all"
+                                >
+                                  <PaperClipIcon className="w-5 h-5" />
+                                </button>
+                              )}
+                              <label
+                                title="Anexar comprovante"
+                                className="inline-block p-2.5 text-slate-200 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all opacity-0 group-hover:opacity-100 cursor-pointer"
+                              >
+                                <CameraIcon className="w-5 h-5" />
+                                <input
+                                  type="file"
+                                  accept="image/*,application/pdf"
+                                  capture="environment"
+                                  onChange={e => { attachReceipt(exp, e.target.files?.[0]); e.target.value = ''; }}
+                                  className="hidden"
+                                />
+                              </label>
                               <button
                                 onClick={() => removeExpense(exp.id)}
                                 className="p-2.5 text-slate-200 hover:text-red-500 bg-transparent hover:bg-red-50 rounded-xl transition-all opacity-0 group-hover:opacity-100"
@@ -393,40 +2970,894 @@ const App: React.FC = () => {
                             </td>
                           </tr>
                         ))}
-                    </tbody>
-                  </table>
+                      </tbody>
+                    </table>
+                    {!isLoadingStatement && visibleStatement.length === 0 && (
+                      <p className="px-8 py-10 text-center text-sm text-slate-400">Nenhuma despesa encontrada com esses filtros.</p>
+                    )}
+                    <div ref={statementEnd} className="px-8 py-4 text-center text-xs font-bold text-slate-300">
+                      {isLoadingStatement ? 'Carregando...' : statementCursor ? '' : visibleStatement.length > 0 ? 'Fim do extrato' : ''}
+                    </div>
+                  </div>
                 </div>
               </div>
             )}
 
-            {/* Orçamentos */}
-            {view === 'budgets' && (
-              <div className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
-                <div className="mb-10">
-                  <h3 className="text-xl font-bold text-slate-800">Metas de Gastos Mensais</h3>
-                  <p className="text-slate-400 text-sm mt-1">Defina quanto você pretende gastar em cada categoria.</p>
+            {/* Metas de Economia */}
+            {view === 'goals' && (
+              <div className="space-y-10">
+                <div className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                  <div className="mb-8">
+                    <h3 className="text-xl font-bold text-slate-800">Metas de Economia</h3>
+                    <p className="text-slate-400 text-sm mt-1">Reserva de emergência, viagem, carro novo... A previsão usa o ritmo dos seus aportes ou, sem aportes, a sobra média da família.</p>
+                  </div>
+                  <form onSubmit={addGoal} className="flex flex-wrap items-center gap-3">
+                    <input
+                      type="color"
+                      value={newGoal.color}
+                      onChange={e => setNewGoal(prev => ({ ...prev, color: e.target.value }))}
+                      className="w-12 h-12 rounded-xl border border-slate-100 bg-slate-50 cursor-pointer"
+                    />
+                    <input
+                      type="text"
+                      value={newGoal.name}
+                      onChange={e => setNewGoal(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="Ex: Reserva de emergência"
+                      className="flex-1 min-w-[12rem] px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all placeholder:text-slate-300"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={newGoal.target_amount}
+                      onChange={e => setNewGoal(prev => ({ ...prev, target_amount: e.target.value }))}
+                      placeholder="Valor da meta"
+                      className="w-36 px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none placeholder:text-slate-300"
+                    />
+                    <input
+                      type="date"
+                      value={newGoal.deadline}
+                      onChange={e => setNewGoal(prev => ({ ...prev, deadline: e.target.value }))}
+                      title="Prazo (opcional)"
+                      className="px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none text-slate-600 text-xs"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={newGoal.initial_amount}
+                      onChange={e => setNewGoal(prev => ({ ...prev, initial_amount: e.target.value }))}
+                      placeholder="Já guardado"
+                      className="w-36 px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none placeholder:text-slate-300"
+                    />
+                    <button type="submit" className="px-6 py-3 bg-emerald-600 text-white font-bold rounded-2xl hover:bg-emerald-700 transition-all">
+                      Criar meta
+                    </button>
+                  </form>
+                  {goalError && (
+                    <p className="mt-6 text-sm font-bold text-red-500">{goalError}</p>
+                  )}
                 </div>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                  {Object.values(Category).map(cat => (
-                    <div key={cat} className="group p-8 bg-slate-50 rounded-[2rem] border-2 border-transparent hover:border-emerald-200 hover:bg-white transition-all shadow-sm hover:shadow-xl hover:shadow-emerald-100/50">
-                      <label className="block text-[11px] font-black text-slate-400 uppercase mb-4 tracking-widest">{cat}</label>
-                      <div className="flex items-center gap-4">
-                        <div className="bg-emerald-100 p-3 rounded-2xl">
-                          <CreditCardIcon className="w-5 h-5 text-emerald-600" />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {goals.map(goal => {
+                    const style = GOAL_STATUS_STYLES[goal.status];
+                    return (
+                      <div key={goal.id} className={`bg-white p-8 rounded-[2.5rem] border shadow-sm space-y-5 ${goal.at_risk ? 'border-red-100' : 'border-slate-100'}`}>
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <p className="text-base font-black text-slate-800">{goal.name}</p>
+                            <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                              {goal.deadline ? `Prazo ${formatDateBR(goal.deadline)}` : 'Sem prazo'}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className={`flex items-center gap-1 text-[10px] font-black uppercase px-2 py-1 rounded-lg ${style.badge}`}>
+                              {goal.at_risk && <ExclamationTriangleIcon className="w-3.5 h-3.5" />}
+                              {style.label}
+                            </span>
+                            <button
+                              onClick={() => removeGoal(goal)}
+                              className="p-1.5 text-slate-200 hover:text-red-500 rounded-lg transition-all"
+                            >
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
+                        <div className="space-y-2">
+                          <div className="flex justify-between text-sm font-black text-slate-700">
+                            <span>R$ {goal.saved.toFixed(2)} / R$ {goal.target_amount.toFixed(2)}</span>
+                            <span>{goal.pct.toFixed(0)}%</span>
+                          </div>
+                          <div className="h-3 w-full bg-slate-100 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full rounded-full transition-all duration-1000 ease-out ${style.bar}`}
+                              style={{ width: `${Math.min(goal.pct, 100)}%`, ...(style.bar ? {} : { backgroundColor: goal.color }) }}
+                            />
+                          </div>
                         </div>
-                        <div className="flex-1 flex items-baseline gap-1">
-                          <span className="text-slate-300 font-black text-xl">R$</span>
+                        <ul className="text-xs font-semibold text-slate-500 space-y-1">
+                          {goal.required_monthly !== null && goal.remaining > 0 && (
+                            <li>Necessário: R$ {goal.required_monthly.toFixed(2)}/mês por {goal.months_left} mês(es)</li>
+                          )}
+                          {goal.projection_basis && goal.remaining > 0 && (
+                            <li>
+                              Ritmo: R$ {(goal.projection_basis === 'contributions' ? goal.monthly_pace : goal.average_net ?? 0).toFixed(2)}/mês
+                              {goal.projection_basis === 'household_net' && ' (sobra média da família)'}
+                            </li>
+                          )}
+                          <li>
+                            {goal.status === 'achieved'
+                              ? `Atingida em ${goal.projected_completion ? formatDateBR(goal.projected_completion) : '—'}`
+                              : goal.projected_completion
+                                ? `Previsão de conclusão: ${formatMonth(goal.projected_completion.slice(0, 7))}`
+                                : 'Sem previsão: registre aportes para projetar a conclusão'}
+                          </li>
+                        </ul>
+                        <div className="flex items-center gap-2 pt-2 border-t border-slate-50">
                           <input
                             type="number"
-                            value={budgetGoals.find(g => g.category === cat)?.limit || ''}
-                            onChange={e => updateBudget(cat, parseFloat(e.target.value) || 0)}
-                            placeholder="Definir limite"
-                            className="w-full bg-transparent border-none p-0 text-2xl font-black text-slate-800 focus:ring-0 placeholder:text-slate-200 placeholder:font-bold"
+                            step="0.01"
+                            value={contributionDrafts[goal.id] ?? ''}
+                            onChange={e => setContributionDrafts(prev => ({ ...prev, [goal.id]: e.target.value }))}
+                            placeholder="Aporte (negativo resgata)"
+                            className="flex-1 px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none text-sm placeholder:text-slate-300"
                           />
+                          <button
+                            onClick={() => contributeToGoal(goal)}
+                            className="px-4 py-2 text-xs font-bold text-emerald-600 bg-emerald-50 rounded-xl hover:bg-emerald-100 transition-colors"
+                          >
+                            Registrar
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {goals.length === 0 && (
+                    <div className="col-span-full py-12 text-center border-2 border-dashed border-slate-100 rounded-[2rem] bg-white">
+                      <p className="text-slate-400 font-medium italic">Crie uma meta para acompanhar quanto falta e quando vocês chegam lá.</p>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Contas e Cartões */}
+            {view === 'accounts' && (
+              <div className="space-y-10">
+                <div className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                  <div className="mb-8">
+                    <h3 className="text-xl font-bold text-slate-800">Contas e Cartões</h3>
+                    <p className="text-slate-400 text-sm mt-1">Saldo de cada conta a partir do saldo inicial; cartões mostram a dívida e o limite disponível.</p>
+                  </div>
+                  <form onSubmit={addAccount} className="flex flex-wrap items-center gap-3 mb-8">
+                    <input
+                      type="text"
+                      value={newAccount.name}
+                      onChange={e => setNewAccount(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="Ex: Nubank"
+                      className="flex-1 min-w-[10rem] px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all placeholder:text-slate-300"
+                    />
+                    <select
+                      value={newAccount.type}
+                      onChange={e => setNewAccount(prev => ({ ...prev, type: e.target.value as AccountType }))}
+                      className="px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none text-slate-600 font-medium"
+                    >
+                      {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(t => (
+                        <option key={t} value={t}>{ACCOUNT_TYPE_LABELS[t]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={newAccount.opening_balance}
+                      onChange={e => setNewAccount(prev => ({ ...prev, opening_balance: e.target.value }))}
+                      placeholder="Saldo inicial"
+                      className="w-36 px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none placeholder:text-slate-300"
+                    />
+                    {newAccount.type === 'credit_card' && (
+                      <>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={newAccount.credit_limit}
+                          onChange={e => setNewAccount(prev => ({ ...prev, credit_limit: e.target.value }))}
+                          placeholder="Limite"
+                          className="w-32 px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none placeholder:text-slate-300"
+                        />
+                        <input
+                          type="number"
+                          min="1"
+                          max="31"
+                          value={newAccount.closing_day}
+                          onChange={e => setNewAccount(prev => ({ ...prev, closing_day: e.target.value }))}
+                          placeholder="Fecha dia"
+                          className="w-32 px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none placeholder:text-slate-300"
+                        />
+                        <input
+                          type="number"
+                          min="1"
+                          max="31"
+                          value={newAccount.due_day}
+                          onChange={e => setNewAccount(prev => ({ ...prev, due_day: e.target.value }))}
+                          placeholder="Vence dia"
+                          className="w-32 px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none placeholder:text-slate-300"
+                        />
+                      </>
+                    )}
+                    <button type="submit" className="px-6 py-3 bg-emerald-600 text-white font-bold rounded-2xl hover:bg-emerald-700 transition-all">
+                      Adicionar
+                    </button>
+                  </form>
+                  {accountError && (
+                    <p className="mb-6 text-sm font-bold text-red-500">{accountError}</p>
+                  )}
+                  {accounts.length > 0 ? (
+                    <ul className="divide-y divide-slate-50">
+                      {accounts.map(acc => (
+                        <li key={acc.id} className={`py-4 flex items-center justify-between ${acc.archived ? 'opacity-40' : ''}`}>
+                          <div className="flex items-center gap-3">
+                            {acc.type === 'credit_card'
+                              ? <CreditCardIcon className="w-5 h-5 text-slate-400" />
+                              : acc.type === 'cash'
+                                ? <BanknotesIcon className="w-5 h-5 text-slate-400" />
+                                : <WalletIcon className="w-5 h-5 text-slate-400" />}
+                            <div>
+                              <p className="text-sm font-black text-slate-800">{acc.name}</p>
+                              <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                                {ACCOUNT_TYPE_LABELS[acc.type]}
+                                {acc.type === 'credit_card' && ` · fecha dia ${acc.closing_day} · vence dia ${acc.due_day}`}
+                              </span>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-6">
+                            <div className="text-right">
+                              <p className={`text-sm font-black ${acc.balance < 0 ? 'text-red-500' : 'text-slate-700'}`}>
+                                R$ {acc.balance.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                              </p>
+                              {acc.available_credit !== null && (
+                                <span className="text-[10px] text-slate-400 font-bold">
+                                  Disponível R$ {acc.available_credit.toFixed(2)}
+                                </span>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => toggleArchiveAccount(acc)}
+                              className="flex items-center gap-1.5 text-xs font-bold text-slate-400 hover:text-emerald-600 transition-colors"
+                            >
+                              <ArchiveBoxIcon className="w-4 h-4" />
+                              {acc.archived ? 'Reativar' : 'Arquivar'}
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <div className="py-12 text-center border-2 border-dashed border-slate-100 rounded-[2rem]">
+                      <p className="text-slate-400 font-medium italic">Cadastre suas contas e cartões para acompanhar saldos e faturas.</p>
+                    </div>
+                  )}
+                </div>
+
+                {accounts.filter(a => a.type === 'credit_card' && !a.archived).map(card => (
+                  <div key={card.id} className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                    <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+                      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <CreditCardIcon className="w-5 h-5 text-emerald-600" />
+                        Faturas · {card.name}
+                      </h3>
+                      <label className="flex items-center gap-2 text-sm font-semibold text-slate-600">
+                        Pagar com
+                        <select
+                          value={payFromAccount}
+                          onChange={e => setPayFromAccount(e.target.value === '' ? '' : parseInt(e.target.value))}
+                          className="px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none text-slate-600 font-medium"
+                        >
+                          <option value="">Sem conta</option>
+                          {accounts.filter(a => a.type !== 'credit_card' && !a.archived).map(a => (
+                            <option key={a.id} value={a.id}>{a.name}</option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-[10px] text-slate-400 font-black uppercase tracking-wider text-left">
+                          <th className="pb-3">Fatura</th>
+                          <th className="pb-3">Vencimento</th>
+                          <th className="pb-3 text-right">Total</th>
+                          <th className="pb-3 text-right">Pago</th>
+                          <th className="pb-3 text-right">Situação</th>
+                          <th className="pb-3" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-50">
+                        {(statements[card.id] ?? []).map(st => (
+                          <tr key={st.month}>
+                            <td className="py-3 font-bold text-slate-700">
+                              {formatMonth(st.month)}
+                              <span className="block text-[10px] text-slate-400 font-bold">
+                                {formatDateBR(st.opening_date)} a {formatDateBR(st.closing_date)} · {st.count} compra(s)
+                              </span>
+                            </td>
+                            <td className="py-3 text-slate-500 font-semibold">{formatDateBR(st.due_date)}</td>
+                            <td className="py-3 text-right font-black text-slate-700">R$ {st.total.toFixed(2)}</td>
+                            <td className="py-3 text-right text-slate-500 font-semibold">R$ {st.paid.toFixed(2)}</td>
+                            <td className="py-3 text-right">
+                              <span className={`text-[10px] font-black uppercase px-2 py-1 rounded-lg ${STATEMENT_STATUS_STYLES[st.status].badge}`}>
+                                {STATEMENT_STATUS_STYLES[st.status].label}
+                              </span>
+                            </td>
+                            <td className="py-3 text-right">
+                              {st.remaining > 0 && (
+                                <button
+                                  onClick={() => payStatement(st, payFromAccount === '' ? null : payFromAccount)}
+                                  className="px-4 py-1.5 text-xs font-bold text-emerald-600 bg-emerald-50 rounded-xl hover:bg-emerald-100 transition-colors"
+                                >
+                                  Pagar R$ {st.remaining.toFixed(2)}
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Importação de Extratos */}
+            {view === 'import' && (
+              <div className="space-y-10">
+                <div className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                  <div className="mb-8">
+                    <h3 className="text-xl font-bold text-slate-800">Importar Extrato</h3>
+                    <p className="text-slate-400 text-sm mt-1">Envie o arquivo OFX ou CSV do banco, revise a prévia e confirme.</p>
+                  </div>
+
+                  <label className="flex flex-col items-center justify-center gap-3 p-8 border-2 border-dashed border-slate-200 rounded-[2rem] bg-slate-50 hover:border-emerald-300 hover:bg-emerald-50/40 transition-all cursor-pointer">
+                    <ArrowUpTrayIcon className="w-8 h-8 text-emerald-500" />
+                    <span className="text-sm font-bold text-slate-600">{importFileName || 'Selecionar arquivo .ofx ou .csv'}</span>
+                    <input type="file" accept=".ofx,.csv,.txt" onChange={handleImportFile} className="hidden" />
+                  </label>
+
+                  {importContent && (
+                    <div className="mt-8 space-y-6">
+                      <div className="grid grid-cols-2 bg-slate-100 p-1 rounded-2xl max-w-xs">
+                        {(['csv', 'ofx'] as const).map(f => (
+                          <button
+                            key={f}
+                            type="button"
+                            onClick={() => setImportFormat(f)}
+                            className={`py-2 rounded-xl text-sm font-bold uppercase transition-all ${importFormat === f ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                          >
+                            {f}
+                          </button>
+                        ))}
+                      </div>
+
+                      {importFormat === 'csv' && (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <div className="space-y-1.5">
+                            <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">Separador</label>
+                            <select
+                              value={importOptions.delimiter}
+                              onChange={e => setImportOptions({ ...importOptions, delimiter: e.target.value })}
+                              className="w-full px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none text-slate-600 font-medium"
+                            >
+                              <option value=";">Ponto e vírgula (;)</option>
+                              <option value=",">Vírgula (,)</option>
+                              <option value={'\t'}>Tabulação</option>
+                            </select>
+                          </div>
+                          <div className="space-y-1.5">
+                            <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">Formato da data</label>
+                            <select
+                              value={importOptions.dateFormat}
+                              onChange={e => setImportOptions({ ...importOptions, dateFormat: e.target.value as ImportOptions['dateFormat'] })}
+                              className="w-full px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none text-slate-600 font-medium"
+                            >
+                              <option value="dd/mm/yyyy">dd/mm/aaaa</option>
+                              <option value="yyyy-mm-dd">aaaa-mm-dd</option>
+                              <option value="mm/dd/yyyy">mm/dd/aaaa</option>
+                            </select>
+                          </div>
+                          <div className="space-y-1.5">
+                            <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">Despesas são</label>
+                            <select
+                              value={importOptions.sign}
+                              onChange={e => setImportOptions({ ...importOptions, sign: e.target.value as ImportOptions['sign'] })}
+                              className="w-full px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none text-slate-600 font-medium"
+                            >
+                              <option value="negative">Valores negativos (conta)</option>
+                              <option value="positive">Valores positivos (fatura)</option>
+                              <option value="all">Todas as linhas</option>
+                            </select>
+                          </div>
+                          {(['date', 'description', 'amount'] as const).map(key => (
+                            <div key={key} className="space-y-1.5">
+                              <label className="text-[11px] font-bold text-slate-400 uppercase tracking-wider ml-1">
+                                Coluna {key === 'date' ? 'da data' : key === 'description' ? 'da descrição' : 'do valor'}
+                              </label>
+                              <input
+                                type="text"
+                                value={importColumns[key]}
+                                onChange={e => setImportColumns({ ...importColumns, [key]: e.target.value })}
+                                placeholder="Automático (nome ou nº)"
+                                className="w-full px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all placeholder:text-slate-300"
+                              />
+                            </div>
+                          ))}
+                          <label className="flex items-center gap-3 ml-1 cursor-pointer select-none">
+                            <input
+                              type="checkbox"
+                              checked={importOptions.decimalComma}
+                              onChange={e => setImportOptions({ ...importOptions, decimalComma: e.target.checked })}
+                              className="w-4 h-4 rounded accent-emerald-600"
+                            />
+                            <span className="text-sm font-semibold text-slate-600">Vírgula decimal (1.234,56)</span>
+                          </label>
+                          <label className="flex items-center gap-3 ml-1 cursor-pointer select-none">
+                            <input
+                              type="checkbox"
+                              checked={importOptions.hasHeader}
+                              onChange={e => setImportOptions({ ...importOptions, hasHeader: e.target.checked })}
+                              className="w-4 h-4 rounded accent-emerald-600"
+                            />
+                            <span className="text-sm font-semibold text-slate-600">Primeira linha é cabeçalho</span>
+                          </label>
+                        </div>
+                      )}
+
+                      <button
+                        type="button"
+                        onClick={previewImport}
+                        className="px-6 py-3 bg-emerald-600 text-white font-bold rounded-2xl hover:bg-emerald-700 transition-all"
+                      >
+                        Pré-visualizar
+                      </button>
+                    </div>
+                  )}
+
+                  {importError && (
+                    <p className="mt-6 text-sm font-bold text-red-500">{importError}</p>
+                  )}
+                </div>
+
+                {importPreview && (
+                  <div className="bg-white rounded-[2.5rem] border border-slate-100 shadow-sm overflow-hidden">
+                    <div className="p-8 border-b border-slate-50 flex flex-wrap items-center justify-between gap-6">
+                      <div>
+                        <h3 className="text-lg font-bold text-slate-800">Prévia da Importação</h3>
+                        <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mt-1">
+                          {importRows.length} lançamento(s) · {importPreview.duplicates} possível(is) duplicata(s) · {importPreview.skipped} crédito(s) ignorado(s)
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-3">
+                        {accounts.some(a => !a.archived) && (
+                          <select
+                            value={importAccount}
+                            onChange={e => setImportAccount(e.target.value === '' ? '' : parseInt(e.target.value))}
+                            className="px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none text-slate-600 font-medium"
+                          >
+                            <option value="">Sem conta</option>
+                            {accounts.filter(a => !a.archived).map(a => (
+                              <option key={a.id} value={a.id}>{a.name}</option>
+                            ))}
+                          </select>
+                        )}
+                        <button
+                          type="button"
+                          onClick={commitImport}
+                          disabled={!importRows.some(r => r.include) || importRows.some(r => r.include && r.category_id === null)}
+                          className="px-6 py-3 bg-emerald-600 text-white font-bold rounded-2xl hover:bg-emerald-700 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          Importar {importRows.filter(r => r.include).length} lançamento(s)
+                        </button>
+                      </div>
+                    </div>
+                    {importPreview.errors.length > 0 && (
+                      <div className="px-8 py-4 bg-amber-50 text-xs font-bold text-amber-700 space-y-1">
+                        {importPreview.errors.map(err => (
+                          <p key={err.line}>Linha {err.line}: {err.error}</p>
+                        ))}
+                      </div>
+                    )}
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-left">
+                        <thead className="bg-slate-50/70">
+                          <tr>
+                            <th className="px-6 py-5"></th>
+                            <th className="px-6 py-5 text-[11px] font-black text-slate-400 uppercase tracking-widest">Data</th>
+                            <th className="px-6 py-5 text-[11px] font-black text-slate-400 uppercase tracking-widest">Descrição</th>
+                            <th className="px-6 py-5 text-[11px] font-black text-slate-400 uppercase tracking-widest">Categoria</th>
+                            <th className="px-6 py-5 text-[11px] font-black text-slate-400 uppercase tracking-widest text-right">Valor</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-50">
+                          {importRows.map(row => (
+                            <tr key={row.line} className={`hover:bg-slate-50 transition-colors ${row.include ? '' : 'opacity-40'}`}>
+                              <td className="px-6 py-4">
+                                <input
+                                  type="checkbox"
+                                  checked={row.include}
+                                  onChange={e => updateImportRow(row.line, { include: e.target.checked })}
+                                  className="w-4 h-4 rounded accent-emerald-600"
+                                />
+                              </td>
+                              <td className="px-6 py-4 text-xs font-bold text-slate-400">{formatDateBR(row.date)}</td>
+                              <td className="px-6 py-4">
+                                <p className="text-sm font-black text-slate-800">{row.description}</p>
+                                {row.duplicate_of && (
+                                  <span className="inline-flex items-center gap-1 text-[10px] text-amber-600 font-bold uppercase tracking-wider">
+                                    <ExclamationTriangleIcon className="w-3.5 h-3.5" />
+                                    Possível duplicata
+                                  </span>
+                                )}
+                                {row.category_source && (
+                                  <span className="ml-2 text-[10px] text-slate-300 font-bold uppercase tracking-wider">
+                                    {row.category_source === 'rule' ? 'Por regra' : 'Pelo histórico'}
+                                  </span>
+                                )}
+                              </td>
+                              <td className="px-6 py-4">
+                                <select
+                                  value={row.category_id ?? ''}
+                                  onChange={e => updateImportRow(row.line, {
+                                    category_id: e.target.value ? parseInt(e.target.value) : null,
+                                    category_source: null
+                                  })}
+                                  className={`px-3 py-2 bg-slate-50 border rounded-xl outline-none text-sm text-slate-600 font-medium ${row.include && row.category_id === null ? 'border-red-300' : 'border-slate-100'}`}
+                                >
+                                  <option value="">Escolha...</option>
+                                  {categories.filter(c => !c.archived).map(cat => (
+                                    <option key={cat.id} value={cat.id}>{cat.parent_id ? `— ${cat.name}` : cat.name}</option>
+                                  ))}
+                                </select>
+                              </td>
+                              <td className="px-6 py-4 text-sm font-black text-slate-900 text-right">
+                                R$ {row.amount.toFixed(2)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
+                <div className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                  <div className="mb-8">
+                    <h3 className="text-xl font-bold text-slate-800">Regras de Categorização</h3>
+                    <p className="text-slate-400 text-sm mt-1">Descrições que contêm o texto recebem a categoria automaticamente.</p>
+                  </div>
+                  <form onSubmit={addCategoryRule} className="flex flex-wrap items-center gap-3 mb-8">
+                    <input
+                      type="text"
+                      value={newRulePattern}
+                      onChange={e => setNewRulePattern(e.target.value)}
+                      placeholder="Ex: UBER"
+                      className="flex-1 min-w-[10rem] px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all placeholder:text-slate-300"
+                    />
+                    <select
+                      value={newRuleCategory}
+                      onChange={e => setNewRuleCategory(e.target.value ? parseInt(e.target.value) : '')}
+                      className="px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none text-slate-600 font-medium"
+                    >
+                      <option value="">Categoria...</option>
+                      {categories.filter(c => !c.archived).map(cat => (
+                        <option key={cat.id} value={cat.id}>{cat.parent_id ? `— ${cat.name}` : cat.name}</option>
+                      ))}
+                    </select>
+                    <button type="submit" className="px-6 py-3 bg-emerald-600 text-white font-bold rounded-2xl hover:bg-emerald-700 transition-all">
+                      Adicionar
+                    </button>
+                  </form>
+                  <ul className="divide-y divide-slate-50">
+                    {categoryRules.map(rule => (
+                      <li key={rule.id} className="py-3 flex items-center justify-between group">
+                        <span className="text-sm font-bold text-slate-700">
+                          "{rule.pattern}"
+                          <span className="ml-2 text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                            → {categories.find(c => c.id === rule.category_id)?.name ?? rule.category}
+                          </span>
+                        </span>
+                        <button
+                          onClick={() => removeCategoryRule(rule.id)}
+                          className="p-2 text-slate-200 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all opacity-0 group-hover:opacity-100"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                    {categoryRules.length === 0 && (
+                      <li className="py-3 text-sm text-slate-400">Nenhuma regra cadastrada.</li>
+                    )}
+                  </ul>
+                </div>
+
+                <div className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                  <div className="mb-8">
+                    <h3 className="text-xl font-bold text-slate-800">Backup e Restauração</h3>
+                    <p className="text-slate-400 text-sm mt-1">Baixe um arquivo com categorias, despesas e orçamentos da família, ou restaure um backup. Nada é apagado: itens com o mesmo id ou mês são sobrescritos.</p>
+                  </div>
+
+                  <div className="flex flex-wrap gap-3">
+                    <button
+                      type="button"
+                      onClick={downloadBackup}
+                      className="flex items-center gap-2 px-6 py-3 bg-emerald-600 text-white font-bold rounded-2xl hover:bg-emerald-700 transition-all"
+                    >
+                      <ArrowDownTrayIcon className="w-5 h-5" />
+                      Baixar backup
+                    </button>
+                    <label className={`flex items-center gap-2 px-6 py-3 bg-slate-100 text-slate-700 font-bold rounded-2xl hover:bg-slate-200 transition-all cursor-pointer ${isRestoring ? 'opacity-40 pointer-events-none' : ''}`}>
+                      <ArrowUpTrayIcon className="w-5 h-5" />
+                      Restaurar arquivo
+                      <input type="file" accept=".json,application/json" onChange={handleRestoreFile} disabled={isRestoring} className="hidden" />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={restoreFromLocalStorage}
+                      disabled={isRestoring}
+                      className="px-6 py-3 bg-slate-100 text-slate-700 font-bold rounded-2xl hover:bg-slate-200 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      Enviar dados locais deste navegador
+                    </button>
+                  </div>
+
+                  {restoreResult && (
+                    <p className="mt-6 text-sm font-bold text-emerald-600">
+                      {restoreResult.message} {restoreResult.expenses} despesa(s), {restoreResult.budgets + restoreResult.household_budgets} orçamento(s) e {restoreResult.categories_created} categoria(s) nova(s).
+                    </p>
+                  )}
+                  {restoreErrors.length > 0 && (
+                    <div className="mt-6 text-sm font-bold text-red-500 space-y-1">
+                      {restoreErrors.map((err, i) => <p key={i}>{err}</p>)}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Orçamentos */}
+            {view === 'budgets' && (
+              <div className="space-y-10">
+                <div className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                  <div className="mb-10 flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                      <h3 className="text-xl font-bold text-slate-800">Metas de Gastos Mensais</h3>
+                      <p className="text-slate-400 text-sm mt-1">Defina quanto você pretende gastar em cada categoria. O limite vale do mês escolhido em diante.</p>
+                    </div>
+                    <input
+                      type="month"
+                      value={budgetMonth}
+                      onChange={e => e.target.value && setBudgetMonth(e.target.value)}
+                      className="px-4 py-2.5 bg-slate-50 border border-slate-100 rounded-2xl outline-none text-slate-600 font-bold"
+                    />
+                  </div>
+                  {(() => {
+                    const household = effectiveFor<HouseholdBudget>(householdBudgets, budgetMonth);
+                    const stats = budgetHistory?.household?.months.find(m => m.month === budgetMonth);
+                    return (
+                      <div className="mb-8 p-8 bg-emerald-50/60 rounded-[2rem] border border-emerald-100">
+                        <label className="block text-[11px] font-black text-emerald-700 uppercase mb-4 tracking-widest">Orçamento geral da família</label>
+                        <div className="flex flex-wrap items-center gap-6">
+                          <div className="flex-1 min-w-[12rem] flex items-baseline gap-1">
+                            <span className="text-emerald-300 font-black text-xl">R$</span>
+                            <input
+                              type="number"
+                              value={household?.limit || ''}
+                              onChange={e => updateHouseholdBudget({ limit: parseFloat(e.target.value) || 0 })}
+                              placeholder="Definir limite"
+                              className="w-full bg-transparent border-none p-0 text-2xl font-black text-slate-800 focus:ring-0 placeholder:text-slate-300 placeholder:font-bold"
+                            />
+                          </div>
+                          <label className="flex items-center gap-3 cursor-pointer select-none">
+                            <input
+                              type="checkbox"
+                              checked={household?.rollover ?? false}
+                              disabled={!household}
+                              onChange={e => updateHouseholdBudget({ rollover: e.target.checked })}
+                              className="w-4 h-4 rounded accent-emerald-600"
+                            />
+                            <span className="text-sm font-semibold text-slate-600">Acumular sobra</span>
+                          </label>
+                          <label className="flex items-center gap-2 text-sm font-semibold text-slate-600">
+                            Alertas em
+                            <input
+                              key={`${budgetMonth}:${household?.alert_thresholds?.join(',')}`}
+                              type="text"
+                              defaultValue={(household?.alert_thresholds ?? DEFAULT_ALERT_THRESHOLDS).join(', ')}
+                              disabled={!household}
+                              onBlur={e => {
+                                const list = parseThresholds(e.target.value);
+                                if (household && list.join() !== (household.alert_thresholds ?? DEFAULT_ALERT_THRESHOLDS).join()) {
+                                  updateHouseholdBudget({ alert_thresholds: list });
+                                }
+                              }}
+                              className="w-24 px-3 py-1.5 bg-white border border-emerald-100 rounded-xl outline-none text-slate-700 font-bold disabled:opacity-50"
+                            />
+                            %
+                          </label>
                         </div>
+                        {stats && (
+                          <p className="mt-3 text-xs font-semibold text-slate-500">
+                            Gasto R$ {stats.actual.toFixed(2)} de R$ {stats.available.toFixed(2)}
+                            {stats.carry_in !== 0 && ` (${stats.carry_in > 0 ? '+' : '−'}R$ ${Math.abs(stats.carry_in).toFixed(2)} do mês anterior)`}
+                          </p>
+                        )}
                       </div>
+                    );
+                  })()}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                    {categories.filter(c => !c.archived).map(cat => {
+                      const Icon = CATEGORY_ICONS[cat.icon] ?? CreditCardIcon;
+                      const parent = categories.find(c => c.id === cat.parent_id);
+                      const budget = effectiveFor<BudgetGoal>(budgetGoals.filter(g => g.category_id === cat.id), budgetMonth);
+                      const stats = budgetHistory?.categories
+                        .find(c => c.category_id === cat.id)?.months
+                        .find(m => m.month === budgetMonth);
+                      return (
+                        <div key={cat.id} className="group p-8 bg-slate-50 rounded-[2rem] border-2 border-transparent hover:border-emerald-200 hover:bg-white transition-all shadow-sm hover:shadow-xl hover:shadow-emerald-100/50">
+                          <label className="block text-[11px] font-black text-slate-400 uppercase mb-4 tracking-widest">
+                            {parent ? `${parent.name} › ${cat.name}` : cat.name}
+                          </label>
+                          <div className="flex items-center gap-4">
+                            <div className="p-3 rounded-2xl" style={{ backgroundColor: `${cat.color}20` }}>
+                              <Icon className="w-5 h-5" style={{ color: cat.color }} />
+                            </div>
+                            <div className="flex-1 flex items-baseline gap-1">
+                              <span className="text-slate-300 font-black text-xl">R$</span>
+                              <input
+                                type="number"
+                                value={budget?.limit || ''}
+                                onChange={e => updateBudget(cat.id, { limit: parseFloat(e.target.value) || 0 })}
+                                placeholder="Definir limite"
+                                className="w-full bg-transparent border-none p-0 text-2xl font-black text-slate-800 focus:ring-0 placeholder:text-slate-200 placeholder:font-bold"
+                              />
+                            </div>
+                          </div>
+                          {budget && (
+                            <div className="mt-4 flex flex-wrap items-center justify-between gap-2">
+                              <label className="flex items-center gap-2 cursor-pointer select-none">
+                                <input
+                                  type="checkbox"
+                                  checked={budget.rollover ?? false}
+                                  onChange={e => updateBudget(cat.id, { rollover: e.target.checked })}
+                                  className="w-4 h-4 rounded accent-emerald-600"
+                                />
+                                <span className="text-xs font-semibold text-slate-500">Acumular sobra</span>
+                              </label>
+                              <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+                                Alertas em
+                                <input
+                                  key={`${budgetMonth}:${budget.alert_thresholds?.join(',')}`}
+                                  type="text"
+                                  defaultValue={(budget.alert_thresholds ?? DEFAULT_ALERT_THRESHOLDS).join(', ')}
+                                  onBlur={e => {
+                                    const list = parseThresholds(e.target.value);
+                                    if (list.join() !== (budget.alert_thresholds ?? DEFAULT_ALERT_THRESHOLDS).join()) {
+                                      updateBudget(cat.id, { alert_thresholds: list });
+                                    }
+                                  }}
+                                  className="w-20 px-2 py-1 bg-white border border-slate-100 rounded-lg outline-none text-slate-700 font-bold"
+                                />
+                                %
+                              </label>
+                              <span className="text-[11px] font-semibold text-slate-400">
+                                {budget.effective_month !== budgetMonth && 'Mesmo limite dos meses anteriores'}
+                                {stats && stats.carry_in !== 0 && ` ${stats.carry_in > 0 ? '+' : '−'}R$ ${Math.abs(stats.carry_in).toFixed(2)} do mês anterior`}
+                              </span>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {budgetHistory && budgetHistory.categories.length > 0 && (
+                  <div className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                    <div className="mb-8">
+                      <h3 className="text-xl font-bold text-slate-800">Histórico do Orçamento</h3>
+                      <p className="text-slate-400 text-sm mt-1">Gasto x disponível (limite mais a sobra acumulada) em cada mês.</p>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-[11px] font-bold text-slate-400 uppercase tracking-wider">
+                            <th className="text-left pb-3 pr-4">Categoria</th>
+                            {Array.from({ length: 6 }, (_, i) => shiftMonth(budgetHistory.to, i - 5)).map(m => (
+                              <th key={m} className="text-right pb-3 px-2 whitespace-nowrap">{formatMonth(m)}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-50">
+                          {[
+                            ...(budgetHistory.household ? [{ key: 'household', name: 'Geral', color: '#0f172a', months: budgetHistory.household.months }] : []),
+                            ...budgetHistory.categories.map(c => ({ key: String(c.category_id), name: c.category, color: c.color, months: c.months }))
+                          ].map(row => (
+                            <tr key={row.key}>
+                              <td className="py-3 pr-4 font-bold text-slate-700 whitespace-nowrap">
+                                <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: row.color }} />
+                                {row.name}
+                              </td>
+                              {Array.from({ length: 6 }, (_, i) => shiftMonth(budgetHistory.to, i - 5)).map(m => {
+                                const cell = row.months.find(x => x.month === m);
+                                return (
+                                  <td key={m} className="py-3 px-2 text-right whitespace-nowrap">
+                                    {cell ? (
+                                      <>
+                                        <p className={`font-black ${cell.remaining < 0 ? 'text-red-500' : 'text-slate-700'}`}>R$ {cell.actual.toFixed(2)}</p>
+                                        <p className="text-[11px] text-slate-400">de R$ {cell.available.toFixed(2)}</p>
+                                      </>
+                                    ) : (
+                                      <span className="text-slate-200">—</span>
+                                    )}
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
                     </div>
-                  ))}
+                  </div>
+                )}
+
+                <div className="bg-white p-10 rounded-[2.5rem] border border-slate-100 shadow-sm">
+                  <div className="mb-8">
+                    <h3 className="text-xl font-bold text-slate-800">Categorias</h3>
+                    <p className="text-slate-400 text-sm mt-1">Crie categorias e subcategorias; arquive as que não usa mais.</p>
+                  </div>
+                  <form onSubmit={addCategory} className="flex flex-wrap items-center gap-3 mb-8">
+                    <input
+                      type="color"
+                      value={newCategoryColor}
+                      onChange={e => setNewCategoryColor(e.target.value)}
+                      className="w-12 h-12 rounded-xl border border-slate-100 bg-slate-50 cursor-pointer"
+                    />
+                    <input
+                      type="text"
+                      value={newCategoryName}
+                      onChange={e => setNewCategoryName(e.target.value)}
+                      placeholder="Ex: Pets"
+                      className="flex-1 min-w-[10rem] px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none transition-all placeholder:text-slate-300"
+                    />
+                    <select
+                      value={newCategoryParent}
+                      onChange={e => setNewCategoryParent(e.target.value ? parseInt(e.target.value) : '')}
+                      className="px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl outline-none text-slate-600 font-medium"
+                    >
+                      <option value="">Categoria principal</option>
+                      {categories.filter(c => c.parent_id === null && !c.archived).map(c => (
+                        <option key={c.id} value={c.id}>Subcategoria de {c.name}</option>
+                      ))}
+                    </select>
+                    <button type="submit" className="px-6 py-3 bg-emerald-600 text-white font-bold rounded-2xl hover:bg-emerald-700 transition-all">
+                      Adicionar
+                    </button>
+                  </form>
+                  <ul className="divide-y divide-slate-50">
+                    {categories.map(cat => {
+                      const Icon = CATEGORY_ICONS[cat.icon] ?? TagIcon;
+                      return (
+                        <li key={cat.id} className={`py-3 flex items-center justify-between ${cat.parent_id ? 'pl-8' : ''} ${cat.archived ? 'opacity-40' : ''}`}>
+                          <span className="flex items-center gap-3 text-sm font-bold text-slate-700">
+                            <Icon className="w-4 h-4" style={{ color: cat.color }} />
+                            {cat.name}
+                          </span>
+                          <button
+                            onClick={() => toggleArchiveCategory(cat)}
+                            className="flex items-center gap-1.5 text-xs font-bold text-slate-400 hover:text-emerald-600 transition-colors"
+                          >
+                            <ArchiveBoxIcon className="w-4 h-4" />
+                            {cat.archived ? 'Reativar' : 'Arquivar'}
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
                 </div>
               </div>
             )}
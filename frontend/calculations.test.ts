@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { totalSpent, categoryData, effectiveFor } from './calculations.js';
+import type { Expense, Category, BudgetGoal, SpendingForecast } from './types';
+
+const category = (id: number, name: string, parent_id: number | null = null): Category => ({
+  id, name, color: `#00000${id}`, icon: 'tag', parent_id, archived: false,
+});
+
+let seq = 0;
+const expense = (category_id: number, amount: number): Expense => ({
+  id: String(++seq), description: 'Despesa', amount, category_id, category: '', date: '2026-03-10', isRecurring: false,
+});
+
+const categories = [
+  category(1, 'Alimentação'),
+  category(2, 'Lazer'),
+  category(3, 'Saúde'),
+  category(4, 'Padaria', 1),
+  category(5, 'Cinema', 2),
+];
+
+test('totalSpent soma os valores', () => {
+  assert.equal(totalSpent([]), 0);
+  assert.equal(totalSpent([expense(1, 10.5), expense(2, 4.25)]), 14.75);
+});
+
+test('effectiveFor escolhe o período vigente no mês', () => {
+  const periods = [{ effective_month: '2026-01' }, { effective_month: '2026-04' }, { effective_month: '2026-02' }];
+  assert.equal(effectiveFor(periods, '2026-03')?.effective_month, '2026-02');
+  assert.equal(effectiveFor(periods, '2026-04')?.effective_month, '2026-04');
+  assert.equal(effectiveFor(periods, '2025-12'), undefined);
+  assert.deepEqual(effectiveFor([{}], '2026-03'), {});
+});
+
+test('categoryData soma subcategorias na categoria pai', () => {
+  const data = categoryData([expense(1, 30), expense(4, 20), expense(5, 15)], categories, [], null, '2026-03');
+  assert.deepEqual(data.map(d => [d.name, d.value]), [['Alimentação', 50], ['Lazer', 15]]);
+  assert.ok(data.every(d => d.limit === 0 && d.percent === 0));
+});
+
+test('categoryData usa o orçamento vigente no mês', () => {
+  const budgets: BudgetGoal[] = [
+    { category_id: 1, limit: 100, effective_month: '2026-01' },
+    { category_id: 1, limit: 200, effective_month: '2026-03' },
+    { category_id: 1, limit: 999, effective_month: '2026-04' },
+  ];
+  const [food] = categoryData([expense(1, 50)], categories, budgets, null, '2026-03');
+  assert.equal(food.limit, 200);
+  assert.equal(food.percent, 25);
+});
+
+test('categoryData: pai sem orçamento próprio usa a soma das subcategorias', () => {
+  const budgets: BudgetGoal[] = [
+    { category_id: 4, limit: 40, effective_month: '2026-01' },
+    { category_id: 5, limit: 60, effective_month: '2026-01' },
+    { category_id: 2, limit: 500, effective_month: '2026-01' },
+  ];
+  const data = categoryData([expense(4, 10)], categories, budgets, null, '2026-03');
+  const byName = Object.fromEntries(data.map(d => [d.name, d]));
+  assert.equal(byName['Alimentação'].limit, 40);
+  assert.equal(byName['Alimentação'].percent, 25);
+  assert.equal(byName['Lazer'].limit, 500);
+  assert.equal(byName['Saúde'], undefined);
+});
+
+test('categoryData mantém categorias só com projeção', () => {
+  const forecast = {
+    by_category: [{ category_id: 3, projected: 80 }],
+  } as SpendingForecast;
+  const data = categoryData([], categories, [], forecast, '2026-03');
+  assert.deepEqual(data.map(d => [d.name, d.value, d.projected]), [['Saúde', 0, 80]]);
+});
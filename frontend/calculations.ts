@@ -0,0 +1,68 @@
+import type { Expense, Category, BudgetGoal, SpendingForecast } from './types';
+
+// ─── Cálculos do painel ─────────────────────────────────────
+// Funções puras usadas pelos useMemo de App.tsx, separadas para
+// serem testadas sem montar o componente.
+
+export const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+// Período vigente no mês: o de maior effective_month que não
+// passa dele (caches sem effective_month valem desde sempre).
+export function effectiveFor<T extends { effective_month?: string }>(periods: T[], month: string): T | undefined {
+  return periods
+    .filter(p => (p.effective_month ?? '') <= month)
+    .sort((a, b) => (b.effective_month ?? '').localeCompare(a.effective_month ?? ''))[0];
+}
+
+export function totalSpent(expenses: Expense[]): number {
+  return expenses.reduce((acc, curr) => acc + curr.amount, 0);
+}
+
+export interface CategoryDatum {
+  name: string;
+  color: string;
+  value: number;
+  limit: number;
+  projected: number | null;
+  percent: number;
+}
+
+// Subcategorias somam na categoria pai (mesma regra do rollup
+// de /api/reports/summary): o pai sem orçamento próprio usa a
+// soma dos orçamentos das subcategorias.
+export function categoryData(
+  expenses: Expense[],
+  categories: Category[],
+  budgetGoals: BudgetGoal[],
+  forecast: SpendingForecast | null,
+  month: string = currentMonth()
+): CategoryDatum[] {
+  const monthBudgets = categories
+    .map(c => effectiveFor<BudgetGoal>(budgetGoals.filter(b => b.category_id === c.id), month))
+    .filter((b): b is BudgetGoal => b !== undefined);
+  const rootOf = (id: number) => {
+    const cat = categories.find(c => c.id === id);
+    return cat?.parent_id ?? id;
+  };
+  const dataMap: Record<number, { name: string, color: string, spent: number, limit: number, projected: number | null }> = {};
+  categories.filter(c => c.parent_id === null).forEach(cat => {
+    const own = monthBudgets.find(g => g.category_id === cat.id);
+    const children = monthBudgets
+      .filter(g => categories.find(c => c.id === g.category_id)?.parent_id === cat.id)
+      .reduce((acc, g) => acc + g.limit, 0);
+    const projection = forecast?.by_category.find(f => f.category_id === cat.id);
+    dataMap[cat.id] = { name: cat.name, color: cat.color, spent: 0, limit: own ? own.limit : children, projected: projection ? projection.projected : null };
+  });
+  expenses.forEach(exp => {
+    const root = rootOf(exp.category_id);
+    if (dataMap[root]) dataMap[root].spent += exp.amount;
+  });
+  return Object.values(dataMap).map(data => ({
+    name: data.name,
+    color: data.color,
+    value: data.spent,
+    limit: data.limit,
+    projected: data.projected,
+    percent: data.limit > 0 ? (data.spent / data.limit) * 100 : 0
+  })).filter(d => d.value > 0 || d.limit > 0 || (d.projected ?? 0) > 0);
+}
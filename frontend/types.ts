@@ -1,12 +1,19 @@
 
-export enum Category {
-  FOOD = 'Alimentação',
-  TRANSPORT = 'Transporte',
-  HOUSING = 'Moradia',
-  UTILITIES = 'Contas Fixas',
-  ENTERTAINMENT = 'Lazer',
-  HEALTH = 'Saúde',
-  EDUCATION = 'Educação',
+export interface Category {
+  id: number;
+  name: string;
+  color: string;
+  icon: string;
+  parent_id: number | null;
+  archived: boolean;
+  version?: number;
+}
+
+export enum IncomeSource {
+  SALARY = 'Salário',
+  FREELANCE = 'Freelance',
+  REFUND = 'Reembolso',
+  INVESTMENTS = 'Investimentos',
   OTHERS = 'Outros'
 }
 
@@ -14,14 +21,440 @@ export interface Expense {
   id: string;
   description: string;
   amount: number;
-  category: Category;
+  category_id: number;
+  category: string;
+  category_color?: string;
+  account_id?: number | null;
+  payment_method?: PaymentMethod | null;
+  statement_month?: string | null;
   date: string;
   isRecurring: boolean;
+  recurring_rule_id?: string | null;
+  installment_plan_id?: string | null;
+  installment_number?: number | null;
+  installment_count?: number | null;
+  payee?: string | null;
+  notes?: string | null;
+  tags?: string[];
+  receipt_count?: number;
+  paid_by?: string | null;
+  paid_by_name?: string | null;
+  split_type?: SplitType | null;
+  splits?: ExpenseSplitShare[];
+  created_by?: string | null;
+  created_by_name?: string | null;
+  version?: number;
+}
+
+// Colunas aceitas em GET /api/expenses?sort=
+export type ExpenseSort = 'date' | 'amount' | 'description';
+
+export interface StatementFilters {
+  categories: number[];
+  minAmount: string;
+  maxAmount: string;
+  recurring: '' | 'true' | 'false';
+  sort: ExpenseSort;
+  dir: 'asc' | 'desc';
+}
+
+// Página de GET /api/expenses; next_cursor é null na última
+export interface ExpensePage {
+  data: Expense[];
+  total: number;
+  limit: number;
+  next_cursor: string | null;
+}
+
+// equal: partes iguais; percent: percentuais; exact: valores
+export type SplitType = 'equal' | 'percent' | 'exact';
+
+export interface ExpenseSplitShare {
+  user_id: string;
+  amount: number;
+}
+
+export interface MemberBalance {
+  user_id: string;
+  name: string;
+  paid: number;
+  share: number;
+  settled_out: number;
+  settled_in: number;
+  net: number;
+}
+
+export interface Settlement {
+  id: number;
+  from_user_id: string;
+  to_user_id: string;
+  from_name?: string;
+  to_name?: string;
+  amount: number;
+  date: string;
+  note: string | null;
+}
+
+export interface SettlementsResponse {
+  balances: MemberBalance[];
+  transfers: { from_user_id: string; from_name: string; to_user_id: string; to_name: string; amount: number }[];
+  history: Settlement[];
+}
+
+export interface ExpenseReceipt {
+  id: number;
+  expense_id: string;
+  filename: string;
+  content_type: string;
+  size: number;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export interface TagReportEntry {
+  tag_id: number;
+  tag: string;
+  total: number;
+  count: number;
+  first_date: string;
+  last_date: string;
+  by_category: { category_id: number; category: string; color: string; total: number; count: number }[];
+}
+
+export interface Income {
+  id: string;
+  description: string;
+  amount: number;
+  source: IncomeSource;
+  account_id?: number | null;
+  date: string;
+  version?: number;
+}
+
+export type AccountType = 'checking' | 'cash' | 'credit_card';
+
+export type PaymentMethod = 'pix' | 'debit' | 'credit' | 'cash' | 'transfer' | 'boleto';
+
+export type StatementStatus = 'open' | 'closed' | 'paid' | 'overdue';
+
+export interface CardStatement {
+  account_id: number;
+  month: string;
+  opening_date: string;
+  closing_date: string;
+  due_date: string;
+  total: number;
+  paid: number;
+  remaining: number;
+  count: number;
+  status: StatementStatus;
+}
+
+export interface Account {
+  id: number;
+  name: string;
+  type: AccountType;
+  opening_balance: number;
+  credit_limit: number | null;
+  closing_day: number | null;
+  due_day: number | null;
+  archived: boolean;
+  balance: number;
+  available_credit: number | null;
+  upcoming_bills?: CardStatement[];
+  version?: number;
 }
 
+export type RecurringFrequency = 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  id: string;
+  description: string;
+  amount: number;
+  category_id: number;
+  category: string;
+  frequency: RecurringFrequency;
+  day_of_month: number | null;
+  start_date: string;
+  end_date: string | null;
+  last_generated: string | null;
+  version?: number;
+}
+
+export interface UpcomingExpense {
+  recurring_rule_id: string;
+  description: string;
+  amount: number;
+  category_id: number;
+  category: string;
+  date: string;
+}
+
+// Um período de orçamento: vale de effective_month ("YYYY-MM") até
+// o próximo período da mesma categoria. Caches antigos não têm
+// effective_month e valem desde sempre.
 export interface BudgetGoal {
-  category: Category;
+  category_id: number;
+  limit: number;
+  effective_month?: string;
+  rollover?: boolean;
+  alert_thresholds?: number[];
+  version?: number;
+}
+
+// Orçamento geral da família (todas as categorias)
+export interface HouseholdBudget {
+  effective_month: string;
   limit: number;
+  rollover: boolean;
+  alert_thresholds?: number[];
+  version?: number;
+}
+
+export interface BudgetHistoryMonth {
+  month: string;
+  effective_month: string;
+  limit: number;
+  rollover: boolean;
+  carry_in: number;
+  available: number;
+  actual: number;
+  remaining: number;
+  pct: number | null;
+}
+
+export interface BudgetHistory {
+  from: string;
+  to: string;
+  categories: {
+    category_id: number;
+    category: string;
+    color: string;
+    parent_id: number | null;
+    months: BudgetHistoryMonth[];
+  }[];
+  household: { months: BudgetHistoryMonth[] } | null;
+}
+
+// Entidades sincronizadas por /api/changes; "key" das operações
+// pendentes é "<entidade>:<id>" (orçamentos usam
+// "<category_id>:<effective_month>" e os gerais, o mês).
+export interface InstallmentPlan {
+  id: string;
+  description: string;
+  total_amount: number;
+  installments: number;
+  category_id: number;
+  category?: string;
+  account_id: number | null;
+  payment_method: PaymentMethod | null;
+  first_date: string;
+  cancelled_at: string | null;
+  version?: number;
+}
+
+export interface InstallmentCommitments {
+  from: string;
+  to: string;
+  total: number;
+  months: {
+    month: string;
+    total: number;
+    count: number;
+    items: {
+      expense_id: string;
+      plan_id: string;
+      description: string;
+      installment_number: number;
+      installment_count: number;
+      amount: number;
+      date: string;
+      account_id: number | null;
+    }[];
+  }[];
+}
+
+export type ForecastMethod = 'actual' | 'profile' | 'pace' | 'history';
+
+export interface CategoryForecast {
+  category_id: number;
+  category: string;
+  color: string;
+  parent_id: number | null;
+  spent_to_date: number;
+  scheduled: number;
+  projected: number;
+  low: number;
+  high: number;
+  method: ForecastMethod;
+  budget_available: number;
+  projected_pct: number | null;
+  over_budget: boolean;
+}
+
+export interface SpendingForecast {
+  month: string;
+  as_of: string | null;
+  days_elapsed: number;
+  days_in_month: number;
+  history_months: number;
+  total: {
+    spent_to_date: number;
+    scheduled: number;
+    projected: number;
+    low: number;
+    high: number;
+    budget_available: number | null;
+    over_budget: boolean;
+  };
+  by_category: CategoryForecast[];
+}
+
+export type ExpenseFlagKind = 'outlier' | 'duplicate';
+
+export interface ExpenseFlag {
+  id: number;
+  kind: ExpenseFlagKind;
+  expense_id: string;
+  related_expense_id: string | null;
+  score: number;
+  reason: string;
+  status: 'open' | 'dismissed';
+  created_at: string;
+  expense: Expense | null;
+  related: Expense | null;
+}
+
+export interface AnomaliesResponse {
+  from: string;
+  scanned: number;
+  created: number;
+  flags: ExpenseFlag[];
+}
+
+export interface GoalContribution {
+  id: number;
+  goal_id: number;
+  amount: number;
+  date: string;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface SavingsGoal {
+  id: number;
+  name: string;
+  target_amount: number;
+  deadline: string | null;
+  color: string;
+  archived: boolean;
+  saved: number;
+  remaining: number;
+  pct: number;
+  monthly_pace: number;
+  average_net: number | null;
+  required_monthly: number | null;
+  months_left: number | null;
+  projection_basis: 'contributions' | 'household_net' | null;
+  projected_completion: string | null;
+  at_risk: boolean;
+  status: 'achieved' | 'at_risk' | 'on_track';
+  contributions?: GoalContribution[];
+  version?: number;
+}
+
+export type SyncEntity =
+  | 'expenses' | 'incomes' | 'budgets' | 'household_budgets' | 'categories' | 'recurring' | 'installments';
+
+export interface PendingMutation {
+  id: string;
+  method: 'POST' | 'PUT' | 'DELETE';
+  path: string;
+  body?: Record<string, unknown>;
+  key: string;
+  label: string;
+  created_at: string;
+}
+
+export interface SyncConflict {
+  id: string;
+  mutation: PendingMutation;
+  current: Record<string, any> | null;
+  message: string;
+}
+
+export interface ChangeFeed {
+  server_time: string;
+  full: boolean;
+  expenses: Expense[];
+  incomes: Income[];
+  budgets: {
+    category_id: number;
+    effective_month: string;
+    monthly_limit: number;
+    rollover: boolean;
+    alert_thresholds: number[];
+    version: number;
+  }[];
+  household_budgets: {
+    effective_month: string;
+    monthly_limit: number;
+    rollover: boolean;
+    alert_thresholds: number[];
+    version: number;
+  }[];
+  categories: Category[];
+  recurring: RecurringRule[];
+  installments: InstallmentPlan[];
+  deleted: { entity: SyncEntity; id: string; deleted_at: string }[];
+}
+
+export type ImportFormat = 'ofx' | 'csv';
+
+export interface ImportOptions {
+  delimiter: string;
+  decimalComma: boolean;
+  dateFormat: 'dd/mm/yyyy' | 'mm/dd/yyyy' | 'yyyy-mm-dd';
+  hasHeader: boolean;
+  sign: 'negative' | 'positive' | 'all';
+  columns?: Partial<Record<'date' | 'description' | 'amount', string | number>>;
+}
+
+export interface ImportPreviewRow {
+  line: number;
+  date: string;
+  description: string;
+  amount: number;
+  category_id: number | null;
+  category_source: 'rule' | 'history' | null;
+  rule_id: number | null;
+  duplicate_of: string | null;
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  rows: ImportPreviewRow[];
+  errors: { line: number; error: string }[];
+  skipped: number;
+  duplicates: number;
+}
+
+// Resposta de POST /api/restore
+export interface RestoreResult {
+  message: string;
+  categories_created: number;
+  expenses: number;
+  budgets: number;
+  household_budgets: number;
+}
+
+export interface CategoryRule {
+  id: number;
+  pattern: string;
+  category_id: number;
+  category?: string;
+  priority: number;
 }
 
 export interface AIInsight {
@@ -29,3 +462,46 @@ export interface AIInsight {
   content: string;
   severity: 'low' | 'medium' | 'high';
 }
+
+export interface InsightsResponse {
+  month: string;
+  provider: 'gemini' | 'rules' | 'none';
+  cached: boolean;
+  generated_at: string;
+  insights: AIInsight[];
+}
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  invite_code: string;
+}
+
+export interface AuthSession {
+  token: string;
+  user: User;
+  household: Household;
+}
+
+// type: 'budget_alert' (limiar de orçamento atingido) ou 'test'
+export interface AppNotification {
+  id: number;
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, any> | null;
+  read: boolean;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationsResponse {
+  unread_count: number;
+  notifications: AppNotification[];
+}